@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { getAgent, logAgentEvolution, updateAgent } from "@/lib/db/agentDb";
+import { getEvolutionProposal, getPendingEvolutionProposals, reviewEvolutionChange } from "@/lib/db/evolutionDb";
+import { getApiKeys } from "@/lib/db/settingsDb";
+import { proposeAgentEvolution } from "@/lib/evolution/evolutionJob";
+import { EVOLUTION_FIELD_LABELS, getEvolutionUpdate, isStaleEvolutionChange } from "@/lib/evolution/proposals";
+import { checkBudgetLimit } from "@/lib/usage/budget";
+import type { EvolutionField } from "@/types/evolution";
+
+// GET /api/agents/[id]/evolution - Proposals waiting for review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const proposals = await getPendingEvolutionProposals(id, userId);
+    return NextResponse.json({ proposals });
+  } catch (error) {
+    console.error("Failed to load evolution proposals:", error);
+    return NextResponse.json(
+      { error: "Failed to load evolution proposals", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/agents/[id]/evolution - Analyze the agent now and propose changes
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const agent = await getAgent(id, userId);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    // One proposal under review at a time - finish reviewing it before analyzing again
+    const [pending] = await getPendingEvolutionProposals(id, userId);
+    if (pending) {
+      return NextResponse.json(
+        { error: "A proposal is already waiting for review", proposal: pending },
+        { status: 409 }
+      );
+    }
+
+    // Analysis runs on the quality model - respect the user's hard budget limit
+    const budgetResponse = await checkBudgetLimit(userId, "agent-evolution");
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
+    const { anthropic: apiKey } = await getApiKeys(userId);
+    const proposal = await proposeAgentEvolution(agent, { apiKey });
+
+    if (!proposal) {
+      return NextResponse.json({
+        proposal: null,
+        message: "No improvements to propose yet - the agent needs more conversations",
+      });
+    }
+
+    return NextResponse.json({ proposal }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to analyze agent:", error);
+    return NextResponse.json(
+      { error: "Failed to analyze agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/agents/[id]/evolution - Accept or reject one proposed field change
+// Body: { proposalId: string, field: EvolutionField, decision: "accept" | "reject" }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const { proposalId, field, decision } = await request.json();
+
+    if (typeof proposalId !== "string" || !ObjectId.isValid(proposalId) || !ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid proposal ID" }, { status: 400 });
+    }
+    if (!(field in EVOLUTION_FIELD_LABELS)) {
+      return NextResponse.json({ error: "Invalid field" }, { status: 400 });
+    }
+    if (decision !== "accept" && decision !== "reject") {
+      return NextResponse.json({ error: "Decision must be 'accept' or 'reject'" }, { status: 400 });
+    }
+
+    const proposal = await getEvolutionProposal(proposalId, userId);
+    const change = proposal?.changes.find((candidate) => candidate.field === field && candidate.status === "pending");
+    if (!proposal || proposal.agentId !== id || !change) {
+      return NextResponse.json({ error: "Pending change not found" }, { status: 404 });
+    }
+
+    let agent = null;
+    if (decision === "accept") {
+      const current = await getAgent(id, userId);
+      if (!current) {
+        return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+      }
+
+      if (isStaleEvolutionChange(current, proposal, change)) {
+        return NextResponse.json(
+          {
+            error: `The agent's ${EVOLUTION_FIELD_LABELS[field as EvolutionField].toLowerCase()} was edited after this proposal was made - reject it and analyze again`,
+          },
+          { status: 409 }
+        );
+      }
+
+      const improvement = `Accepted proposed ${EVOLUTION_FIELD_LABELS[field as EvolutionField].toLowerCase()} change`;
+      agent = await updateAgent(id, userId, getEvolutionUpdate(current, change), improvement);
+      await logAgentEvolution(id, {
+        improvement,
+        reason: proposal.reasoning || "Evolution review",
+        changedFields: [field === "facts" || field === "sources" ? "knowledgeBase" : field],
+      });
+      agent = await getAgent(id, userId);
+    }
+
+    const reviewed = await reviewEvolutionChange(
+      proposalId,
+      userId,
+      field as EvolutionField,
+      decision === "accept" ? "accepted" : "rejected"
+    );
+
+    return NextResponse.json({ proposal: reviewed, agent });
+  } catch (error) {
+    console.error("Failed to review evolution change:", error);
+    return NextResponse.json(
+      { error: "Failed to review evolution change", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { exportAgentBundle } from "@/lib/bundles/agentBundle";
+
+// GET /api/agents/[id]/export - Download the agent and its skills as a bundle
+// GET /api/agents/[id]/export?history=true - Include the evolution history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const includeHistory = new URL(request.url).searchParams.get("history") === "true";
+    const bundle = await exportAgentBundle(id, userId, { includeHistory });
+    if (!bundle) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    const filename = `${bundle.agent.name.replace(/[^a-z0-9]/gi, "_")}.agent.json`;
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to export agent:", error);
+    return NextResponse.json(
+      { error: "Failed to export agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
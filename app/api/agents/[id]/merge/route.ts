@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { findDuplicateAgents } from "@/lib/ai/agentDuplicates";
+import { getUserAgents, mergeAgents } from "@/lib/db/agentDb";
+
+// GET /api/agents/[id]/merge - Near-duplicates of this agent (merge candidates)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const agents = await getUserAgents(userId);
+    const agent = agents.find((candidate) => candidate._id === id);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found" }, { status: 404 });
+    }
+
+    const duplicates = findDuplicateAgents(agent, agents);
+    return NextResponse.json({ duplicates });
+  } catch (error) {
+    console.error("Failed to find duplicate agents:", error);
+    return NextResponse.json(
+      { error: "Failed to find duplicate agents", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/agents/[id]/merge - Merge another agent into this one
+// Body: { sourceAgentId: string } (deleted after the merge)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const { sourceAgentId } = await request.json();
+
+    if (!ObjectId.isValid(id) || typeof sourceAgentId !== "string" || !ObjectId.isValid(sourceAgentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+    if (id === sourceAgentId) {
+      return NextResponse.json({ error: "Cannot merge an agent into itself" }, { status: 400 });
+    }
+
+    const result = await mergeAgents(id, sourceAgentId, userId);
+    if (!result) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Failed to merge agents:", error);
+    return NextResponse.json(
+      { error: "Failed to merge agents", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { getAgent } from "@/lib/db/agentDb";
+import { createAgentShare, getAgentShares, revokeAgentShare } from "@/lib/db/shareDb";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// GET /api/agents/[id]/share - Active share links for an agent (owner only)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const agent = await getAgent(id, userId);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    const shares = await getAgentShares(id, userId);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    console.error("Failed to load agent shares:", error);
+    return NextResponse.json(
+      { error: "Failed to load agent shares", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/agents/[id]/share - Create a share link (owner only)
+// Body: { email?: string } - restricts the link to one recipient
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const { email } = await request.json();
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+    if (email !== undefined && email !== null && (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim()))) {
+      return NextResponse.json({ error: "A valid email address is required" }, { status: 400 });
+    }
+    if (typeof email === "string" && email.trim().toLowerCase() === userId.toLowerCase()) {
+      return NextResponse.json({ error: "You cannot share an agent with yourself" }, { status: 400 });
+    }
+
+    const agent = await getAgent(id, userId);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    const share = await createAgentShare({
+      agentId: id,
+      agentName: agent.name,
+      ownerId: userId,
+      email: email || null,
+    });
+    const url = `${request.nextUrl.origin}/share/${share.token}`;
+
+    console.log(`🔗 Shared "${agent.name}"${share.email ? ` with ${share.email}` : " by link"}`);
+    return NextResponse.json({ share, url }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to share agent:", error);
+    return NextResponse.json(
+      { error: "Failed to share agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/agents/[id]/share?shareId=xxx - Revoke a share link (ends its subscriptions)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const shareId = new URL(request.url).searchParams.get("shareId");
+
+    if (!ObjectId.isValid(id) || !shareId || !ObjectId.isValid(shareId)) {
+      return NextResponse.json({ error: "Agent ID and share ID are required" }, { status: 400 });
+    }
+
+    const revoked = await revokeAgentShare(shareId, userId);
+    if (!revoked) {
+      return NextResponse.json({ error: "Share not found or already revoked" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to revoke agent share:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke agent share", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
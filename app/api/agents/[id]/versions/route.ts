@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { getAgent, rollbackAgent } from "@/lib/db/agentDb";
+import { getAgentVersion, getAgentVersions } from "@/lib/db/agentVersionDb";
+import { diffAgentSnapshots, toAgentSnapshot } from "@/lib/evolution/versions";
+
+// GET /api/agents/[id]/versions - Version history
+// GET /api/agents/[id]/versions?from=3&to=5 - Field-level diff (to defaults to the current agent)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const agent = await getAgent(id, userId);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent not found or unauthorized" }, { status: 404 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get("from");
+    if (!from) {
+      const versions = await getAgentVersions(id, userId);
+      return NextResponse.json({ versions, currentVersion: agent.version });
+    }
+
+    const to = searchParams.get("to");
+    const [fromVersion, toVersion] = await Promise.all([
+      getAgentVersion(id, Number(from), userId),
+      to ? getAgentVersion(id, Number(to), userId) : null,
+    ]);
+
+    if (!fromVersion || (to && !toVersion)) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const diff = diffAgentSnapshots(
+      fromVersion.snapshot,
+      toVersion ? toVersion.snapshot : toAgentSnapshot(agent)
+    );
+
+    return NextResponse.json({
+      from: fromVersion.version,
+      to: toVersion ? toVersion.version : agent.version,
+      diff,
+    });
+  } catch (error) {
+    console.error("Failed to load agent versions:", error);
+    return NextResponse.json(
+      { error: "Failed to load agent versions", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/agents/[id]/versions - Roll back to a saved version
+// Body: { version: number }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const { version } = await request.json();
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+    if (!Number.isInteger(version)) {
+      return NextResponse.json({ error: "Version is required" }, { status: 400 });
+    }
+
+    const agent = await rollbackAgent(id, userId, version);
+    if (!agent) {
+      return NextResponse.json({ error: "Agent or version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ agent });
+  } catch (error) {
+    console.error("Failed to roll back agent:", error);
+    return NextResponse.json(
+      { error: "Failed to roll back agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
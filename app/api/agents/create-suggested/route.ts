@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { generateAgentProfile } from "@/lib/ai/agentCreator";
-import { createAgent } from "@/lib/db/agentDb";
-import { getApiKeys } from "@/lib/db/settingsDb";
+import { findDuplicateAgents } from "@/lib/ai/agentDuplicates";
+import { createAgent, getUserAgents } from "@/lib/db/agentDb";
+import { getApiKeys, getUserSettings } from "@/lib/db/settingsDb";
+import { resolveModelSelection } from "@/lib/ai/providers";
 import { searchWeb, formatSearchResults } from "@/lib/search/webSearch";
+import { checkBudgetLimit } from "@/lib/usage/budget";
 
 // POST /api/agents/create-suggested - Create agent from suggestion
 export async function POST(request: NextRequest) {
@@ -31,7 +34,7 @@ export async function POST(request: NextRequest) {
       environment: process.env.NODE_ENV,
     });
 
-    const { topic, originalQuestion } = await request.json();
+    const { topic, originalQuestion, allowDuplicate } = await request.json();
 
     console.log("📥 Received agent creation request for topic:", topic);
     console.log("📥 Original question:", originalQuestion);
@@ -44,6 +47,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Agent generation is a paid call - respect the user's hard budget limit
+    const budgetResponse = await checkBudgetLimit(userId, "agent-creation");
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     // Extract clean topic name from suggestion (before colon if present)
     // e.g., "Elon Musk - Tesla CEO: An AI agent..." -> "Elon Musk - Tesla CEO"
     const colonIndex = topic.indexOf(':');
@@ -51,6 +60,19 @@ export async function POST(request: NextRequest) {
     const suggestionContext = colonIndex > 0 ? topic.substring(colonIndex + 1).trim() : '';
     
     console.log("✅ Topic validated:", { cleanTopic, hasSuggestionContext: !!suggestionContext });
+
+    // Warn before paying for a profile when the user already has this agent
+    const existingAgents = await getUserAgents(userId);
+    if (!allowDuplicate) {
+      const duplicates = findDuplicateAgents({ name: cleanTopic }, existingAgents);
+      if (duplicates.length > 0) {
+        console.log("⚠️ Possible duplicate agent:", duplicates);
+        return NextResponse.json(
+          { error: "A similar agent already exists", duplicates },
+          { status: 409 }
+        );
+      }
+    }
     
     // Get user's API key with fallback to environment variable
     const { anthropic: userApiKey } = await getApiKeys(userId);
@@ -72,7 +94,12 @@ export async function POST(request: NextRequest) {
         contextDescription = `Create an expert agent for: ${cleanTopic}`;
       }
       
-      agentProfile = await generateAgentProfile(cleanTopic, contextDescription, userApiKey);
+      agentProfile = await generateAgentProfile(
+        cleanTopic,
+        contextDescription,
+        userApiKey,
+        resolveModelSelection(await getUserSettings(userId))
+      );
       console.log("✅ Agent profile generated:", agentProfile.name);
     } catch (error) {
       console.error("❌ Failed to generate agent profile:", error);
@@ -113,7 +140,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ agent }, { status: 201 });
+    // The generated profile can still overlap an existing agent - report it
+    const duplicates = findDuplicateAgents(agent, existingAgents);
+
+    return NextResponse.json({ agent, duplicates }, { status: 201 });
   } catch (error) {
     console.error("Create suggested agent error:", error);
     return NextResponse.json(
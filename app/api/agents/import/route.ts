@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { importAgentBundle } from "@/lib/bundles/agentBundle";
+import { AgentBundleError } from "@/lib/bundles/bundleSchema";
+import { BUNDLE_DEFAULTS } from "@/lib/constants";
+
+// POST /api/agents/import - Create an agent from an exported bundle
+// Body: the bundle JSON
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const body = await request.text();
+    if (body.length > BUNDLE_DEFAULTS.MAX_BUNDLE_BYTES) {
+      return NextResponse.json({ error: "Bundle is too large" }, { status: 413 });
+    }
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: "Bundle is not valid JSON" }, { status: 400 });
+    }
+
+    const result = await importAgentBundle(bundle, userId);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof AgentBundleError) {
+      return NextResponse.json(
+        { error: error.message, problems: error.problems },
+        { status: error.status }
+      );
+    }
+    console.error("Failed to import agent:", error);
+    return NextResponse.json(
+      { error: "Failed to import agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getUserAgents, createAgent, deleteAgent, updateAgent } from "@/lib/db/agentDb";
+import { getUserAgents, getAccessibleAgents, createAgent, deleteAgent, updateAgent } from "@/lib/db/agentDb";
 import { generateAgentProfile } from "@/lib/ai/agentCreator";
-import { getApiKeys } from "@/lib/db/settingsDb";
+import { findDuplicateAgents } from "@/lib/ai/agentDuplicates";
+import { validateGenerationSettings, validateModelConfig } from "@/lib/bundles/bundleSchema";
+import { getApiKeys, getUserSettings } from "@/lib/db/settingsDb";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { checkBudgetLimit } from "@/lib/usage/budget";
 
-// GET /api/agents - Get all user's agents
+// GET /api/agents - Get all user's agents, plus the agents shared with them
 export async function GET(request: NextRequest) {
   try {
     const session = await auth();
@@ -12,7 +16,7 @@ export async function GET(request: NextRequest) {
     // For local testing without auth, use a default user
     const userId = session?.user?.email || "demo@localhost.dev";
 
-    const agents = await getUserAgents(userId);
+    const agents = await getAccessibleAgents(userId);
     return NextResponse.json({ agents });
   } catch (error) {
     console.error("Get agents error:", error);
@@ -31,7 +35,7 @@ export async function POST(request: NextRequest) {
     // For local testing without auth, use a default user
     const userId = session?.user?.email || "demo@localhost.dev";
 
-    const { topic, context } = await request.json();
+    const { topic, context, allowDuplicate } = await request.json();
 
     if (!topic || typeof topic !== "string") {
       return NextResponse.json(
@@ -49,11 +53,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Warn before paying for a profile when the user already has this agent
+    if (!allowDuplicate) {
+      const duplicates = findDuplicateAgents({ name: topic }, existingAgents);
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: "A similar agent already exists", duplicates },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Agent generation is a paid call - respect the user's hard budget limit
+    const budgetResponse = await checkBudgetLimit(userId, "agent-creation");
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     // Get user's API key with fallback to environment variable
     const { anthropic: userApiKey } = await getApiKeys(userId);
 
     // Generate agent profile
-    const agentProfile = await generateAgentProfile(topic, context || "", userApiKey);
+    const agentProfile = await generateAgentProfile(
+      topic,
+      context || "",
+      userApiKey,
+      resolveModelSelection(await getUserSettings(userId))
+    );
 
     // Create agent
     const agent = await createAgent(
@@ -69,7 +95,10 @@ export async function POST(request: NextRequest) {
       userId
     );
 
-    return NextResponse.json({ agent }, { status: 201 });
+    // The generated profile can still overlap an existing agent - report it
+    const duplicates = findDuplicateAgents(agent, existingAgents);
+
+    return NextResponse.json({ agent, duplicates }, { status: 201 });
   } catch (error) {
     console.error("Create agent error:", error);
     return NextResponse.json(
@@ -103,7 +132,7 @@ export async function PATCH(request: NextRequest) {
     const updates = await request.json();
 
     // Only allow updating certain fields
-    const allowedFields = ["name", "description", "expertise", "systemPrompt"];
+    const allowedFields = ["name", "description", "expertise", "systemPrompt", "modelConfig", "generationSettings"];
     const filteredUpdates: any = {};
     
     for (const field of allowedFields) {
@@ -119,6 +148,21 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Same rules as imported bundles (supported, priced models; bounded settings)
+    const problems: string[] = [];
+    if (filteredUpdates.modelConfig !== undefined) {
+      filteredUpdates.modelConfig = validateModelConfig(filteredUpdates.modelConfig, problems);
+    }
+    if (filteredUpdates.generationSettings !== undefined) {
+      filteredUpdates.generationSettings = validateGenerationSettings(filteredUpdates.generationSettings, problems);
+    }
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid model settings: ${problems.join("; ")}` },
+        { status: 400 }
+      );
+    }
+
     const updatedAgent = await updateAgent(agentId, userId, filteredUpdates);
 
     if (!updatedAgent) {
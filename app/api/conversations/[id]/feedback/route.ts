@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { recordAnswerFeedback } from "@/lib/chat/answerFeedback";
+
+/**
+ * Rate an assistant reply
+ * Body: { messageId: string, rating: "up" | "down", comment?: string }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+    const { id: sessionId } = await params;
+    const { messageId, rating, comment } = await request.json();
+
+    if (typeof messageId !== "string" || !messageId) {
+      return NextResponse.json({ error: "messageId is required" }, { status: 400 });
+    }
+    if (rating !== "up" && rating !== "down") {
+      return NextResponse.json({ error: "Rating must be 'up' or 'down'" }, { status: 400 });
+    }
+    if (comment !== undefined && typeof comment !== "string") {
+      return NextResponse.json({ error: "Comment must be a string" }, { status: 400 });
+    }
+
+    const feedback = await recordAnswerFeedback(userId, sessionId, messageId, rating, comment);
+    if (!feedback) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ feedback });
+  } catch (error) {
+    console.error("Failed to save feedback:", error);
+    return NextResponse.json(
+      { error: "Failed to save feedback", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
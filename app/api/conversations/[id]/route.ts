@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getConversation } from "@/lib/db/conversationDb";
+import { ObjectId } from "mongodb";
+import { getConversation, setPinnedAgent } from "@/lib/db/conversationDb";
+import { getAccessibleAgent } from "@/lib/db/agentDb";
 
 export async function GET(
   request: NextRequest,
@@ -38,3 +40,59 @@ export async function GET(
     );
   }
 }
+
+/**
+ * Pin or unpin an agent for the rest of the conversation
+ * Body: { pinnedAgentId: string | null }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+    
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    
+    const userId = session?.user?.email || "demo@localhost.dev";
+    const { id: sessionId } = await params;
+    const { pinnedAgentId } = await request.json();
+    
+    if (pinnedAgentId === null) {
+      await setPinnedAgent(sessionId, userId, null);
+      return NextResponse.json({ success: true, pinnedAgentId: null, pinnedAgentName: null });
+    }
+    
+    if (typeof pinnedAgentId !== "string" || !ObjectId.isValid(pinnedAgentId)) {
+      return NextResponse.json(
+        { error: "pinnedAgentId must be an agent ID or null" },
+        { status: 400 }
+      );
+    }
+    
+    const agent = await getAccessibleAgent(pinnedAgentId, userId);
+    if (!agent) {
+      return NextResponse.json(
+        { error: "Agent not found" },
+        { status: 404 }
+      );
+    }
+    
+    await setPinnedAgent(sessionId, userId, pinnedAgentId, agent.name);
+    console.log(`📌 Pinned ${agent.name} to conversation ${sessionId}`);
+    
+    return NextResponse.json({ success: true, pinnedAgentId, pinnedAgentName: agent.name });
+  } catch (error) {
+    console.error("Failed to update pinned agent:", error);
+    return NextResponse.json(
+      { error: "Failed to update pinned agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
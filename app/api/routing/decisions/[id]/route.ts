@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { getRoutingDecision, recordSuggestionOutcome } from "@/lib/db/routingDb";
+import { learnFromSuggestionOutcome } from "@/lib/chat/suggestionFeedback";
+
+// GET /api/routing/decisions/[id] - Explain why an agent was chosen
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid routing decision ID" }, { status: 400 });
+    }
+
+    const decision = await getRoutingDecision(id, userId);
+    if (!decision) {
+      return NextResponse.json({ error: "Routing decision not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ decision });
+  } catch (error) {
+    console.error("Failed to load routing decision:", error);
+    return NextResponse.json(
+      { error: "Failed to load routing decision", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/routing/decisions/[id] - Record accept/decline of the suggestion
+// Body: { outcome: "accepted" | "declined", agentId?: string (agent created on accept) }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { id } = await params;
+    const { outcome, agentId } = await request.json();
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: "Invalid routing decision ID" }, { status: 400 });
+    }
+    if (outcome !== "accepted" && outcome !== "declined") {
+      return NextResponse.json({ error: "outcome must be \"accepted\" or \"declined\"" }, { status: 400 });
+    }
+    if (agentId !== undefined && (typeof agentId !== "string" || !ObjectId.isValid(agentId))) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const decision = await recordSuggestionOutcome(id, userId, outcome, agentId);
+    if (!decision) {
+      // Answered already - the outcome was learned from then, so don't count it twice
+      const existing = await getRoutingDecision(id, userId);
+      if (existing?.suggestion?.outcome) {
+        return NextResponse.json(
+          { error: "Suggestion outcome already recorded", decision: existing },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ error: "Routing decision with a suggestion not found" }, { status: 404 });
+    }
+
+    console.log(`🧾 Suggestion ${outcome}: ${decision.suggestion?.type} "${decision.suggestion?.name}"`);
+
+    // Feed the answer back into future matching
+    try {
+      await learnFromSuggestionOutcome(userId, decision);
+    } catch (error) {
+      console.error("Error learning from suggestion outcome:", error);
+    }
+    return NextResponse.json({ success: true, decision });
+  } catch (error) {
+    console.error("Failed to record suggestion outcome:", error);
+    return NextResponse.json(
+      { error: "Failed to record suggestion outcome", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
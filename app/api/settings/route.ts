@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { getUserSettings, saveUserSettings } from "@/lib/db/settingsDb";
+import { updateBudgetLimits } from "@/lib/db/userDb";
+import { getBaseUrlProblem } from "@/lib/ai/providers/baseUrl";
+import { BUDGET_DEFAULTS, PANEL_DEFAULTS, SUGGESTION_FEEDBACK_DEFAULTS } from "@/lib/constants";
 
 export async function GET(request: NextRequest) {
   try {
@@ -19,6 +22,7 @@ export async function GET(request: NextRequest) {
         hasAnthropic: !!settings?.apiKeys?.anthropic,
         hasElevenLabs: !!settings?.apiKeys?.elevenLabs,
         hasElevenLabsVoiceId: !!settings?.apiKeys?.elevenLabsVoiceId,
+        hasOpenaiCompatible: !!settings?.apiKeys?.openaiCompatible,
       },
       voice: settings?.voice || {
         speed: 1.15,
@@ -34,6 +38,7 @@ export async function GET(request: NextRequest) {
       ai: settings?.ai || {
         responseLength: "concise",
         temperature: 0.3,
+        provider: "anthropic",
       },
       limits: settings?.limits || {
         enabled: false,
@@ -43,6 +48,8 @@ export async function GET(request: NextRequest) {
         requireAuth: true,
       },
       monthlyBudget: settings?.monthlyBudget || 50,
+      budgetAlertThreshold: settings?.budgetAlertThreshold || BUDGET_DEFAULTS.ALERT_THRESHOLD,
+      budgetHardLimit: settings?.budgetHardLimit || false,
     });
   } catch (error) {
     console.error("Settings GET error:", error);
@@ -82,6 +89,47 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (settings.budgetAlertThreshold !== undefined &&
+        (settings.budgetAlertThreshold < 1 || settings.budgetAlertThreshold > 100)) {
+      return NextResponse.json(
+        { error: "Budget alert threshold must be between 1 and 100%" },
+        { status: 400 }
+      );
+    }
+
+    if (settings.ai?.panelSize !== undefined &&
+        (settings.ai.panelSize < PANEL_DEFAULTS.MIN_SIZE || settings.ai.panelSize > PANEL_DEFAULTS.MAX_SIZE)) {
+      return NextResponse.json(
+        { error: `Panel size must be between ${PANEL_DEFAULTS.MIN_SIZE} and ${PANEL_DEFAULTS.MAX_SIZE} agents` },
+        { status: 400 }
+      );
+    }
+
+    if (settings.ai?.matchConfidenceThreshold !== undefined &&
+        (settings.ai.matchConfidenceThreshold < SUGGESTION_FEEDBACK_DEFAULTS.MIN_CONFIDENCE_THRESHOLD ||
+         settings.ai.matchConfidenceThreshold > SUGGESTION_FEEDBACK_DEFAULTS.MAX_CONFIDENCE_THRESHOLD)) {
+      return NextResponse.json(
+        { error: `Match confidence threshold must be between ${SUGGESTION_FEEDBACK_DEFAULTS.MIN_CONFIDENCE_THRESHOLD} and ${SUGGESTION_FEEDBACK_DEFAULTS.MAX_CONFIDENCE_THRESHOLD}` },
+        { status: 400 }
+      );
+    }
+
+    if (settings.ai?.suggestionDeclineLimit !== undefined &&
+        (settings.ai.suggestionDeclineLimit < SUGGESTION_FEEDBACK_DEFAULTS.MIN_DECLINE_LIMIT ||
+         settings.ai.suggestionDeclineLimit > SUGGESTION_FEEDBACK_DEFAULTS.MAX_DECLINE_LIMIT)) {
+      return NextResponse.json(
+        { error: `Suggestion decline limit must be between ${SUGGESTION_FEEDBACK_DEFAULTS.MIN_DECLINE_LIMIT} and ${SUGGESTION_FEEDBACK_DEFAULTS.MAX_DECLINE_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    if (settings.ai?.baseUrl) {
+      const problem = getBaseUrlProblem(settings.ai.baseUrl);
+      if (problem) {
+        return NextResponse.json({ error: problem }, { status: 400 });
+      }
+    }
+
     // Save to database
     console.log("💾 Attempting to save to database...");
     const success = await saveUserSettings(session.user.email, settings);
@@ -95,6 +143,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Keep the user's budget limits (User.usage.limits) in sync
+    await updateBudgetLimits(session.user.email, {
+      monthlyBudget: settings.monthlyBudget,
+      alertThreshold: settings.budgetAlertThreshold,
+      hardLimit: settings.budgetHardLimit,
+    });
+
     console.log("✅ Settings saved successfully");
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { acceptAgentShare, AgentShareError, getShareInvitation } from "@/lib/sharing/agentSharing";
+import type { AgentShareMode } from "@/types/sharing";
+
+const SHARE_MODES: AgentShareMode[] = ["fork", "subscribe"];
+
+// GET /api/shares/[token] - Preview a shared agent before accepting it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const { token } = await params;
+    const invitation = await getShareInvitation(token);
+    return NextResponse.json({ invitation });
+  } catch (error) {
+    if (error instanceof AgentShareError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to load share:", error);
+    return NextResponse.json(
+      { error: "Failed to load share", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/shares/[token] - Accept a shared agent
+// Body: { mode: "fork" | "subscribe" }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const { token } = await params;
+    const { mode } = await request.json();
+
+    if (!SHARE_MODES.includes(mode)) {
+      return NextResponse.json({ error: "Mode must be fork or subscribe" }, { status: 400 });
+    }
+
+    const agent = await acceptAgentShare(token, userId, mode);
+    return NextResponse.json({ agent, mode });
+  } catch (error) {
+    if (error instanceof AgentShareError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Failed to accept share:", error);
+    return NextResponse.json(
+      { error: "Failed to accept share", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ObjectId } from "mongodb";
+import { auth } from "@/lib/auth";
+import { getPendingInvitations, unsubscribeFromAgent } from "@/lib/db/shareDb";
+
+// GET /api/shares - Agents shared with the user by email that they have not accepted yet
+export async function GET() {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const invitations = await getPendingInvitations(userId);
+    return NextResponse.json({ invitations });
+  } catch (error) {
+    console.error("Failed to load shared agents:", error);
+    return NextResponse.json(
+      { error: "Failed to load shared agents", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/shares?agentId=xxx - Unsubscribe from a shared agent
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      return NextResponse.json({ error: "Authentication required" }, { status: 401 });
+    }
+
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    const agentId = new URL(request.url).searchParams.get("agentId");
+    if (!agentId || !ObjectId.isValid(agentId)) {
+      return NextResponse.json({ error: "Invalid agent ID" }, { status: 400 });
+    }
+
+    const removed = await unsubscribeFromAgent(agentId, userId);
+    if (!removed) {
+      return NextResponse.json({ error: "Not subscribed to this agent" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to remove shared agent:", error);
+    return NextResponse.json(
+      { error: "Failed to remove shared agent", details: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { getAgentSkills, createSkill, updateSkill, deleteSkill } from "@/lib/db/skillDb";
-import { getAgent } from "@/lib/db/agentDb";
+import { getAgentSkills, getSkill, createSkill, updateSkill, deleteSkill } from "@/lib/db/skillDb";
+import { getAccessibleAgent, getAgent } from "@/lib/db/agentDb";
 import { generateSkill } from "@/lib/ai/skillMatcher";
 
 // GET /api/skills?agentId=xxx - Get all skills for an agent
@@ -20,8 +20,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Verify agent ownership
-    const agent = await getAgent(agentId, userId);
+    // Verify agent access (shared agents' skills are readable)
+    const agent = await getAccessibleAgent(agentId, userId);
     if (!agent) {
       return NextResponse.json(
         { error: "Agent not found or unauthorized" },
@@ -137,6 +137,15 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Verify agent ownership (skills of shared agents are read-only)
+    const existing = await getSkill(skillId);
+    if (!existing || !(await getAgent(existing.agentId, userId))) {
+      return NextResponse.json(
+        { error: "Skill not found" },
+        { status: 404 }
+      );
+    }
+
     const updates = await request.json();
 
     // Only allow updating certain fields
@@ -181,6 +190,9 @@ export async function PATCH(request: NextRequest) {
 // DELETE /api/skills?id=xxx - Delete a skill
 export async function DELETE(request: NextRequest) {
   try {
+    const session = await auth();
+    const userId = session?.user?.email || "demo@localhost.dev";
+
     const { searchParams } = new URL(request.url);
     const skillId = searchParams.get("id");
 
@@ -191,6 +203,15 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // Verify agent ownership (skills of shared agents are read-only)
+    const existing = await getSkill(skillId);
+    if (!existing || !(await getAgent(existing.agentId, userId))) {
+      return NextResponse.json(
+        { error: "Skill not found" },
+        { status: 404 }
+      );
+    }
+
     const success = await deleteSkill(skillId);
 
     if (!success) {
@@ -3,7 +3,9 @@ import { auth } from "@/lib/auth";
 import { suggestSkillsForAgent, generateSkillContent, getCommonSkillsForDomain } from "@/lib/ai/skillSuggester";
 import { getAgent } from "@/lib/db/agentDb";
 import { getAgentSkills } from "@/lib/db/skillDb";
-import { getApiKeys } from "@/lib/db/settingsDb";
+import { getApiKeys, getUserSettings } from "@/lib/db/settingsDb";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { checkBudgetLimit } from "@/lib/usage/budget";
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,6 +22,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Skill suggestions and content are generated - respect the hard budget limit
+    const budgetResponse = await checkBudgetLimit(userId, "skill-generation");
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     // Get agent details
     const agent = await getAgent(agentId, userId);
     if (!agent) {
@@ -31,6 +39,7 @@ export async function POST(request: NextRequest) {
 
     // Get existing skills
     const existingSkills = await getAgentSkills(agentId);
+    const model = resolveModelSelection(await getUserSettings(userId), agent);
 
     if (action === "generate_content") {
       // Generate full skill content for a specific skill
@@ -50,7 +59,8 @@ export async function POST(request: NextRequest) {
         skillDescription,
         `${agent.name}: ${agent.description}`,
         userApiKey, // Pass user's custom API key
-        braveApiKey // Pass Brave Search API key
+        braveApiKey, // Pass Brave Search API key
+        model
       );
 
       return NextResponse.json({ content });
@@ -72,7 +82,8 @@ export async function POST(request: NextRequest) {
         agent,
         recentQuestions,
         existingSkills,
-        userApiKey // Pass user's custom API key
+        userApiKey, // Pass user's custom API key
+        model
       );
       
       console.log("🤖 AI generated suggestions:", suggestions.length);
@@ -97,7 +108,8 @@ export async function POST(request: NextRequest) {
       agent,
       recentQuestions,
       existingSkills,
-      userApiKey
+      userApiKey,
+      model
     );
 
     return NextResponse.json({
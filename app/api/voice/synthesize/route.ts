@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { checkBudgetLimit } from "@/lib/usage/budget";
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,6 +13,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const session = await auth();
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    // ElevenLabs synthesis is billed per character
+    const budgetResponse = await checkBudgetLimit(userId, "voice");
+    if (budgetResponse) {
+      return budgetResponse;
+    }
+
     // This endpoint is currently not used - Web Speech API is used instead
     // If ElevenLabs integration is needed in the future, implement it here
     return NextResponse.json(
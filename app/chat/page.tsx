@@ -10,6 +10,7 @@ import { SettingsModal } from "@/components/SettingsModal";
 import { TrialBanner } from "@/components/TrialBanner";
 import { Brain, Menu, X, Sparkles, CheckCircle, BarChart3 } from "lucide-react";
 import { Agent } from "@/types/agent";
+import type { AgentShare, AgentShareMode } from "@/types/sharing";
 import { useToast } from "@/contexts/ToastContext";
 import Link from "next/link";
 
@@ -22,11 +23,13 @@ export default function Home() {
   const [viewingAgent, setViewingAgent] = useState<Agent | null>(null);
   const [newAgentNotification, setNewAgentNotification] = useState<Agent | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [invitations, setInvitations] = useState<AgentShare[]>([]);
   const { showToast } = useToast();
 
-  // Load agents from API
+  // Load agents and pending share invites from API
   useEffect(() => {
     loadAgents();
+    loadInvitations();
   }, []);
 
   const loadAgents = async () => {
@@ -43,6 +46,85 @@ export default function Home() {
     }
   };
 
+  const loadInvitations = async () => {
+    try {
+      const response = await fetch("/api/shares");
+      if (response.ok) {
+        const data = await response.json();
+        setInvitations(data.invitations || []);
+      }
+    } catch (error) {
+      console.error("Failed to load shared agents:", error);
+    }
+  };
+
+  const handleAcceptInvitation = async (token: string, mode: AgentShareMode) => {
+    try {
+      const response = await fetch(`/api/shares/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setInvitations((prev) => prev.filter((invitation) => invitation.token !== token));
+        showToast(mode === "fork" ? `Forked ${data.agent.name}` : `Subscribed to ${data.agent.name}`, "success");
+        loadAgents();
+      } else {
+        showToast(data.error || "Failed to accept shared agent", "error");
+      }
+    } catch (error) {
+      console.error("Accept share error:", error);
+      showToast("Failed to accept shared agent. Please try again.", "error");
+    }
+  };
+
+  const handleUnsubscribeAgent = async (agentId: string) => {
+    try {
+      const response = await fetch(`/api/shares?agentId=${agentId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setAgents((prev) => prev.filter((agent) => agent._id?.toString() !== agentId));
+        showToast("Shared agent removed", "success");
+      } else {
+        const error = await response.json();
+        showToast(`Failed to remove shared agent: ${error.error}`, "error");
+      }
+    } catch (error) {
+      console.error("Unsubscribe agent error:", error);
+      showToast("Failed to remove shared agent. Please try again.", "error");
+    }
+  };
+
+  const handleImportAgent = async (file: File) => {
+    try {
+      const response = await fetch("/api/agents/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: await file.text(),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setAgents((prev) => [...prev, data.agent]);
+        showToast(
+          [`Imported ${data.agent.name} with ${data.skillCount} skill${data.skillCount !== 1 ? "s" : ""}`, ...data.warnings].join(". "),
+          "success"
+        );
+      } else {
+        const problems: string[] = data.problems || [];
+        const message = data.error || "Failed to import agent";
+        showToast(problems.length > 0 ? `${message}: ${problems.slice(0, 3).join("; ")}` : message, "error");
+      }
+    } catch (error) {
+      console.error("Import agent error:", error);
+      showToast("Failed to import agent. Please try again.", "error");
+    }
+  };
+
   const handleCreateAgent = async () => {
     // Note: This function is not currently used in the UI
     // Agent creation happens through ChatInterface
@@ -156,8 +238,12 @@ export default function Home() {
               setIsSidebarOpen(false);
             }}
             onCreateAgent={handleCreateAgent}
+            onImportAgent={handleImportAgent}
             onDeleteAgent={handleDeleteAgent}
             onEditAgent={(agent) => setEditingAgent(agent)}
+            onUnsubscribeAgent={handleUnsubscribeAgent}
+            invitations={invitations}
+            onAcceptInvitation={handleAcceptInvitation}
             selectedAgentId={selectedAgent?._id?.toString()}
           />
         </aside>
@@ -224,6 +310,10 @@ export default function Home() {
         agent={viewingAgent}
         isOpen={!!viewingAgent}
         onClose={() => setViewingAgent(null)}
+        onAgentUpdated={(agent) => {
+          setViewingAgent(agent);
+          loadAgents();
+        }}
       />
 
       {/* Settings Modal */}
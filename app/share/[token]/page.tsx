@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { Bot, Copy, Link2, Loader2 } from "lucide-react";
+import Link from "next/link";
+import type { AgentShareMode, ShareInvitation } from "@/types/sharing";
+
+export default function SharePage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const [invitation, setInvitation] = useState<ShareInvitation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [acceptingMode, setAcceptingMode] = useState<AgentShareMode | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/shares/${token}`)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (response.ok) {
+          setInvitation(data.invitation);
+        } else {
+          setNeedsSignIn(response.status === 401);
+          setError(data.error || "Failed to load shared agent");
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to load shared agent:", error);
+        if (!cancelled) setError("Failed to load shared agent");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleAccept = async (mode: AgentShareMode) => {
+    setAcceptingMode(mode);
+    try {
+      const response = await fetch(`/api/shares/${token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.push("/chat");
+      } else {
+        setError(data.error || "Failed to accept shared agent");
+        setAcceptingMode(null);
+      }
+    } catch (error) {
+      console.error("Failed to accept shared agent:", error);
+      setError("Failed to accept shared agent");
+      setAcceptingMode(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-lg w-full overflow-hidden">
+        <div className="flex items-center gap-4 p-6 bg-gradient-to-r from-purple-500 to-blue-600">
+          <div className="w-14 h-14 bg-white/20 backdrop-blur-sm rounded-full flex items-center justify-center">
+            <Bot className="w-7 h-7 text-white" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl font-bold text-white break-words">
+              {invitation ? invitation.agentName : "Shared Agent"}
+            </h1>
+            {invitation && (
+              <p className="text-purple-100 text-sm truncate">Shared by {invitation.ownerId}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {invitation && (
+            <>
+              <p className="text-gray-700 dark:text-gray-300">{invitation.agentDescription}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {invitation.expertise.map((exp, index) => (
+                  <span
+                    key={index}
+                    className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 text-xs rounded-full"
+                  >
+                    {exp}
+                  </span>
+                ))}
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {error}
+              {needsSignIn && (
+                <>
+                  {" - "}
+                  <Link href="/login" className="underline">
+                    sign in
+                  </Link>
+                </>
+              )}
+            </p>
+          )}
+
+          {invitation && (
+            <div className="grid sm:grid-cols-2 gap-3 pt-2">
+              <button
+                onClick={() => handleAccept("fork")}
+                disabled={acceptingMode !== null}
+                className="text-left p-4 border-2 border-purple-500 rounded-lg hover:bg-purple-50 dark:hover:bg-purple-900/20 transition-colors disabled:opacity-50"
+              >
+                <div className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white mb-1">
+                  {acceptingMode === "fork" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Copy className="w-4 h-4" />}
+                  Fork a copy
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Your own agent to edit and evolve. Changes by the owner are not applied.
+                </p>
+              </button>
+              <button
+                onClick={() => handleAccept("subscribe")}
+                disabled={acceptingMode !== null}
+                className="text-left p-4 border-2 border-gray-200 dark:border-gray-700 rounded-lg hover:border-purple-300 dark:hover:border-purple-700 transition-colors disabled:opacity-50"
+              >
+                <div className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white mb-1">
+                  {acceptingMode === "subscribe" ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                  Subscribe
+                </div>
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Use the owner&apos;s agent read-only and always get their latest version.
+                </p>
+              </button>
+            </div>
+          )}
+
+          <Link href="/chat" className="block text-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+            Back to chat
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { Agent } from "@/types/agent";
-import { Bot, TrendingUp, Clock, Zap, Trash2, Edit } from "lucide-react";
+import { Bot, TrendingUp, Clock, Zap, Trash2, Edit, Users, UserMinus } from "lucide-react";
 import { formatRelativeTime, formatNumber } from "@/lib/utils/formatters";
 import { DeleteConfirmModal } from "./DeleteConfirmModal";
 import { useState } from "react";
@@ -11,10 +11,11 @@ interface AgentCardProps {
   onClick?: () => void;
   onDelete?: () => void;
   onEdit?: () => void;
+  onUnsubscribe?: () => void;
   isActive?: boolean;
 }
 
-export function AgentCard({ agent, onClick, onDelete, onEdit, isActive = false }: AgentCardProps) {
+export function AgentCard({ agent, onClick, onDelete, onEdit, onUnsubscribe, isActive = false }: AgentCardProps) {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
 
   const handleDelete = (e: React.MouseEvent) => {
@@ -31,6 +32,11 @@ export function AgentCard({ agent, onClick, onDelete, onEdit, isActive = false }
     onEdit?.();
   };
 
+  const handleUnsubscribe = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUnsubscribe?.();
+  };
+
   return (
     <div
       className={`group relative w-full text-left p-4 rounded-lg transition-all ${
@@ -49,6 +55,15 @@ export function AgentCard({ agent, onClick, onDelete, onEdit, isActive = false }
             <h3 className="font-semibold text-gray-900 dark:text-white break-words">
               {agent.name}
             </h3>
+            {agent.sharedBy && (
+              <span
+                className="inline-flex items-center gap-1 mb-1 px-2 py-0.5 bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 text-xs rounded-full max-w-full"
+                title={`Shared by ${agent.sharedBy} - updates follow the owner's changes`}
+              >
+                <Users className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">Shared by {agent.sharedBy}</span>
+              </span>
+            )}
             <p className="text-sm text-gray-500 dark:text-gray-400 line-clamp-3 break-words">
               {agent.description}
             </p>
@@ -100,6 +115,15 @@ export function AgentCard({ agent, onClick, onDelete, onEdit, isActive = false }
             <Edit className="w-4 h-4" />
           </button>
         )}
+        {onUnsubscribe && (
+          <button
+            onClick={handleUnsubscribe}
+            className="p-1.5 bg-amber-100 hover:bg-amber-200 dark:bg-amber-900 dark:hover:bg-amber-800 text-amber-600 dark:text-amber-400 rounded-lg transition-colors"
+            title="Remove shared agent"
+          >
+            <UserMinus className="w-4 h-4" />
+          </button>
+        )}
         {onDelete && (
           <button
             onClick={handleDelete}
@@ -1,22 +1,110 @@
 "use client";
 
-import { useState } from "react";
-import { Agent } from "@/types/agent";
-import { X, Bot, Sparkles, Brain, MessageSquare, Target, BookOpen, FileText } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Agent, DuplicateAgentMatch } from "@/types/agent";
+import { X, Bot, Sparkles, Brain, MessageSquare, Target, BookOpen, FileText, Copy, Loader2, TrendingUp, History, Share2, Download } from "lucide-react";
+import { AgentEvolutionPanel } from "./AgentEvolutionPanel";
+import { AgentSharePanel } from "./AgentSharePanel";
 import { AgentSkillsPanel } from "./AgentSkillsPanel";
+import { AgentVersionsPanel } from "./AgentVersionsPanel";
+import { ConfirmModal } from "./ConfirmModal";
 
 interface AgentDetailModalProps {
   agent: Agent | null;
   isOpen: boolean;
   onClose: () => void;
   onEdit?: () => void;
+  onAgentUpdated?: (agent: Agent) => void; // After a merge or an accepted evolution change
 }
 
-export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetailModalProps) {
-  const [activeTab, setActiveTab] = useState<"overview" | "skills">("overview");
+export function AgentDetailModal({ agent, isOpen, onClose, onEdit, onAgentUpdated }: AgentDetailModalProps) {
+  const [activeTab, setActiveTab] = useState<"overview" | "skills" | "evolution" | "history" | "share">("overview");
+  const [duplicates, setDuplicates] = useState<DuplicateAgentMatch[]>([]);
+  const [mergeCandidate, setMergeCandidate] = useState<DuplicateAgentMatch | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const agentId = agent?._id?.toString();
+  const isShared = !!agent?.sharedBy;
+
+  // Look for near-duplicates that could be merged into this agent
+  useEffect(() => {
+    if (!isOpen || !agentId) return;
+
+    let cancelled = false;
+    fetch(`/api/agents/${agentId}/merge`)
+      .then((response) => (response.ok ? response.json() : { duplicates: [] }))
+      .then((data) => {
+        if (!cancelled) setDuplicates(data.duplicates || []);
+      })
+      .catch((error) => console.error("Failed to load duplicate agents:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, agentId]);
+
+  const handleMerge = async () => {
+    if (!mergeCandidate || !agentId) return;
+
+    setIsMerging(true);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sourceAgentId: mergeCandidate.agentId }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setDuplicates((prev) => prev.filter((duplicate) => duplicate.agentId !== mergeCandidate.agentId));
+        onAgentUpdated?.(data.agent);
+      } else {
+        console.error("Failed to merge agents");
+      }
+    } catch (error) {
+      console.error("Error merging agents:", error);
+    } finally {
+      setIsMerging(false);
+      setMergeCandidate(null);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!agentId) return;
+
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/export${includeHistory ? "?history=true" : ""}`);
+      if (!response.ok) {
+        console.error("Failed to export agent");
+        return;
+      }
+
+      // Download the bundle under the name the server suggests
+      const blob = await response.blob();
+      const filename =
+        response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || "agent.agent.json";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting agent:", error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   if (!isOpen || !agent) return null;
 
+  // Shared agents are read-only: only their owner can evolve, roll back or share them
+  const visibleTab = isShared && activeTab !== "skills" ? "overview" : activeTab;
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -31,7 +119,9 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
                 {agent.name}
               </h2>
               <p className="text-purple-100 text-sm">
-                Created {new Date(agent.createdAt).toLocaleDateString()}
+                {agent.sharedBy
+                  ? `Shared by ${agent.sharedBy}`
+                  : `Created ${new Date(agent.createdAt).toLocaleDateString()}`}
               </p>
             </div>
           </div>
@@ -48,7 +138,7 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
           <button
             onClick={() => setActiveTab("overview")}
             className={`px-4 py-3 font-medium transition-colors border-b-2 ${
-              activeTab === "overview"
+              visibleTab === "overview"
                 ? "border-purple-500 text-purple-600 dark:text-purple-400"
                 : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
             }`}
@@ -61,7 +151,7 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
           <button
             onClick={() => setActiveTab("skills")}
             className={`px-4 py-3 font-medium transition-colors border-b-2 ${
-              activeTab === "skills"
+              visibleTab === "skills"
                 ? "border-purple-500 text-purple-600 dark:text-purple-400"
                 : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
             }`}
@@ -71,11 +161,54 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
               Skills
             </div>
           </button>
+          {!isShared && (
+            <>
+              <button
+                onClick={() => setActiveTab("evolution")}
+                className={`px-4 py-3 font-medium transition-colors border-b-2 ${
+                  visibleTab === "evolution"
+                    ? "border-purple-500 text-purple-600 dark:text-purple-400"
+                    : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="w-4 h-4" />
+                  Evolution
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab("history")}
+                className={`px-4 py-3 font-medium transition-colors border-b-2 ${
+                  visibleTab === "history"
+                    ? "border-purple-500 text-purple-600 dark:text-purple-400"
+                    : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <History className="w-4 h-4" />
+                  History
+                </div>
+              </button>
+              <button
+                onClick={() => setActiveTab("share")}
+                className={`px-4 py-3 font-medium transition-colors border-b-2 ${
+                  visibleTab === "share"
+                    ? "border-purple-500 text-purple-600 dark:text-purple-400"
+                    : "border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <Share2 className="w-4 h-4" />
+                  Share
+                </div>
+              </button>
+            </>
+          )}
         </div>
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6">
-          {activeTab === "overview" ? (
+          {visibleTab === "overview" ? (
             <div className="space-y-6">
           {/* Description */}
           <div>
@@ -90,6 +223,46 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
             </p>
           </div>
 
+          {/* Possible Duplicates */}
+          {duplicates.length > 0 && (
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <Copy className="w-5 h-5 text-yellow-500" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Possible Duplicates
+                </h3>
+              </div>
+              <div className="space-y-2">
+                {duplicates.map((duplicate) => (
+                  <div
+                    key={duplicate.agentId}
+                    className="flex items-center justify-between gap-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3 border border-yellow-200 dark:border-yellow-800"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {duplicate.agentName}
+                        <span className="ml-2 text-xs text-gray-500">{Math.round(duplicate.score * 100)}% similar</span>
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {duplicate.reasons.join(" · ")}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => setMergeCandidate(duplicate)}
+                      disabled={isMerging}
+                      className="px-3 py-1.5 text-sm bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1 flex-shrink-0"
+                    >
+                      {isMerging && mergeCandidate?.agentId === duplicate.agentId && (
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                      )}
+                      Merge into this agent
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Expertise */}
           <div>
             <div className="flex items-center gap-2 mb-3">
@@ -231,13 +404,45 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
             </div>
           </div>
             </div>
+          ) : visibleTab === "skills" ? (
+            <AgentSkillsPanel agentId={agent._id!.toString()} readOnly={isShared} />
+          ) : visibleTab === "evolution" ? (
+            <AgentEvolutionPanel agentId={agent._id!.toString()} onAgentUpdated={onAgentUpdated} />
+          ) : visibleTab === "share" ? (
+            <AgentSharePanel agentId={agent._id!.toString()} />
           ) : (
-            <AgentSkillsPanel agentId={agent._id!.toString()} />
+            <AgentVersionsPanel
+              agentId={agent._id!.toString()}
+              currentVersion={agent.version}
+              onAgentUpdated={onAgentUpdated}
+            />
           )}
         </div>
 
         {/* Footer */}
         <div className="flex items-center justify-end gap-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          {!isShared && (
+            <div className="flex items-center gap-3 mr-auto">
+              <button
+                onClick={handleExport}
+                disabled={isExporting}
+                className="flex items-center gap-2 px-4 py-2 text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors disabled:opacity-50"
+                title="Download the agent and its skills as a bundle to import elsewhere"
+              >
+                {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Export
+              </button>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={includeHistory}
+                  onChange={(e) => setIncludeHistory(e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                Include evolution history
+              </label>
+            </div>
+          )}
           <button
             onClick={onClose}
             className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -257,6 +462,16 @@ export function AgentDetailModal({ agent, isOpen, onClose, onEdit }: AgentDetail
           )}
         </div>
       </div>
+
+      <ConfirmModal
+        isOpen={!!mergeCandidate && !isMerging}
+        title="Merge Agents?"
+        message={`"${mergeCandidate?.agentName}" will be merged into "${agent.name}": its expertise, knowledge, skills and history move here and it is then deleted.`}
+        confirmText="Merge"
+        variant="warning"
+        onConfirm={handleMerge}
+        onCancel={() => setMergeCandidate(null)}
+      />
     </div>
   );
 }
@@ -1,7 +1,9 @@
 "use client";
 
 import { useState } from "react";
-import { Agent } from "@/types/agent";
+import { Agent, AgentGenerationSettings } from "@/types/agent";
+import type { ModelProviderId, ModelTier } from "@/types/model";
+import { GENERATION_DEFAULTS } from "@/lib/constants";
 import { X, Save } from "lucide-react";
 
 interface AgentEditModalProps {
@@ -16,15 +18,40 @@ export function AgentEditModal({ agent, isOpen, onClose, onSave }: AgentEditModa
   const [description, setDescription] = useState(agent.description);
   const [expertise, setExpertise] = useState(agent.expertise.join(", "));
   const [systemPrompt, setSystemPrompt] = useState(agent.systemPrompt);
+  const [modelProvider, setModelProvider] = useState<ModelProviderId | "">(agent.modelConfig?.provider || "");
+  const [modelName, setModelName] = useState(agent.modelConfig?.model || "");
+  const [modelTier, setModelTier] = useState<ModelTier | "">(agent.generationSettings?.modelTier || "");
+  const [temperature, setTemperature] = useState<number | null>(agent.generationSettings?.temperature ?? null);
+  const [maxTokens, setMaxTokens] = useState(agent.generationSettings?.maxTokens?.toString() || "");
+  const [responseLength, setResponseLength] = useState<AgentGenerationSettings["responseLength"] | "">(
+    agent.generationSettings?.responseLength || ""
+  );
+  const [enableCaching, setEnableCaching] = useState(agent.generationSettings?.enableCaching ?? true);
 
   if (!isOpen) return null;
 
   const handleSave = () => {
+    const generationSettings: AgentGenerationSettings = {};
+    if (modelTier) generationSettings.modelTier = modelTier;
+    if (temperature !== null) generationSettings.temperature = temperature;
+    if (maxTokens && Number(maxTokens) > 0) {
+      generationSettings.maxTokens = Math.min(
+        GENERATION_DEFAULTS.MAX_MAX_TOKENS,
+        Math.max(GENERATION_DEFAULTS.MIN_MAX_TOKENS, Math.round(Number(maxTokens)))
+      );
+    }
+    if (responseLength) generationSettings.responseLength = responseLength;
+    if (!enableCaching) generationSettings.enableCaching = false;
+
     onSave({
       name,
       description,
       expertise: expertise.split(",").map(e => e.trim()).filter(e => e),
       systemPrompt,
+      modelConfig: modelProvider
+        ? { provider: modelProvider, model: modelName.trim() || undefined }
+        : null,
+      generationSettings: Object.keys(generationSettings).length > 0 ? generationSettings : null,
     });
     onClose();
   };
@@ -102,6 +129,131 @@ export function AgentEditModal({ agent, isOpen, onClose, onSave }: AgentEditModa
               placeholder="Instructions for how the agent should behave"
             />
           </div>
+
+          {/* Model */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Model Provider
+              </label>
+              <select
+                value={modelProvider}
+                onChange={(e) => setModelProvider(e.target.value as ModelProviderId | "")}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="">Use my default</option>
+                <option value="anthropic">Anthropic (Claude)</option>
+                <option value="openai-compatible">OpenAI-compatible</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Model (optional)
+              </label>
+              <input
+                type="text"
+                value={modelName}
+                onChange={(e) => setModelName(e.target.value)}
+                disabled={!modelProvider}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50"
+                placeholder="Provider default"
+              />
+            </div>
+          </div>
+
+          {/* Generation Settings */}
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Generation Settings</h3>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Leave a field on its default to use your AI settings.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Model Tier
+                </label>
+                <select
+                  value={modelTier}
+                  onChange={(e) => setModelTier(e.target.value as ModelTier | "")}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Default (Fast)</option>
+                  <option value="fast">Fast (Haiku)</option>
+                  <option value="quality">Quality (Sonnet)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Response Length
+                </label>
+                <select
+                  value={responseLength}
+                  onChange={(e) => setResponseLength(e.target.value as AgentGenerationSettings["responseLength"] | "")}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                >
+                  <option value="">Use my default</option>
+                  <option value="concise">Concise</option>
+                  <option value="normal">Normal</option>
+                  <option value="detailed">Detailed</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                  Temperature: {temperature === null ? "Default" : temperature.toFixed(1)}
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={temperature === null}
+                    onChange={(e) => setTemperature(e.target.checked ? null : 0.3)}
+                  />
+                  Use my default
+                </label>
+              </div>
+              <input
+                type="range"
+                min={GENERATION_DEFAULTS.MIN_TEMPERATURE}
+                max={GENERATION_DEFAULTS.MAX_TEMPERATURE}
+                step="0.1"
+                value={temperature ?? 0.3}
+                disabled={temperature === null}
+                onChange={(e) => setTemperature(Number(e.target.value))}
+                className="w-full disabled:opacity-50"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Max Tokens
+                </label>
+                <input
+                  type="number"
+                  min={GENERATION_DEFAULTS.MIN_MAX_TOKENS}
+                  max={GENERATION_DEFAULTS.MAX_MAX_TOKENS}
+                  step="256"
+                  value={maxTokens}
+                  onChange={(e) => setMaxTokens(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder={`${GENERATION_DEFAULTS.MAX_TOKENS}`}
+                />
+              </div>
+              <label className="flex items-center gap-2 pb-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={enableCaching}
+                  onChange={(e) => setEnableCaching(e.target.checked)}
+                />
+                Cache system prompt
+              </label>
+            </div>
+          </div>
         </div>
 
         {/* Footer */}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Loader2, TrendingUp, X } from "lucide-react";
+import { useToast } from "@/contexts/ToastContext";
+import { EVOLUTION_FIELD_LABELS, getAddedItems } from "@/lib/evolution/proposals";
+import type { Agent } from "@/types/agent";
+import type { EvolutionField, EvolutionFieldChange, EvolutionProposal } from "@/types/evolution";
+
+interface AgentEvolutionPanelProps {
+  agentId: string;
+  onAgentUpdated?: (agent: Agent) => void;
+}
+
+const PRIORITY_STYLES: Record<EvolutionProposal["priority"], string> = {
+  high: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  medium: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+  low: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+};
+
+export function AgentEvolutionPanel({ agentId, onAgentUpdated }: AgentEvolutionPanelProps) {
+  const [proposals, setProposals] = useState<EvolutionProposal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [reviewing, setReviewing] = useState<string | null>(null); // `${proposalId}:${field}`
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/agents/${agentId}/evolution`)
+      .then((response) => (response.ok ? response.json() : { proposals: [] }))
+      .then((data) => {
+        if (!cancelled) setProposals(data.proposals || []);
+      })
+      .catch((error) => console.error("Failed to load evolution proposals:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
+
+  const handleAnalyze = async () => {
+    setIsAnalyzing(true);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/evolution`, { method: "POST" });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(data.error || "Failed to analyze agent", "error");
+      } else if (data.proposal) {
+        setProposals((prev) => [data.proposal, ...prev]);
+        showToast(`${data.proposal.changes.length} improvement(s) proposed`, "success");
+      } else {
+        showToast(data.message || "No improvements to propose", "info");
+      }
+    } catch (error) {
+      console.error("Failed to analyze agent:", error);
+      showToast("Failed to analyze agent", "error");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleReview = async (proposalId: string, field: EvolutionField, decision: "accept" | "reject") => {
+    setReviewing(`${proposalId}:${field}`);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/evolution`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ proposalId, field, decision }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        showToast(data.error || "Failed to review change", "error");
+        return;
+      }
+
+      const reviewed: EvolutionProposal | null = data.proposal;
+      setProposals((prev) =>
+        prev
+          .map((proposal) => (proposal._id === proposalId && reviewed ? reviewed : proposal))
+          .filter((proposal) => proposal.status === "pending")
+      );
+
+      if (decision === "accept" && data.agent) {
+        onAgentUpdated?.(data.agent);
+        showToast(`${EVOLUTION_FIELD_LABELS[field]} updated`, "success");
+      }
+    } catch (error) {
+      console.error("Failed to review change:", error);
+      showToast("Failed to review change", "error");
+    } finally {
+      setReviewing(null);
+    }
+  };
+
+  const renderChange = (change: EvolutionFieldChange) => {
+    if (change.field === "description" || change.field === "systemPrompt") {
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Current</p>
+            <pre className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-sans bg-red-50 dark:bg-red-900/10 rounded p-2 max-h-48 overflow-y-auto">
+              {String(change.current)}
+            </pre>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Proposed</p>
+            <pre className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-sans bg-green-50 dark:bg-green-900/10 rounded p-2 max-h-48 overflow-y-auto">
+              {String(change.proposed)}
+            </pre>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <ul className="space-y-1">
+        {getAddedItems(change).map((item) => (
+          <li key={item} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <span className="text-green-500">+</span>
+            <span>{item}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Evolution
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Improvements proposed from this agent&apos;s recent conversations
+          </p>
+        </div>
+        <button
+          onClick={handleAnalyze}
+          disabled={isAnalyzing}
+          className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <TrendingUp className="w-4 h-4" />}
+          {isAnalyzing ? "Analyzing..." : "Analyze Now"}
+        </button>
+      </div>
+
+      {proposals.length === 0 ? (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          <TrendingUp className="w-12 h-12 mx-auto mb-3 opacity-50" />
+          <p>No proposals waiting for review</p>
+        </div>
+      ) : (
+        proposals.map((proposal) => (
+          <div
+            key={proposal._id}
+            className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4"
+          >
+            <div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className={`px-2 py-0.5 text-xs rounded-full font-medium capitalize ${PRIORITY_STYLES[proposal.priority]}`}>
+                  {proposal.priority} priority
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(proposal.createdAt).toLocaleDateString()} · version {proposal.agentVersion}
+                </span>
+              </div>
+              {proposal.reasoning && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">{proposal.reasoning}</p>
+              )}
+              {proposal.knowledgeGaps.length > 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Gaps: {proposal.knowledgeGaps.join(" · ")}
+                </p>
+              )}
+            </div>
+
+            {proposal.changes
+              .filter((change) => change.status === "pending")
+              .map((change) => {
+                const isReviewing = reviewing === `${proposal._id}:${change.field}`;
+                return (
+                  <div
+                    key={change.field}
+                    className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 border border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex items-center justify-between mb-2">
+                      <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                        {EVOLUTION_FIELD_LABELS[change.field]}
+                      </h4>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => handleReview(proposal._id!, change.field, "reject")}
+                          disabled={!!reviewing}
+                          className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          <X className="w-3 h-3" />
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => handleReview(proposal._id!, change.field, "accept")}
+                          disabled={!!reviewing}
+                          className="flex items-center gap-1 px-3 py-1 text-sm bg-green-500 hover:bg-green-600 text-white rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          {isReviewing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                          Accept
+                        </button>
+                      </div>
+                    </div>
+                    {renderChange(change)}
+                  </div>
+                );
+              })}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,21 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Agent } from "@/types/agent";
+import type { AgentShare, AgentShareMode } from "@/types/sharing";
 import { AgentCard } from "./AgentCard";
-import { Plus, Search, Sparkles } from "lucide-react";
+import { Copy, Link2, Plus, Search, Sparkles, Upload } from "lucide-react";
 
 interface AgentListProps {
   agents: Agent[];
   onSelectAgent?: (agent: Agent) => void;
   onCreateAgent?: () => void;
+  onImportAgent?: (file: File) => void;
   onDeleteAgent?: (agentId: string) => void;
   onEditAgent?: (agent: Agent) => void;
+  onUnsubscribeAgent?: (agentId: string) => void;
+  invitations?: AgentShare[];
+  onAcceptInvitation?: (token: string, mode: AgentShareMode) => void;
   selectedAgentId?: string;
 }
 
@@ -18,11 +23,16 @@ export function AgentList({
   agents,
   onSelectAgent,
   onCreateAgent,
+  onImportAgent,
   onDeleteAgent,
   onEditAgent,
+  onUnsubscribeAgent,
+  invitations = [],
+  onAcceptInvitation,
   selectedAgentId,
 }: AgentListProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const filteredAgents = agents.filter(
     (agent) =>
@@ -42,13 +52,37 @@ export function AgentList({
             <Sparkles className="w-5 h-5 text-purple-500" />
             AI Agents
           </h2>
-          <button
-            onClick={onCreateAgent}
-            className="p-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
-            title="Create new agent"
-          >
-            <Plus className="w-4 h-4" />
-          </button>
+          <div className="flex items-center gap-2">
+            {onImportAgent && (
+              <>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="p-2 text-purple-600 dark:text-purple-400 hover:bg-purple-100 dark:hover:bg-purple-900/30 rounded-lg transition-colors"
+                  title="Import agent bundle"
+                >
+                  <Upload className="w-4 h-4" />
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImportAgent(file);
+                    e.target.value = "";
+                  }}
+                />
+              </>
+            )}
+            <button
+              onClick={onCreateAgent}
+              className="p-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+              title="Create new agent"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
         </div>
 
         {/* Search */}
@@ -66,6 +100,46 @@ export function AgentList({
 
       {/* Agent List */}
       <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {/* Invites sent to the user's email */}
+        {invitations.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Shared with you
+            </h3>
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.token}
+                className="p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg"
+              >
+                <p className="text-sm font-medium text-gray-900 dark:text-white break-words">
+                  {invitation.agentName}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2 truncate">
+                  from {invitation.ownerId}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onAcceptInvitation?.(invitation.token, "fork")}
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+                    title="Get your own copy to change as you like"
+                  >
+                    <Copy className="w-3 h-3" />
+                    Fork a copy
+                  </button>
+                  <button
+                    onClick={() => onAcceptInvitation?.(invitation.token, "subscribe")}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors"
+                    title="Use the owner's agent and receive their updates"
+                  >
+                    <Link2 className="w-3 h-3" />
+                    Subscribe
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {filteredAgents.length === 0 ? (
           <div className="text-center py-8">
             {agents.length === 0 ? (
@@ -95,8 +169,9 @@ export function AgentList({
               key={agent._id?.toString()}
               agent={agent}
               onClick={() => onSelectAgent?.(agent)}
-              onDelete={() => onDeleteAgent?.(agent._id?.toString() || "")}
-              onEdit={() => onEditAgent?.(agent)}
+              onDelete={agent.sharedBy ? undefined : () => onDeleteAgent?.(agent._id?.toString() || "")}
+              onEdit={agent.sharedBy ? undefined : () => onEditAgent?.(agent)}
+              onUnsubscribe={agent.sharedBy ? () => onUnsubscribeAgent?.(agent._id?.toString() || "") : undefined}
               isActive={agent._id?.toString() === selectedAgentId}
             />
           ))
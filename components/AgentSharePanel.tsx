@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Copy, Link2, Loader2, Mail, Share2, X } from "lucide-react";
+import { useToast } from "@/contexts/ToastContext";
+import { ConfirmModal } from "./ConfirmModal";
+import type { AgentShare } from "@/types/sharing";
+
+interface AgentSharePanelProps {
+  agentId: string;
+}
+
+export function AgentSharePanel({ agentId }: AgentSharePanelProps) {
+  const [shares, setShares] = useState<AgentShare[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [revokeTarget, setRevokeTarget] = useState<AgentShare | null>(null);
+  const { showToast } = useToast();
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/agents/${agentId}/share`)
+      .then((response) => (response.ok ? response.json() : { shares: [] }))
+      .then((data) => {
+        if (!cancelled) setShares(data.shares || []);
+      })
+      .catch((error) => console.error("Failed to load agent shares:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId]);
+
+  const shareUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+      showToast("Failed to copy link", "error");
+    }
+  };
+
+  const handleCreate = async (withEmail: boolean) => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(withEmail ? { email: email.trim() } : {}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setShares((prev) => [data.share, ...prev]);
+        setEmail("");
+        if (withEmail) {
+          showToast(`Invited ${data.share.email} - they'll see it in their agent list`, "success");
+        } else {
+          await copyLink(data.share.token);
+          showToast("Share link copied", "success");
+        }
+      } else {
+        showToast(data.error || "Failed to share agent", "error");
+      }
+    } catch (error) {
+      console.error("Failed to share agent:", error);
+      showToast("Failed to share agent", "error");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget?._id) return;
+
+    const shareId = revokeTarget._id;
+    setRevokeTarget(null);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/share?shareId=${shareId}`, {
+        method: "DELETE",
+      });
+
+      if (response.ok) {
+        setShares((prev) => prev.filter((share) => share._id !== shareId));
+        showToast("Share revoked", "success");
+      } else {
+        const data = await response.json();
+        showToast(data.error || "Failed to revoke share", "error");
+      }
+    } catch (error) {
+      console.error("Failed to revoke share:", error);
+      showToast("Failed to revoke share", "error");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Create */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Share</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Recipients can fork their own copy or subscribe to this agent and get your updates
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-1">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && email.trim()) handleCreate(true);
+              }}
+              placeholder="Invite by email..."
+              className="w-full pl-10 pr-4 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <button
+            onClick={() => handleCreate(true)}
+            disabled={isCreating || !email.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+            Invite
+          </button>
+          <button
+            onClick={() => handleCreate(false)}
+            disabled={isCreating}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm text-purple-600 dark:text-purple-400 border border-purple-300 dark:border-purple-700 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Link2 className="w-4 h-4" />
+            Create Link
+          </button>
+        </div>
+      </div>
+
+      {/* Active shares */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">
+          Active Shares ({shares.length})
+        </h3>
+        {shares.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This agent is not shared yet</p>
+        ) : (
+          <div className="space-y-2">
+            {shares.map((share) => (
+              <div
+                key={share._id}
+                className="flex items-center justify-between gap-3 bg-gray-50 dark:bg-gray-900 rounded-lg p-3 border border-gray-200 dark:border-gray-700"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {share.email ? `Invite for ${share.email}` : "Anyone with the link"}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Created {new Date(share.createdAt).toLocaleDateString()}
+                    {` · accepted by ${share.acceptedBy.length}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => copyLink(share.token)}
+                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Copy link"
+                  >
+                    {copiedToken === share.token ? (
+                      <Check className="w-4 h-4 text-green-600" />
+                    ) : (
+                      <Copy className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => setRevokeTarget(share)}
+                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    title="Revoke"
+                  >
+                    <X className="w-4 h-4 text-red-600 dark:text-red-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={revokeTarget !== null}
+        title="Revoke Share?"
+        message="The link stops working and everyone subscribed through it loses access. Forked copies are not affected."
+        confirmText="Revoke"
+        variant="danger"
+        onConfirm={handleRevoke}
+        onCancel={() => setRevokeTarget(null)}
+      />
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { useToast } from "@/contexts/ToastContext";
 
 interface AgentSkillsPanelProps {
   agentId: string;
+  readOnly?: boolean; // Shared agents - only the owner can change skills
 }
 
 interface SkillSuggestion {
@@ -20,7 +21,7 @@ interface SkillSuggestion {
   estimatedUsefulness: number;
 }
 
-export function AgentSkillsPanel({ agentId }: AgentSkillsPanelProps) {
+export function AgentSkillsPanel({ agentId, readOnly = false }: AgentSkillsPanelProps) {
   const [skills, setSkills] = useState<AgentSkill[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
@@ -280,23 +281,25 @@ export function AgentSkillsPanel({ agentId }: AgentSkillsPanelProps) {
             Enhance your agent with specialized capabilities
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <button
-            onClick={loadSuggestions}
-            disabled={isLoadingSuggestions}
-            className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white rounded-lg transition-colors disabled:opacity-50"
-          >
-            <Sparkles className="w-4 h-4" />
-            {isLoadingSuggestions ? "Loading..." : "AI Suggest"}
-          </button>
-          <button
-            onClick={handleNewSkill}
-            className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            Add Skill
-          </button>
-        </div>
+        {!readOnly && (
+          <div className="flex items-center gap-2">
+            <button
+              onClick={loadSuggestions}
+              disabled={isLoadingSuggestions}
+              className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Sparkles className="w-4 h-4" />
+              {isLoadingSuggestions ? "Loading..." : "AI Suggest"}
+            </button>
+            <button
+              onClick={handleNewSkill}
+              className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Skill
+            </button>
+          </div>
+        )}
       </div>
 
       {/* AI Suggestions */}
@@ -350,14 +353,16 @@ export function AgentSkillsPanel({ agentId }: AgentSkillsPanelProps) {
         <div className="text-center py-12 bg-gray-50 dark:bg-gray-800/50 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700">
           <FileText className="w-12 h-12 text-gray-400 mx-auto mb-3" />
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            No skills yet. Add your first skill to enhance this agent!
+            {readOnly ? "This agent has no skills yet." : "No skills yet. Add your first skill to enhance this agent!"}
           </p>
-          <button
-            onClick={handleNewSkill}
-            className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
-          >
-            Create First Skill
-          </button>
+          {!readOnly && (
+            <button
+              onClick={handleNewSkill}
+              className="px-4 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+            >
+              Create First Skill
+            </button>
+          )}
         </div>
       ) : (
         <div className="grid gap-4">
@@ -419,22 +424,24 @@ export function AgentSkillsPanel({ agentId }: AgentSkillsPanelProps) {
                 </div>
 
                 {/* Actions */}
-                <div className="flex items-center gap-2 ml-4">
-                  <button
-                    onClick={() => handleEditSkill(skill)}
-                    className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                    title="Edit skill"
-                  >
-                    <Edit2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-                  </button>
-                  <button
-                    onClick={() => handleDeleteClick(skill._id!.toString(), skill.name)}
-                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                    title="Delete skill"
-                  >
-                    <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
-                  </button>
-                </div>
+                {!readOnly && (
+                  <div className="flex items-center gap-2 ml-4">
+                    <button
+                      onClick={() => handleEditSkill(skill)}
+                      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                      title="Edit skill"
+                    >
+                      <Edit2 className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+                    </button>
+                    <button
+                      onClick={() => handleDeleteClick(skill._id!.toString(), skill.name)}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      title="Delete skill"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600 dark:text-red-400" />
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
           ))}
@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/contexts/ToastContext";
+import { ConfirmModal } from "./ConfirmModal";
+import type { Agent, AgentFieldDiff, AgentVersion } from "@/types/agent";
+
+interface AgentVersionsPanelProps {
+  agentId: string;
+  currentVersion: number;
+  onAgentUpdated?: (agent: Agent) => void;
+}
+
+type VersionSummary = Omit<AgentVersion, "snapshot">;
+
+export function AgentVersionsPanel({ agentId, currentVersion, onAgentUpdated }: AgentVersionsPanelProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<AgentFieldDiff[] | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+  const [rollbackTarget, setRollbackTarget] = useState<number | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const { showToast } = useToast();
+
+  // Reload when the agent changes version (edit, accepted evolution, rollback)
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/agents/${agentId}/versions`)
+      .then((response) => (response.ok ? response.json() : { versions: [] }))
+      .then((data) => {
+        if (cancelled) return;
+        const loaded: VersionSummary[] = data.versions || [];
+        setVersions(loaded);
+        // Default comparison: the previous saved version against the newest
+        setToVersion(loaded[0]?.version ?? null);
+        setFromVersion(loaded[1]?.version ?? null);
+      })
+      .catch((error) => console.error("Failed to load agent versions:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, currentVersion]);
+
+  useEffect(() => {
+    if (fromVersion === null || toVersion === null || fromVersion === toVersion) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsDiffing(true);
+    fetch(`/api/agents/${agentId}/versions?from=${fromVersion}&to=${toVersion}`)
+      .then((response) => (response.ok ? response.json() : { diff: [] }))
+      .then((data) => {
+        if (!cancelled) setDiff(data.diff || []);
+      })
+      .catch((error) => console.error("Failed to compare agent versions:", error))
+      .finally(() => {
+        if (!cancelled) setIsDiffing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [agentId, fromVersion, toVersion]);
+
+  const handleRollback = async () => {
+    if (rollbackTarget === null) return;
+
+    setIsRollingBack(true);
+    try {
+      const response = await fetch(`/api/agents/${agentId}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: rollbackTarget }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        showToast(`Rolled back to version ${rollbackTarget}`, "success");
+        onAgentUpdated?.(data.agent);
+      } else {
+        showToast(data.error || "Failed to roll back agent", "error");
+      }
+    } catch (error) {
+      console.error("Failed to roll back agent:", error);
+      showToast("Failed to roll back agent", "error");
+    } finally {
+      setIsRollingBack(false);
+      setRollbackTarget(null);
+    }
+  };
+
+  const renderDiff = (fieldDiff: AgentFieldDiff) => {
+    if (fieldDiff.kind === "list") {
+      return (
+        <ul className="space-y-1">
+          {fieldDiff.removed.map((item) => (
+            <li key={`-${item}`} className="flex items-start gap-2 text-sm text-red-700 dark:text-red-300">
+              <span>−</span>
+              <span className="line-through">{item}</span>
+            </li>
+          ))}
+          {fieldDiff.added.map((item) => (
+            <li key={`+${item}`} className="flex items-start gap-2 text-sm text-green-700 dark:text-green-300">
+              <span>+</span>
+              <span>{item}</span>
+            </li>
+          ))}
+        </ul>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <pre className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-sans bg-red-50 dark:bg-red-900/10 rounded p-2 max-h-48 overflow-y-auto">
+          {fieldDiff.from || "—"}
+        </pre>
+        <pre className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap font-sans bg-green-50 dark:bg-green-900/10 rounded p-2 max-h-48 overflow-y-auto">
+          {fieldDiff.to || "—"}
+        </pre>
+      </div>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        <History className="w-12 h-12 mx-auto mb-3 opacity-50" />
+        <p>No saved versions yet - versions are recorded from the next change on</p>
+      </div>
+    );
+  }
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void) => (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="px-2 py-1 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+    >
+      {versions.map((version) => (
+        <option key={version.version} value={version.version}>
+          Version {version.version}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* History */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          History ({versions.length})
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Snapshots of this agent after every change
+        </p>
+        <div className="space-y-2">
+          {versions.map((version) => (
+            <div
+              key={version.version}
+              className="flex items-center justify-between gap-3 bg-gray-50 dark:bg-gray-900 rounded-lg p-3 border border-gray-200 dark:border-gray-700"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  Version {version.version}
+                  {version.version === currentVersion && (
+                    <span className="ml-2 px-2 py-0.5 text-xs bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-300 rounded-full">
+                      Current
+                    </span>
+                  )}
+                  <span className="ml-2 text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                  {version.reason}
+                  {version.changedFields.length > 0 && ` · ${version.changedFields.join(", ")}`}
+                </p>
+              </div>
+              {version.version !== currentVersion && (
+                <button
+                  onClick={() => setRollbackTarget(version.version)}
+                  disabled={isRollingBack}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors disabled:opacity-50 flex-shrink-0"
+                >
+                  {isRollingBack && rollbackTarget === version.version ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3 h-3" />
+                  )}
+                  Roll back
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Compare */}
+      {versions.length > 1 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Compare</h3>
+            {versionSelect(fromVersion, setFromVersion)}
+            <span className="text-sm text-gray-500">→</span>
+            {versionSelect(toVersion, setToVersion)}
+            {isDiffing && <Loader2 className="w-4 h-4 animate-spin text-purple-500" />}
+          </div>
+          {fromVersion === toVersion ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Pick two different versions</p>
+          ) : diff && diff.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No differences</p>
+          ) : (
+            <div className="space-y-3">
+              {diff?.map((fieldDiff) => (
+                <div
+                  key={fieldDiff.field}
+                  className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3 border border-gray-200 dark:border-gray-700"
+                >
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{fieldDiff.label}</h4>
+                  {renderDiff(fieldDiff)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={rollbackTarget !== null && !isRollingBack}
+        title="Roll Back Agent?"
+        message={`The agent will be restored to version ${rollbackTarget}. This is saved as a new version, so it can be undone.`}
+        confirmText="Roll Back"
+        variant="warning"
+        onConfirm={handleRollback}
+        onCancel={() => setRollbackTarget(null)}
+      />
+    </div>
+  );
+}
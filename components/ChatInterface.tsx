@@ -1,16 +1,21 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Send, Loader2, Sparkles, Download, Zap, Paperclip, X } from "lucide-react";
+import { Send, Loader2, Sparkles, Download, Zap, Paperclip, X, Pin, PinOff, AtSign, Users } from "lucide-react";
 import { MessageBubble } from "./MessageBubble";
 import { VoiceControls } from "./VoiceControls";
 import { ExportModal } from "./ExportModal";
 import { ArtifactViewer } from "./ArtifactViewer";
 import { ConversationList } from "./ConversationList";
-import { Message } from "@/types/conversation";
-import { Agent } from "@/types/agent";
+import { FeedbackRating, Message } from "@/types/conversation";
+import { Agent, DuplicateAgentMatch } from "@/types/agent";
 import { generateSessionId } from "@/lib/utils/formatters";
 import type { Artifact } from "@/lib/artifacts/artifactDetector";
+import type { StreamAgentInfo, StreamBudgetStatus, SuggestedAgent, SuggestedSkill } from "@/types/chatStream";
+import type { SuggestionOutcome } from "@/types/routing";
+import { createChatStreamDecoder } from "@/lib/chat/protocol";
+import { filterMentionableAgents, getMentionQuery, MentionQuery } from "@/lib/chat/mentions";
+import { classifyIntentWithRules, hasIntent } from "@/lib/ai/intentRules";
 import { getSupportedFileTypes } from "@/lib/files/fileProcessor";
 
 interface ChatInterfaceProps {
@@ -25,9 +30,10 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
   const [sessionId, setSessionId] = useState(initialSessionId || generateSessionId());
   const [isLoadingConversation, setIsLoadingConversation] = useState(false);
   const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const [panelMode, setPanelMode] = useState(false); // Several matched agents answer each question
   const [isExportModalOpen, setIsExportModalOpen] = useState(false);
-  const [agentSuggestion, setAgentSuggestion] = useState<{topic: string; reasoning: string} | null>(null);
-  const [skillSuggestion, setSkillSuggestion] = useState<{agentId: string; agentName: string; skillName: string; reasoning: string} | null>(null);
+  const [agentSuggestion, setAgentSuggestion] = useState<SuggestedAgent | null>(null);
+  const [skillSuggestion, setSkillSuggestion] = useState<SuggestedSkill | null>(null);
   const [pendingQuestion, setPendingQuestion] = useState<string | null>(null); // Store question waiting for agent
   const [pendingFiles, setPendingFiles] = useState<File[]>([]); // Store files waiting for agent/skill
   
@@ -38,11 +44,20 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     }
   }, [agentSuggestion]);
   const [isCreatingAgent, setIsCreatingAgent] = useState(false);
+  const [duplicateAgents, setDuplicateAgents] = useState<DuplicateAgentMatch[]>([]); // Existing agents like the suggested one
   const [isCreatingSkill, setIsCreatingSkill] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [currentVolume, setCurrentVolume] = useState(1.0);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
-  const [currentAgent, setCurrentAgent] = useState<{name: string; description: string} | null>(null);
+  const [currentAgent, setCurrentAgent] = useState<{id?: string; name: string; description: string} | null>(null);
+  const [pinnedAgent, setPinnedAgent] = useState<{id: string; name: string} | null>(null);
+  
+  // @mention autocomplete
+  const [mentionAgents, setMentionAgents] = useState<StreamAgentInfo[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [activeTool, setActiveTool] = useState<string | null>(null);
+  const [budgetAlert, setBudgetAlert] = useState<StreamBudgetStatus | null>(null);
   
   // File upload and artifacts
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
@@ -103,6 +118,29 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     };
   }, []);
 
+  // Load agents for @mention autocomplete
+  const loadMentionAgents = async () => {
+    try {
+      const response = await fetch("/api/agents");
+      if (response.ok) {
+        const data = await response.json();
+        setMentionAgents(
+          (data.agents || []).map((agent: Agent) => ({
+            id: agent._id?.toString(),
+            name: agent.name,
+            description: agent.description,
+          }))
+        );
+      }
+    } catch (error) {
+      console.error("Failed to load agents for mentions:", error);
+    }
+  };
+
+  useEffect(() => {
+    loadMentionAgents();
+  }, []);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -136,6 +174,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         const assistantMessage = conversation.messages.find((m: Message) => m.role === "assistant" && m.agentName);
         if (assistantMessage && assistantMessage.agentName) {
           setCurrentAgent({
+            id: assistantMessage.agentUsed || undefined,
             name: assistantMessage.agentName,
             description: "" // We don't have description in messages, but name is enough
           });
@@ -143,6 +182,13 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         } else {
           setCurrentAgent(null);
         }
+        
+        // Restore the agent pinned to this conversation
+        setPinnedAgent(
+          conversation.pinnedAgentId
+            ? { id: conversation.pinnedAgentId, name: conversation.pinnedAgentName || "" }
+            : null
+        );
       } else {
         console.error("Failed to load conversation");
       }
@@ -162,8 +208,11 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     setInput("");
     setAttachedFiles([]);
     setAgentSuggestion(null);
+    setDuplicateAgents([]);
     setSkillSuggestion(null);
     setCurrentAgent(null);
+    setPinnedAgent(null);
+    setMentionQuery(null);
     setPendingQuestion(null);
     setPendingFiles([]);
     inputRef.current?.focus();
@@ -247,6 +296,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         formData.append('voiceEnabled', voiceEnabled.toString());
         formData.append('stream', 'true');
         formData.append('skipAgentMatching', skipAgentMatching.toString());
+        formData.append('panel', panelMode.toString());
         
         // Append all files
         attachedFiles.forEach(file => {
@@ -264,6 +314,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
           voiceEnabled,
           stream: true,
           skipAgentMatching,
+          panel: panelMode,
         });
       }
       
@@ -283,14 +334,23 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
           const errorData = await response.json().catch(() => ({ error: "Authentication required" }));
           throw new Error(`Authentication required: ${errorData.error || 'Please log in again'}`);
         }
-        throw new Error(`API error: ${response.status}`);
+        // Budget hard limit - streaming requests carry the reason as an error event
+        if (response.status === 402 && !response.headers.get("Content-Type")?.includes("text/event-stream")) {
+          const errorData = await response.json().catch(() => ({ error: "Monthly budget reached" }));
+          throw new Error(`Budget exceeded: ${errorData.error}`);
+        }
+        if (response.status !== 402) {
+          throw new Error(`API error: ${response.status}`);
+        }
       }
 
       // Handle streaming response
       const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
+      const streamDecoder = createChatStreamDecoder();
       let fullResponse = "";
-      let agentCreatedData: any = null;
+      let agentCreatedData: StreamAgentInfo | null = null;
+      // Panel mode: each section streams into its own assistant message
+      const panelSections: Record<string, { index: number; text: string }> = {};
 
       if (!reader) {
         throw new Error("No response body");
@@ -298,146 +358,281 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
 
       while (true) {
         const { done, value } = await reader.read();
-        if (done) break;
+        const events = done ? streamDecoder.flush() : streamDecoder.push(value);
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            try {
-              const data = JSON.parse(line.slice(6));
-
-              if (data.type === "content") {
-                fullResponse += data.text;
-                // Update the assistant message in real-time
-                setMessages((prev) => {
-                  // Only log every 50th update to reduce console spam
-                  if (fullResponse.length % 50 === 0) {
-                    console.log(`📝 Updating message at index ${assistantMessageIndex}, length: ${fullResponse.length}`);
-                  }
-                  const newMessages = [...prev];
-                  if (assistantMessageIndex >= 0 && assistantMessageIndex < prev.length) {
-                    // Verify this is still an assistant message (safety check)
-                    if (newMessages[assistantMessageIndex].role === "assistant") {
-                      newMessages[assistantMessageIndex] = {
-                        ...newMessages[assistantMessageIndex],
-                        content: fullResponse,
-                      };
-                    } else {
-                      console.error(`❌ Index ${assistantMessageIndex} is not an assistant message!`);
-                    }
-                  } else {
-                    console.error(`❌ Invalid index ${assistantMessageIndex} for array length ${prev.length}`);
-                  }
-                  return newMessages;
-                });
-              } else if (data.type === "agent_suggestion") {
-                // Show agent suggestion dialog and store the question
-                console.log("📨 Received agent suggestion:", data.suggestion);
-                setAgentSuggestion(data.suggestion);
-                setPendingQuestion(messageText); // Store the original question
-                setPendingFiles([...attachedFiles]); // Store the attached files
-              } else if (data.type === "skill_suggestion") {
-                // Show skill suggestion dialog and store the question
-                console.log("🎓 Received skill suggestion:", data.suggestion);
-                // Only set if not already showing a skill suggestion (prevent duplicates)
-                setSkillSuggestion(prev => {
-                  if (prev) {
-                    console.log("⚠️ Skill suggestion already active, ignoring duplicate");
-                    return prev;
-                  }
-                  return data.suggestion;
-                });
-                setPendingQuestion(messageText); // Store the original question
-                setPendingFiles([...attachedFiles]); // Store the attached files
-              } else if (data.type === "waiting_for_decision") {
-                // Stop loading - waiting for user to decide on agent creation
-                console.log("⏸️ Waiting for user decision on agent creation");
-                setIsLoading(false);
-                // Remove the empty assistant message
-                setMessages((prev) => {
-                  if (prev.length > 0 && prev[prev.length - 1].role === "assistant" && prev[prev.length - 1].content === "") {
-                    return prev.slice(0, -1);
-                  }
-                  return prev;
-                });
-              } else if (data.type === "agent_used") {
-                // Display which agent is handling the request
-                setCurrentAgent({
-                  name: data.agent.name,
-                  description: data.agent.description
-                });
-                console.log("🤖 Agent in use:", data.agent.name);
-                
-                // Update the assistant message with agent name
-                setMessages((prev) => {
-                  const updated = [...prev];
-                  if (updated.length > 0 && updated[updated.length - 1].role === "assistant") {
-                    updated[updated.length - 1].agentName = data.agent.name;
-                    updated[updated.length - 1].agentUsed = data.agent.id;
-                  }
-                  return updated;
-                });
-              } else if (data.type === "agent_created") {
-                agentCreatedData = data.agent;
-                
-                // Update the assistant message with agent name
-                setMessages((prev) => {
-                  const updated = [...prev];
-                  if (updated.length > 0 && updated[updated.length - 1].role === "assistant") {
-                    updated[updated.length - 1].agentName = data.agent.name;
-                    updated[updated.length - 1].agentUsed = data.agent.id;
+        for (const event of events) {
+          if (event.type === "section_start") {
+            const sectionMessage: Message = {
+              role: "assistant",
+              content: "",
+              agentUsed: event.agent?.id || null,
+              agentName: event.agent?.name,
+              panelRole: event.role,
+              timestamp: new Date(),
+              voiceEnabled,
+            };
+            // The first section takes over the placeholder message
+            const reusePlaceholder = Object.keys(panelSections).length === 0;
+            const panelSection = { index: -1, text: "" };
+            panelSections[event.section] = panelSection;
+
+            setMessages((prev) => {
+              panelSection.index = reusePlaceholder ? assistantMessageIndex : prev.length;
+              const updated = [...prev];
+              updated[panelSection.index] = sectionMessage;
+              return updated;
+            });
+
+            if (reusePlaceholder && event.agent) {
+              setCurrentAgent({ id: event.agent.id, name: event.agent.name, description: event.agent.description });
+            }
+          } else if (event.type === "section_end") {
+            const panelSection = panelSections[event.section];
+            if (event.section === "moderator" && panelSection) {
+              fullResponse = panelSection.text;
+            }
+            if (event.error && panelSection) {
+              setMessages((prev) => {
+                const updated = [...prev];
+                updated[panelSection.index] = {
+                  ...updated[panelSection.index],
+                  content: panelSection.text || "⚠️ This agent could not answer.",
+                };
+                return updated;
+              });
+            }
+          } else if (event.type === "content" && event.section) {
+            const panelSection = panelSections[event.section];
+            if (!panelSection) continue;
+            panelSection.text += event.text;
+            const text = panelSection.text;
+
+            setMessages((prev) => {
+              const updated = [...prev];
+              if (updated[panelSection.index]?.role === "assistant") {
+                updated[panelSection.index] = { ...updated[panelSection.index], content: text };
+              }
+              return updated;
+            });
+          } else if (event.type === "content") {
+            fullResponse += event.text;
+            // Update the assistant message in real-time
+            setMessages((prev) => {
+              // Only log every 50th update to reduce console spam
+              if (fullResponse.length % 50 === 0) {
+                console.log(`📝 Updating message at index ${assistantMessageIndex}, length: ${fullResponse.length}`);
+              }
+              const newMessages = [...prev];
+              if (assistantMessageIndex >= 0 && assistantMessageIndex < prev.length) {
+                // Verify this is still an assistant message (safety check)
+                if (newMessages[assistantMessageIndex].role === "assistant") {
+                  newMessages[assistantMessageIndex] = {
+                    ...newMessages[assistantMessageIndex],
+                    content: fullResponse,
+                  };
+                } else {
+                  console.error(`❌ Index ${assistantMessageIndex} is not an assistant message!`);
+                }
+              } else {
+                console.error(`❌ Invalid index ${assistantMessageIndex} for array length ${prev.length}`);
+              }
+              return newMessages;
+            });
+          } else if (event.type === "agent_suggestion") {
+            // Show agent suggestion dialog and store the question
+            console.log("📨 Received agent suggestion:", event.suggestion);
+            setAgentSuggestion(event.suggestion);
+            setPendingQuestion(messageText); // Store the original question
+            setPendingFiles([...attachedFiles]); // Store the attached files
+          } else if (event.type === "skill_suggestion") {
+            // Show skill suggestion dialog and store the question
+            console.log("🎓 Received skill suggestion:", event.suggestion);
+            // Only set if not already showing a skill suggestion (prevent duplicates)
+            setSkillSuggestion(prev => {
+              if (prev) {
+                console.log("⚠️ Skill suggestion already active, ignoring duplicate");
+                return prev;
+              }
+              return event.suggestion;
+            });
+            setPendingQuestion(messageText); // Store the original question
+            setPendingFiles([...attachedFiles]); // Store the attached files
+          } else if (event.type === "clarification") {
+            // Offer the likely meanings as quick replies under the question
+            const quickReplies = event.clarification.interpretations;
+            setMessages((prev) => {
+              const updated = [...prev];
+              if (assistantMessageIndex >= 0 && updated[assistantMessageIndex]?.role === "assistant") {
+                updated[assistantMessageIndex] = { ...updated[assistantMessageIndex], quickReplies };
+              }
+              return updated;
+            });
+          } else if (event.type === "waiting_for_decision") {
+            // Stop loading - waiting for user to decide on agent creation
+            console.log("⏸️ Waiting for user decision on agent creation");
+            setIsLoading(false);
+            // Remove the empty assistant message
+            setMessages((prev) => {
+              if (prev.length > 0 && prev[prev.length - 1].role === "assistant" && prev[prev.length - 1].content === "") {
+                return prev.slice(0, -1);
+              }
+              return prev;
+            });
+          } else if (event.type === "agent_used") {
+            // Display which agent is handling the request
+            setCurrentAgent({
+              id: event.agent.id,
+              name: event.agent.name,
+              description: event.agent.description
+            });
+            console.log("🤖 Agent in use:", event.agent.name);
+            
+            // Update the assistant message with agent name
+            setMessages((prev) => {
+              const updated = [...prev];
+              if (updated.length > 0 && updated[updated.length - 1].role === "assistant") {
+                updated[updated.length - 1].agentName = event.agent.name;
+                updated[updated.length - 1].agentUsed = event.agent.id || null;
+              }
+              return updated;
+            });
+          } else if (event.type === "model_selected") {
+            console.log(
+              `🧭 Model: ${event.selection.model}${event.selection.escalated ? " (escalated)" : ""}`,
+              event.selection.reasons
+            );
+
+            const panelSection = event.section ? panelSections[event.section] : undefined;
+            setMessages((prev) => {
+              const updated = [...prev];
+              const index = panelSection ? panelSection.index : updated.length - 1;
+              if (index >= 0 && updated[index]?.role === "assistant") {
+                updated[index] = { ...updated[index], model: event.selection.model };
+              }
+              return updated;
+            });
+          } else if (event.type === "agent_created") {
+            agentCreatedData = event.agent;
+            loadMentionAgents();
+            
+            // Update the assistant message with agent name
+            setMessages((prev) => {
+              const updated = [...prev];
+              if (updated.length > 0 && updated[updated.length - 1].role === "assistant") {
+                updated[updated.length - 1].agentName = event.agent.name;
+                updated[updated.length - 1].agentUsed = event.agent.id || null;
+              }
+              return updated;
+            });
+            
+            // Notify parent about new agent
+            if (onAgentCreated) {
+              // We'll need to fetch the full agent data
+              const agentResponse = await fetch(`/api/agents?id=${event.agent.id}`);
+              if (agentResponse.ok) {
+                const agentData = await agentResponse.json();
+                onAgentCreated(agentData.agent);
+              }
+            }
+          } else if (event.type === "tool_call") {
+            console.log("🔧 Tool call:", event.name, event.input);
+            setActiveTool(event.name);
+          } else if (event.type === "tool_result") {
+            console.log(`🔧 Tool result: ${event.name} (${event.durationMs}ms)${event.isError ? " - error" : ""}`);
+            setActiveTool(null);
+          } else if (event.type === "usage") {
+            console.log("Streaming usage:", event.usage);
+          } else if (event.type === "done") {
+            // Streaming complete
+            
+            // Fallback: If currentAgent wasn't set during streaming, try to get it from the last message
+            setMessages((prev) => {
+              const lastMessage = prev[prev.length - 1];
+              if (lastMessage && lastMessage.role === "assistant" && lastMessage.agentName) {
+                // Only set if currentAgent is not already set
+                setCurrentAgent((current) => {
+                  if (!current || !current.name) {
+                    console.log("🤖 Set agent from message data:", lastMessage.agentName);
+                    return {
+                      name: lastMessage.agentName || "",
+                      description: ""
+                    };
                   }
-                  return updated;
+                  return current;
                 });
-                
-                // Notify parent about new agent
-                if (onAgentCreated) {
-                  // We'll need to fetch the full agent data
-                  const agentResponse = await fetch(`/api/agents?id=${data.agent.id}`);
-                  if (agentResponse.ok) {
-                    const agentData = await agentResponse.json();
-                    onAgentCreated(agentData.agent);
+              }
+              return prev;
+            });
+            
+            // Attach the delegation hop chain to the reply
+            if (event.delegations && event.delegations.length > 0) {
+              const delegations = event.delegations;
+              setMessages((prev) => {
+                const updated = [...prev];
+                if (assistantMessageIndex >= 0 && updated[assistantMessageIndex]?.role === "assistant") {
+                  updated[assistantMessageIndex] = { ...updated[assistantMessageIndex], delegations };
+                }
+                return updated;
+              });
+            }
+            
+            // Saved reply IDs - needed to rate the replies
+            if (event.messageId || event.sectionMessageIds) {
+              const savedIds: [number, string][] = event.sectionMessageIds
+                ? Object.entries(event.sectionMessageIds).flatMap(([section, messageId]) =>
+                    panelSections[section] ? [[panelSections[section].index, messageId] as [number, string]] : []
+                  )
+                : [[assistantMessageIndex, event.messageId!]];
+              setMessages((prev) => {
+                const updated = [...prev];
+                for (const [index, messageId] of savedIds) {
+                  if (index >= 0 && updated[index]?.role === "assistant") {
+                    updated[index] = { ...updated[index], messageId };
                   }
                 }
-              } else if (data.type === "done") {
-                // Streaming complete
-                console.log("Streaming complete. Usage:", data.usage);
-                
-                // Fallback: If currentAgent wasn't set during streaming, try to get it from the last message
-                setMessages((prev) => {
-                  const lastMessage = prev[prev.length - 1];
-                  if (lastMessage && lastMessage.role === "assistant" && lastMessage.agentName) {
-                    // Only set if currentAgent is not already set
-                    setCurrentAgent((current) => {
-                      if (!current || !current.name) {
-                        console.log("🤖 Set agent from message data:", lastMessage.agentName);
-                        return {
-                          name: lastMessage.agentName || "",
-                          description: ""
-                        };
-                      }
-                      return current;
-                    });
+                return updated;
+              });
+            }
+            
+            // Link the reply(s) to the routing decision behind them
+            if (event.routingDecisionId) {
+              const routingDecisionId = event.routingDecisionId;
+              const indexes = Object.keys(panelSections).length > 0
+                ? Object.values(panelSections).map((section) => section.index)
+                : [assistantMessageIndex];
+              setMessages((prev) => {
+                const updated = [...prev];
+                for (const index of indexes) {
+                  if (index >= 0 && updated[index]?.role === "assistant") {
+                    updated[index] = { ...updated[index], routingDecisionId };
                   }
-                  return prev;
-                });
-                
-                // Check for artifacts in the response
-                if (data.artifacts && data.artifacts.length > 0) {
-                  console.log(`📦 Received ${data.artifacts.length} artifact(s)`);
-                  setArtifacts(data.artifacts);
-                  setShowArtifacts(true);
                 }
-              } else if (data.type === "error") {
-                throw new Error(data.error);
-              }
-            } catch (e) {
-              console.error("Error parsing SSE data:", e);
+                return updated;
+              });
+            }
+            
+            // Check for artifacts in the response
+            if (event.artifacts && event.artifacts.length > 0) {
+              console.log(`📦 Received ${event.artifacts.length} artifact(s)`);
+              setArtifacts(event.artifacts);
+              setShowArtifacts(true);
+            }
+          } else if (event.type === "budget_alert") {
+            setBudgetAlert(event.budget);
+          } else if (event.type === "error") {
+            if (event.code === "BUDGET_EXCEEDED") {
+              throw new Error(`Budget exceeded: ${event.error}`);
             }
+            throw new Error(event.error);
           }
         }
+
+        if (done) break;
+      }
+
+      // Without a moderator, read out every panelist's answer
+      if (!fullResponse && Object.keys(panelSections).length > 0) {
+        fullResponse = Object.values(panelSections).map((section) => section.text).join("\n\n");
       }
 
       // If voice is enabled, speak the response
@@ -477,11 +672,14 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
       
       // Check if it's an authentication error
       const isAuthError = error instanceof Error && error.message.includes("Authentication required");
+      const isBudgetError = error instanceof Error && error.message.startsWith("Budget exceeded: ");
       
       const errorMessage: Message = {
         role: "assistant",
         content: isAuthError 
           ? "Your session has expired. Please refresh the page and log in again to continue." 
+          : isBudgetError
+          ? `⚠️ ${(error as Error).message.replace("Budget exceeded: ", "")}`
           : "Sorry, I encountered an error. Please try again.",
         agentUsed: null,
         timestamp: new Date(),
@@ -496,6 +694,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
       }
     } finally {
       setIsLoading(false);
+      setActiveTool(null);
       
       // Don't restart listening here - let the voice finish speaking first
       // The mic will auto-restart after voice ends (handled in VoiceControls)
@@ -511,6 +710,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     
     const messageText = input.trim();
     setInput("");
+    setMentionQuery(null);
     
     // Reset textarea height
     if (inputRef.current) {
@@ -646,6 +846,75 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     }
   };
 
+  // Pin the current agent for the rest of the conversation, or unpin
+  const togglePinnedAgent = async () => {
+    const agentId = pinnedAgent ? null : currentAgent?.id;
+    if (agentId === undefined) return;
+
+    try {
+      const response = await fetch(`/api/conversations/${sessionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ pinnedAgentId: agentId }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setPinnedAgent(data.pinnedAgentId ? { id: data.pinnedAgentId, name: data.pinnedAgentName } : null);
+        console.log(data.pinnedAgentId ? `📌 Pinned agent: ${data.pinnedAgentName}` : "📌 Unpinned agent");
+      } else {
+        console.error("Failed to update pinned agent");
+      }
+    } catch (error) {
+      console.error("Error updating pinned agent:", error);
+    }
+  };
+
+  const mentionSuggestions = mentionQuery
+    ? filterMentionableAgents(mentionAgents, mentionQuery.query).slice(0, 6)
+    : [];
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart));
+    setMentionIndex(0);
+  };
+
+  // Replace the partial mention with the chosen agent's full name
+  const selectMention = (agent: StreamAgentInfo) => {
+    if (!mentionQuery) return;
+
+    const caret = mentionQuery.start + 1 + mentionQuery.query.length;
+    const mention = `@${agent.name} `;
+    setInput(input.slice(0, mentionQuery.start) + mention + input.slice(caret));
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      const position = mentionQuery.start + mention.length;
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  // Runs before handleKeyPress so the mention menu can take Enter/Tab
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionSuggestions.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setMentionIndex((index) => (index + 1) % mentionSuggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setMentionIndex((index) => (index - 1 + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      selectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMentionQuery(null);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -754,9 +1023,50 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     setIsAudioPlaying(false);
   };
 
+  /**
+   * Report whether the user accepted or declined a suggestion (best effort)
+   */
+  const recordSuggestionOutcome = (
+    routingDecisionId: string | undefined,
+    outcome: SuggestionOutcome,
+    agentId?: string
+  ) => {
+    if (!routingDecisionId) return;
+    fetch(`/api/routing/decisions/${routingDecisionId}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ outcome, agentId }),
+    }).catch((error) => console.error("Failed to record suggestion outcome:", error));
+  };
+
+  /**
+   * Rate a saved reply (thumbs up/down with an optional comment)
+   */
+  const handleFeedback = async (messageId: string, rating: FeedbackRating, comment?: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${sessionId}/feedback`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ messageId, rating, comment }),
+      });
+
+      if (response.ok) {
+        const { feedback } = await response.json();
+        setMessages((prev) =>
+          prev.map((message) => (message.messageId === messageId ? { ...message, feedback } : message))
+        );
+      } else {
+        console.error("Failed to save feedback");
+      }
+    } catch (error) {
+      console.error("Error saving feedback:", error);
+    }
+  };
+
   const handleCreateSkill = async () => {
     if (!skillSuggestion) return;
     
+    recordSuggestionOutcome(skillSuggestion.routingDecisionId, "accepted");
     setIsCreatingSkill(true);
     try {
       // Step 1: Generate AI skill content
@@ -831,14 +1141,11 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         });
         
         if (pendingQuestion) {
-          const isExplicitSkillRequest = (
-            (pendingQuestion.toLowerCase().includes('add') || pendingQuestion.toLowerCase().includes('create')) &&
-            (pendingQuestion.toLowerCase().includes('skill') || pendingQuestion.toLowerCase().includes('skills'))
-          );
+          const isExplicitSkillRequest = hasIntent(classifyIntentWithRules(pendingQuestion), "add_skill");
           
           console.log("🔍 Explicit skill request check:", {
             isExplicitSkillRequest,
-            questionLower: pendingQuestion.toLowerCase(),
+            pendingQuestion,
           });
           
           if (isExplicitSkillRequest) {
@@ -876,7 +1183,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
     }
   };
 
-  const handleCreateAgent = async () => {
+  const handleCreateAgent = async (allowDuplicate: boolean = false) => {
     if (!agentSuggestion) return;
     
     setIsCreatingAgent(true);
@@ -886,16 +1193,24 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ 
           topic: agentSuggestion.topic,
-          originalQuestion: pendingQuestion || "" // Send original question for context
+          originalQuestion: pendingQuestion || "", // Send original question for context
+          allowDuplicate,
         }),
       });
 
-      if (response.ok) {
+      if (response.status === 409) {
+        // A similar agent already exists - let the user pick it or create anyway
+        const data = await response.json();
+        setDuplicateAgents(data.duplicates || []);
+      } else if (response.ok) {
         const data = await response.json();
+        recordSuggestionOutcome(agentSuggestion.routingDecisionId, "accepted", data.agent?._id);
         if (onAgentCreated) {
           onAgentCreated(data.agent);
         }
+        loadMentionAgents();
         setAgentSuggestion(null);
+        setDuplicateAgents([]);
         
         // Re-send the pending question with the new agent
         if (pendingQuestion) {
@@ -929,6 +1244,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         };
         setMessages((prev) => [...prev, errorMessage]);
         setAgentSuggestion(null);
+        setDuplicateAgents([]);
         setPendingQuestion(null);
         setPendingFiles([]);
       }
@@ -945,6 +1261,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
       };
       setMessages((prev) => [...prev, errorMessage]);
       setAgentSuggestion(null);
+      setDuplicateAgents([]);
       setPendingQuestion(null);
       setPendingFiles([]);
     } finally {
@@ -984,7 +1301,12 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
                 AI Assistant
               </h2>
-              {currentAgent ? (
+              {pinnedAgent ? (
+                <p className="text-sm text-purple-600 dark:text-purple-400 flex items-center gap-1">
+                  <Pin className="w-3 h-3" />
+                  Pinned: <span className="font-medium">{pinnedAgent.name}</span>
+                </p>
+              ) : currentAgent ? (
                 <p className="text-sm text-purple-600 dark:text-purple-400 flex items-center gap-1">
                   <span className="inline-block w-2 h-2 bg-purple-500 rounded-full animate-pulse"></span>
                   Using: <span className="font-medium">{currentAgent.name}</span>
@@ -998,6 +1320,21 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
           </div>
 
           <div className="flex items-center gap-2">
+            {/* Pin Agent Button */}
+            {(pinnedAgent || currentAgent?.id) && (
+              <button
+                onClick={togglePinnedAgent}
+                className={`p-2 rounded-lg transition-colors ${
+                  pinnedAgent
+                    ? "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-600 dark:text-gray-400"
+                }`}
+                title={pinnedAgent ? `Unpin ${pinnedAgent.name}` : `Pin ${currentAgent?.name} for this conversation`}
+              >
+                {pinnedAgent ? <PinOff className="w-5 h-5" /> : <Pin className="w-5 h-5" />}
+              </button>
+            )}
+
             {/* Export Button */}
             {messages.length > 0 && (
               <button
@@ -1009,6 +1346,20 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
               </button>
             )}
 
+            {/* Panel Mode Toggle */}
+            <button
+              onClick={() => setPanelMode(!panelMode)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 ${
+                panelMode
+                  ? "bg-purple-100 text-purple-700 dark:bg-purple-900 dark:text-purple-300"
+                  : "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300"
+              }`}
+              title="Let several matched agents answer multi-domain questions"
+            >
+              <Users className="w-4 h-4" />
+              {panelMode ? "Panel On" : "Panel Off"}
+            </button>
+
             {/* Voice Toggle */}
             <button
               onClick={() => setVoiceEnabled(!voiceEnabled)}
@@ -1079,6 +1430,8 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
                 key={index} 
                 message={message}
                 agentName={message.agentName}
+                onQuickReply={index === messages.length - 1 && !isLoading ? (reply) => sendMessage(reply) : undefined}
+                onFeedback={message.messageId ? (rating, comment) => handleFeedback(message.messageId!, rating, comment) : undefined}
               />
             ))}
             {isLoading && (
@@ -1094,6 +1447,11 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
                       <span className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: "0.2s" }}></span>
                     </div>
                   </div>
+                  {activeTool && (
+                    <span className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Using {activeTool.replace(/_/g, " ")}...
+                    </span>
+                  )}
                 </div>
               </div>
             )}
@@ -1102,6 +1460,23 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
         )}
       </div>
 
+      {/* Budget Alert Banner */}
+      {budgetAlert && (
+        <div className="flex-shrink-0 mx-6 mb-2 px-4 py-2 flex items-center justify-between gap-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+          <span>
+            You&apos;ve used {budgetAlert.percentageUsed.toFixed(0)}% of your ${budgetAlert.monthlyBudget.toFixed(2)} monthly budget
+            {budgetAlert.hardLimit ? " - requests will stop at 100%." : "."}
+          </span>
+          <button
+            onClick={() => setBudgetAlert(null)}
+            className="p-1 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-800 px-6 py-4">
         <div className="flex items-end gap-3">
@@ -1171,10 +1546,42 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
               </div>
             )}
             
+            {/* @mention Autocomplete */}
+            {mentionSuggestions.length > 0 && (
+              <div className="absolute bottom-full left-0 mb-2 w-72 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 shadow-lg overflow-hidden z-10">
+                {mentionSuggestions.map((agent, index) => (
+                  <button
+                    key={agent.id || agent.name}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      selectMention(agent);
+                    }}
+                    onMouseEnter={() => setMentionIndex(index)}
+                    className={`w-full text-left px-3 py-2 flex items-start gap-2 transition-colors ${
+                      index === mentionIndex
+                        ? "bg-purple-50 dark:bg-purple-900/30"
+                        : "hover:bg-gray-50 dark:hover:bg-gray-700"
+                    }`}
+                  >
+                    <AtSign className="w-4 h-4 mt-0.5 text-purple-500 flex-shrink-0" />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {agent.name}
+                      </span>
+                      <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {agent.description}
+                      </span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+            
             <textarea
               ref={inputRef}
               value={input}
-              onChange={(e) => setInput(e.target.value)}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
               onKeyPress={handleKeyPress}
               onPaste={handlePaste}
               placeholder="Type your message... (Shift+Enter for new line, Ctrl+V to paste images)"
@@ -1203,7 +1610,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
 
         {/* Helper Text */}
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
-          Press Enter to send, Shift+Enter for new line
+          Press Enter to send, Shift+Enter for new line, @ to address an agent
         </p>
       </div>
 
@@ -1235,12 +1642,54 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
                 </p>
               </div>
             </div>
+
+            {duplicateAgents.length > 0 && (
+              <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+                <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300 mb-2">
+                  You already have a similar agent:
+                </p>
+                <div className="space-y-2">
+                  {duplicateAgents.map((duplicate) => (
+                    <div key={duplicate.agentId} className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900 dark:text-white truncate">{duplicate.agentName}</p>
+                        <p className="text-xs text-gray-500">{duplicate.reasons.join(" · ")}</p>
+                      </div>
+                      <button
+                        onClick={() => {
+                          // Ask the existing agent instead of creating a new one
+                          recordSuggestionOutcome(agentSuggestion.routingDecisionId, "declined");
+                          setAgentSuggestion(null);
+                          setDuplicateAgents([]);
+                          if (pendingQuestion) {
+                            const questionToSend = `@${duplicate.agentName} ${pendingQuestion}`;
+                            const filesToSend = [...pendingFiles];
+                            setPendingQuestion(null);
+                            setPendingFiles([]);
+                            setTimeout(() => {
+                              setAttachedFiles(filesToSend);
+                              sendMessage(questionToSend);
+                            }, 100);
+                          }
+                        }}
+                        disabled={isCreatingAgent}
+                        className="px-3 py-1 text-sm bg-white dark:bg-gray-700 border border-yellow-300 dark:border-yellow-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-yellow-100 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 flex-shrink-0"
+                      >
+                        Use this agent
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="flex gap-3">
               <button
                 onClick={() => {
                   console.log("❌ User declined agent creation - using generic assistant");
+                  recordSuggestionOutcome(agentSuggestion.routingDecisionId, "declined");
                   setAgentSuggestion(null);
+                  setDuplicateAgents([]);
                   
                   // Re-send question with skipAgentMatching flag to use generic assistant
                   if (pendingQuestion) {
@@ -1261,7 +1710,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
                 Not Now
               </button>
               <button
-                onClick={handleCreateAgent}
+                onClick={() => handleCreateAgent(duplicateAgents.length > 0)}
                 disabled={isCreatingAgent}
                 className="flex-1 px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
               >
@@ -1273,7 +1722,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
                 ) : (
                   <>
                     <Sparkles className="w-4 h-4" />
-                    Create Agent
+                    {duplicateAgents.length > 0 ? "Create Anyway" : "Create Agent"}
                   </>
                 )}
               </button>
@@ -1307,6 +1756,7 @@ export function ChatInterface({ sessionId: initialSessionId, onAgentCreated }: C
               <button
                 onClick={() => {
                   console.log("❌ User declined skill addition - continuing without skill");
+                  recordSuggestionOutcome(skillSuggestion.routingDecisionId, "declined");
                   setSkillSuggestion(null);
                   
                   // Re-send question with skipAgentMatching flag (agent will respond without new skill)
@@ -1,12 +1,16 @@
 "use client";
 
-import { Message } from "@/types/conversation";
-import { formatRelativeTime } from "@/lib/utils/formatters";
-import { Bot, User } from "lucide-react";
+import { useState } from "react";
+import { FeedbackRating, Message } from "@/types/conversation";
+import { formatModelName, formatRelativeTime } from "@/lib/utils/formatters";
+import { Bot, ThumbsDown, ThumbsUp, User } from "lucide-react";
+import { RoutingExplanation } from "./RoutingExplanation";
 
 interface MessageBubbleProps {
   message: Message;
   agentName?: string;
+  onQuickReply?: (reply: string) => void; // Set while the message's quick replies can still be used
+  onFeedback?: (rating: FeedbackRating, comment?: string) => Promise<void>; // Set once the reply is saved
 }
 
 // Convert URLs in text to clickable links
@@ -34,8 +38,23 @@ function linkifyText(text: string) {
   });
 }
 
-export function MessageBubble({ message, agentName }: MessageBubbleProps) {
+export function MessageBubble({ message, agentName, onQuickReply, onFeedback }: MessageBubbleProps) {
   const isUser = message.role === "user";
+  const [isCommenting, setIsCommenting] = useState(false);
+  const [comment, setComment] = useState("");
+  const rating = message.feedback?.rating;
+
+  const handleRate = async (newRating: FeedbackRating) => {
+    await onFeedback?.(newRating, message.feedback?.comment);
+    setComment(message.feedback?.comment || "");
+    setIsCommenting(true);
+  };
+
+  const handleComment = async () => {
+    if (!rating) return;
+    await onFeedback?.(rating, comment);
+    setIsCommenting(false);
+  };
 
   return (
     <div className={`flex gap-3 ${isUser ? "flex-row-reverse" : "flex-row"} mb-4`}>
@@ -56,13 +75,26 @@ export function MessageBubble({ message, agentName }: MessageBubbleProps) {
         <div className={`flex items-center gap-2 mb-1 ${isUser ? "flex-row-reverse" : "flex-row"}`}>
           <div className="flex items-center gap-2">
             <span className="text-sm font-semibold text-gray-900 dark:text-white">
-              {isUser ? "You" : agentName || "AI Assistant"}
+              {isUser ? "You" : message.panelRole === "moderator" ? "Panel Moderator" : agentName || "AI Assistant"}
             </span>
-            {!isUser && agentName && agentName !== "AI Assistant" && (
+            {!isUser && message.panelRole && (
+              <span className="px-2 py-0.5 bg-gradient-to-r from-purple-500 to-pink-500 text-white text-xs rounded-full font-medium">
+                {message.panelRole === "moderator" ? "Consensus" : "Panelist"}
+              </span>
+            )}
+            {!isUser && !message.panelRole && agentName && agentName !== "AI Assistant" && (
               <span className="px-2 py-0.5 bg-gradient-to-r from-blue-500 to-purple-500 text-white text-xs rounded-full font-medium">
                 Specialist
               </span>
             )}
+            {!isUser && message.model && (
+              <span
+                className="px-2 py-0.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded-full font-medium"
+                title={message.model}
+              >
+                {formatModelName(message.model)}
+              </span>
+            )}
           </div>
           <span className="text-xs text-gray-500">
             {formatRelativeTime(message.timestamp)}
@@ -82,6 +114,107 @@ export function MessageBubble({ message, agentName }: MessageBubbleProps) {
           </p>
         </div>
 
+        {/* Quick Replies */}
+        {!isUser && onQuickReply && message.quickReplies && message.quickReplies.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {message.quickReplies.map((reply) => (
+              <button
+                key={reply}
+                onClick={() => onQuickReply(reply)}
+                className="px-3 py-1.5 text-sm bg-white dark:bg-gray-800 border border-purple-300 dark:border-purple-700 text-purple-700 dark:text-purple-300 rounded-full hover:bg-purple-50 dark:hover:bg-purple-900/30 transition-colors"
+              >
+                {reply}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Feedback */}
+        {!isUser && onFeedback && !message.quickReplies?.length && (
+          <div className="mt-1 flex flex-col items-start gap-1">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => handleRate("up")}
+                title="Good answer"
+                className={`p-1 rounded transition-colors ${
+                  rating === "up"
+                    ? "text-green-600 dark:text-green-400"
+                    : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                }`}
+              >
+                <ThumbsUp className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => handleRate("down")}
+                title="Bad answer"
+                className={`p-1 rounded transition-colors ${
+                  rating === "down"
+                    ? "text-red-600 dark:text-red-400"
+                    : "text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                }`}
+              >
+                <ThumbsDown className="w-3.5 h-3.5" />
+              </button>
+              {message.feedback?.comment && !isCommenting && (
+                <span className="text-xs text-gray-500 italic truncate max-w-xs" title={message.feedback.comment}>
+                  {message.feedback.comment}
+                </span>
+              )}
+            </div>
+            {isCommenting && (
+              <div className="flex items-center gap-2">
+                <input
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleComment();
+                    if (e.key === "Escape") setIsCommenting(false);
+                  }}
+                  placeholder={rating === "down" ? "What was wrong? (optional)" : "Add a comment (optional)"}
+                  className="px-2 py-1 text-xs w-64 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+                />
+                <button
+                  onClick={handleComment}
+                  className="px-2 py-1 text-xs bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
+                >
+                  Send
+                </button>
+                <button
+                  onClick={() => setIsCommenting(false)}
+                  className="px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                >
+                  Skip
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Delegation Chain */}
+        {!isUser && message.delegations && message.delegations.length > 0 && (
+          <div className="mt-1 flex flex-wrap gap-1">
+            {message.delegations.map((hop, index) => (
+              <span
+                key={index}
+                className={`px-2 py-0.5 text-xs rounded-full ${
+                  hop.success
+                    ? "bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                    : "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300"
+                }`}
+                title={hop.question}
+              >
+                {hop.fromAgentName} → {hop.toAgentName}
+                {hop.mode === "handoff" ? " (handoff)" : ""}
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Routing Explanation */}
+        {!isUser && message.routingDecisionId && message.panelRole !== "moderator" && (
+          <RoutingExplanation routingDecisionId={message.routingDecisionId} />
+        )}
+
         {/* Voice Indicator */}
         {message.voiceEnabled && (
           <div className="mt-1 text-xs text-gray-500 flex items-center gap-1">
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import { HelpCircle, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import type { RoutingDecision, RoutingMethod } from "@/types/routing";
+
+interface RoutingExplanationProps {
+  routingDecisionId: string;
+}
+
+const METHOD_LABELS: Record<RoutingMethod, string> = {
+  llm: "AI matching",
+  embedding: "Similarity matching",
+  keyword: "Keyword matching",
+  mention: "@mention",
+  pinned: "Pinned agent",
+  skipped: "Matching skipped",
+  none: "No match",
+};
+
+/**
+ * "Why this agent?" - lazily loads and shows the routing decision behind a reply
+ */
+export function RoutingExplanation({ routingDecisionId }: RoutingExplanationProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [decision, setDecision] = useState<RoutingDecision | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening || decision) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/routing/decisions/${routingDecisionId}`);
+      if (!response.ok) {
+        throw new Error("Failed to load routing decision");
+      }
+      const data = await response.json();
+      setDecision(data.decision);
+    } catch (err) {
+      console.error("Failed to load routing decision:", err);
+      setError("Could not load the routing details");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const maxScore = decision
+    ? Math.max(...decision.candidates.map((candidate) => candidate.score ?? 0), 0)
+    : 0;
+
+  return (
+    <div className="mt-1 w-full">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1 text-xs text-gray-500 hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+      >
+        <HelpCircle className="w-3 h-3" />
+        Why this agent?
+        {isOpen ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-xs text-gray-700 dark:text-gray-300 space-y-3">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-gray-500">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading...
+            </div>
+          )}
+
+          {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+          {decision && (
+            <>
+              {/* Decision */}
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="px-2 py-0.5 bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 rounded-full font-medium">
+                    {METHOD_LABELS[decision.method]}
+                  </span>
+                  <span className="text-gray-500">
+                    Confidence {Math.round(decision.confidence * 100)}%
+                  </span>
+                </div>
+                <p>
+                  <span className="font-semibold">{decision.chosenAgentName || "General assistant"}</span>
+                  {decision.reasoning ? ` - ${decision.reasoning}` : ""}
+                </p>
+              </div>
+
+              {/* Candidates */}
+              {decision.candidates.length > 0 && (
+                <div>
+                  <p className="font-semibold mb-1">Agents considered</p>
+                  <div className="space-y-1">
+                    {decision.candidates.map((candidate) => (
+                      <div key={candidate.agentId} className="flex items-center gap-2">
+                        <span
+                          className={`w-32 truncate ${
+                            candidate.agentId === decision.chosenAgentId
+                              ? "font-semibold text-purple-600 dark:text-purple-400"
+                              : ""
+                          }`}
+                          title={candidate.agentName}
+                        >
+                          {candidate.agentName}
+                        </span>
+                        {candidate.score !== undefined && maxScore > 0 && (
+                          <>
+                            <div className="flex-1 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-blue-500 to-purple-500"
+                                style={{ width: `${Math.max(0, (candidate.score / maxScore) * 100)}%` }}
+                              />
+                            </div>
+                            <span className="w-10 text-right text-gray-500">{candidate.score.toFixed(2)}</span>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Skills */}
+              {decision.matchedSkills.length > 0 && (
+                <div>
+                  <p className="font-semibold mb-1">Skills used</p>
+                  <div className="flex flex-wrap gap-1">
+                    {decision.matchedSkills.map((skill) => (
+                      <span
+                        key={skill.skillId}
+                        className="px-2 py-0.5 bg-pink-50 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300 rounded-full"
+                      >
+                        {skill.name} ({Math.round(skill.relevanceScore * 100)}%)
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Suggestion */}
+              {decision.suggestion && (
+                <div>
+                  <p className="font-semibold mb-1">Suggestion</p>
+                  <p>
+                    {decision.suggestion.type === "agent"
+                      ? `Create a ${decision.suggestion.name} agent`
+                      : `Add the ${decision.suggestion.name} skill`}
+                    {" - "}
+                    <span className="text-gray-500">{decision.suggestion.outcome ?? "no answer yet"}</span>
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { X, Key, Zap, Mic, Palette } from "lucide-react";
 import { waitForVoices } from "@/lib/voice/webSpeech";
+import type { ModelProviderId } from "@/types/model";
+import { AGENT_DEFAULTS, PANEL_DEFAULTS, SUGGESTION_FEEDBACK_DEFAULTS } from "@/lib/constants";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -40,9 +42,20 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   // AI Settings state
   const [responseLength, setResponseLength] = useState<"concise" | "normal" | "detailed">("concise");
   const [temperature, setTemperature] = useState(0.3);
+  const [modelProvider, setModelProvider] = useState<ModelProviderId>("anthropic");
+  const [modelOverride, setModelOverride] = useState("");
+  const [providerBaseUrl, setProviderBaseUrl] = useState("");
+  const [providerKey, setProviderKey] = useState("");
+  const [hasExistingProviderKey, setHasExistingProviderKey] = useState(false);
+  const [panelSize, setPanelSize] = useState<number>(PANEL_DEFAULTS.SIZE);
+  const [panelModerator, setPanelModerator] = useState<boolean>(PANEL_DEFAULTS.MODERATOR);
+  const [matchConfidenceThreshold, setMatchConfidenceThreshold] = useState<number>(AGENT_DEFAULTS.MATCH_CONFIDENCE_THRESHOLD);
+  const [suggestionDeclineLimit, setSuggestionDeclineLimit] = useState<number>(SUGGESTION_FEEDBACK_DEFAULTS.DECLINE_LIMIT);
   
   // Budget Settings state
   const [monthlyBudget, setMonthlyBudget] = useState(50);
+  const [budgetAlertThreshold, setBudgetAlertThreshold] = useState(80);
+  const [budgetHardLimit, setBudgetHardLimit] = useState(false);
   
   // Load existing settings when modal opens
   useEffect(() => {
@@ -113,12 +126,23 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         if (data.ai) {
           setResponseLength(data.ai.responseLength || "concise");
           setTemperature(data.ai.temperature || 0.3);
+          setModelProvider(data.ai.provider || "anthropic");
+          setModelOverride(data.ai.model || "");
+          setProviderBaseUrl(data.ai.baseUrl || "");
+          setPanelSize(data.ai.panelSize || PANEL_DEFAULTS.SIZE);
+          setPanelModerator(data.ai.panelModerator ?? PANEL_DEFAULTS.MODERATOR);
+          setMatchConfidenceThreshold(data.ai.matchConfidenceThreshold ?? AGENT_DEFAULTS.MATCH_CONFIDENCE_THRESHOLD);
+          setSuggestionDeclineLimit(data.ai.suggestionDeclineLimit ?? SUGGESTION_FEEDBACK_DEFAULTS.DECLINE_LIMIT);
         }
         
         // Load budget settings
         if (data.monthlyBudget !== undefined) {
           setMonthlyBudget(data.monthlyBudget);
         }
+        if (data.budgetAlertThreshold !== undefined) {
+          setBudgetAlertThreshold(data.budgetAlertThreshold);
+        }
+        setBudgetHardLimit(data.budgetHardLimit || false);
         
         // Show if API keys are configured
         if (data.apiKeys) {
@@ -126,6 +150,7 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
           setHasExistingAnthropicKey(data.apiKeys.hasAnthropic || false);
           setHasExistingElevenLabsKey(data.apiKeys.hasElevenLabs || false);
           setHasExistingVoiceId(data.apiKeys.hasElevenLabsVoiceId || false);
+          setHasExistingProviderKey(data.apiKeys.hasOpenaiCompatible || false);
           // Reset removal states when loading
           setRemoveAnthropicKey(false);
           setRemoveElevenLabsKey(false);
@@ -169,6 +194,12 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       apiKeysToSave.elevenLabsVoiceId = elevenLabsVoiceId.trim();
     }
 
+    if (providerKey && providerKey.trim()) {
+      apiKeysToSave.openaiCompatible = providerKey.trim();
+    } else if (hasExistingProviderKey) {
+      apiKeysToSave.openaiCompatible = "__KEEP_EXISTING__";
+    }
+
     // Save settings to backend
     const settings = {
       apiKeys: Object.keys(apiKeysToSave).length > 0 ? apiKeysToSave : undefined,
@@ -183,8 +214,20 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         voiceInterruption,
         continuousListening
       },
-      ai: { responseLength, temperature },
+      ai: {
+        responseLength,
+        temperature,
+        provider: modelProvider,
+        model: modelOverride.trim() || undefined,
+        baseUrl: providerBaseUrl.trim() || undefined,
+        panelSize,
+        panelModerator,
+        matchConfidenceThreshold,
+        suggestionDeclineLimit,
+      },
       monthlyBudget,
+      budgetAlertThreshold,
+      budgetHardLimit,
     };
 
     console.log("💾 Saving settings:", {
@@ -723,6 +766,127 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     </p>
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Panel Size: {panelSize} agents
+                    </label>
+                    <input
+                      type="range"
+                      min={PANEL_DEFAULTS.MIN_SIZE}
+                      max={PANEL_DEFAULTS.MAX_SIZE}
+                      step="1"
+                      value={panelSize}
+                      onChange={(e) => setPanelSize(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      How many matched agents answer when panel mode is on in the chat
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={panelModerator}
+                        onChange={(e) => setPanelModerator(e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="text-sm font-medium">Panel moderator</span>
+                    </label>
+                    <p className="text-xs text-gray-500 ml-6 mt-1">
+                      Combine the panel answers into one consensus answer
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Match Confidence Threshold: {Math.round(matchConfidenceThreshold * 100)}%
+                    </label>
+                    <input
+                      type="range"
+                      min={SUGGESTION_FEEDBACK_DEFAULTS.MIN_CONFIDENCE_THRESHOLD}
+                      max={SUGGESTION_FEEDBACK_DEFAULTS.MAX_CONFIDENCE_THRESHOLD}
+                      step="0.05"
+                      value={matchConfidenceThreshold}
+                      onChange={(e) => setMatchConfidenceThreshold(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Matches at or above this confidence answer directly instead of suggesting a new agent
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Stop Suggesting After: {suggestionDeclineLimit} {suggestionDeclineLimit === 1 ? "decline" : "declines"}
+                    </label>
+                    <input
+                      type="range"
+                      min={SUGGESTION_FEEDBACK_DEFAULTS.MIN_DECLINE_LIMIT}
+                      max={SUGGESTION_FEEDBACK_DEFAULTS.MAX_DECLINE_LIMIT}
+                      step="1"
+                      value={suggestionDeclineLimit}
+                      onChange={(e) => setSuggestionDeclineLimit(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Agent and skill topics you decline this many times are no longer suggested
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Model Provider</label>
+                    <select
+                      value={modelProvider}
+                      onChange={(e) => setModelProvider(e.target.value as ModelProviderId)}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+                    >
+                      <option value="anthropic">Anthropic (Claude)</option>
+                      <option value="openai-compatible">OpenAI-compatible</option>
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Agents can override this in their own settings
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Model (optional)</label>
+                    <input
+                      type="text"
+                      value={modelOverride}
+                      onChange={(e) => setModelOverride(e.target.value)}
+                      className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+                      placeholder={modelProvider === "anthropic" ? "Provider default" : "e.g. gpt-4o-mini or llama3.1"}
+                    />
+                  </div>
+
+                  {modelProvider === "openai-compatible" && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium mb-2">Base URL</label>
+                        <input
+                          type="text"
+                          value={providerBaseUrl}
+                          onChange={(e) => setProviderBaseUrl(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+                          placeholder="https://api.openai.com/v1"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium mb-2">API Key</label>
+                        <input
+                          type="password"
+                          value={providerKey}
+                          onChange={(e) => setProviderKey(e.target.value)}
+                          className="w-full px-4 py-2 border border-gray-300 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+                          placeholder={hasExistingProviderKey ? "••••••••  (saved)" : "Leave empty for local servers"}
+                        />
+                      </div>
+                    </>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium mb-2">
                       Monthly Budget ($)
@@ -741,6 +905,39 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                       Set your monthly API usage budget for tracking purposes
                     </p>
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">
+                      Budget Alert: {budgetAlertThreshold}%
+                    </label>
+                    <input
+                      type="range"
+                      min="10"
+                      max="100"
+                      step="5"
+                      value={budgetAlertThreshold}
+                      onChange={(e) => setBudgetAlertThreshold(Number(e.target.value))}
+                      className="w-full"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Show a warning once this much of your budget is used
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={budgetHardLimit}
+                        onChange={(e) => setBudgetHardLimit(e.target.checked)}
+                        className="rounded"
+                      />
+                      <span className="text-sm font-medium">Hard stop at budget</span>
+                    </label>
+                    <p className="text-xs text-gray-500 ml-6 mt-1">
+                      Block chat, agent creation, skills and voice once the budget is used up
+                    </p>
+                  </div>
                 </div>
               </div>
             )}
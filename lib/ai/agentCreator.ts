@@ -1,4 +1,5 @@
 import { Agent } from "@/types/agent";
+import type { ModelSelection } from "@/types/model";
 import { sendMessageHaiku, sendMessageSonnet } from "./claude";
 
 /**
@@ -8,7 +9,8 @@ import { sendMessageHaiku, sendMessageSonnet } from "./claude";
 export async function generateAgentProfile(
   topic: string,
   context: string,
-  apiKey?: string
+  apiKey?: string,
+  model?: ModelSelection // User's provider/model (resolveModelSelection)
 ): Promise<Omit<Agent, "_id" | "userId" | "createdAt" | "updatedAt" | "version" | "performanceMetrics" | "evolutionHistory">> {
   const systemPrompt = `You are an expert AI agent architect. Your job is to design comprehensive, specialized AI agent profiles with sophisticated system prompts.
 
@@ -133,6 +135,7 @@ Design a comprehensive, production-quality agent profile with a sophisticated sy
       maxTokens: 2048,
       temperature: 0.7,
       apiKey, // Pass user's custom API key
+      model,
     });
 
     console.log("✅ Claude Haiku response received, length:", response.content.length);
@@ -258,7 +261,9 @@ Guidelines:
  */
 export async function refineAgentProfile(
   currentAgent: Agent,
-  feedback: string
+  feedback: string,
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<Partial<Agent>> {
   const systemPrompt = `You are an AI agent improvement specialist. Given an existing agent profile and user feedback, suggest specific improvements.
 
@@ -290,6 +295,8 @@ What improvements should be made to this agent?`;
       enableCaching: true,
       maxTokens: 2048,
       temperature: 0.6,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -316,7 +323,9 @@ What improvements should be made to this agent?`;
  */
 export async function generateKnowledgeBase(
   topic: string,
-  expertise: string[]
+  expertise: string[],
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<{ facts: string[]; sources: string[] }> {
   const systemPrompt = `You are a knowledge curator. Generate a list of key facts and reliable sources for a given topic.
 
@@ -347,6 +356,8 @@ Generate 5-10 key facts and 3-5 reliable sources for this topic.`;
       systemPrompt,
       maxTokens: 2048,
       temperature: 0.5,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
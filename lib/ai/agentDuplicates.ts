@@ -0,0 +1,204 @@
+/**
+ * Duplicate Agent Detection
+ * Deterministic name and profile overlap checks, run before an agent is
+ * created, plus the field merge used when two agents are combined.
+ * No model calls or database access - safe to import from client components.
+ */
+
+import { DUPLICATE_AGENT_DEFAULTS } from "../constants";
+import type { Agent, DuplicateAgentMatch } from "@/types/agent";
+
+export interface DuplicateCandidate {
+  _id?: Agent["_id"];
+  name: string;
+  description?: string;
+  expertise?: string[];
+}
+
+// Titles and role words that say nothing about which agent it is
+const NAME_NOISE = new Set([
+  "dr", "mr", "mrs", "ms", "prof", "professor", "sir", "the",
+  "agent", "assistant", "bot", "expert", "specialist",
+]);
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into", "is", "it",
+  "of", "on", "or", "that", "the", "their", "this", "to", "with", "who", "your", "you",
+]);
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(tokenize(name).filter((token) => !NAME_NOISE.has(token)));
+}
+
+function contentTokens(text: string): Set<string> {
+  return new Set(tokenize(text).filter((token) => token.length > 2 && !STOP_WORDS.has(token)));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function isSubset(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0) return false;
+  for (const token of a) {
+    if (!b.has(token)) return false;
+  }
+  return true;
+}
+
+/**
+ * Name similarity: exact match, one short name contained in the other
+ * ("Dr. Lee" / "Dr. Ernesto Lee - AI Educator"), or word overlap
+ */
+function scoreNames(a: string, b: string): { score: number; reason?: string } {
+  const fullA = nameTokens(a);
+  const fullB = nameTokens(b);
+  const shortA = nameTokens(a.split(" - ")[0]);
+  const shortB = nameTokens(b.split(" - ")[0]);
+
+  if (fullA.size > 0 && jaccard(fullA, fullB) === 1) {
+    return { score: 1, reason: "Same name" };
+  }
+  if (isSubset(shortA, shortB) || isSubset(shortB, shortA)) {
+    return { score: DUPLICATE_AGENT_DEFAULTS.SHORT_NAME_SCORE, reason: "Same short name" };
+  }
+
+  const score = jaccard(fullA, fullB);
+  return { score, reason: score > 0 ? "Similar name" : undefined };
+}
+
+/**
+ * Profile similarity from expertise and description overlap
+ * (only when both sides have them)
+ */
+function scoreProfiles(
+  candidate: DuplicateCandidate,
+  agent: Agent
+): { score: number; sharedExpertise: string[] } {
+  const candidateExpertise = candidate.expertise ?? [];
+  if (candidateExpertise.length === 0 && !candidate.description) {
+    return { score: 0, sharedExpertise: [] };
+  }
+
+  const agentExpertise = new Set(agent.expertise.map((item) => item.toLowerCase().trim()));
+  const sharedExpertise = candidateExpertise.filter((item) => agentExpertise.has(item.toLowerCase().trim()));
+
+  const expertiseScore = jaccard(
+    contentTokens(candidateExpertise.join(" ")),
+    contentTokens(agent.expertise.join(" "))
+  );
+  const descriptionScore = jaccard(
+    contentTokens(candidate.description ?? ""),
+    contentTokens(agent.description)
+  );
+
+  const weight = DUPLICATE_AGENT_DEFAULTS.EXPERTISE_WEIGHT;
+  return {
+    score: expertiseScore * weight + descriptionScore * (1 - weight),
+    sharedExpertise,
+  };
+}
+
+/**
+ * Find existing agents that look like the same agent as the candidate
+ * Works with just a name (e.g. a suggested topic) or a full profile.
+ * Best match first.
+ */
+export function findDuplicateAgents(
+  candidate: DuplicateCandidate,
+  agents: Agent[],
+  threshold: number = DUPLICATE_AGENT_DEFAULTS.SIMILARITY_THRESHOLD
+): DuplicateAgentMatch[] {
+  const candidateId = candidate._id?.toString();
+  const matches: DuplicateAgentMatch[] = [];
+
+  for (const agent of agents) {
+    const agentId = agent._id?.toString();
+    if (!agentId || agentId === candidateId) continue;
+
+    const name = scoreNames(candidate.name, agent.name);
+    const profile = scoreProfiles(candidate, agent);
+    const score = Math.max(name.score, profile.score);
+    if (score < threshold) continue;
+
+    const reasons: string[] = [];
+    if (name.reason && name.score >= threshold) {
+      reasons.push(name.reason);
+    }
+    if (profile.sharedExpertise.length > 0) {
+      reasons.push(`Shared expertise: ${profile.sharedExpertise.slice(0, 3).join(", ")}`);
+    } else if (profile.score >= threshold) {
+      reasons.push("Similar description");
+    }
+
+    matches.push({ agentId, agentName: agent.name, score, reasons });
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, DUPLICATE_AGENT_DEFAULTS.MAX_RESULTS);
+}
+
+function unionIgnoringCase(first: string[], second: string[]): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const item of [...first, ...second]) {
+    const key = item.toLowerCase().trim();
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    merged.push(item);
+  }
+  return merged;
+}
+
+function weightedAverage(a: number, aWeight: number, b: number, bWeight: number): number {
+  const total = aWeight + bWeight;
+  return total > 0 ? (a * aWeight + b * bWeight) / total : Math.max(a, b);
+}
+
+/**
+ * Fields of the target agent after absorbing the source agent
+ * The target keeps its name, prompt and style; lists are unioned and
+ * metrics are combined, weighted by questions handled.
+ */
+export function mergeAgentProfiles(
+  target: Agent,
+  source: Agent
+): Pick<Agent, "expertise" | "capabilities" | "knowledgeBase" | "performanceMetrics"> {
+  const targetMetrics = target.performanceMetrics;
+  const sourceMetrics = source.performanceMetrics;
+
+  return {
+    expertise: unionIgnoringCase(target.expertise, source.expertise),
+    capabilities: unionIgnoringCase(target.capabilities, source.capabilities),
+    knowledgeBase: {
+      facts: unionIgnoringCase(target.knowledgeBase.facts, source.knowledgeBase.facts),
+      sources: unionIgnoringCase(target.knowledgeBase.sources, source.knowledgeBase.sources),
+      lastUpdated: new Date(),
+    },
+    performanceMetrics: {
+      questionsHandled: targetMetrics.questionsHandled + sourceMetrics.questionsHandled,
+      successRate: weightedAverage(
+        targetMetrics.successRate, targetMetrics.questionsHandled,
+        sourceMetrics.successRate, sourceMetrics.questionsHandled
+      ),
+      avgResponseTime: weightedAverage(
+        targetMetrics.avgResponseTime, targetMetrics.questionsHandled,
+        sourceMetrics.avgResponseTime, sourceMetrics.questionsHandled
+      ),
+      lastUsed: new Date(Math.max(
+        new Date(targetMetrics.lastUsed).getTime(),
+        new Date(sourceMetrics.lastUsed).getTime()
+      )),
+    },
+  };
+}
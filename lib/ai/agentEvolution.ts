@@ -1,5 +1,7 @@
 import { Agent } from "@/types/agent";
 import { Message } from "@/types/conversation";
+import type { AnswerFeedback } from "@/types/feedback";
+import type { ModelSelection } from "@/types/model";
 import { sendMessageSonnet } from "./claude";
 
 export interface EvolutionSuggestion {
@@ -12,11 +14,15 @@ export interface EvolutionSuggestion {
 
 /**
  * Analyze agent performance and suggest improvements
- * Uses Claude Sonnet for high-quality analysis
+ * Uses Claude Sonnet for high-quality analysis; user ratings of the agent's
+ * replies (thumbs up/down and comments) are included when available
  */
 export async function analyzeAgentPerformance(
   agent: Agent,
-  recentConversations: Message[]
+  recentConversations: Message[],
+  apiKey?: string,
+  feedback: AnswerFeedback[] = [],
+  model?: ModelSelection // Agent's provider/model (resolveModelSelection)
 ): Promise<EvolutionSuggestion> {
   // If no conversations, no improvements needed yet
   if (recentConversations.length === 0) {
@@ -32,7 +38,7 @@ export async function analyzeAgentPerformance(
   const systemPrompt = `You are an AI agent performance analyst. Your job is to analyze an agent's performance based on recent conversations and suggest improvements.
 
 Analyze:
-1. Response quality and relevance
+1. Response quality and relevance (weigh user feedback heavily)
 2. Knowledge gaps
 3. Tone and style consistency
 4. Capability coverage
@@ -62,16 +68,22 @@ Only include fields in updatedFields that actually need updating.`;
     .map((msg, i) => `${i + 1}. [${msg.role}]: ${msg.content.substring(0, 200)}...`)
     .join("\n");
 
+  const feedbackSummary = feedback
+    .map((item) => `${item.rating === "up" ? "👍" : "👎"} Q: ${item.question.substring(0, 200)}${item.comment ? ` | Comment: ${item.comment}` : ""}`)
+    .join("\n");
+
   const userPrompt = `Agent Profile:
 Name: ${agent.name}
 Description: ${agent.description}
 Expertise: ${agent.expertise.join(", ")}
 Capabilities: ${agent.capabilities.join(", ")}
 Questions Handled: ${agent.performanceMetrics.questionsHandled}
+Success Rate (positive feedback): ${Math.round(agent.performanceMetrics.successRate * 100)}%
+Avg Response Time: ${Math.round(agent.performanceMetrics.avgResponseTime)}ms
 
 Recent Conversations:
 ${conversationSummary}
-
+${feedback.length > 0 ? `\nUser Feedback:\n${feedbackSummary}\n` : ""}
 Analyze this agent's performance and suggest improvements if needed.`;
 
   try {
@@ -80,6 +92,8 @@ Analyze this agent's performance and suggest improvements if needed.`;
       enableCaching: true, // Cache the system prompt
       maxTokens: 3072,
       temperature: 0.6,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -220,7 +234,9 @@ function extractCommonWords(questions: string[]): string[] {
  */
 export async function identifyKnowledgeGaps(
   agent: Agent,
-  failedQuestions: string[]
+  failedQuestions: string[],
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<{
   gaps: string[];
   suggestedFacts: string[];
@@ -252,6 +268,8 @@ What knowledge gaps exist and what should be added?`;
       systemPrompt,
       maxTokens: 2048,
       temperature: 0.5,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -281,7 +299,9 @@ What knowledge gaps exist and what should be added?`;
  */
 export async function suggestNewCapabilities(
   agent: Agent,
-  userRequests: string[]
+  userRequests: string[],
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<string[]> {
   if (userRequests.length === 0) {
     return [];
@@ -310,6 +330,8 @@ What new capabilities should this agent have?`;
       systemPrompt,
       maxTokens: 1024,
       temperature: 0.6,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\[[\s\S]*\]/);
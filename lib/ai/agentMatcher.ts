@@ -1,107 +1,166 @@
-import { Agent, AgentMatchResult } from "@/types/agent";
-import { sendMessageHaiku } from "./claude";
-import { AGENT_DEFAULTS } from "../constants";
-
 /**
- * Analyze a user question and match it to the most appropriate agent
- * Uses Claude Haiku for fast, cost-efficient semantic matching
+ * Agent Matcher
+ * Matches a question to the best agent with a chain of strategies - LLM tool
+ * call, embedding similarity, keyword overlap. Each strategy has its own
+ * timeout; when one fails, times out or finds nothing the next one runs, so
+ * matching still works (degraded) without the model.
  */
-export async function analyzeQuestion(
-  question: string,
-  agents: Agent[],
-  apiKey?: string
-): Promise<AgentMatchResult> {
-  // If no agents available, return null match
-  if (agents.length === 0) {
-    return {
-      matchedAgent: null,
-      confidence: 0,
-      reasoning: "No agents available to match against.",
-    };
-  }
 
-  // Create agent summaries for matching
-  const agentSummaries = agents.map((agent, index) => ({
-    index,
-    id: agent._id?.toString() || "",
-    name: agent.name,
-    description: agent.description,
-    expertise: agent.expertise.join(", "),
-    capabilities: agent.capabilities.join(", "),
-  }));
-
-  const systemPrompt = `You are an intelligent agent matcher. Your job is to analyze a user's question and determine which specialized AI agent is best suited to answer it.
-
-You will be given:
-1. A user's question
-2. A list of available agents with their expertise and capabilities
-
-Your task:
-- Analyze the question's topic, intent, and complexity
-- Match it to the most appropriate agent based on expertise
-- Provide a confidence score (0-100)
-- Explain your reasoning
-
-Respond in JSON format:
-{
-  "matchedAgentIndex": <index number or null>,
-  "confidence": <0-100>,
-  "reasoning": "<brief explanation>"
+import { Agent, AgentMatchResult } from "@/types/agent";
+import type { AgentSkill } from "@/types/skill";
+import type { ModelSelection } from "@/types/model";
+import { sendMessageWithTools } from "./claude";
+import { AGENT_DEFAULTS, EMBEDDING_DEFAULTS, MATCHER_DEFAULTS } from "../constants";
+import { shortlistAgents, ScoredItem } from "./vectorIndex";
+
+export type MatchMethod = "llm" | "embedding" | "keyword";
+
+export interface MatchCandidate {
+  agent: Agent;
+  score?: number; // Embedding similarity (LLM/embedding matching) or keyword score (keyword matching)
 }
 
-Guidelines:
-- Look for EXACT keyword matches in agent name, expertise, or capabilities
-- "Tableau" question → Tableau agent (high confidence)
-- "SQL" question → Database agent (high confidence)
-- "React" question → React agent (high confidence)
-- Confidence >= 70: Strong match, route to this agent
-- Confidence 40-69: Moderate match, suggest agent but ask user
-- Confidence < 40: Weak match, suggest creating a new agent
-- If no agent is suitable, set matchedAgentIndex to null
-- IMPORTANT: Prioritize agents with matching technical terms/tools in their name or expertise`;
+export interface AgentMatchOutcome extends AgentMatchResult {
+  suggestNewAgent?: boolean;
+  suggestNewSkill?: boolean;
+  suggestion?: string;
+  needsClarification?: boolean; // suggestion then holds the clarifying question
+  interpretations?: string[]; // Likely meanings of an ambiguous question (quick replies)
+  panelAgents?: Agent[]; // Other agents covering different parts of the question, best first
+  method?: MatchMethod; // Strategy that made the match (recorded in routing_decisions)
+  candidates?: MatchCandidate[]; // Agents that were considered
+}
 
-  const userPrompt = `Question: "${question}"
+export interface MatchInput {
+  question: string;
+  agents: Agent[];
+  skills: AgentSkill[];
+  apiKey?: string;
+  model?: ModelSelection; // User's provider/model - no agent is chosen yet
+  rankAgents: () => Promise<ScoredItem<Agent>[]>; // Embedding ranking, best first (computed once per match)
+}
 
-Available Agents:
-${agentSummaries
-  .map(
-    (agent, i) => `
-${i}. ${agent.name}
-   Description: ${agent.description}
-   Expertise: ${agent.expertise}
-   Capabilities: ${agent.capabilities}
-`
-  )
-  .join("\n")}
+/**
+ * One way of matching; returns null when it finds no usable match
+ */
+export interface MatchStrategy {
+  name: MatchMethod;
+  timeoutMs: number;
+  match(input: MatchInput): Promise<AgentMatchOutcome | null>;
+}
 
-Analyze the question and determine the best agent match.`;
+/**
+ * LLM tool call over the embedding shortlist - the only strategy that can
+ * suggest new agents/skills or ask for clarification
+ */
+export const llmMatchStrategy: MatchStrategy = {
+  name: "llm",
+  timeoutMs: MATCHER_DEFAULTS.LLM_TIMEOUT_MS,
+  async match({ question, agents, skills, apiKey, model, rankAgents }) {
+    // Only the closest agents (by embedding similarity) go to Claude
+    let candidates = agents;
+    let considered: MatchCandidate[] = agents.map((agent) => ({ agent }));
+    if (agents.length > EMBEDDING_DEFAULTS.AGENT_TOP_K) {
+      try {
+        const ranked = await rankAgents();
+        candidates = ranked.map((scored) => scored.item);
+        considered = ranked.map((scored) => ({ agent: scored.item, score: scored.score }));
+        console.log("🧮 Shortlisted agents:", ranked.map((scored) => `${scored.item.name} (${scored.score.toFixed(2)})`).join(", "));
+      } catch (error) {
+        console.error("Error shortlisting agents - sending all agents:", error);
+      }
+    }
 
-  console.log("🔍 Matching question:", question);
-  console.log("🔍 Available agents:", agentSummaries.map(a => `${a.name} (${a.expertise})`).join(", "));
+    // Build agent summaries with their skills
+    const agentSummaries = candidates.map((agent, index) => {
+      const agentSkills = skills.filter(s => s.agentId === agent._id?.toString());
+      return {
+        index,
+        id: agent._id?.toString() || "",
+        name: agent.name,
+        description: agent.description,
+        expertise: agent.expertise.join(", "),
+        capabilities: agent.capabilities.join(", "),
+        skills: agentSkills.map(s => ({
+          name: s.name,
+          description: s.description,
+        })),
+      };
+    });
 
-  try {
-    const response = await sendMessageHaiku(userPrompt, {
+    const { systemPrompt, userPrompt, tools } = buildMatchPrompts(question, agentSummaries);
+
+    console.log("🔍 Matching question:", question);
+    console.log("🔍 Available agents:", agentSummaries.map(a => a.name).join(", "));
+    console.log("🔍 Total skills:", agentSummaries.reduce((sum, a) => sum + a.skills.length, 0));
+
+    const response = await sendMessageWithTools(userPrompt, {
       systemPrompt,
-      enableCaching: false, // Don't cache for matching (varies too much)
-      maxTokens: 1024,
-      temperature: 0.3, // Lower temperature for more consistent matching
-      apiKey, // Pass user's custom API key
+      maxTokens: 2048,
+      temperature: 0.3,
+      apiKey,
+      model,
+      tools,
     });
 
-    // Parse JSON response
-    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Invalid response format from Claude");
-    }
+    console.log("🔧 Tool response:", {
+      hasToolUse: !!response.toolUse,
+      toolName: response.toolUse?.name,
+      content: response.content.substring(0, 100),
+    });
 
-    const result = JSON.parse(jsonMatch[0]);
+    if (!response.toolUse || response.toolUse.name !== "match_agent_with_recommendation") {
+      console.log("❌ No tool use in response. Content:", response.content);
+
+      // Check if Claude is asking for clarification
+      const contentLower = response.content.toLowerCase();
+      const isAskingForClarification =
+        contentLower.includes("clarify") ||
+        contentLower.includes("rephrase") ||
+        contentLower.includes("unclear") ||
+        contentLower.includes("garbled") ||
+        contentLower.includes("incoherent") ||
+        contentLower.includes("could you");
+
+      if (isAskingForClarification) {
+        console.log("💬 Claude is asking for clarification - returning special response");
+        return {
+          matchedAgent: null,
+          confidence: 0,
+          reasoning: response.content,
+          suggestNewAgent: false,
+          suggestNewSkill: false,
+          suggestion: response.content,
+          needsClarification: true,
+          interpretations: [],
+          method: "llm",
+          candidates: considered,
+        };
+      }
 
-    // Validate response
-    if (
-      typeof result.confidence !== "number" ||
-      typeof result.reasoning !== "string"
-    ) {
-      throw new Error("Invalid response structure from Claude");
+      throw new Error("No tool use in response");
+    }
+
+    const result = response.toolUse.input;
+    console.log("🔧 Tool input:", result);
+
+    // Too ambiguous to route - ask back with the likely meanings
+    if (result.needsClarification && result.clarifyingQuestion) {
+      console.log("💬 Question needs clarification:", result.clarifyingQuestion);
+      return {
+        matchedAgent: null,
+        confidence: 0,
+        reasoning: result.reasoning,
+        suggestNewAgent: false,
+        suggestNewSkill: false,
+        suggestion: result.clarifyingQuestion,
+        needsClarification: true,
+        interpretations: Array.isArray(result.interpretations)
+          ? result.interpretations.filter((interpretation: unknown): interpretation is string => typeof interpretation === "string")
+          : [],
+        method: "llm",
+        candidates: considered,
+      };
     }
 
     // Get matched agent if index is valid
@@ -109,42 +168,370 @@ Analyze the question and determine the best agent match.`;
     if (
       result.matchedAgentIndex !== null &&
       result.matchedAgentIndex >= 0 &&
-      result.matchedAgentIndex < agents.length
+      result.matchedAgentIndex < candidates.length
     ) {
-      matchedAgent = agents[result.matchedAgentIndex];
+      matchedAgent = candidates[result.matchedAgentIndex];
     }
 
-    const matchResult = {
-      matchedAgent,
-      confidence: result.confidence / 100, // Convert to 0-1 range
-      reasoning: result.reasoning,
-    };
-
     console.log("✅ Match result:", {
       agent: matchedAgent?.name || "None",
       confidence: `${result.confidence}%`,
-      reasoning: result.reasoning
+      suggestNewAgent: result.suggestNewAgent,
+      suggestNewSkill: result.suggestNewSkill,
+      suggestion: result.suggestion,
+      reasoning: result.reasoning,
     });
 
-    return matchResult;
-  } catch (error) {
-    console.error("Agent matching error:", error);
-    
-    // Fallback: Simple keyword matching
-    return fallbackKeywordMatch(question, agents);
+    // Check for duplicate skills before suggesting
+    let suggestNewSkill = result.suggestNewSkill || false;
+    let suggestion = result.suggestion || "";
+
+    if (suggestNewSkill && matchedAgent && suggestion) {
+      const agentSkills = skills.filter(s => s.agentId === matchedAgent._id?.toString());
+
+      console.log("🔍 Checking for duplicate skills:", {
+        suggestion,
+        agentId: matchedAgent._id?.toString(),
+        existingSkills: agentSkills.map(s => s.name),
+      });
+
+      if (hasSimilarSkill(suggestion, agentSkills)) {
+        console.log("⚠️ Similar skill already exists - not suggesting");
+        suggestNewSkill = false;
+        suggestion = "";
+      } else {
+        console.log("✅ No duplicate found - suggesting skill");
+      }
+    }
+
+    // Agents that could join a panel on multi-domain questions
+    const relatedIndexes: number[] = Array.isArray(result.relatedAgentIndexes) ? result.relatedAgentIndexes : [];
+    const panelAgents = relatedIndexes
+      .filter((index, i) => index >= 0 && index < candidates.length && relatedIndexes.indexOf(index) === i)
+      .map((index) => candidates[index])
+      .filter((agent) => agent !== matchedAgent);
+
+    return {
+      matchedAgent,
+      confidence: result.confidence / 100,
+      reasoning: result.reasoning,
+      suggestNewAgent: result.suggestNewAgent || false,
+      suggestNewSkill,
+      suggestion,
+      panelAgents,
+      method: "llm",
+      candidates: considered,
+    };
+  },
+};
+
+/**
+ * Embedding similarity - picks the closest agent when it is close enough
+ */
+export const embeddingMatchStrategy: MatchStrategy = {
+  name: "embedding",
+  timeoutMs: MATCHER_DEFAULTS.EMBEDDING_TIMEOUT_MS,
+  async match({ rankAgents }) {
+    const ranked = await rankAgents();
+    const related = ranked.filter((scored) => scored.score >= MATCHER_DEFAULTS.MIN_EMBEDDING_SCORE);
+    if (related.length === 0) {
+      console.log("🧮 No agent is similar enough for an embedding match");
+      return null;
+    }
+
+    const [best, ...others] = related;
+    return {
+      matchedAgent: best.item,
+      confidence: Math.min(best.score * 2, MATCHER_DEFAULTS.FALLBACK_MAX_CONFIDENCE),
+      reasoning: `Matched to ${best.item.name} by similarity (fallback mode - AI matching unavailable)`,
+      suggestNewAgent: false,
+      suggestNewSkill: false,
+      panelAgents: others.map((scored) => scored.item),
+      method: "embedding",
+      candidates: ranked.map((scored) => ({ agent: scored.item, score: scored.score })),
+    };
+  },
+};
+
+/**
+ * Keyword overlap - always answers, so it belongs last in the chain
+ * Mimics AI behavior: suggests skills for matched agents, new agents only if no match
+ */
+export const keywordMatchStrategy: MatchStrategy = {
+  name: "keyword",
+  timeoutMs: MATCHER_DEFAULTS.KEYWORD_TIMEOUT_MS,
+  async match({ question, agents }) {
+    return keywordMatch(question, agents);
+  },
+};
+
+const MATCH_STRATEGIES: Record<MatchMethod, MatchStrategy> = {
+  llm: llmMatchStrategy,
+  embedding: embeddingMatchStrategy,
+  keyword: keywordMatchStrategy,
+};
+
+/**
+ * Strategies named in MATCHER_STRATEGIES, in order (unknown names are ignored)
+ */
+export function getMatchStrategies(names: string = MATCHER_DEFAULTS.STRATEGIES): MatchStrategy[] {
+  const strategies = names
+    .split(",")
+    .map((name) => MATCH_STRATEGIES[name.trim() as MatchMethod])
+    .filter((strategy): strategy is MatchStrategy => !!strategy);
+
+  return strategies.length > 0 ? strategies : [llmMatchStrategy, embeddingMatchStrategy, keywordMatchStrategy];
+}
+
+async function runStrategy(strategy: MatchStrategy, input: MatchInput): Promise<AgentMatchOutcome | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      strategy.match(input),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Match strategy "${strategy.name}" timed out after ${strategy.timeoutMs}ms`)),
+          strategy.timeoutMs
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 /**
- * Fallback keyword-based matching if Claude fails
+ * Match a question to the best agent, considering agents and their skills
+ * Runs the strategy chain until one returns a match
  */
-function fallbackKeywordMatch(
+export async function matchAgent(
   question: string,
-  agents: Agent[]
-): AgentMatchResult {
+  agents: Agent[],
+  skills: AgentSkill[],
+  options: { apiKey?: string; model?: ModelSelection; strategies?: MatchStrategy[] } = {}
+): Promise<AgentMatchOutcome> {
+  // If no agents available, suggest creating one
+  if (agents.length === 0) {
+    return {
+      matchedAgent: null,
+      confidence: 0,
+      reasoning: "No agents available.",
+      suggestNewAgent: true,
+      suggestion: "Create your first agent to get started!",
+    };
+  }
+
+  let ranking: Promise<ScoredItem<Agent>[]> | null = null;
+  const input: MatchInput = {
+    question,
+    agents,
+    skills,
+    apiKey: options.apiKey,
+    model: options.model,
+    rankAgents: () => {
+      ranking ??= shortlistAgents(question, agents, skills).then((shortlist) => shortlist.agents);
+      return ranking;
+    },
+  };
+
+  for (const strategy of options.strategies ?? getMatchStrategies()) {
+    try {
+      const outcome = await runStrategy(strategy, input);
+      if (outcome) {
+        return outcome;
+      }
+    } catch (error) {
+      console.error(`❌ Match strategy "${strategy.name}" failed:`, {
+        message: error instanceof Error ? error.message : String(error),
+        hasApiKey: !!options.apiKey,
+        agentCount: agents.length,
+      });
+    }
+    console.log(`⚠️ Falling back from "${strategy.name}" matching`);
+  }
+
+  return {
+    matchedAgent: null,
+    confidence: 0,
+    reasoning: "No matching strategy found a suitable agent",
+    suggestNewAgent: false,
+    suggestNewSkill: false,
+  };
+}
+
+/**
+ * Whether an agent already has a skill like the suggested one
+ * (2+ significant words overlap)
+ */
+function hasSimilarSkill(suggestion: string, agentSkills: AgentSkill[]): boolean {
+  const suggestionWords = suggestion.toLowerCase().split(/\s+/).filter((w: string) => w.length > 3);
+
+  return agentSkills.some(skill => {
+    const skillWords = skill.name.toLowerCase().split(/\s+/).filter((w: string) => w.length > 3);
+    const overlap = suggestionWords.filter((w: string) => skillWords.some((sw: string) => sw.includes(w) || w.includes(sw)));
+    return overlap.length >= 2;
+  });
+}
+
+interface AgentSummary {
+  index: number;
+  id: string;
+  name: string;
+  description: string;
+  expertise: string;
+  capabilities: string;
+  skills: { name: string; description: string }[];
+}
+
+function buildMatchPrompts(question: string, agentSummaries: AgentSummary[]) {
+  const systemPrompt = `You are an intelligent agent and skill matcher. Your job is to:
+1. Analyze the user's question
+2. Match it to the best agent based on expertise and available skills
+3. Determine if a new agent or skill should be created
+4. Provide confidence and reasoning
+
+Consider:
+- Agent expertise and capabilities (look for GENERAL expertise, not just exact matches)
+- **EXISTING SKILLS**: Check if agent already has skills that cover the question
+- Whether existing agents can handle this with a new skill
+- Whether a completely new agent is needed
+
+CRITICAL MATCHING RULES (FOLLOW IN ORDER):
+
+**STEP 1: Check Existing Skills FIRST** (HIGHEST PRIORITY)
+- Scan ALL agents' existing skills before suggesting anything new
+- If ANY skill covers the question → Match that agent with confidence 80-95%
+- Examples:
+  * Weather expert with "European Weather" skill + "Burgos" = MATCH ✓ (Burgos is Spanish city in Europe)
+  * Weather expert with "European Weather" skill + "Madrid" = MATCH ✓
+  * Weather expert with "European Weather" skill + "Spain forecast" = MATCH ✓
+  * Stock expert with "Cryptocurrency" skill + "Bitcoin" = MATCH ✓
+
+**STEP 2: Geographic & Domain Understanding**
+- European skills → ALL European countries (Spain, France, Germany, UK, Italy, Portugal, etc.)
+- Asian skills → ALL Asian countries
+- North American skills → USA, Canada, Mexico
+- Cities belong to their countries (Madrid→Spain→Europe, Tokyo→Japan→Asia)
+- Unit conversions (Fahrenheit/Celsius, miles/km) are PART OF the same domain
+  * "Madrid in Fahrenheit" = Still weather question, use Weather skill ✓
+  * "Convert to Celsius" = Still weather question, use Weather skill ✓
+
+**STEP 3: ALWAYS Suggest New Skill If** (DEFAULT TO SUGGESTING SKILLS)
+- Agent matches BUT has NO existing skill that specifically covers the question
+- Question is about ANY specific topic, subtopic, or specialized area
+- RULE: If the agent doesn't have a skill with that exact topic name, SUGGEST IT
+- Examples:
+  * Dr. Lee agent + "neuro networks" (no neuro skill) = Suggest "Neural Networks" skill ✓ REQUIRED
+  * Dr. Lee agent + "Medium articles" (no publication skill) = Suggest "Published Articles" skill ✓ REQUIRED
+  * Weather expert + "Madrid" (no European skill) = Suggest "European Weather" skill ✓ REQUIRED
+  * Finance expert + "cryptocurrency" (no crypto skill) = Suggest "Cryptocurrency" skill ✓ REQUIRED
+
+**STEP 4: Only Suggest New Agent If**
+- Domain is completely different from ALL agents
+- Example: Weather expert + "cooking recipe" = New agent
+
+**PRIORITY ORDER**: Existing Skills > **SUGGEST NEW SKILL** > New Agent
+
+**CRITICAL RULE**: 
+- If agent has 0-2 skills → ALWAYS suggest a skill for any specific topic
+- If question mentions a specific technology/topic/area → ALWAYS suggest a skill
+- Default behavior: SUGGEST SKILL unless agent already has that exact skill
+- Only let agent respond WITHOUT suggesting skill if they have 5+ skills covering the area
+
+**CLARIFICATION** (RARE):
+- Only when the question cannot be routed or answered without more information (e.g. "Which one is best?" with nothing to refer to)
+- Set needsClarification, ask ONE short clarifyingQuestion and list 2-4 interpretations the user can pick from
+- If the question is merely broad, match it instead of asking`;
+
+  const userPrompt = `Question: "${question}"
+
+Available Agents and Skills:
+${agentSummaries.map((agent, i) => `
+${i}. ${agent.name}
+   Description: ${agent.description}
+   Expertise: ${agent.expertise}
+   Capabilities: ${agent.capabilities}
+   Existing Skills: ${agent.skills.length > 0 ? agent.skills.map(s => `\n     - ${s.name}: ${s.description}`).join('') : 'None'}
+`).join("\n")}
+
+CRITICAL RULES:
+1. Before suggesting a new agent or skill, CHECK if any agent's EXISTING SKILLS already cover this question
+2. If the question asks to create an agent that ALREADY EXISTS (same person/topic), DO NOT suggest a new agent - instead MATCH to the existing agent
+3. Examples:
+   - "Create agent for Dr. Ernesto Lee" + Dr. Lee agent exists = MATCH existing agent (index of Dr. Lee), confidence 95%
+   - "European Weather" skill exists + "Burgos" question = USE EXISTING SKILL
+   - "Create weather agent" + Dr. Storm exists = MATCH Dr. Storm, don't create duplicate
+
+Analyze and determine the best match.`;
+
+  // Define the tool for structured matching
+  const tools = [
+    {
+      name: "match_agent_with_recommendation",
+      description: "Match user question to best agent and provide recommendations",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          matchedAgentIndex: {
+            type: "number" as const,
+            description: "Index of the best matching agent, or -1 if no good match",
+          },
+          confidence: {
+            type: "number",
+            description: "Confidence score from 0-100",
+          },
+          reasoning: {
+            type: "string",
+            description: "Explanation of the match decision",
+          },
+          suggestNewAgent: {
+            type: "boolean",
+            description: "Whether to suggest creating a new agent",
+          },
+          suggestNewSkill: {
+            type: "boolean",
+            description: "Whether to suggest adding a new skill to existing agent",
+          },
+          suggestion: {
+            type: "string",
+            description: "SHORT name only (2-5 words max). For agents: 'Elon Musk - Tesla CEO'. For skills: 'Electric Vehicle Technology'. NO descriptions or explanations here.",
+          },
+          needsClarification: {
+            type: "boolean",
+            description: "True only if the question is too ambiguous to route or answer",
+          },
+          clarifyingQuestion: {
+            type: "string",
+            description: "One short question to ask the user when needsClarification is true",
+          },
+          interpretations: {
+            type: "array",
+            items: { type: "string" },
+            description: "2-4 short likely meanings of the question, phrased as replies the user could send (e.g. 'Best laptop for gaming')",
+          },
+          relatedAgentIndexes: {
+            type: "array",
+            items: { type: "number" },
+            description: "Indexes of OTHER agents whose expertise covers a different part of the question, best first. Empty if the matched agent covers it all.",
+          },
+        },
+        required: ["matchedAgentIndex", "confidence", "reasoning", "suggestNewAgent", "suggestNewSkill"],
+      },
+    },
+  ];
+
+  return { systemPrompt, userPrompt, tools };
+}
+
+/**
+ * Keyword-based matching used when the other strategies fail
+ */
+function keywordMatch(question: string, agents: Agent[]): AgentMatchOutcome {
   const questionLower = question.toLowerCase();
   let bestMatch: Agent | null = null;
   let bestScore = 0;
+  const scores = new Map<Agent, number>();
 
   for (const agent of agents) {
     let score = 0;
@@ -169,163 +556,74 @@ function fallbackKeywordMatch(
       }
     }
 
+    scores.set(agent, score);
     if (score > bestScore) {
       bestScore = score;
       bestMatch = agent;
     }
   }
 
-  const confidence = Math.min(bestScore / 10, 0.7); // Cap at 70% for fallback
+  // Other agents with at least one expertise keyword hit could join a panel
+  const panelAgents = agents
+    .filter((agent) => agent !== bestMatch && (scores.get(agent) || 0) >= 3)
+    .sort((a, b) => (scores.get(b) || 0) - (scores.get(a) || 0));
+
+  const confidence = Math.min(bestScore / 10, MATCHER_DEFAULTS.FALLBACK_MAX_CONFIDENCE);
+
+  // Improved matching logic:
+  // - Strong match (>= 0.5): Use the agent, suggest skill if question is complex
+  // - Decent match (0.3-0.5): Use the agent, suggest skill
+  // - Weak match (0.15-0.3): Use the agent but warn about uncertainty
+  // - No match (< 0.15): Only then suggest creating new agent
+  const hasStrongMatch = confidence >= 0.5 && !!bestMatch;
+  const hasDecentMatch = confidence >= 0.3 && confidence < 0.5 && !!bestMatch;
+  const hasWeakMatch = confidence >= 0.15 && confidence < 0.3 && !!bestMatch;
+  const noMatch = confidence < 0.15;
+  const canCreateAgent = agents.length < AGENT_DEFAULTS.MAX_AGENTS_PER_USER;
+
+  // Determine if question seems complex enough to warrant a skill
+  const questionWords = question.split(/\s+/).length;
+  const seemsComplex = questionWords > 5 || question.includes('?');
 
   return {
     matchedAgent: bestMatch,
     confidence,
-    reasoning:
-      confidence > 0.4
-        ? `Keyword-based match found (fallback method)`
-        : "No suitable agent found using keyword matching",
+    reasoning: hasStrongMatch
+      ? `Matched to ${bestMatch?.name} based on keyword analysis (fallback mode - AI matching unavailable)`
+      : hasDecentMatch
+      ? `Matched to ${bestMatch?.name} with moderate confidence (fallback mode)`
+      : hasWeakMatch
+      ? `Tentatively matched to ${bestMatch?.name} (fallback mode - match may not be ideal)`
+      : "No suitable agent found using keyword matching",
+    // Only suggest new agent if truly no match
+    suggestNewAgent: noMatch && canCreateAgent,
+    // Suggest skill for decent/strong matches with complex questions
+    suggestNewSkill: (hasStrongMatch && seemsComplex) || hasDecentMatch,
+    // Extract a skill name from the question for skill suggestion
+    suggestion: ((hasStrongMatch && seemsComplex) || hasDecentMatch)
+      ? extractSkillNameFromQuestion(question)
+      : noMatch && canCreateAgent
+      ? "Consider creating a new specialized agent"
+      : undefined,
+    panelAgents,
+    method: "keyword",
+    candidates: agents
+      .map((agent) => ({ agent, score: scores.get(agent) || 0 }))
+      .sort((a, b) => b.score - a.score),
   };
 }
 
 /**
- * Determine if a new agent should be created for this question
- */
-export async function shouldCreateNewAgent(
-  question: string,
-  matchResult: AgentMatchResult,
-  apiKey?: string
-): Promise<{
-  shouldCreate: boolean;
-  suggestedTopic: string;
-  reasoning: string;
-}> {
-  // If we have a strong match, don't create new agent
-  if (matchResult.confidence >= AGENT_DEFAULTS.MATCH_CONFIDENCE_THRESHOLD) {
-    return {
-      shouldCreate: false,
-      suggestedTopic: "",
-      reasoning: "Existing agent is well-suited for this question",
-    };
-  }
-
-  const systemPrompt = `You are an AI agent advisor. Analyze a user's question and determine if a new specialized agent should be created to handle it.
-
-Consider:
-- Is this a specialized domain that would benefit from a dedicated agent?
-- Would this topic likely come up again?
-- Is it different enough from existing agents?
-
-Respond in JSON format:
-{
-  "shouldCreate": <true/false>,
-  "suggestedTopic": "<topic name if true, empty if false>",
-  "reasoning": "<brief explanation>"
-}`;
-
-  const userPrompt = `Question: "${question}"
-
-Current match confidence: ${(matchResult.confidence * 100).toFixed(0)}%
-Current match reasoning: ${matchResult.reasoning}
-
-Should we create a new specialized agent for this question?`;
-
-  try {
-    const response = await sendMessageHaiku(userPrompt, {
-      systemPrompt,
-      maxTokens: 512,
-      temperature: 0.5,
-      apiKey, // Pass user's custom API key
-    });
-
-    const jsonMatch = response.content.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error("Invalid response format");
-    }
-
-    const result = JSON.parse(jsonMatch[0]);
-
-    return {
-      shouldCreate: result.shouldCreate === true,
-      suggestedTopic: result.suggestedTopic || "",
-      reasoning: result.reasoning || "",
-    };
-  } catch (error) {
-    console.error("Agent creation suggestion error:", error);
-    
-    // Extract topic from question for fallback
-    // Look for key nouns/topics in the question
-    const words = question.toLowerCase().split(/\s+/);
-    const keywords = words.filter(w => w.length > 4 && !['what', 'how', 'when', 'where', 'which', 'would', 'could', 'should', 'about', 'doing', 'today'].includes(w));
-    const fallbackTopic = keywords.length > 0 
-      ? keywords[0].charAt(0).toUpperCase() + keywords[0].slice(1) + " Expert"
-      : "General Assistant";
-    
-    // Conservative fallback: only suggest if confidence is very low
-    return {
-      shouldCreate: matchResult.confidence < 0.3,
-      suggestedTopic: fallbackTopic,
-      reasoning: "Fallback: Low confidence match suggests new agent might be useful",
-    };
-  }
-}
-
-/**
- * Extract keywords from a question for agent search
+ * Extract a potential skill name from the question
  */
-export function extractKeywords(question: string): string[] {
-  // Remove common words and extract meaningful keywords
-  const commonWords = new Set([
-    "the",
-    "a",
-    "an",
-    "and",
-    "or",
-    "but",
-    "in",
-    "on",
-    "at",
-    "to",
-    "for",
-    "of",
-    "with",
-    "by",
-    "from",
-    "as",
-    "is",
-    "was",
-    "are",
-    "were",
-    "been",
-    "be",
-    "have",
-    "has",
-    "had",
-    "do",
-    "does",
-    "did",
-    "will",
-    "would",
-    "should",
-    "could",
-    "can",
-    "may",
-    "might",
-    "must",
-    "what",
-    "when",
-    "where",
-    "who",
-    "why",
-    "how",
-    "which",
-  ]);
-
-  const words = question
-    .toLowerCase()
-    .replace(/[^\w\s]/g, " ")
-    .split(/\s+/)
-    .filter((word) => word.length > 3 && !commonWords.has(word));
-
-  // Remove duplicates
-  return Array.from(new Set(words));
+function extractSkillNameFromQuestion(question: string): string {
+  // Remove common question words
+  const cleaned = question
+    .replace(/\b(what|where|when|why|how|who|can|could|would|should|is|are|the|a|an|in|on|at|to|for|of|about|with)\b/gi, ' ')
+    .replace(/[?.,!]/g, '')
+    .trim();
+  
+  // Take first few meaningful words and capitalize
+  const words = cleaned.split(/\s+/).filter(w => w.length > 2).slice(0, 4);
+  return words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ') || 'New Skill';
 }
@@ -1,10 +1,15 @@
 import Anthropic from "@anthropic-ai/sdk";
-import { CLAUDE_MODELS } from "../constants";
-
-// Default Anthropic client (uses env var)
-const defaultAnthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || "",
-});
+import { TOOL_DEFAULTS } from "../constants";
+import type { ModelSelection, ModelTier } from "@/types/model";
+import type { ToolRegistry } from "./tools/registry";
+import {
+  getChatModelProvider,
+  getResponseText,
+  ChatModelRequest,
+  ChatModelStreamEvent,
+  ModelContentBlock,
+  ModelMessage,
+} from "./providers";
 
 export interface ClaudeResponse {
   content: string;
@@ -12,8 +17,10 @@ export interface ClaudeResponse {
     inputTokens: number;
     outputTokens: number;
     cachedTokens: number;
+    cacheWriteTokens?: number;
   };
   model: string;
+  provider?: string;
 }
 
 export interface ClaudeOptions {
@@ -22,24 +29,58 @@ export interface ClaudeOptions {
   maxTokens?: number;
   temperature?: number;
   apiKey?: string; // Allow custom API key
+  model?: ModelSelection; // Provider/model override (defaults to Anthropic)
   tools?: Anthropic.Messages.Tool[];
   images?: Array<{ base64: string; mediaType: string }>; // Vision support
   conversationHistory?: Array<{ role: "user" | "assistant"; content: string }>; // Multi-turn conversation
 }
 
 /**
- * Get Anthropic client (custom key or default)
- * Priority: 1. Custom key from database, 2. Environment variable
+ * Build the message list: conversation history plus the new user turn
+ * (with images first when provided)
  */
-function getAnthropicClient(apiKey?: string): Anthropic {
-  // If custom key provided, always use it (primary)
-  if (apiKey) {
-    return new Anthropic({ apiKey });
-  }
-  
-  // Fallback to environment variable
-  // If env key doesn't exist, Anthropic SDK will throw a clear error
-  return defaultAnthropic;
+function buildMessages(
+  userMessage: string,
+  images: NonNullable<ClaudeOptions["images"]> = [],
+  conversationHistory: NonNullable<ClaudeOptions["conversationHistory"]> = []
+): ModelMessage[] {
+  const userContent: ModelContentBlock[] = [
+    ...images.map((image) => ({ type: "image" as const, mediaType: image.mediaType, base64: image.base64 })),
+    { type: "text", text: userMessage },
+  ];
+
+  return [
+    ...conversationHistory.map((msg) => ({
+      role: msg.role,
+      content: msg.content,
+    })),
+    {
+      role: "user",
+      content: images.length > 0 ? userContent : userMessage,
+    },
+  ];
+}
+
+/**
+ * Send a request through the selected provider and flatten the response
+ */
+async function sendRequest(
+  tier: ModelTier,
+  request: Omit<ChatModelRequest, "tier" | "model">,
+  options: ClaudeOptions
+) {
+  const provider = getChatModelProvider(options.model, options.apiKey);
+  const response = await provider.createMessage({ ...request, tier, model: options.model?.model });
+
+  return {
+    response,
+    result: {
+      content: getResponseText(response),
+      usage: response.usage,
+      model: response.model,
+      provider: response.provider,
+    } as ClaudeResponse,
+  };
 }
 
 /**
@@ -55,90 +96,23 @@ export async function sendMessageHaiku(
     enableCaching = false,
     maxTokens = 4096,
     temperature = 1.0,
-    apiKey,
     images = [],
     conversationHistory = [],
   } = options;
 
-  const anthropic = getAnthropicClient(apiKey);
-
   try {
-    const systemMessages: Anthropic.Messages.MessageCreateParams["system"] = [];
-
-    if (systemPrompt) {
-      if (enableCaching) {
-        // Enable prompt caching for system prompt
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-          cache_control: { type: "ephemeral" },
-        });
-      } else {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-        });
-      }
-    }
-
-    // Build message content with images if provided
-    const messageContent: Anthropic.Messages.MessageParam["content"] = [];
-    
-    // Add images first
-    images.forEach((image) => {
-      messageContent.push({
-        type: "image",
-        source: {
-          type: "base64",
-          media_type: image.mediaType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-          data: image.base64,
-        },
-      });
-    });
-    
-    // Add text message
-    messageContent.push({
-      type: "text",
-      text: userMessage,
-    });
+    const messages = buildMessages(userMessage, images, conversationHistory);
 
-    // Build full conversation with history
-    const allMessages: Anthropic.Messages.MessageParam[] = [
-      ...conversationHistory.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      {
-        role: "user" as const,
-        content: images.length > 0 ? messageContent : userMessage,
-      },
-    ];
-    
     // Debug log to verify message structure
-    console.log(`🔍 [sendMessageHaiku] Sending ${allMessages.length} messages to Claude:`, 
-      allMessages.map((m, i) => `${i}: ${m.role}`).join(', '));
-
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODELS.HAIKU,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemMessages.length > 0 ? systemMessages : undefined,
-      messages: allMessages,
-    });
-
-    const content =
-      response.content[0].type === "text" ? response.content[0].text : "";
+    console.log(`🔍 [sendMessageHaiku] Sending ${messages.length} messages:`, 
+      messages.map((m, i) => `${i}: ${m.role}`).join(', '));
 
-    return {
-      content,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        cachedTokens:
-          (response.usage as any).cache_read_input_tokens || 0,
-      },
-      model: CLAUDE_MODELS.HAIKU,
-    };
+    const { result } = await sendRequest(
+      "fast",
+      { system: systemPrompt, enableCaching, messages, maxTokens, temperature },
+      options
+    );
+    return result;
   } catch (error) {
     console.error("Claude Haiku error:", error);
     throw new Error(
@@ -149,7 +123,9 @@ export async function sendMessageHaiku(
 
 /**
  * Send message with tool use (function calling)
+ * Single round trip - returns the tool_use block without executing it.
  * Use for: structured outputs, agent matching, skill suggestions
+ * (see streamToolLoopHaiku for executing tools)
  */
 export async function sendMessageWithTools(
   userMessage: string,
@@ -157,65 +133,37 @@ export async function sendMessageWithTools(
 ): Promise<ClaudeResponse & { toolUse?: any }> {
   const {
     systemPrompt,
-    enableCaching = false,
     maxTokens = 4096,
     temperature = 0.3,
-    apiKey,
     tools = [],
   } = options;
 
-  const anthropic = getAnthropicClient(apiKey);
-
   try {
-    const systemMessages: Anthropic.Messages.MessageCreateParams["system"] = [];
-
-    if (systemPrompt) {
-      systemMessages.push({
-        type: "text",
-        text: systemPrompt,
-      });
-    }
-
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODELS.HAIKU,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemMessages.length > 0 ? systemMessages : undefined,
-      tools: tools.length > 0 ? tools : undefined,
-      messages: [
-        {
-          role: "user",
-          content: userMessage,
-        },
-      ],
-    });
-
-    // Extract text content and tool use
-    let content = "";
-    let toolUse: any = null;
+    const { response, result } = await sendRequest(
+      "fast",
+      {
+        system: systemPrompt,
+        messages: [{ role: "user", content: userMessage }],
+        maxTokens,
+        temperature,
+        tools: tools.map((tool) => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.input_schema,
+        })),
+      },
+      options
+    );
 
+    // Extract the (last) tool use
+    let toolUse: { name: string; input: unknown } | null = null;
     for (const block of response.content) {
-      if (block.type === "text") {
-        content += block.text;
-      } else if (block.type === "tool_use") {
-        toolUse = {
-          name: block.name,
-          input: block.input,
-        };
+      if (block.type === "tool_use") {
+        toolUse = { name: block.name, input: block.input };
       }
     }
 
-    return {
-      content,
-      toolUse,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        cachedTokens:
-          (response.usage as any).cache_read_input_tokens || 0,
-      },
-      model: CLAUDE_MODELS.HAIKU,
-    };
+    return { ...result, toolUse };
   } catch (error) {
     console.error("Claude tool use error:", error);
     throw new Error(
@@ -237,56 +185,21 @@ export async function sendMessageSonnet(
     enableCaching = true, // Default to true for Sonnet (expensive model)
     maxTokens = 8192,
     temperature = 1.0,
-    apiKey,
   } = options;
 
-  const anthropic = getAnthropicClient(apiKey);
-
   try {
-    const systemMessages: Anthropic.Messages.MessageCreateParams["system"] = [];
-
-    if (systemPrompt) {
-      if (enableCaching) {
-        // Enable prompt caching for system prompt
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-          cache_control: { type: "ephemeral" },
-        });
-      } else {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-        });
-      }
-    }
-
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODELS.SONNET,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemMessages.length > 0 ? systemMessages : undefined,
-      messages: [
-        {
-          role: "user",
-          content: userMessage,
-        },
-      ],
-    });
-
-    const content =
-      response.content[0].type === "text" ? response.content[0].text : "";
-
-    return {
-      content,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        cachedTokens:
-          (response.usage as any).cache_read_input_tokens || 0,
+    const { result } = await sendRequest(
+      "quality",
+      {
+        system: systemPrompt,
+        enableCaching,
+        messages: [{ role: "user", content: userMessage }],
+        maxTokens,
+        temperature,
       },
-      model: CLAUDE_MODELS.SONNET,
-    };
+      options
+    );
+    return result;
   } catch (error) {
     console.error("Claude Sonnet error:", error);
     throw new Error(
@@ -297,94 +210,35 @@ export async function sendMessageSonnet(
 
 /**
  * Stream message using Claude Haiku (for real-time responses)
+ * Yields text deltas followed by a final "message" event with usage
  * Use for: chat conversations with streaming UI
  */
-export async function streamMessageHaiku(
+export async function* streamMessageHaiku(
   userMessage: string,
   options: ClaudeOptions = {}
-): Promise<AsyncIterable<any>> {
+): AsyncGenerator<ChatModelStreamEvent> {
   const {
     systemPrompt,
     enableCaching = false,
     maxTokens = 4096,
     temperature = 1.0,
     apiKey,
+    model,
     images = [],
     conversationHistory = [],
   } = options;
 
-  const anthropic = getAnthropicClient(apiKey);
-
   try {
-    const systemMessages: Anthropic.Messages.MessageCreateParams["system"] = [];
-
-    if (systemPrompt) {
-      if (enableCaching) {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-          cache_control: { type: "ephemeral" },
-        });
-      } else {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-        });
-      }
-    }
-
-    // Build message content with images if provided
-    const messageContent: Anthropic.Messages.MessageParam["content"] = [];
-    
-    // Add images first
-    images.forEach((image) => {
-      messageContent.push({
-        type: "image",
-        source: {
-          type: "base64",
-          media_type: image.mediaType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
-          data: image.base64,
-        },
-      });
-    });
-    
-    // Add text message
-    messageContent.push({
-      type: "text",
-      text: userMessage,
-    });
-
-    // Build full conversation with history
-    const allMessages: Anthropic.Messages.MessageParam[] = [
-      ...conversationHistory.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-      {
-        role: "user" as const,
-        content: images.length > 0 ? messageContent : userMessage,
-      },
-    ];
-    
-    // Debug log to verify message structure
-    console.log(`🔍 [streamMessageHaiku] Sending ${allMessages.length} messages to Claude:`, 
-      allMessages.map((m, i) => `${i}: ${m.role}`).join(', '));
-    console.log(`📝 [streamMessageHaiku] Message details:`, 
-      allMessages.map((m, i) => ({
-        index: i,
-        role: m.role,
-        contentPreview: typeof m.content === 'string' ? m.content.substring(0, 100) : '[complex content]'
-      })));
-
-    const stream = await anthropic.messages.stream({
-      model: CLAUDE_MODELS.HAIKU,
-      max_tokens: maxTokens,
+    const provider = getChatModelProvider(model, apiKey);
+    yield* provider.streamMessage({
+      tier: "fast",
+      model: model?.model,
+      system: systemPrompt,
+      enableCaching,
+      messages: buildMessages(userMessage, images, conversationHistory),
+      maxTokens,
       temperature,
-      system: systemMessages.length > 0 ? systemMessages : undefined,
-      messages: allMessages,
     });
-
-    return stream;
   } catch (error) {
     console.error("Claude Haiku streaming error:", error);
     throw new Error(
@@ -393,65 +247,185 @@ export async function streamMessageHaiku(
   }
 }
 
+export interface ToolLoopOptions extends ClaudeOptions {
+  registry: ToolRegistry;
+  maxIterations?: number;
+  tier?: ModelTier; // Defaults to "fast" (Haiku)
+}
+
+export interface ToolLoopResponse extends ClaudeResponse {
+  toolCalls: number;
+  toolNames: string[]; // Name of each tool called, in order
+  iterations: number;
+}
+
+export type ToolLoopEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; id: string; name: string; input: unknown }
+  | {
+      type: "tool_result";
+      id: string;
+      name: string;
+      output: string;
+      isError: boolean;
+      durationMs: number;
+    }
+  | { type: "complete"; response: ToolLoopResponse };
+
 /**
- * Send multi-turn conversation using Claude Haiku
+ * Stream an agentic tool-use loop using Claude Haiku
+ * The model may call registered tools; each result is fed back as a
+ * tool_result until it answers or maxIterations is reached. On the last
+ * iteration tool use is disabled so the model must produce a final answer.
+ * Use for: chat conversations where agents look things up mid-answer
  */
-export async function sendConversationHaiku(
-  messages: Array<{ role: "user" | "assistant"; content: string }>,
-  options: ClaudeOptions = {}
-): Promise<ClaudeResponse> {
+export async function* streamToolLoopHaiku(
+  userMessage: string,
+  options: ToolLoopOptions
+): AsyncGenerator<ToolLoopEvent> {
   const {
     systemPrompt,
     enableCaching = false,
     maxTokens = 4096,
     temperature = 1.0,
     apiKey,
+    model,
+    images = [],
+    conversationHistory = [],
+    registry,
+    maxIterations = TOOL_DEFAULTS.MAX_ITERATIONS,
+    tier = "fast",
   } = options;
 
-  const anthropic = getAnthropicClient(apiKey);
+  const provider = getChatModelProvider(model, apiKey);
+  const messages = buildMessages(userMessage, images, conversationHistory);
+  const tools = registry.toAnthropicTools().map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.input_schema,
+  }));
+  const usage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0, cacheWriteTokens: 0 };
+  let content = "";
+  let toolCalls = 0;
+  const toolNames: string[] = [];
+  let iterations = 0;
+  let modelUsed = provider.resolveModel(tier, model?.model);
 
   try {
-    const systemMessages: Anthropic.Messages.MessageCreateParams["system"] = [];
-
-    if (systemPrompt) {
-      if (enableCaching) {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
-          cache_control: { type: "ephemeral" },
-        });
-      } else {
-        systemMessages.push({
-          type: "text",
-          text: systemPrompt,
+    while (iterations < maxIterations) {
+      iterations++;
+      const isLastIteration = iterations === maxIterations;
+
+      let message = null;
+      for await (const event of provider.streamMessage({
+        tier,
+        model: model?.model,
+        system: systemPrompt,
+        enableCaching,
+        messages,
+        maxTokens,
+        temperature,
+        tools,
+        toolChoice: isLastIteration ? "none" : "auto",
+      })) {
+        if (event.type === "text_delta") {
+          content += event.text;
+          yield { type: "text", text: event.text };
+        } else {
+          message = event.response;
+        }
+      }
+
+      if (!message) {
+        throw new Error("Stream ended without a final message");
+      }
+
+      modelUsed = message.model;
+      usage.inputTokens += message.usage.inputTokens;
+      usage.outputTokens += message.usage.outputTokens;
+      usage.cachedTokens += message.usage.cachedTokens;
+      usage.cacheWriteTokens += message.usage.cacheWriteTokens || 0;
+
+      const toolUses = message.content.filter(
+        (block): block is Extract<ModelContentBlock, { type: "tool_use" }> => block.type === "tool_use"
+      );
+      if (message.stopReason !== "tool_use" || toolUses.length === 0) {
+        break;
+      }
+
+      // Execute every requested tool and feed the results back
+      const toolResults: ModelContentBlock[] = [];
+      for (const toolUse of toolUses) {
+        toolCalls++;
+        toolNames.push(toolUse.name);
+        console.log(`🔧 Tool call ${toolCalls}: ${toolUse.name}`, toolUse.input);
+        yield { type: "tool_call", id: toolUse.id, name: toolUse.name, input: toolUse.input };
+
+        const result = await registry.execute(toolUse.name, toolUse.input);
+        yield { type: "tool_result", id: toolUse.id, name: toolUse.name, ...result };
+
+        toolResults.push({
+          type: "tool_result",
+          toolUseId: toolUse.id,
+          content: result.output,
+          isError: result.isError,
         });
       }
+
+      messages.push({ role: "assistant", content: message.content });
+      messages.push({ role: "user", content: toolResults });
     }
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODELS.HAIKU,
-      max_tokens: maxTokens,
-      temperature,
-      system: systemMessages.length > 0 ? systemMessages : undefined,
-      messages: messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-    });
+    yield {
+      type: "complete",
+      response: { content, usage, model: modelUsed, provider: provider.id, toolCalls, toolNames, iterations },
+    };
+  } catch (error) {
+    console.error("Claude Haiku tool loop error:", error);
+    throw new Error(
+      `Claude Haiku tool loop API error: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
 
-    const content =
-      response.content[0].type === "text" ? response.content[0].text : "";
+/**
+ * Run an agentic tool-use loop to completion using Claude Haiku
+ * Use for: non-streaming chat responses with tool access
+ */
+export async function runToolLoopHaiku(
+  userMessage: string,
+  options: ToolLoopOptions
+): Promise<ToolLoopResponse> {
+  for await (const event of streamToolLoopHaiku(userMessage, options)) {
+    if (event.type === "complete") {
+      return event.response;
+    }
+  }
 
-    return {
-      content,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-        cachedTokens:
-          (response.usage as any).cache_read_input_tokens || 0,
-      },
-      model: CLAUDE_MODELS.HAIKU,
-    };
+  throw new Error("Claude Haiku tool loop ended without a response");
+}
+
+/**
+ * Send multi-turn conversation using Claude Haiku
+ */
+export async function sendConversationHaiku(
+  messages: Array<{ role: "user" | "assistant"; content: string }>,
+  options: ClaudeOptions = {}
+): Promise<ClaudeResponse> {
+  const {
+    systemPrompt,
+    enableCaching = false,
+    maxTokens = 4096,
+    temperature = 1.0,
+  } = options;
+
+  try {
+    const { result } = await sendRequest(
+      "fast",
+      { system: systemPrompt, enableCaching, messages, maxTokens, temperature },
+      options
+    );
+    return result;
   } catch (error) {
     console.error("Claude Haiku conversation error:", error);
     throw new Error(
@@ -474,25 +448,3 @@ export async function testClaudeConnection(): Promise<boolean> {
     return false;
   }
 }
-
-/**
- * Get estimated cost for a request
- */
-export function estimateRequestCost(
-  inputTokens: number,
-  outputTokens: number,
-  model: "haiku" | "sonnet",
-  cachedTokens: number = 0
-): number {
-  const costs = {
-    haiku: { input: 1.0, output: 5.0, cached: 0.1 },
-    sonnet: { input: 3.0, output: 15.0, cached: 0.3 },
-  };
-
-  const modelCosts = costs[model];
-  const inputCost = ((inputTokens - cachedTokens) / 1_000_000) * modelCosts.input;
-  const cachedCost = (cachedTokens / 1_000_000) * modelCosts.cached;
-  const outputCost = (outputTokens / 1_000_000) * modelCosts.output;
-
-  return inputCost + cachedCost + outputCost;
-}
@@ -0,0 +1,44 @@
+/**
+ * Embedders
+ * The agent/skill vector index embeds text through an Embedder so the
+ * backing model can be swapped (EMBEDDING_PROVIDER) without touching the
+ * matchers. The local embedder is always available offline.
+ */
+
+import { EMBEDDING_DEFAULTS, MOCK_PROVIDER_DEFAULTS } from "../../constants";
+import { createLocalEmbedder } from "./local";
+import { createOpenAICompatibleEmbedder } from "./openaiCompatible";
+import type { Embedder } from "./types";
+
+export type { Embedder } from "./types";
+export { createLocalEmbedder } from "./local";
+export { createOpenAICompatibleEmbedder } from "./openaiCompatible";
+
+/**
+ * Get the configured embedder
+ * AI_MOCK always uses the local embedder so nothing reaches the network
+ */
+export function getEmbedder(provider: string = EMBEDDING_DEFAULTS.PROVIDER): Embedder {
+  if (MOCK_PROVIDER_DEFAULTS.ENABLED || provider !== "openai-compatible") {
+    return createLocalEmbedder();
+  }
+  return createOpenAICompatibleEmbedder();
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or lengths differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
@@ -0,0 +1,102 @@
+/**
+ * Local embedder
+ * Pure TypeScript, no network or model files: words, word pairs and
+ * character trigrams are hashed into a fixed number of buckets (the
+ * "hashing trick") and the vector is L2-normalised. It captures lexical
+ * overlap - including partial words like "forecast"/"forecasting" - which
+ * is enough to shortlist candidates for the LLM matcher.
+ */
+
+import { EMBEDDING_DEFAULTS } from "../../constants";
+import type { Embedder } from "./types";
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "could", "do", "does", "for",
+  "from", "has", "have", "how", "i", "in", "is", "it", "its", "me", "my", "of", "on", "or",
+  "please", "should", "so", "that", "the", "their", "this", "to", "was", "what", "when", "where",
+  "which", "who", "why", "will", "with", "would", "you", "your",
+]);
+
+// Features are weighted so whole-word matches count more than trigram overlap
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.7;
+const TRIGRAM_WEIGHT = 0.3;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Strip common English suffixes so word forms share a feature
+ */
+function stem(word: string): string {
+  if (word.length <= 4) return word;
+  return word.replace(/(ing|edly|ed|ies|es|s|ly|ment|ness|ation|ations)$/, "") || word;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map(stem);
+}
+
+function addFeature(vector: Float64Array, feature: string, weight: number): void {
+  const hash = hashFeature(feature);
+  const bucket = hash % vector.length;
+  // A second hash bit picks the sign so collisions tend to cancel out
+  const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+  vector[bucket] += sign * weight;
+}
+
+export function embedText(text: string, dimensions: number): number[] {
+  const vector = new Float64Array(dimensions);
+  const words = tokenize(text);
+
+  words.forEach((word, i) => {
+    addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+    if (i > 0) {
+      addFeature(vector, `b:${words[i - 1]}_${word}`, BIGRAM_WEIGHT);
+    }
+
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      addFeature(vector, `t:${padded.substring(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  // Dampen repeated features, then normalise to unit length
+  let norm = 0;
+  for (let i = 0; i < dimensions; i++) {
+    const value = vector[i];
+    vector[i] = Math.sign(value) * Math.log1p(Math.abs(value));
+    norm += vector[i] * vector[i];
+  }
+  norm = Math.sqrt(norm);
+
+  return Array.from(vector, (value) => (norm > 0 ? value / norm : 0));
+}
+
+export function createLocalEmbedder(dimensions: number = EMBEDDING_DEFAULTS.LOCAL_DIMENSIONS): Embedder {
+  return {
+    id: `local-hash-v1-${dimensions}`,
+    dimensions,
+    local: true,
+
+    async embed(texts) {
+      return texts.map((text) => embedText(text, dimensions));
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * OpenAI-compatible embedder
+ * Calls POST /embeddings on any server implementing the OpenAI API
+ * (OpenAI, Ollama, vLLM, LM Studio, ...).
+ */
+
+import { EMBEDDING_DEFAULTS, OPENAI_COMPATIBLE_DEFAULTS } from "../../constants";
+import type { Embedder } from "./types";
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+export function createOpenAICompatibleEmbedder(options: {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+} = {}): Embedder {
+  const baseUrl = (options.baseUrl || OPENAI_COMPATIBLE_DEFAULTS.BASE_URL).replace(/\/+$/, "");
+  const apiKey = options.apiKey || OPENAI_COMPATIBLE_DEFAULTS.API_KEY;
+  const model = options.model || EMBEDDING_DEFAULTS.MODEL;
+
+  const embedder: Embedder = {
+    id: `openai-compatible:${model}`,
+    dimensions: 0, // Known after the first response
+    local: false,
+
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({ model, input: texts }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(`Embedding API error (${response.status}): ${errorText || response.statusText}`);
+      }
+
+      const data: OpenAIEmbeddingResponse = await response.json();
+      const vectors = [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+
+      embedder.dimensions = vectors[0]?.length || embedder.dimensions;
+      return vectors;
+    },
+  };
+
+  return embedder;
+}
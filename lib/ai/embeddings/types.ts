@@ -0,0 +1,12 @@
+/**
+ * Embedding provider interface
+ * Turns text into fixed-length vectors for similarity search. The id
+ * identifies the embedding space: vectors from different embedders (or
+ * models) are never compared with each other.
+ */
+export interface Embedder {
+  id: string;
+  dimensions: number;
+  local: boolean; // Computed in-process - cheaper to recompute than to cache
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,121 @@
+/**
+ * Intent Classifier
+ * Rules (./intentRules) always run; when enabled, an LLM tool call refines
+ * them into typed intents with slots.
+ */
+
+import { sendMessageWithTools } from "./claude";
+import { INTENT_DEFAULTS } from "../constants";
+import { classifyIntentWithRules, extractSkillTopic } from "./intentRules";
+import type { IntentAgent } from "./intentRules";
+import type { ChatIntent, IntentDomain, IntentKind, IntentRecency, SearchFreshness } from "@/types/intent";
+import type { ModelSelection } from "@/types/model";
+
+const INTENT_KINDS: IntentKind[] = ["add_skill", "pricing", "publications", "general"];
+const INTENT_DOMAINS: IntentDomain[] = ["travel", "shopping", "finance", "research", "general"];
+const SEARCH_FRESHNESS: SearchFreshness[] = ["pd", "pw", "pm", "py"];
+
+/**
+ * Ask the model to classify the message, keeping rule-derived slots the
+ * model leaves out. Names of unknown agents are dropped.
+ */
+async function classifyIntentWithLLM(
+  message: string,
+  agents: IntentAgent[],
+  rules: ChatIntent,
+  apiKey?: string,
+  model?: ModelSelection
+): Promise<ChatIntent> {
+  const systemPrompt = `You are an intent classifier for a chat assistant. Classify the user's message and extract its slots.
+
+Intents (pick every one that applies, strongest first):
+- add_skill: the user asks to add, create or teach a skill to an agent
+- pricing: the user asks about prices, costs, rates, fees or bookings
+- publications: the user asks about articles, blog posts or papers someone wrote
+- general: none of the above
+
+Slots:
+- agentName: one of the known agents named in the message, exactly as listed
+- skillTopic: for add_skill, the short topic of the skill (2-5 words)
+- recency: "latest" when the user wants the newest/latest/most recent information, otherwise "any"
+- freshness: an explicit time window - "pd" (today), "pw" (this week), "pm" (this month), "py" (this year)
+- domain: travel, shopping, finance, research or general`;
+
+  const userPrompt = `Message: "${message}"
+
+Known agents: ${agents.length > 0 ? agents.map((agent) => agent.name).join("; ") : "None"}`;
+
+  const tools = [
+    {
+      name: "classify_intent",
+      description: "Record the intents and slots of the user's message",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          intents: { type: "array", items: { type: "string", enum: INTENT_KINDS } },
+          agentName: { type: "string" },
+          skillTopic: { type: "string" },
+          recency: { type: "string", enum: ["latest", "any"] },
+          freshness: { type: "string", enum: SEARCH_FRESHNESS },
+          domain: { type: "string", enum: INTENT_DOMAINS },
+        },
+        required: ["intents", "recency", "domain"],
+      },
+    },
+  ];
+
+  const response = await sendMessageWithTools(userPrompt, {
+    systemPrompt,
+    maxTokens: INTENT_DEFAULTS.LLM_MAX_TOKENS,
+    temperature: 0,
+    apiKey,
+    model,
+    tools,
+  });
+
+  if (!response.toolUse || response.toolUse.name !== "classify_intent") {
+    throw new Error("No tool use in intent classification response");
+  }
+
+  const input = response.toolUse.input;
+  const kinds = (Array.isArray(input.intents) ? input.intents : []).filter(
+    (kind: unknown, i: number, all: unknown[]): kind is IntentKind =>
+      INTENT_KINDS.includes(kind as IntentKind) && all.indexOf(kind) === i
+  );
+  const agentName = agents.find((agent) => agent.name.toLowerCase() === String(input.agentName || "").toLowerCase())?.name;
+
+  return {
+    kinds: kinds.length > 0 ? kinds : ["general"],
+    slots: {
+      agentName: agentName ?? rules.slots.agentName,
+      skillTopic: kinds.includes("add_skill") ? input.skillTopic || rules.slots.skillTopic || extractSkillTopic(message) : undefined,
+      recency: input.recency === "latest" || input.recency === "any" ? (input.recency as IntentRecency) : rules.slots.recency,
+      freshness: SEARCH_FRESHNESS.includes(input.freshness) ? input.freshness : rules.slots.freshness,
+      domain: INTENT_DOMAINS.includes(input.domain) ? input.domain : rules.slots.domain,
+    },
+    source: "llm",
+  };
+}
+
+/**
+ * Classify a chat message into typed intents with slots
+ * Falls back to the rules if the LLM call fails
+ */
+export async function classifyIntent(
+  message: string,
+  options: { agents?: IntentAgent[]; apiKey?: string; model?: ModelSelection; useLLM?: boolean } = {}
+): Promise<ChatIntent> {
+  const { agents = [], apiKey, model, useLLM = INTENT_DEFAULTS.LLM_ENABLED } = options;
+  const rules = classifyIntentWithRules(message, agents);
+
+  if (!useLLM) {
+    return rules;
+  }
+
+  try {
+    return await classifyIntentWithLLM(message, agents, rules, apiKey, model);
+  } catch (error) {
+    console.error("Intent classification failed - using rules:", error);
+    return rules;
+  }
+}
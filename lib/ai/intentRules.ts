@@ -0,0 +1,100 @@
+/**
+ * Rule-based intent detection - deterministic and client-safe (no network)
+ */
+
+import type { ChatIntent, IntentDomain, IntentKind, IntentSlots, SearchFreshness } from "@/types/intent";
+
+/**
+ * Agents the classifier can recognize by name
+ */
+export interface IntentAgent {
+  name: string;
+}
+
+const SKILL_REQUEST = /\b(add|create|teach)\b[\s\S]*\bskills?\b|\bskills?\b[\s\S]*\b(add|create|teach)\b/i;
+const PRICING = /\b(prices?|priced|pricing|costs?|rates?|fees?|fares?|rooms?|hotels?|booking|how much|cheapest|expensive)\b/i;
+const PUBLICATIONS = /\b(publications?|articles?|medium|wrote|written|published|blogs?|blog posts?|papers?)\b/i;
+const LATEST = /\b(latest|last|recent|recently|newest|new)\b/i;
+
+const FRESHNESS_RULES: { pattern: RegExp; freshness: SearchFreshness }[] = [
+  { pattern: /\b(today|past day|last 24 hours|yesterday)\b/i, freshness: "pd" },
+  { pattern: /\b(this|past|last) week\b/i, freshness: "pw" },
+  { pattern: /\b(this|past|last) month\b/i, freshness: "pm" },
+  { pattern: /\b(this|past|last) year\b/i, freshness: "py" },
+];
+
+// First domain whose pattern matches wins
+const DOMAIN_RULES: { pattern: RegExp; domain: IntentDomain }[] = [
+  { pattern: /\b(hotels?|rooms?|booking|flights?|fares?|resorts?|airbnb|trips?|vacation|travel|nights?)\b/i, domain: "travel" },
+  { pattern: /\b(stocks?|shares?|crypto|bitcoin|invest(ing|ment)?|portfolio|dividends?|etfs?)\b/i, domain: "finance" },
+  { pattern: /\b(research|papers?|study|studies|journals?|academic|publications?)\b/i, domain: "research" },
+  { pattern: /\b(buy|purchase|cheapest|deals?|products?|stores?|shop(ping)?)\b/i, domain: "shopping" },
+];
+
+/**
+ * Extract the skill topic (everything after "skill" or before "to")
+ */
+export function extractSkillTopic(message: string): string {
+  const patterns = [
+    /(?:add|create|teach).*?skill.*?(?:about|on|for|called|named)\s+([^.!?,]+?)(?:\s+to|\s+for|$)/i,
+    /(?:add|create|teach).*?(?:a|an|the)\s+([^.!?,]+?)\s+skill/i,
+    /skill.*?(?:about|on|for|called|named)\s+([^.!?,]+?)(?:\s+to|\s+for|$)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = message.match(pattern);
+    if (match && match[1]) {
+      return match[1].trim();
+    }
+  }
+
+  // Fallback: take text between "skill" and "to"
+  const fallbackMatch = message.match(/skill\s+(.+?)\s+to/i);
+  return fallbackMatch ? fallbackMatch[1].trim() : "New Skill";
+}
+
+/**
+ * Find the agent a message names (full name, or the part before " - ")
+ */
+export function findNamedAgent<T extends IntentAgent>(message: string, agents: T[]): T | undefined {
+  const messageLower = message.toLowerCase();
+  return agents.find((agent) => {
+    const firstPart = agent.name.split("-")[0].trim().toLowerCase();
+    return messageLower.includes(agent.name.toLowerCase()) || (firstPart.length > 0 && messageLower.includes(firstPart));
+  });
+}
+
+function detectDomain(message: string): IntentDomain {
+  return DOMAIN_RULES.find((rule) => rule.pattern.test(message))?.domain ?? "general";
+}
+
+/**
+ * Classify a message with deterministic rules (no network)
+ */
+export function classifyIntentWithRules(message: string, agents: IntentAgent[] = []): ChatIntent {
+  const kinds: IntentKind[] = [];
+  if (SKILL_REQUEST.test(message)) kinds.push("add_skill");
+  if (PRICING.test(message)) kinds.push("pricing");
+  if (PUBLICATIONS.test(message)) kinds.push("publications");
+  if (kinds.length === 0) kinds.push("general");
+
+  const slots: IntentSlots = {
+    agentName: findNamedAgent(message, agents)?.name,
+    recency: LATEST.test(message) ? "latest" : "any",
+    freshness: FRESHNESS_RULES.find((rule) => rule.pattern.test(message))?.freshness,
+    domain: detectDomain(message),
+  };
+  if (kinds.includes("add_skill")) {
+    slots.skillTopic = extractSkillTopic(message);
+  }
+  // A price with no other context is a shopping question
+  if (kinds.includes("pricing") && slots.domain === "general") {
+    slots.domain = "shopping";
+  }
+
+  return { kinds, slots, source: "rules" };
+}
+
+export function hasIntent(intent: ChatIntent | null, kind: IntentKind): boolean {
+  return !!intent?.kinds.includes(kind);
+}
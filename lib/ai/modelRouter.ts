@@ -0,0 +1,148 @@
+/**
+ * Model Router
+ * Estimates how demanding a chat question is and decides whether to answer
+ * with the fast tier (Haiku) or escalate to the quality tier (Sonnet).
+ */
+
+import { MODEL_ROUTING } from "../constants";
+import type { ModelTier } from "@/types/model";
+
+export interface ComplexityInput {
+  message: string;
+  fileCount: number;
+  imageCount: number;
+  fileContextLength: number;
+  historyLength: number;
+}
+
+export interface ComplexityEstimate {
+  score: number;
+  reasons: string[];
+}
+
+export interface ModelRoutingDecision {
+  tier: ModelTier;
+  escalated: boolean;
+  score: number;
+  reasons: string[];
+  blockedByBudget: boolean;
+}
+
+const CODE_PATTERNS = [
+  /```/,
+  /\b(function|const|let|var|class|def|import|return|public|private)\s+\w+/,
+  /[{};]\s*$/m,
+  /\b\w+\([^)]*\)\s*(=>|\{)/,
+  /\b(SELECT|INSERT|UPDATE|DELETE)\b[\s\S]*\b(FROM|INTO|SET)\b/i,
+  /(Traceback|Exception|Error:)\s/,
+];
+
+const REASONING_PATTERNS = [
+  /\bstep[- ]by[- ]step\b/i,
+  /\b(compare|contrast|trade-?offs?|pros and cons)\b/i,
+  /\b(analy[sz]e|evaluate|critique|assess)\b/i,
+  /\b(design|architect|plan|strategy|roadmap)\b/i,
+  /\b(prove|derive|why does|explain why|what would happen)\b/i,
+  /\b(debug|refactor|optimi[sz]e)\b/i,
+];
+
+/**
+ * Score a question's complexity from cheap, local signals
+ */
+export function estimateQueryComplexity(input: ComplexityInput): ComplexityEstimate {
+  const reasons: string[] = [];
+  let score = 0;
+
+  const length = input.message.length;
+  if (length >= MODEL_ROUTING.VERY_LONG_MESSAGE_CHARS) {
+    score += 2;
+    reasons.push(`very long message (${length} chars)`);
+  } else if (length >= MODEL_ROUTING.LONG_MESSAGE_CHARS) {
+    score += 1;
+    reasons.push(`long message (${length} chars)`);
+  }
+
+  if (input.fileCount > 0) {
+    score += 1;
+    reasons.push(`${input.fileCount} attached file(s)`);
+  }
+  if (input.fileContextLength >= MODEL_ROUTING.LARGE_FILE_CONTEXT_CHARS) {
+    score += 1;
+    reasons.push("large file context");
+  }
+
+  if (input.imageCount > 0) {
+    score += 1;
+    reasons.push(`${input.imageCount} image(s)`);
+  }
+
+  if (CODE_PATTERNS.some((pattern) => pattern.test(input.message))) {
+    score += 2;
+    reasons.push("contains code");
+  }
+
+  const reasoningHits = REASONING_PATTERNS.filter((pattern) => pattern.test(input.message)).length;
+  if (reasoningHits > 0) {
+    score += Math.min(reasoningHits, 2);
+    reasons.push("multi-step reasoning");
+  }
+
+  const questionCount = (input.message.match(/\?/g) || []).length;
+  const numberedSteps = (input.message.match(/^\s*\d+[.)]\s/gm) || []).length;
+  if (questionCount >= 3 || numberedSteps >= 3) {
+    score += 1;
+    reasons.push("several sub-questions");
+  }
+
+  if (input.historyLength >= MODEL_ROUTING.LONG_HISTORY_MESSAGES) {
+    score += 1;
+    reasons.push("long conversation");
+  }
+
+  return { score, reasons };
+}
+
+/**
+ * Pick the model tier for a chat turn
+ * An agent's explicit tier always wins; otherwise escalate when the score
+ * reaches MODEL_ROUTING.ESCALATION_SCORE. A fixed model answers every tier,
+ * so it is never escalated. The quality tier is never used once the user is
+ * past the budget cutoff.
+ */
+export function chooseModelTier(
+  estimate: ComplexityEstimate,
+  options: {
+    agentTier?: ModelTier;
+    fixedModel?: string; // Model set by the user or agent (ModelSelection.model)
+    budgetPercentUsed?: number;
+  } = {}
+): ModelRoutingDecision {
+  const reasons = [...estimate.reasons];
+  let tier: ModelTier = "fast";
+
+  if (options.agentTier) {
+    tier = options.agentTier;
+    reasons.push(`agent setting (${options.agentTier})`);
+  } else if (options.fixedModel) {
+    reasons.push(`fixed model (${options.fixedModel})`);
+  } else if (MODEL_ROUTING.ENABLED && estimate.score >= MODEL_ROUTING.ESCALATION_SCORE) {
+    tier = "quality";
+  }
+
+  const overBudget =
+    options.budgetPercentUsed !== undefined &&
+    options.budgetPercentUsed >= MODEL_ROUTING.BUDGET_CUTOFF_PERCENT;
+
+  if (tier === "quality" && overBudget) {
+    reasons.push(`budget ${options.budgetPercentUsed!.toFixed(0)}% used`);
+    return { tier: "fast", escalated: false, score: estimate.score, reasons, blockedByBudget: true };
+  }
+
+  return {
+    tier,
+    escalated: tier === "quality" && !options.agentTier,
+    score: estimate.score,
+    reasons,
+    blockedByBudget: false,
+  };
+}
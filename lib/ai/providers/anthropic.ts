@@ -0,0 +1,156 @@
+/**
+ * Anthropic (Claude) model provider
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { CLAUDE_MODELS } from "../../constants";
+import type { ModelTier } from "@/types/model";
+import type {
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResponse,
+  ChatModelStreamEvent,
+  ModelContentBlock,
+  ModelMessage,
+} from "./types";
+
+// Default Anthropic client (uses env var)
+const defaultAnthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY || "",
+});
+
+/**
+ * Get Anthropic client (custom key or default)
+ * Priority: 1. Custom key from database, 2. Environment variable
+ */
+function getAnthropicClient(apiKey?: string): Anthropic {
+  // If custom key provided, always use it (primary)
+  if (apiKey) {
+    return new Anthropic({ apiKey });
+  }
+
+  // Fallback to environment variable
+  // If env key doesn't exist, Anthropic SDK will throw a clear error
+  return defaultAnthropic;
+}
+
+function toAnthropicContent(block: ModelContentBlock): Anthropic.Messages.ContentBlockParam {
+  switch (block.type) {
+    case "text":
+      return { type: "text", text: block.text };
+    case "image":
+      return {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: block.mediaType as "image/jpeg" | "image/png" | "image/gif" | "image/webp",
+          data: block.base64,
+        },
+      };
+    case "tool_use":
+      return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+    case "tool_result":
+      return {
+        type: "tool_result",
+        tool_use_id: block.toolUseId,
+        content: block.content,
+        is_error: block.isError || undefined,
+      };
+  }
+}
+
+function toAnthropicMessage(message: ModelMessage): Anthropic.Messages.MessageParam {
+  return {
+    role: message.role,
+    content: typeof message.content === "string"
+      ? message.content
+      : message.content.map(toAnthropicContent),
+  };
+}
+
+function fromAnthropicMessage(message: Anthropic.Messages.Message): ChatModelResponse {
+  const content: ModelContentBlock[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "text") {
+      content.push({ type: "text", text: block.text });
+    } else if (block.type === "tool_use") {
+      content.push({ type: "tool_use", id: block.id, name: block.name, input: block.input });
+    }
+  }
+
+  return {
+    content,
+    stopReason:
+      message.stop_reason === "end_turn" || message.stop_reason === "tool_use" || message.stop_reason === "max_tokens"
+        ? message.stop_reason
+        : "other",
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+      cachedTokens: message.usage.cache_read_input_tokens || 0,
+      cacheWriteTokens: message.usage.cache_creation_input_tokens || 0,
+    },
+    model: message.model,
+    provider: "anthropic",
+  };
+}
+
+export function createAnthropicProvider(apiKey?: string): ChatModelProvider {
+  const anthropic = getAnthropicClient(apiKey);
+
+  const resolveModel = (tier: ModelTier, override?: string) =>
+    override || (tier === "quality" ? CLAUDE_MODELS.SONNET : CLAUDE_MODELS.HAIKU);
+
+  const buildParams = (request: ChatModelRequest): Anthropic.Messages.MessageCreateParamsNonStreaming => {
+    const system: Anthropic.Messages.TextBlockParam[] = [];
+
+    if (request.system) {
+      system.push(
+        request.enableCaching
+          ? { type: "text", text: request.system, cache_control: { type: "ephemeral" } }
+          : { type: "text", text: request.system }
+      );
+    }
+
+    const hasTools = !!request.tools && request.tools.length > 0;
+
+    return {
+      model: resolveModel(request.tier, request.model),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: system.length > 0 ? system : undefined,
+      messages: request.messages.map(toAnthropicMessage),
+      tools: hasTools
+        ? request.tools!.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.inputSchema as Anthropic.Messages.Tool["input_schema"],
+          }))
+        : undefined,
+      tool_choice: hasTools && request.toolChoice ? { type: request.toolChoice } : undefined,
+    };
+  };
+
+  return {
+    id: "anthropic",
+    resolveModel,
+
+    async createMessage(request) {
+      const message = await anthropic.messages.create(buildParams(request));
+      return fromAnthropicMessage(message);
+    },
+
+    async *streamMessage(request): AsyncGenerator<ChatModelStreamEvent> {
+      const stream = anthropic.messages.stream(buildParams(request));
+
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yield { type: "text_delta", text: event.delta.text };
+        }
+      }
+
+      yield { type: "message", response: fromAnthropicMessage(await stream.finalMessage()) };
+    },
+  };
+}
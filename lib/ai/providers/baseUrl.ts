@@ -0,0 +1,99 @@
+/**
+ * Base URL checks for user-supplied OpenAI-compatible servers
+ * The server fetches these URLs, so they must not reach loopback, private
+ * or link-local addresses (cloud metadata, internal services) - SSRF.
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { OPENAI_COMPATIBLE_DEFAULTS } from "../../constants";
+
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4"); // "This" network
+BLOCKED_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4"); // Private
+BLOCKED_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4"); // Carrier-grade NAT
+BLOCKED_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4"); // Loopback
+BLOCKED_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4"); // Link-local (cloud metadata)
+BLOCKED_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4"); // Private
+BLOCKED_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4"); // Private
+BLOCKED_ADDRESSES.addSubnet("224.0.0.0", 3, "ipv4"); // Multicast and reserved
+BLOCKED_ADDRESSES.addAddress("::", "ipv6"); // Unspecified
+BLOCKED_ADDRESSES.addAddress("::1", "ipv6"); // Loopback
+BLOCKED_ADDRESSES.addSubnet("fc00::", 7, "ipv6"); // Unique local
+BLOCKED_ADDRESSES.addSubnet("fe80::", 10, "ipv6"); // Link-local
+
+const BLOCKED_HOST_SUFFIXES = ["localhost", ".local", ".internal"];
+
+export class BaseUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BaseUrlError";
+  }
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+  }
+
+  const family = isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Check a user-supplied base URL without resolving it
+ * Returns the problem, or null when the URL is allowed.
+ */
+export function getBaseUrlProblem(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return "Base URL is not a valid URL";
+  }
+
+  if (OPENAI_COMPATIBLE_DEFAULTS.ALLOW_PRIVATE_BASE_URLS) {
+    return url.protocol === "http:" || url.protocol === "https:" ? null : "Base URL must use http or https";
+  }
+
+  if (url.protocol !== "https:") {
+    return "Base URL must use https";
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (BLOCKED_HOST_SUFFIXES.some((suffix) => hostname === suffix.replace(/^\./, "") || hostname.endsWith(suffix))) {
+    return "Base URL must be a public server";
+  }
+  if (isBlockedAddress(hostname)) {
+    return "Base URL must not point to a private or loopback address";
+  }
+
+  return null;
+}
+
+/**
+ * Check a user-supplied base URL and the addresses its host resolves to
+ * Throws a BaseUrlError when the URL is not allowed.
+ */
+export async function assertPublicBaseUrl(baseUrl: string): Promise<void> {
+  const problem = getBaseUrlProblem(baseUrl);
+  if (problem) {
+    throw new BaseUrlError(problem);
+  }
+
+  if (OPENAI_COMPATIBLE_DEFAULTS.ALLOW_PRIVATE_BASE_URLS) {
+    return;
+  }
+
+  const hostname = new URL(baseUrl).hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname)) {
+    return;
+  }
+
+  const addresses = await lookup(hostname, { all: true });
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new BaseUrlError(`Base URL host ${hostname} resolves to a private or loopback address`);
+  }
+}
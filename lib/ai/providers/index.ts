@@ -0,0 +1,91 @@
+/**
+ * Chat model providers
+ * Every model call in lib/ai goes through a ChatModelProvider so the
+ * backing service can be chosen per user (UserSettings.ai) and per agent.
+ */
+
+import type { Agent } from "@/types/agent";
+import type { ModelSelection } from "@/types/model";
+import type { UserSettings } from "@/lib/db/settingsDb";
+import { MOCK_PROVIDER_DEFAULTS } from "../../constants";
+import { createAnthropicProvider } from "./anthropic";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import { createMockProvider, loadMockFixtures } from "./mock";
+import { createRecordingProvider } from "./recording";
+import type { ChatModelProvider } from "./types";
+
+export type {
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResponse,
+  ChatModelStreamEvent,
+  ModelContentBlock,
+  ModelMessage,
+  ModelToolSpec,
+  ModelUsage,
+} from "./types";
+export type { MockFixture } from "./mockFixtures";
+export { getResponseText } from "./types";
+
+// Custom fixtures are read once per server process
+let mockFixtures: ReturnType<typeof loadMockFixtures> | null = null;
+
+function getMockProvider(): ChatModelProvider {
+  if (!mockFixtures) {
+    mockFixtures = MOCK_PROVIDER_DEFAULTS.FIXTURES_PATH
+      ? loadMockFixtures(MOCK_PROVIDER_DEFAULTS.FIXTURES_PATH)
+      : [];
+  }
+  return createMockProvider(mockFixtures);
+}
+
+/**
+ * Get the provider for a selection
+ * anthropicApiKey is the user's Anthropic key (falls back to the env key)
+ */
+export function getChatModelProvider(
+  selection?: ModelSelection,
+  anthropicApiKey?: string
+): ChatModelProvider {
+  // AI_MOCK overrides every selection so nothing reaches the network
+  if (MOCK_PROVIDER_DEFAULTS.ENABLED || selection?.provider === "mock") {
+    return getMockProvider();
+  }
+
+  const provider = selection?.provider === "openai-compatible"
+    ? createOpenAICompatibleProvider({
+        baseUrl: selection.baseUrl,
+        apiKey: selection.apiKey,
+      })
+    : createAnthropicProvider(selection?.apiKey || anthropicApiKey);
+
+  return MOCK_PROVIDER_DEFAULTS.RECORD_PATH
+    ? createRecordingProvider(provider, MOCK_PROVIDER_DEFAULTS.RECORD_PATH)
+    : provider;
+}
+
+/**
+ * Resolve which provider/model to use: the agent's override wins over the
+ * user's preference, which wins over the Anthropic default
+ */
+export function resolveModelSelection(
+  settings: UserSettings | null,
+  agent?: Agent | null
+): ModelSelection {
+  const userProvider = settings?.ai?.provider || "anthropic";
+  const provider = agent?.modelConfig?.provider || userProvider;
+
+  // Only carry the user's model override when the agent doesn't switch providers
+  const model = agent?.modelConfig?.model || (provider === userProvider ? settings?.ai?.model : undefined);
+
+  if (provider === "openai-compatible") {
+    return {
+      provider,
+      model,
+      baseUrl: settings?.ai?.baseUrl,
+      apiKey: settings?.apiKeys?.openaiCompatible,
+    };
+  }
+
+  return { provider, model };
+}
@@ -0,0 +1,193 @@
+/**
+ * Offline mock model provider
+ * Replays scripted fixtures instead of calling a model so the whole app
+ * (including /api/chat streaming and tool use) runs without network or an
+ * API key. Enable with AI_MOCK=true.
+ */
+
+import { readFileSync } from "fs";
+import { CLAUDE_MODELS } from "../../constants";
+import type { ModelTier } from "@/types/model";
+import type {
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResponse,
+  ChatModelStreamEvent,
+  ModelContentBlock,
+  ModelMessage,
+} from "./types";
+import { DEFAULT_MOCK_FIXTURES, MockFixture } from "./mockFixtures";
+
+const PROMPT_PREVIEW_LENGTH = 200;
+
+/**
+ * Load extra fixtures from a JSON file (an array of MockFixture)
+ */
+export function loadMockFixtures(path: string): MockFixture[] {
+  try {
+    const fixtures = JSON.parse(readFileSync(path, "utf-8"));
+    if (!Array.isArray(fixtures)) {
+      throw new Error("Fixture file must contain a JSON array");
+    }
+    return fixtures;
+  } catch (error) {
+    console.error(`Error loading mock fixtures from ${path}:`, error);
+    return [];
+  }
+}
+
+function getBlocks(message: ModelMessage): ModelContentBlock[] {
+  return typeof message.content === "string"
+    ? [{ type: "text", text: message.content }]
+    : message.content;
+}
+
+function getLastUserMessage(request: ChatModelRequest): ModelMessage | undefined {
+  return [...request.messages].reverse().find((message) => message.role === "user");
+}
+
+/**
+ * Latest user text, used for prompt matching and {{prompt}}
+ */
+export function getLastUserText(request: ChatModelRequest): string {
+  const message = getLastUserMessage(request);
+  if (!message) return "";
+
+  return getBlocks(message)
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("");
+}
+
+function getLastToolResult(request: ChatModelRequest): string | null {
+  const message = getLastUserMessage(request);
+  if (!message) return null;
+
+  const results = getBlocks(message).filter(
+    (block): block is Extract<ModelContentBlock, { type: "tool_result" }> => block.type === "tool_result"
+  );
+  return results.length > 0 ? results[results.length - 1].content : null;
+}
+
+function matchesFixture(fixture: MockFixture, request: ChatModelRequest): boolean {
+  const match = fixture.match || {};
+  const toolsAllowed = request.toolChoice !== "none";
+
+  // A fixture that calls a tool only applies when that tool is on offer
+  if (fixture.response.toolUse) {
+    const offered = request.tools?.some((tool) => tool.name === fixture.response.toolUse!.name);
+    if (!offered || !toolsAllowed) return false;
+  }
+
+  if (match.tier && match.tier !== request.tier) return false;
+
+  if (match.tool && !request.tools?.some((tool) => tool.name === match.tool)) return false;
+
+  if (match.afterToolResult !== undefined && match.afterToolResult !== (getLastToolResult(request) !== null)) {
+    return false;
+  }
+
+  if (match.system && !(request.system || "").toLowerCase().includes(match.system.toLowerCase())) {
+    return false;
+  }
+
+  if (match.prompt && !getLastUserText(request).toLowerCase().includes(match.prompt.toLowerCase())) {
+    return false;
+  }
+
+  return true;
+}
+
+function fillTemplate(text: string, request: ChatModelRequest): string {
+  return text
+    .replace(/\{\{prompt\}\}/g, getLastUserText(request).substring(0, PROMPT_PREVIEW_LENGTH))
+    .replace(/\{\{toolResult\}\}/g, getLastToolResult(request) || "");
+}
+
+// Rough, deterministic token estimate (~4 characters per token)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Split text into word-sized deltas, keeping whitespace attached
+ */
+function splitIntoDeltas(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) || [];
+}
+
+export function createMockProvider(fixtures: MockFixture[] = []): ChatModelProvider {
+  const allFixtures = [...fixtures, ...DEFAULT_MOCK_FIXTURES];
+
+  const resolveModel = (tier: ModelTier, override?: string) =>
+    override || (tier === "quality" ? CLAUDE_MODELS.SONNET : CLAUDE_MODELS.HAIKU);
+
+  const respond = (request: ChatModelRequest): { fixture: MockFixture; response: ChatModelResponse } => {
+    const fixture = allFixtures.find((candidate) => matchesFixture(candidate, request));
+    if (!fixture) {
+      throw new Error("No mock fixture matched the request");
+    }
+
+    console.log(`🧪 Mock provider replaying fixture: ${fixture.name}`);
+
+    const text = fixture.response.text ? fillTemplate(fixture.response.text, request) : "";
+    const content: ModelContentBlock[] = [];
+    if (text) {
+      content.push({ type: "text", text });
+    }
+    if (fixture.response.toolUse) {
+      content.push({
+        type: "tool_use",
+        id: `mock_tool_${fixture.name}_${request.messages.length}`,
+        name: fixture.response.toolUse.name,
+        input: fixture.response.toolUse.input,
+      });
+    }
+
+    const promptText = [request.system || "", ...request.messages.flatMap(getBlocks).map((block) =>
+      block.type === "text" ? block.text : block.type === "tool_result" ? block.content : ""
+    )].join("");
+
+    return {
+      fixture,
+      response: {
+        content,
+        stopReason: fixture.response.toolUse ? "tool_use" : "end_turn",
+        usage: {
+          inputTokens: fixture.response.usage?.inputTokens ?? estimateTokens(promptText),
+          outputTokens: fixture.response.usage?.outputTokens ?? Math.max(1, estimateTokens(text)),
+          cachedTokens:
+            fixture.response.usage?.cachedTokens ??
+            (request.enableCaching ? estimateTokens(request.system || "") : 0),
+        },
+        model: resolveModel(request.tier, request.model),
+        provider: "mock",
+      },
+    };
+  };
+
+  return {
+    id: "mock",
+    resolveModel,
+
+    async createMessage(request) {
+      return respond(request).response;
+    },
+
+    async *streamMessage(request): AsyncGenerator<ChatModelStreamEvent> {
+      const { fixture, response } = respond(request);
+      const text = response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+
+      const deltas = fixture.response.deltas
+        ? fixture.response.deltas.map((delta) => fillTemplate(delta, request))
+        : splitIntoDeltas(text);
+
+      for (const delta of deltas) {
+        yield { type: "text_delta", text: delta };
+      }
+
+      yield { type: "message", response };
+    },
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Scripted fixtures for the offline mock provider
+ * The first fixture whose `match` rules all pass answers the request, so
+ * more specific fixtures come first. Every prompt in lib/ai has an entry
+ * returning the JSON / tool input its caller expects.
+ *
+ * Text responses may use two placeholders:
+ *   {{prompt}}      the latest user text (truncated)
+ *   {{toolResult}}  the latest tool_result content
+ */
+
+import type { ModelTier } from "@/types/model";
+import type { ModelUsage } from "./types";
+
+export interface MockFixture {
+  name: string;
+  match?: {
+    system?: string; // Substring of the system prompt (case-insensitive)
+    prompt?: string; // Substring of the latest user text (case-insensitive)
+    tool?: string; // Request offers a tool with this name
+    tier?: ModelTier;
+    afterToolResult?: boolean; // Latest user turn carries tool results
+  };
+  response: {
+    text?: string;
+    toolUse?: { name: string; input: unknown };
+    deltas?: string[]; // Explicit streaming chunks (defaults to word-by-word)
+    usage?: Partial<ModelUsage>;
+  };
+}
+
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  // Chat tool loop
+  {
+    name: "chat-tool-result",
+    match: { afterToolResult: true },
+    response: {
+      text: "Here is what I found: {{toolResult}}",
+    },
+  },
+  {
+    name: "chat-calculator",
+    match: { tool: "calculator", prompt: "calculate" },
+    response: {
+      text: "Let me work that out.",
+      toolUse: { name: "calculator", input: { expression: "(12 + 30) * 2" } },
+    },
+  },
+  {
+    name: "chat-web-search",
+    match: { tool: "web_search", prompt: "search the web" },
+    response: {
+      text: "Let me look that up.",
+      toolUse: { name: "web_search", input: { query: "latest news", freshness: "pw" } },
+    },
+  },
+
+  // Agent matching (lib/ai/agentMatcher.ts)
+  {
+    name: "match-agent-clarification",
+    match: { tool: "match_agent_with_recommendation", prompt: "which one is best" },
+    response: {
+      toolUse: {
+        name: "match_agent_with_recommendation",
+        input: {
+          matchedAgentIndex: -1,
+          confidence: 0,
+          reasoning: "Mock clarification: the question does not say what to compare.",
+          suggestNewAgent: false,
+          suggestNewSkill: false,
+          needsClarification: true,
+          clarifyingQuestion: "Which kind of thing would you like me to compare?",
+          interpretations: ["Best laptop for work", "Best credit card for travel"],
+        },
+      },
+    },
+  },
+  {
+    name: "match-agent-tool",
+    match: { tool: "match_agent_with_recommendation" },
+    response: {
+      toolUse: {
+        name: "match_agent_with_recommendation",
+        input: {
+          matchedAgentIndex: 0,
+          confidence: 85,
+          reasoning: "Mock match: routed to the first available agent.",
+          suggestNewAgent: false,
+          suggestNewSkill: false,
+        },
+      },
+    },
+  },
+
+  // Intent classification (lib/ai/intentClassifier.ts)
+  {
+    name: "classify-intent-tool",
+    match: { tool: "classify_intent" },
+    response: {
+      toolUse: {
+        name: "classify_intent",
+        input: { intents: ["general"], recency: "any", domain: "general" },
+      },
+    },
+  },
+
+  {
+    name: "should-create-agent",
+    match: { system: "You are an AI agent advisor" },
+    response: {
+      text: JSON.stringify({
+        shouldCreate: false,
+        suggestedTopic: "",
+        reasoning: "Mock advisor: existing agents are sufficient.",
+      }),
+    },
+  },
+
+  // Agent creation (lib/ai/agentCreator.ts)
+  {
+    name: "agent-profile",
+    match: { system: "You are an expert AI agent architect" },
+    response: {
+      text: JSON.stringify({
+        name: "Mock Specialist",
+        description: "A deterministic agent profile produced by the offline mock provider.",
+        expertise: ["Mock Data", "Offline Testing"],
+        systemPrompt:
+          "🎯 Goal: Answer questions with predictable mock responses.\n\n📖 Backstory:\nYou are a Mock Specialist used for offline development.\n\n💬 Communication Style:\nKeep responses concise and conversational.",
+        knowledgeBase: {
+          facts: ["Mock responses never call the network."],
+          sources: ["lib/ai/providers/mockFixtures.ts"],
+        },
+        capabilities: ["Answer test questions"],
+        conversationStyle: {
+          tone: "friendly",
+          vocabulary: "simple",
+          responseLength: "concise",
+        },
+      }),
+    },
+  },
+  {
+    name: "agent-refinement",
+    match: { system: "You are an AI agent improvement specialist" },
+    response: {
+      text: JSON.stringify({
+        description: "A refined mock agent profile.",
+      }),
+    },
+  },
+  {
+    name: "knowledge-base",
+    match: { system: "You are a knowledge curator" },
+    response: {
+      text: JSON.stringify({
+        facts: ["Mock fact one.", "Mock fact two."],
+        sources: ["https://example.com/mock-source"],
+      }),
+    },
+  },
+
+  // Agent evolution (lib/ai/agentEvolution.ts)
+  {
+    name: "agent-performance",
+    match: { system: "You are an AI agent performance analyst" },
+    response: {
+      text: JSON.stringify({
+        needsImprovement: true,
+        suggestions: ["Add a capability for follow-up questions"],
+        updatedFields: {
+          capabilities: ["Answer test questions", "Handle follow-up questions"],
+        },
+        reasoning: "Mock analysis: recent conversations include follow-up questions.",
+        priority: "medium",
+      }),
+    },
+  },
+  {
+    name: "knowledge-gaps",
+    match: { system: "You are a knowledge gap analyst" },
+    response: {
+      text: JSON.stringify({
+        gaps: ["Mock knowledge gap"],
+        suggestedFacts: ["Mock suggested fact."],
+        suggestedSources: ["https://example.com/mock-source"],
+      }),
+    },
+  },
+  {
+    name: "new-capabilities",
+    match: { system: "You are a capability advisor" },
+    response: {
+      text: JSON.stringify(["Summarize previous answers"]),
+    },
+  },
+
+  // Skills (lib/ai/skillMatcher.ts, lib/ai/skillSuggester.ts)
+  {
+    name: "skill-matcher",
+    match: { system: "You are an intelligent skill matcher" },
+    response: {
+      text: JSON.stringify({ matches: [] }),
+    },
+  },
+  {
+    name: "skill-creator",
+    match: { system: "You are a skill creator" },
+    response: {
+      text: "# Mock Skill\n\n## Overview\nA deterministic skill generated offline.\n\n## Capabilities\n- Answer mock questions",
+    },
+  },
+  {
+    name: "skill-document",
+    match: { prompt: "SKILL.md format" },
+    response: {
+      text: "## Overview\nA deterministic skill generated offline.\n\n## Capabilities\n- Answer mock questions\n\n## Best Practices\n- Keep answers short",
+    },
+  },
+  {
+    name: "skill-suggestions",
+    match: { prompt: "suggest new skills that would enhance" },
+    response: {
+      text: JSON.stringify([
+        {
+          name: "Mock Skill",
+          description: "Handles questions during offline testing.",
+          category: "Testing",
+          reasoning: "Mock suggestion for development.",
+          priority: "medium",
+          estimatedUsefulness: 0.8,
+        },
+      ]),
+    },
+  },
+  {
+    name: "skill-gap",
+    match: { prompt: "reveals a skill gap" },
+    response: {
+      text: JSON.stringify({ needsNewSkill: false }),
+    },
+  },
+
+  // Connection test and plain chat
+  {
+    name: "connection-test",
+    match: { prompt: "Please respond with 'OK'" },
+    response: { text: "OK" },
+  },
+  {
+    name: "chat-default",
+    response: {
+      text: "This is a mock response to: {{prompt}}",
+    },
+  },
+];
@@ -0,0 +1,288 @@
+/**
+ * OpenAI-compatible model provider
+ * Talks to any server implementing POST /chat/completions (OpenAI, Ollama,
+ * vLLM, LM Studio, ...) over plain HTTP.
+ */
+
+import { OPENAI_COMPATIBLE_DEFAULTS } from "../../constants";
+import { assertPublicBaseUrl } from "./baseUrl";
+import type { ModelTier } from "@/types/model";
+import type {
+  ChatModelProvider,
+  ChatModelRequest,
+  ChatModelResponse,
+  ChatModelStreamEvent,
+  ModelContentBlock,
+  ModelMessage,
+} from "./types";
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+}
+
+interface OpenAICompletion {
+  model: string;
+  choices: Array<{
+    message: { content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChunk {
+  model?: string;
+  choices: Array<{
+    delta: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+function toOpenAIMessages(message: ModelMessage): OpenAIMessage[] {
+  if (typeof message.content === "string") {
+    return [{ role: message.role, content: message.content }];
+  }
+
+  if (message.role === "assistant") {
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const toolCalls: OpenAIToolCall[] = message.content.flatMap((block) =>
+      block.type === "tool_use"
+        ? [{ id: block.id, type: "function" as const, function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } }]
+        : []
+    );
+    return [{ role: "assistant", content: text || null, tool_calls: toolCalls.length > 0 ? toolCalls : undefined }];
+  }
+
+  // Tool results become separate "tool" messages; everything else is user content
+  const messages: OpenAIMessage[] = [];
+  const parts: OpenAIContentPart[] = [];
+
+  for (const block of message.content) {
+    if (block.type === "tool_result") {
+      messages.push({
+        role: "tool",
+        tool_call_id: block.toolUseId,
+        content: block.isError ? `Error: ${block.content}` : block.content,
+      });
+    } else if (block.type === "text") {
+      parts.push({ type: "text", text: block.text });
+    } else if (block.type === "image") {
+      parts.push({ type: "image_url", image_url: { url: `data:${block.mediaType};base64,${block.base64}` } });
+    }
+  }
+
+  if (parts.length > 0) {
+    messages.push({ role: "user", content: parts });
+  }
+  return messages;
+}
+
+function parseToolInput(args: string): unknown {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toStopReason(finishReason: string | null): ChatModelResponse["stopReason"] {
+  if (finishReason === "stop") return "end_turn";
+  if (finishReason === "tool_calls") return "tool_use";
+  if (finishReason === "length") return "max_tokens";
+  return "other";
+}
+
+function toUsage(usage?: OpenAIUsage | null): ChatModelResponse["usage"] {
+  // prompt_tokens includes cached tokens; report them separately
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens || 0;
+  return {
+    inputTokens: Math.max((usage?.prompt_tokens || 0) - cachedTokens, 0),
+    outputTokens: usage?.completion_tokens || 0,
+    cachedTokens,
+  };
+}
+
+export function createOpenAICompatibleProvider(options: {
+  baseUrl?: string;
+  apiKey?: string;
+} = {}): ChatModelProvider {
+  const baseUrl = (options.baseUrl || OPENAI_COMPATIBLE_DEFAULTS.BASE_URL).replace(/\/+$/, "");
+  // The operator's key only goes to the operator's server, never to a user's base URL
+  const apiKey = options.baseUrl ? options.apiKey : options.apiKey || OPENAI_COMPATIBLE_DEFAULTS.API_KEY;
+
+  const resolveModel = (tier: ModelTier, override?: string) =>
+    override || (tier === "quality" ? OPENAI_COMPATIBLE_DEFAULTS.QUALITY_MODEL : OPENAI_COMPATIBLE_DEFAULTS.FAST_MODEL);
+
+  const post = async (request: ChatModelRequest, stream: boolean): Promise<Response> => {
+    const messages: OpenAIMessage[] = [];
+    if (request.system) {
+      messages.push({ role: "system", content: request.system });
+    }
+    request.messages.forEach((message) => messages.push(...toOpenAIMessages(message)));
+
+    const hasTools = !!request.tools && request.tools.length > 0;
+
+    // A user's own base URL is re-checked on every request (DNS can change);
+    // the operator's default is trusted
+    if (options.baseUrl) {
+      await assertPublicBaseUrl(baseUrl);
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      redirect: "error", // A redirect could point past the base URL check
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: resolveModel(request.tier, request.model),
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        tools: hasTools
+          ? request.tools!.map((tool) => ({
+              type: "function",
+              function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+            }))
+          : undefined,
+        tool_choice: hasTools ? request.toolChoice : undefined,
+        stream,
+        stream_options: stream ? { include_usage: true } : undefined,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new Error(`OpenAI-compatible API error (${response.status}): ${errorText || response.statusText}`);
+    }
+
+    return response;
+  };
+
+  return {
+    id: "openai-compatible",
+    resolveModel,
+
+    async createMessage(request) {
+      const response = await post(request, false);
+      const data: OpenAICompletion = await response.json();
+      const choice = data.choices[0];
+
+      const content: ModelContentBlock[] = [];
+      if (choice?.message.content) {
+        content.push({ type: "text", text: choice.message.content });
+      }
+      for (const call of choice?.message.tool_calls || []) {
+        content.push({ type: "tool_use", id: call.id, name: call.function.name, input: parseToolInput(call.function.arguments) });
+      }
+
+      return {
+        content,
+        stopReason: toStopReason(choice?.finish_reason ?? null),
+        usage: toUsage(data.usage),
+        model: data.model || resolveModel(request.tier, request.model),
+        provider: "openai-compatible",
+      };
+    },
+
+    async *streamMessage(request): AsyncGenerator<ChatModelStreamEvent> {
+      const response = await post(request, true);
+      if (!response.body) {
+        throw new Error("OpenAI-compatible API returned no response body");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+      let buffer = "";
+      let text = "";
+      let finishReason: string | null = null;
+      let usage: OpenAIUsage | null = null;
+      let model = resolveModel(request.tier, request.model);
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, "");
+          if (!line.trim().startsWith("data:") || data === "[DONE]") continue;
+
+          const chunk: OpenAIChunk = JSON.parse(data);
+          model = chunk.model || model;
+          usage = chunk.usage || usage;
+
+          for (const choice of chunk.choices || []) {
+            if (choice.delta.content) {
+              text += choice.delta.content;
+              yield { type: "text_delta", text: choice.delta.content };
+            }
+            for (const call of choice.delta.tool_calls || []) {
+              const entry = toolCalls[call.index] || (toolCalls[call.index] = { id: "", name: "", arguments: "" });
+              entry.id = call.id || entry.id;
+              entry.name += call.function?.name || "";
+              entry.arguments += call.function?.arguments || "";
+            }
+            finishReason = choice.finish_reason || finishReason;
+          }
+        }
+      }
+
+      const content: ModelContentBlock[] = [];
+      if (text) {
+        content.push({ type: "text", text });
+      }
+      toolCalls.filter(Boolean).forEach((call, index) => {
+        content.push({
+          type: "tool_use",
+          id: call.id || `call_${index}`,
+          name: call.name,
+          input: parseToolInput(call.arguments),
+        });
+      });
+
+      yield {
+        type: "message",
+        response: {
+          content,
+          stopReason: toStopReason(finishReason),
+          usage: toUsage(usage),
+          model,
+          provider: "openai-compatible",
+        },
+      };
+    },
+  };
+}
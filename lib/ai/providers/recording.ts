@@ -0,0 +1,68 @@
+/**
+ * Recording wrapper for a real model provider
+ * Appends every response to a fixture file (AI_MOCK_RECORD) so a live
+ * session can later be replayed offline with AI_MOCK_FIXTURES.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { ChatModelProvider, ChatModelRequest, ChatModelResponse, ChatModelStreamEvent } from "./types";
+import type { MockFixture } from "./mockFixtures";
+import { getLastUserText } from "./mock";
+
+// Long enough to tell prompts apart, short enough to survive small edits
+const MATCH_PREFIX_LENGTH = 80;
+
+function toFixture(request: ChatModelRequest, response: ChatModelResponse, index: number): MockFixture {
+  const toolUse = response.content.find((block) => block.type === "tool_use");
+  const text = response.content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("");
+
+  return {
+    name: `recorded-${Date.now()}-${index}`,
+    match: {
+      system: request.system ? request.system.substring(0, MATCH_PREFIX_LENGTH) : undefined,
+      prompt: getLastUserText(request).substring(0, MATCH_PREFIX_LENGTH) || undefined,
+      tier: request.tier,
+    },
+    response: {
+      text: text || undefined,
+      toolUse: toolUse?.type === "tool_use" ? { name: toolUse.name, input: toolUse.input } : undefined,
+      usage: response.usage,
+    },
+  };
+}
+
+export function createRecordingProvider(inner: ChatModelProvider, path: string): ChatModelProvider {
+  let recorded = 0;
+
+  const record = (request: ChatModelRequest, response: ChatModelResponse) => {
+    try {
+      const fixtures: MockFixture[] = existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : [];
+      fixtures.push(toFixture(request, response, recorded++));
+      writeFileSync(path, JSON.stringify(fixtures, null, 2));
+    } catch (error) {
+      console.error(`Error recording mock fixture to ${path}:`, error);
+    }
+  };
+
+  return {
+    id: inner.id,
+    resolveModel: inner.resolveModel,
+
+    async createMessage(request) {
+      const response = await inner.createMessage(request);
+      record(request, response);
+      return response;
+    },
+
+    async *streamMessage(request): AsyncGenerator<ChatModelStreamEvent> {
+      for await (const event of inner.streamMessage(request)) {
+        if (event.type === "message") {
+          record(request, event.response);
+        }
+        yield event;
+      }
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Provider-neutral request/response shapes shared by every model adapter
+ */
+
+import type { ModelProviderId, ModelTier } from "@/types/model";
+
+export type ModelContentBlock =
+  | { type: "text"; text: string }
+  | { type: "image"; mediaType: string; base64: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; toolUseId: string; content: string; isError?: boolean };
+
+export interface ModelMessage {
+  role: "user" | "assistant";
+  content: string | ModelContentBlock[];
+}
+
+export interface ModelToolSpec {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface ModelUsage {
+  inputTokens: number; // Uncached input only
+  outputTokens: number;
+  cachedTokens: number; // Read from the prompt cache
+  cacheWriteTokens?: number; // Written to the prompt cache
+}
+
+export interface ChatModelRequest {
+  tier: ModelTier;
+  model?: string;
+  system?: string;
+  enableCaching?: boolean;
+  messages: ModelMessage[];
+  maxTokens: number;
+  temperature: number;
+  tools?: ModelToolSpec[];
+  toolChoice?: "auto" | "none";
+}
+
+export interface ChatModelResponse {
+  content: ModelContentBlock[];
+  stopReason: "end_turn" | "tool_use" | "max_tokens" | "other";
+  usage: ModelUsage;
+  model: string;
+  provider: ModelProviderId;
+}
+
+export type ChatModelStreamEvent =
+  | { type: "text_delta"; text: string }
+  | { type: "message"; response: ChatModelResponse };
+
+export interface ChatModelProvider {
+  readonly id: ModelProviderId;
+
+  /** Resolve the concrete model id used for a tier */
+  resolveModel(tier: ModelTier, override?: string): string;
+
+  /** Send a request and wait for the full response */
+  createMessage(request: ChatModelRequest): Promise<ChatModelResponse>;
+
+  /** Stream text deltas, ending with the full response */
+  streamMessage(request: ChatModelRequest): AsyncGenerator<ChatModelStreamEvent>;
+}
+
+/**
+ * Join the text blocks of a response
+ */
+export function getResponseText(response: ChatModelResponse): string {
+  return response.content
+    .map((block) => (block.type === "text" ? block.text : ""))
+    .join("");
+}
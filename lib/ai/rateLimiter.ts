@@ -2,89 +2,182 @@
  * Rate Limiting for AI API Calls
  */
 
+import { RATE_LIMIT_DEFAULTS } from "../constants";
+import {
+  deleteRateLimitBuckets,
+  getRateLimitBucketCount,
+  incrementRateLimitBucket,
+} from "../db/rateLimitDb";
+
 interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
 }
 
-interface RateLimitEntry {
-  count: number;
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
   resetTime: number;
 }
 
+/**
+ * Storage for fixed-window buckets. RateLimiter combines the current and
+ * previous bucket into a sliding-window estimate.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowStart: number, windowMs: number, amount?: number): Promise<number>;
+  getCount(key: string, windowStart: number): Promise<number>;
+  reset(key: string): Promise<void>;
+  cleanup?(): void;
+}
+
+interface MemoryBucket {
+  count: number;
+  expiresAt: number;
+}
+
+/**
+ * Per-process store (development, or fallback when MongoDB is unavailable)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets: Map<string, MemoryBucket> = new Map();
+
+  async increment(key: string, windowStart: number, windowMs: number, amount: number = 1): Promise<number> {
+    const id = `${key}:${windowStart}`;
+    const bucket = this.buckets.get(id) || { count: 0, expiresAt: windowStart + windowMs * 2 };
+    bucket.count += amount;
+    this.buckets.set(id, bucket);
+    return bucket.count;
+  }
+
+  async getCount(key: string, windowStart: number): Promise<number> {
+    return this.buckets.get(`${key}:${windowStart}`)?.count ?? 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    for (const id of this.buckets.keys()) {
+      if (id.startsWith(`${key}:`)) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Clean up expired buckets
+   */
+  cleanup(): void {
+    const now = Date.now();
+    for (const [id, bucket] of this.buckets.entries()) {
+      if (now >= bucket.expiresAt) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Shared store backed by the rate_limits collection (TTL-indexed buckets,
+ * atomic $inc) so limits hold across serverless instances
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  increment(key: string, windowStart: number, windowMs: number, amount: number = 1): Promise<number> {
+    return incrementRateLimitBucket(key, windowStart, windowMs, amount);
+  }
+
+  getCount(key: string, windowStart: number): Promise<number> {
+    return getRateLimitBucketCount(key, windowStart);
+  }
+
+  reset(key: string): Promise<void> {
+    return deleteRateLimitBuckets(key);
+  }
+}
+
 class RateLimiter {
-  private limits: Map<string, RateLimitEntry> = new Map();
   private config: RateLimitConfig;
+  private store: RateLimitStore;
+  private fallbackStore = new MemoryRateLimitStore();
 
-  constructor(config: RateLimitConfig) {
+  constructor(config: RateLimitConfig, store: RateLimitStore = defaultStore) {
     this.config = config;
+    this.store = store;
   }
 
   /**
-   * Check if a request is allowed
+   * Check if a request is allowed (sliding window: the previous window's
+   * count is weighted by how much of it still overlaps)
    */
-  async checkLimit(key: string): Promise<{
-    allowed: boolean;
-    remaining: number;
-    resetTime: number;
-  }> {
+  async checkLimit(key: string): Promise<RateLimitResult> {
+    try {
+      return await this.checkWithStore(this.store, key);
+    } catch (error) {
+      // Fail soft: enforce per-instance limits rather than blocking chat
+      console.error("Rate limit store error, using in-memory fallback:", error);
+      return this.checkWithStore(this.fallbackStore, key);
+    }
+  }
+
+  private async checkWithStore(store: RateLimitStore, key: string): Promise<RateLimitResult> {
+    const { maxRequests, windowMs } = this.config;
     const now = Date.now();
-    const entry = this.limits.get(key);
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const windowEnd = windowStart + windowMs;
 
-    // No entry or window expired, create new entry
-    if (!entry || now >= entry.resetTime) {
-      this.limits.set(key, {
-        count: 1,
-        resetTime: now + this.config.windowMs,
-      });
+    const [current, previous] = await Promise.all([
+      store.increment(key, windowStart, windowMs),
+      store.getCount(key, windowStart - windowMs),
+    ]);
 
+    const previousWeight = 1 - (now - windowStart) / windowMs;
+    const estimated = previous * previousWeight + current;
+
+    if (estimated <= maxRequests) {
       return {
         allowed: true,
-        remaining: this.config.maxRequests - 1,
-        resetTime: now + this.config.windowMs,
+        limit: maxRequests,
+        remaining: Math.max(0, Math.floor(maxRequests - estimated)),
+        resetTime: windowEnd,
       };
     }
 
-    // Check if limit exceeded
-    if (entry.count >= this.config.maxRequests) {
-      return {
-        allowed: false,
-        remaining: 0,
-        resetTime: entry.resetTime,
-      };
-    }
+    // Denied requests don't count against the window
+    await store.increment(key, windowStart, windowMs, -1);
 
-    // Increment count
-    entry.count++;
-    this.limits.set(key, entry);
+    // Earliest time the previous window has decayed enough for one more request
+    const room = maxRequests - current;
+    const resetTime = room >= 0 && previous > 0
+      ? Math.min(windowEnd, windowStart + Math.ceil(windowMs * (1 - room / previous)))
+      : windowEnd;
 
     return {
-      allowed: true,
-      remaining: this.config.maxRequests - entry.count,
-      resetTime: entry.resetTime,
+      allowed: false,
+      limit: maxRequests,
+      remaining: 0,
+      resetTime,
     };
   }
 
   /**
    * Reset limit for a key
    */
-  reset(key: string): void {
-    this.limits.delete(key);
+  async reset(key: string): Promise<void> {
+    await this.store.reset(key);
+    await this.fallbackStore.reset(key);
   }
 
   /**
-   * Clean up expired entries
+   * Clean up expired in-memory entries
    */
   cleanup(): void {
-    const now = Date.now();
-    for (const [key, entry] of this.limits.entries()) {
-      if (now >= entry.resetTime) {
-        this.limits.delete(key);
-      }
-    }
+    this.store.cleanup?.();
+    this.fallbackStore.cleanup();
   }
 }
 
+const defaultStore: RateLimitStore =
+  RATE_LIMIT_DEFAULTS.STORE === "mongodb" ? new MongoRateLimitStore() : new MemoryRateLimitStore();
+
 // Rate limiters for different AI operations
 export const haikuLimiter = new RateLimiter({
   maxRequests: 100, // 100 requests per minute
@@ -104,33 +197,21 @@ export const userLimiter = new RateLimiter({
 /**
  * Check if user can make a request
  */
-export async function checkUserRateLimit(userId: string): Promise<{
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-}> {
+export async function checkUserRateLimit(userId: string): Promise<RateLimitResult> {
   return await userLimiter.checkLimit(userId);
 }
 
 /**
  * Check if Haiku request is allowed
  */
-export async function checkHaikuRateLimit(): Promise<{
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-}> {
+export async function checkHaikuRateLimit(): Promise<RateLimitResult> {
   return await haikuLimiter.checkLimit("haiku");
 }
 
 /**
  * Check if Sonnet request is allowed
  */
-export async function checkSonnetRateLimit(): Promise<{
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-}> {
+export async function checkSonnetRateLimit(): Promise<RateLimitResult> {
   return await sonnetLimiter.checkLimit("sonnet");
 }
 
@@ -148,6 +229,23 @@ if (typeof setInterval !== "undefined") {
   setInterval(cleanupRateLimiters, 5 * 60 * 1000);
 }
 
+/**
+ * Standard rate limit response headers
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetTime / 1000)),
+  };
+
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000)));
+  }
+
+  return headers;
+}
+
 /**
  * Format time until reset
  */
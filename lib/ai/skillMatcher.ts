@@ -1,5 +1,7 @@
 import { AgentSkill, SkillMatchResult, ParsedSkill } from "@/types/skill";
+import type { ModelSelection } from "@/types/model";
 import { sendMessageHaiku } from "./claude";
+import { shortlistSkills } from "./vectorIndex";
 
 /**
  * Parse SKILL.md content into structured format
@@ -67,18 +69,25 @@ function extractListItems(content: string, header: string): string[] {
 export async function matchSkillsToMessage(
   message: string,
   skills: AgentSkill[],
-  apiKey?: string
+  apiKey?: string,
+  model?: ModelSelection // Agent's provider/model (resolveModelSelection)
 ): Promise<SkillMatchResult[]> {
   if (skills.length === 0) {
     return [];
   }
 
-  // Quick filter: Only consider skills with relevant keywords
-  const relevantSkills = skills.filter(skill => {
-    const searchText = `${skill.name} ${skill.description} ${skill.metadata.tags.join(" ")}`.toLowerCase();
-    const messageWords = message.toLowerCase().split(/\s+/);
-    return messageWords.some(word => word.length > 3 && searchText.includes(word));
-  });
+  // Quick filter: Only rank the skills closest to the message (embedding similarity)
+  let relevantSkills: AgentSkill[];
+  try {
+    relevantSkills = (await shortlistSkills(message, skills)).map(scored => scored.item);
+  } catch (error) {
+    console.error("Error shortlisting skills - using keyword filter:", error);
+    relevantSkills = skills.filter(skill => {
+      const searchText = `${skill.name} ${skill.description} ${skill.metadata.tags.join(" ")}`.toLowerCase();
+      const messageWords = message.toLowerCase().split(/\s+/);
+      return messageWords.some(word => word.length > 3 && searchText.includes(word));
+    });
+  }
 
   if (relevantSkills.length === 0) {
     return [];
@@ -125,6 +134,7 @@ Which skills are most relevant? Consider geographic and semantic coverage.`;
       maxTokens: 1024,
       temperature: 0.3,
       apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -211,7 +221,9 @@ IMPORTANT:
 export async function generateSkill(
   topic: string,
   description: string,
-  agentContext: string
+  agentContext: string,
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<string> {
   const systemPrompt = `You are a skill creator. Generate a SKILL.md file for a specialized capability.
 
@@ -268,6 +280,8 @@ Generate the complete SKILL.md content.`;
     systemPrompt,
     maxTokens: 2048,
     temperature: 0.7,
+    apiKey,
+    model,
   });
 
   return response.content;
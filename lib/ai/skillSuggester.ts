@@ -5,6 +5,7 @@
 
 import { sendMessageHaiku } from "./claude";
 import { Agent } from "@/types/agent";
+import type { ModelSelection } from "@/types/model";
 import { AgentSkill } from "@/types/skill";
 import { searchWeb, formatSearchResults } from "@/lib/search/webSearch";
 
@@ -24,7 +25,8 @@ export async function suggestSkillsForAgent(
   agent: Agent,
   recentQuestions: string[],
   existingSkills: AgentSkill[],
-  apiKey?: string
+  apiKey?: string,
+  model?: ModelSelection // Agent's provider/model (resolveModelSelection)
 ): Promise<SkillSuggestion[]> {
   const existingSkillNames = existingSkills.map(s => s.name).join(", ");
   
@@ -65,6 +67,7 @@ IMPORTANT: Return ONLY the JSON array, no other text.`;
       temperature: 0.7,
       maxTokens: 2000,
       apiKey, // Pass user's custom API key
+      model,
     });
 
     // Parse the JSON response
@@ -95,7 +98,8 @@ export async function generateSkillContent(
   skillDescription: string,
   agentContext: string,
   apiKey?: string,
-  braveApiKey?: string
+  braveApiKey?: string,
+  model?: ModelSelection
 ): Promise<string> {
   // Perform web search to get current information about the skill topic
   console.log("🔍 Searching web for skill information:", skillName);
@@ -160,6 +164,7 @@ IMPORTANT: Make the skill COMPREHENSIVE and CONFIDENT. If it's a "European Weath
       temperature: 0.5,
       maxTokens: 1500,
       apiKey, // Pass user's custom API key
+      model,
     });
     console.log(`✅ Haiku responded in ${Date.now() - startHaiku}ms`);
 
@@ -211,7 +216,9 @@ Related topics and complementary skills.`;
 export async function analyzeQuestionForSkillGap(
   question: string,
   agent: Agent,
-  existingSkills: AgentSkill[]
+  existingSkills: AgentSkill[],
+  apiKey?: string,
+  model?: ModelSelection
 ): Promise<SkillSuggestion | null> {
   const existingSkillNames = existingSkills.map(s => s.name).join(", ");
   
@@ -245,6 +252,8 @@ Return ONLY valid JSON, no other text.`;
     const response = await sendMessageHaiku(prompt, {
       temperature: 0.3,
       maxTokens: 500,
+      apiKey,
+      model,
     });
 
     const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -0,0 +1,130 @@
+import type { ChatTool } from "./registry";
+
+/**
+ * Evaluate an arithmetic expression without eval()
+ * Supports + - * / % ^, parentheses and a few math functions
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|[a-z]+|[-+*/%^(),]/gi) || [];
+  if (tokens.join("") !== expression.replace(/\s+/g, "")) {
+    throw new Error(`Invalid characters in expression: ${expression}`);
+  }
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+
+  const functions: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    ln: Math.log,
+    log: Math.log10,
+  };
+  const constants: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := power (('*' | '/' | '%') power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const op = next();
+      const right = parsePower();
+      value = op === "*" ? value * right : op === "/" ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // power := unary ('^' power)?
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === "^") {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  // unary := '-' unary | primary
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error("Unexpected end of expression");
+    }
+
+    if (token === "(") {
+      const value = parseExpression();
+      if (next() !== ")") throw new Error("Missing closing parenthesis");
+      return value;
+    }
+
+    const name = token.toLowerCase();
+    if (functions[name]) {
+      if (next() !== "(") throw new Error(`Expected "(" after ${name}`);
+      const value = parseExpression();
+      if (next() !== ")") throw new Error("Missing closing parenthesis");
+      return functions[name](value);
+    }
+    if (name in constants) {
+      return constants[name];
+    }
+
+    const value = parseFloat(token);
+    if (isNaN(value)) {
+      throw new Error(`Unexpected token: ${token}`);
+    }
+    return value;
+  };
+
+  const result = parseExpression();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected token: ${tokens[pos]}`);
+  }
+  return result;
+}
+
+export const calculatorTool: ChatTool = {
+  name: "calculator",
+  description:
+    "Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, ln, log, pi and e. Use this instead of doing math in your head.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      expression: {
+        type: "string",
+        description: "Expression to evaluate, e.g. \"(1200 * 0.15) / 12\"",
+      },
+    },
+    required: ["expression"],
+  },
+  timeoutMs: 1000,
+  async execute(input) {
+    const expression = String(input.expression ?? "");
+    const result = evaluateExpression(expression);
+    if (!isFinite(result)) {
+      throw new Error(`Expression did not produce a finite number: ${expression}`);
+    }
+    return `${expression} = ${result}`;
+  },
+};
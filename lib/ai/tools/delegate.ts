@@ -0,0 +1,63 @@
+import type { ChatTool } from "./registry";
+import { DELEGATION_DEFAULTS } from "../../constants";
+
+export type DelegationMode = "consult" | "handoff";
+
+export interface DelegationRequest {
+  agentName: string;
+  question: string;
+  mode: DelegationMode;
+}
+
+/**
+ * Delegation tool - lets the answering agent consult, or hand a sub-question
+ * off to, another of the user's agents. The caller supplies `delegate`,
+ * which runs the other agent and enforces depth and loop limits.
+ */
+export function createDelegationTool(options: {
+  agents: { name: string; description: string }[];
+  delegate: (request: DelegationRequest) => Promise<string>;
+}): ChatTool {
+  const roster = options.agents.map((agent) => `${agent.name} (${agent.description})`).join("; ");
+
+  return {
+    name: "consult_agent",
+    description:
+      `Ask another of the user's agents about part of the question that is outside your expertise. ` +
+      `Use "consult" to get their input for your own answer, or "handoff" when they should answer that part themselves. ` +
+      `Available agents: ${roster}`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        agent: {
+          type: "string",
+          description: "Name of the agent to ask",
+        },
+        question: {
+          type: "string",
+          description: "Self-contained question for that agent, including any context it needs",
+        },
+        mode: {
+          type: "string",
+          enum: ["consult", "handoff"],
+          description: "consult (default) or handoff",
+        },
+      },
+      required: ["agent", "question"],
+    },
+    timeoutMs: DELEGATION_DEFAULTS.TIMEOUT_MS,
+    async execute(input) {
+      const agentName = String(input.agent ?? "").trim();
+      const question = String(input.question ?? "").trim();
+      if (!agentName || !question) {
+        throw new Error("agent and question are required");
+      }
+
+      return options.delegate({
+        agentName,
+        question,
+        mode: input.mode === "handoff" ? "handoff" : "consult",
+      });
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import type { ChatTool } from "./registry";
+
+const FILE_PATTERN = /--- BEGIN FILE: (.+?) ---\n([\s\S]*?)\n--- END FILE: \1 ---/g;
+const MAX_MATCHES = 20;
+
+/**
+ * Split uploaded file context into individual files
+ */
+function parseFiles(fileContext: string): Array<{ name: string; lines: string[] }> {
+  return Array.from(fileContext.matchAll(FILE_PATTERN)).map((match) => ({
+    name: match[1],
+    lines: match[2].split("\n"),
+  }));
+}
+
+/**
+ * Look up passages in files the user uploaded with this message
+ */
+export function createFileLookupTool(fileContext: string): ChatTool {
+  const files = parseFiles(fileContext);
+
+  return {
+    name: "file_lookup",
+    description: `Search the files the user uploaded (${files.map((f) => f.name).join(", ")}) for lines matching a query. Returns matching lines with line numbers and surrounding context.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Words or phrase to look for (case-insensitive)",
+        },
+        fileName: {
+          type: "string",
+          description: "Only search this file",
+        },
+      },
+      required: ["query"],
+    },
+    timeoutMs: 2000,
+    async execute(input) {
+      const terms = String(input.query ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+      if (terms.length === 0) {
+        throw new Error("query is required");
+      }
+
+      const fileName = typeof input.fileName === "string" ? input.fileName : undefined;
+      const matches: string[] = [];
+
+      for (const file of files) {
+        if (fileName && file.name !== fileName) continue;
+
+        file.lines.forEach((line, index) => {
+          if (matches.length >= MAX_MATCHES) return;
+          const lower = line.toLowerCase();
+          if (terms.every((term) => lower.includes(term))) {
+            const context = file.lines.slice(Math.max(0, index - 1), index + 2).join("\n");
+            matches.push(`${file.name}:${index + 1}\n${context}`);
+          }
+        });
+      }
+
+      return matches.length > 0
+        ? matches.join("\n\n")
+        : `No lines matching "${terms.join(" ")}" in the uploaded files.`;
+    },
+  };
+}
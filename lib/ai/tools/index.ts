@@ -0,0 +1,32 @@
+/**
+ * Built-in tools available to agents during chat
+ */
+
+import { ToolRegistry } from "./registry";
+import { calculatorTool } from "./calculator";
+import { createWebSearchTool } from "./webSearch";
+import { createFileLookupTool } from "./fileLookup";
+
+export { ToolRegistry } from "./registry";
+export type { ChatTool, ToolExecutionResult } from "./registry";
+export { createDelegationTool } from "./delegate";
+export type { DelegationMode, DelegationRequest } from "./delegate";
+
+/**
+ * Build the tool registry for a chat request
+ */
+export function createChatToolRegistry(options: {
+  braveApiKey?: string;
+  fileContext?: string;
+}): ToolRegistry {
+  const registry = new ToolRegistry([
+    calculatorTool,
+    createWebSearchTool(options.braveApiKey),
+  ]);
+
+  if (options.fileContext?.includes("--- BEGIN FILE:")) {
+    registry.register(createFileLookupTool(options.fileContext));
+  }
+
+  return registry;
+}
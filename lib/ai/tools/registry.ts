@@ -0,0 +1,104 @@
+/**
+ * Tool Registry
+ * Holds the tools a model may call during a tool-use loop and executes them
+ * with per-tool timeouts.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import { TOOL_DEFAULTS } from "../../constants";
+
+export interface ChatTool {
+  name: string;
+  description: string;
+  inputSchema: Anthropic.Messages.Tool["input_schema"];
+  timeoutMs?: number;
+  execute(input: Record<string, unknown>): Promise<string>;
+}
+
+export interface ToolExecutionResult {
+  output: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, ChatTool> = new Map();
+
+  constructor(tools: ChatTool[] = []) {
+    tools.forEach((tool) => this.register(tool));
+  }
+
+  /**
+   * Register a tool (replaces any tool with the same name)
+   */
+  register(tool: ChatTool): this {
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /**
+   * Remove a tool by name
+   */
+  unregister(name: string): this {
+    this.tools.delete(name);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get size(): number {
+    return this.tools.size;
+  }
+
+  /**
+   * Tool definitions in Anthropic API format
+   */
+  toAnthropicTools(): Anthropic.Messages.Tool[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    }));
+  }
+
+  /**
+   * Execute a tool call, never throwing - failures and timeouts are
+   * returned as error results so the model can recover
+   */
+  async execute(name: string, input: unknown): Promise<ToolExecutionResult> {
+    const start = Date.now();
+    const tool = this.tools.get(name);
+
+    if (!tool) {
+      return { output: `Unknown tool: ${name}`, isError: true, durationMs: 0 };
+    }
+
+    const timeoutMs = tool.timeoutMs ?? TOOL_DEFAULTS.TIMEOUT_MS;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const output = await Promise.race([
+        tool.execute((input ?? {}) as Record<string, unknown>),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Tool "${name}" timed out after ${timeoutMs}ms`)),
+            timeoutMs
+          );
+        }),
+      ]);
+
+      return { output, isError: false, durationMs: Date.now() - start };
+    } catch (error) {
+      console.error(`🔧 Tool "${name}" failed:`, error);
+      return {
+        output: error instanceof Error ? error.message : "Tool execution failed",
+        isError: true,
+        durationMs: Date.now() - start,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
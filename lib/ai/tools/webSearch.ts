@@ -0,0 +1,50 @@
+import { searchWeb, formatSearchResults } from "@/lib/search/webSearch";
+import type { ChatTool } from "./registry";
+
+const FRESHNESS_VALUES = ["pd", "pw", "pm", "py"] as const;
+
+/**
+ * Web search tool backed by Brave Search
+ */
+export function createWebSearchTool(braveApiKey?: string): ChatTool {
+  return {
+    name: "web_search",
+    description:
+      "Search the web for current information: news, prices, publications, events or anything that may have changed recently. Returns titles, URLs and snippets.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query",
+        },
+        count: {
+          type: "number",
+          description: "Number of results (1-10, default 5)",
+        },
+        freshness: {
+          type: "string",
+          enum: [...FRESHNESS_VALUES],
+          description: "Restrict to results from the past day, week, month or year",
+        },
+      },
+      required: ["query"],
+    },
+    timeoutMs: 10000,
+    async execute(input) {
+      const query = String(input.query ?? "").trim();
+      if (!query) {
+        throw new Error("query is required");
+      }
+
+      const count = Math.min(Math.max(Number(input.count) || 5, 1), 10);
+      const freshness = FRESHNESS_VALUES.find((value) => value === input.freshness);
+
+      const results = await searchWeb(query, count, braveApiKey, freshness);
+      if (results.results.length === 0) {
+        return `No results found for "${query}".`;
+      }
+      return formatSearchResults(results);
+    },
+  };
+}
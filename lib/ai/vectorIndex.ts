@@ -0,0 +1,195 @@
+/**
+ * Agent & Skill Vector Index
+ * Embeds agents (name, description, expertise, capabilities) and skills
+ * (name, description, tags) and ranks them against a question by cosine
+ * similarity, so the LLM matchers only see a short list of candidates.
+ * Remote embeddings are cached in the embeddings collection and recomputed
+ * when an agent or skill changes.
+ */
+
+import { createHash } from "crypto";
+import type { Agent } from "@/types/agent";
+import type { AgentSkill } from "@/types/skill";
+import { EMBEDDING_DEFAULTS } from "../constants";
+import type { EmbeddingKind, EmbeddingRecord } from "../db/embeddingDb";
+import { cosineSimilarity, Embedder, getEmbedder } from "./embeddings";
+
+export interface ScoredItem<T> {
+  item: T;
+  score: number;
+}
+
+export interface AgentShortlist {
+  agents: ScoredItem<Agent>[]; // Best first
+  skills: AgentSkill[]; // Skills of the shortlisted agents
+}
+
+export function agentEmbeddingText(agent: Agent): string {
+  return [
+    agent.name,
+    agent.description,
+    `Expertise: ${agent.expertise.join(", ")}`,
+    `Capabilities: ${agent.capabilities.join(", ")}`,
+  ].join("\n");
+}
+
+export function skillEmbeddingText(skill: AgentSkill): string {
+  return [
+    skill.name,
+    skill.description,
+    `Tags: ${skill.metadata?.tags?.join(", ") || ""}`,
+  ].join("\n");
+}
+
+function contentHash(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+/**
+ * Embed items, reusing cached vectors whose content hasn't changed
+ */
+async function embedItems<T>(
+  embedder: Embedder,
+  kind: EmbeddingKind,
+  items: T[],
+  getId: (item: T) => string,
+  getText: (item: T) => string
+): Promise<number[][]> {
+  const texts = items.map(getText);
+
+  if (embedder.local) {
+    return embedder.embed(texts);
+  }
+
+  // Loaded lazily so the local embedder works without a database connection
+  const { embeddingId, getEmbeddings, saveEmbeddings } = await import("../db/embeddingDb");
+
+  const ids = items.map((item) => embeddingId(embedder.id, kind, getId(item)));
+  const hashes = texts.map(contentHash);
+
+  let cached: EmbeddingRecord[] = [];
+  try {
+    cached = await getEmbeddings(ids);
+  } catch (error) {
+    console.error("Error loading cached embeddings:", error);
+  }
+  const cachedById = new Map(cached.map((record) => [record._id, record]));
+
+  const vectors: number[][] = new Array(items.length);
+  const staleIndexes: number[] = [];
+  ids.forEach((id, i) => {
+    const record = cachedById.get(id);
+    if (record && record.contentHash === hashes[i]) {
+      vectors[i] = record.vector;
+    } else {
+      staleIndexes.push(i);
+    }
+  });
+
+  if (staleIndexes.length > 0) {
+    const fresh = await embedder.embed(staleIndexes.map((i) => texts[i]));
+    const records: EmbeddingRecord[] = staleIndexes.map((itemIndex, j) => {
+      vectors[itemIndex] = fresh[j];
+      return {
+        _id: ids[itemIndex],
+        embedderId: embedder.id,
+        kind,
+        sourceId: getId(items[itemIndex]),
+        contentHash: hashes[itemIndex],
+        vector: fresh[j],
+        updatedAt: new Date(),
+      };
+    });
+
+    console.log(`🧮 Embedded ${records.length} ${kind}(s) with ${embedder.id}`);
+    saveEmbeddings(records).catch((error) => console.error("Error caching embeddings:", error));
+  }
+
+  return vectors;
+}
+
+/**
+ * Rank items by similarity to a query vector, best first
+ */
+export function rankByVector<T>(
+  queryVector: number[],
+  items: T[],
+  vectors: number[][],
+  topK: number,
+  minScore: number = -Infinity
+): ScoredItem<T>[] {
+  return items
+    .map((item, i) => ({ item, score: cosineSimilarity(queryVector, vectors[i]) }))
+    .filter((scored) => scored.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Shortlist the agents most likely to answer a question
+ * An agent scores the better of its own similarity and its best skill's,
+ * so a specialised skill can pull its agent into the shortlist.
+ */
+export async function shortlistAgents(
+  question: string,
+  agents: Agent[],
+  skills: AgentSkill[],
+  options: { embedder?: Embedder; topK?: number } = {}
+): Promise<AgentShortlist> {
+  const embedder = options.embedder || getEmbedder();
+  const topK = options.topK ?? EMBEDDING_DEFAULTS.AGENT_TOP_K;
+
+  const [[queryVector], agentVectors, skillVectors] = await Promise.all([
+    embedder.embed([question]),
+    embedItems(embedder, "agent", agents, (agent) => agent._id!.toString(), agentEmbeddingText),
+    embedItems(embedder, "skill", skills, (skill) => skill._id!.toString(), skillEmbeddingText),
+  ]);
+
+  const bestSkillScore = new Map<string, number>();
+  skills.forEach((skill, i) => {
+    const score = cosineSimilarity(queryVector, skillVectors[i]);
+    bestSkillScore.set(skill.agentId, Math.max(bestSkillScore.get(skill.agentId) ?? -Infinity, score));
+  });
+
+  const ranked = agents
+    .map((agent, i) => ({
+      item: agent,
+      score: Math.max(
+        cosineSimilarity(queryVector, agentVectors[i]),
+        bestSkillScore.get(agent._id!.toString()) ?? -Infinity
+      ),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+  const shortlistedIds = new Set(ranked.map((scored) => scored.item._id!.toString()));
+
+  return {
+    agents: ranked,
+    skills: skills.filter((skill) => shortlistedIds.has(skill.agentId)),
+  };
+}
+
+/**
+ * Shortlist an agent's skills for a message (unrelated skills are dropped)
+ */
+export async function shortlistSkills(
+  message: string,
+  skills: AgentSkill[],
+  options: { embedder?: Embedder; topK?: number; minScore?: number } = {}
+): Promise<ScoredItem<AgentSkill>[]> {
+  const embedder = options.embedder || getEmbedder();
+
+  const [[queryVector], skillVectors] = await Promise.all([
+    embedder.embed([message]),
+    embedItems(embedder, "skill", skills, (skill) => skill._id!.toString(), skillEmbeddingText),
+  ]);
+
+  return rankByVector(
+    queryVector,
+    skills,
+    skillVectors,
+    options.topK ?? EMBEDDING_DEFAULTS.SKILL_TOP_K,
+    options.minScore ?? EMBEDDING_DEFAULTS.MIN_SKILL_SCORE
+  );
+}
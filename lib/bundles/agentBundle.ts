@@ -0,0 +1,101 @@
+/**
+ * Agent Bundles
+ * A versioned JSON format for moving an agent between accounts or
+ * environments: the profile with its knowledge base, its skills (with
+ * resources) and optionally its evolution history. Imports are validated,
+ * get fresh ids, are renamed when the name is taken and count toward
+ * MAX_AGENTS_PER_USER.
+ */
+
+import { createAgent, getAgent, getAgentCount, getUserAgents } from "@/lib/db/agentDb";
+import { createSkill, getAgentSkills } from "@/lib/db/skillDb";
+import { toAgentSnapshot } from "@/lib/evolution/versions";
+import { AGENT_DEFAULTS, BUNDLE_DEFAULTS } from "@/lib/constants";
+import { AgentBundleError, resolveAgentName, validateAgentBundle } from "./bundleSchema";
+import type { AgentSnapshot } from "@/types/agent";
+import type { AgentBundle, AgentBundleImportResult } from "@/types/bundle";
+
+/**
+ * Export an agent the user owns as a bundle
+ * Returns null when the agent is not the user's.
+ */
+export async function exportAgentBundle(
+  agentId: string,
+  userId: string,
+  options: { includeHistory?: boolean } = {}
+): Promise<AgentBundle | null> {
+  const agent = await getAgent(agentId, userId);
+  if (!agent) return null;
+
+  const skills = await getAgentSkills(agentId);
+
+  return {
+    format: BUNDLE_DEFAULTS.FORMAT,
+    version: BUNDLE_DEFAULTS.VERSION,
+    exportedAt: new Date().toISOString(),
+    agent: { ...toAgentSnapshot(agent), sourceId: agentId },
+    skills: skills.map((skill) => ({
+      sourceId: skill._id!.toString(),
+      name: skill.name,
+      description: skill.description,
+      version: skill.version,
+      skillContent: skill.skillContent,
+      resources: skill.resources,
+      metadata: skill.metadata,
+    })),
+    ...(options.includeHistory ? { evolutionHistory: agent.evolutionHistory } : {}),
+  };
+}
+
+/**
+ * Import a bundle as a new agent of the user's
+ */
+export async function importAgentBundle(
+  input: unknown,
+  userId: string
+): Promise<AgentBundleImportResult> {
+  const bundle = validateAgentBundle(input);
+
+  const agentCount = await getAgentCount(userId);
+  if (agentCount >= AGENT_DEFAULTS.MAX_AGENTS_PER_USER) {
+    throw new AgentBundleError(`Maximum agent limit reached (${AGENT_DEFAULTS.MAX_AGENTS_PER_USER})`);
+  }
+
+  const existingAgents = await getUserAgents(userId);
+  const { sourceId, ...profile } = bundle.agent;
+  const name = resolveAgentName(profile.name, existingAgents.map((agent) => agent.name));
+
+  const snapshot: AgentSnapshot = { ...profile, name };
+  const agent = await createAgent(
+    { ...snapshot, evolutionHistory: bundle.evolutionHistory },
+    userId,
+    "Imported"
+  );
+  const agentId = agent._id!.toString();
+
+  const idMap: Record<string, string> = {};
+  if (sourceId) idMap[sourceId] = agentId;
+
+  // Skill names are unique per agent; keep the first of any repeats
+  const warnings: string[] = [];
+  const skillNames = new Set<string>();
+  for (const { sourceId: skillSourceId, ...skill } of bundle.skills) {
+    const key = skill.name.toLowerCase();
+    if (skillNames.has(key)) {
+      warnings.push(`Skipped duplicate skill "${skill.name}"`);
+      continue;
+    }
+    skillNames.add(key);
+
+    const created = await createSkill({ ...skill, agentId }, agentId);
+    if (skillSourceId) idMap[skillSourceId] = created._id!.toString();
+  }
+
+  const renamedFrom = name !== profile.name ? profile.name : null;
+  if (renamedFrom) {
+    warnings.push(`Renamed to "${name}" because "${renamedFrom}" already exists`);
+  }
+
+  console.log(`📦 Imported agent "${name}" with ${skillNames.size} skills for ${userId}`);
+  return { agent, skillCount: skillNames.size, renamedFrom, idMap, warnings };
+}
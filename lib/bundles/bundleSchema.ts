@@ -0,0 +1,315 @@
+/**
+ * Agent Bundle Schema
+ * Validation of untrusted agent bundles - no database access, so it can run
+ * anywhere (see tests/bundles/bundleSchema.test.ts).
+ */
+
+import { AGENT_DEFAULTS, BUNDLE_DEFAULTS, GENERATION_DEFAULTS, MOCK_PROVIDER_DEFAULTS } from "../constants";
+import { hasModelPrice } from "../usage/pricing";
+import type { AgentGenerationSettings, Evolution } from "@/types/agent";
+import type { AgentBundle, BundledSkill } from "@/types/bundle";
+import type { AgentModelConfig, ModelProviderId } from "@/types/model";
+import type { SkillResource } from "@/types/skill";
+
+export class AgentBundleError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public problems: string[] = []
+  ) {
+    super(message);
+    this.name = "AgentBundleError";
+  }
+}
+
+const MODEL_PROVIDERS: ModelProviderId[] = ["anthropic", "openai-compatible", "mock"];
+const RESOURCE_TYPES: SkillResource["type"][] = ["markdown", "script", "template", "data"];
+
+type BundleRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is BundleRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function toDate(value: unknown): Date {
+  const date = new Date(typeof value === "string" || typeof value === "number" ? value : Date.now());
+  return isNaN(date.getTime()) ? new Date() : date;
+}
+
+/**
+ * Check an untrusted bundle against the schema
+ * Returns the normalized bundle; throws AgentBundleError listing every problem.
+ */
+export function validateAgentBundle(input: unknown): AgentBundle {
+  const problems: string[] = [];
+
+  if (!isRecord(input)) {
+    throw new AgentBundleError("Bundle must be a JSON object");
+  }
+  if (input.format !== BUNDLE_DEFAULTS.FORMAT) {
+    throw new AgentBundleError(`Not an agent bundle (format must be "${BUNDLE_DEFAULTS.FORMAT}")`);
+  }
+  if (typeof input.version !== "number" || !Number.isInteger(input.version) || input.version < 1) {
+    throw new AgentBundleError("Bundle version is missing");
+  }
+  if (input.version > BUNDLE_DEFAULTS.VERSION) {
+    throw new AgentBundleError(
+      `Bundle version ${input.version} is newer than this app supports (${BUNDLE_DEFAULTS.VERSION})`
+    );
+  }
+
+  const agent = validateAgent(input.agent, problems);
+
+  const skills: BundledSkill[] = [];
+  if (!Array.isArray(input.skills)) {
+    problems.push("skills must be an array");
+  } else if (input.skills.length > BUNDLE_DEFAULTS.MAX_SKILLS) {
+    problems.push(`A bundle can contain at most ${BUNDLE_DEFAULTS.MAX_SKILLS} skills`);
+  } else {
+    input.skills.forEach((skill, index) => {
+      const validated = validateSkill(skill, `skills[${index}]`, problems);
+      if (validated) skills.push(validated);
+    });
+  }
+
+  let evolutionHistory: Evolution[] | undefined;
+  if (input.evolutionHistory !== undefined) {
+    if (!Array.isArray(input.evolutionHistory)) {
+      problems.push("evolutionHistory must be an array");
+    } else {
+      evolutionHistory = input.evolutionHistory
+        .filter(isRecord)
+        .filter((entry) => typeof entry.improvement === "string")
+        .slice(-AGENT_DEFAULTS.MAX_EVOLUTION_HISTORY)
+        .map((entry) => ({
+          date: toDate(entry.date),
+          improvement: entry.improvement as string,
+          reason: typeof entry.reason === "string" ? entry.reason : "",
+          changedFields: isStringArray(entry.changedFields) ? entry.changedFields : [],
+        }));
+    }
+  }
+
+  if (problems.length > 0 || !agent) {
+    throw new AgentBundleError("Invalid agent bundle", 400, problems);
+  }
+
+  return {
+    format: BUNDLE_DEFAULTS.FORMAT,
+    version: input.version,
+    exportedAt: typeof input.exportedAt === "string" ? input.exportedAt : "",
+    agent,
+    skills,
+    ...(evolutionHistory ? { evolutionHistory } : {}),
+  };
+}
+
+function validateAgent(input: unknown, problems: string[]): AgentBundle["agent"] | null {
+  if (!isRecord(input)) {
+    problems.push("agent is missing");
+    return null;
+  }
+
+  for (const field of ["name", "description", "systemPrompt"]) {
+    if (typeof input[field] !== "string" || !(input[field] as string).trim()) {
+      problems.push(`agent.${field} must be a non-empty string`);
+    }
+  }
+  for (const field of ["expertise", "capabilities"]) {
+    if (!isStringArray(input[field])) {
+      problems.push(`agent.${field} must be an array of strings`);
+    }
+  }
+
+  const knowledgeBase = isRecord(input.knowledgeBase) ? input.knowledgeBase : {};
+  const facts = knowledgeBase.facts ?? [];
+  const sources = knowledgeBase.sources ?? [];
+  if (!isStringArray(facts) || !isStringArray(sources)) {
+    problems.push("agent.knowledgeBase facts and sources must be arrays of strings");
+  } else if (facts.length > BUNDLE_DEFAULTS.MAX_FACTS) {
+    problems.push(`agent.knowledgeBase can contain at most ${BUNDLE_DEFAULTS.MAX_FACTS} facts`);
+  }
+
+  const style = isRecord(input.conversationStyle) ? input.conversationStyle : {};
+  const modelConfig = validateModelConfig(input.modelConfig, problems, "agent.modelConfig");
+  const generationSettings = validateGenerationSettings(input.generationSettings, problems, "agent.generationSettings");
+  if (problems.length > 0) return null;
+
+  return {
+    sourceId: typeof input.sourceId === "string" ? input.sourceId : "",
+    name: (input.name as string).trim(),
+    description: input.description as string,
+    expertise: input.expertise as string[],
+    systemPrompt: input.systemPrompt as string,
+    knowledgeBase: {
+      facts: facts as string[],
+      sources: sources as string[],
+      lastUpdated: toDate(knowledgeBase.lastUpdated),
+    },
+    capabilities: input.capabilities as string[],
+    conversationStyle: {
+      tone: typeof style.tone === "string" ? style.tone : "professional",
+      vocabulary: typeof style.vocabulary === "string" ? style.vocabulary : "mixed",
+      responseLength: typeof style.responseLength === "string" ? style.responseLength : "adaptive",
+    },
+    modelConfig,
+    generationSettings,
+  };
+}
+
+/**
+ * Check an agent's provider/model override (bundles and PATCH /api/agents)
+ * Anthropic models must have their own price so usage is billed correctly;
+ * the mock provider is only selectable in development. Returns null for no
+ * override; problems are pushed onto the list.
+ */
+export function validateModelConfig(
+  input: unknown,
+  problems: string[],
+  path: string = "modelConfig"
+): AgentModelConfig | null {
+  if (input === null || input === undefined) return null;
+
+  if (!isRecord(input) || !MODEL_PROVIDERS.includes(input.provider as ModelProviderId)) {
+    problems.push(`${path}.provider must be one of ${MODEL_PROVIDERS.join(", ")}`);
+    return null;
+  }
+
+  const provider = input.provider as ModelProviderId;
+  if (provider === "mock" && !MOCK_PROVIDER_DEFAULTS.AGENT_SELECTABLE) {
+    problems.push(`${path}.provider "mock" is only available in development`);
+    return null;
+  }
+
+  if (input.model === undefined || input.model === null || input.model === "") {
+    return { provider };
+  }
+  if (typeof input.model !== "string" || !input.model.trim()) {
+    problems.push(`${path}.model must be a string`);
+    return null;
+  }
+
+  const model = input.model.trim();
+  if (provider === "anthropic" && !hasModelPrice(provider, model)) {
+    problems.push(`${path}.model "${model}" is not a supported Anthropic model`);
+    return null;
+  }
+
+  return { provider, model };
+}
+
+/**
+ * Check an agent's generation overrides (bundles and PATCH /api/agents)
+ * Returns null when nothing is overridden; problems are pushed onto the list.
+ */
+export function validateGenerationSettings(
+  input: unknown,
+  problems: string[],
+  path: string = "generationSettings"
+): AgentGenerationSettings | null {
+  if (input === null || input === undefined) return null;
+
+  if (!isRecord(input)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+
+  const settings: AgentGenerationSettings = {};
+  const count = problems.length;
+
+  if (input.modelTier !== undefined) {
+    if (input.modelTier === "fast" || input.modelTier === "quality") settings.modelTier = input.modelTier;
+    else problems.push(`${path}.modelTier must be "fast" or "quality"`);
+  }
+  if (input.temperature !== undefined) {
+    const { MIN_TEMPERATURE, MAX_TEMPERATURE } = GENERATION_DEFAULTS;
+    if (typeof input.temperature === "number" && input.temperature >= MIN_TEMPERATURE && input.temperature <= MAX_TEMPERATURE) {
+      settings.temperature = input.temperature;
+    } else {
+      problems.push(`${path}.temperature must be between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}`);
+    }
+  }
+  if (input.maxTokens !== undefined) {
+    const { MIN_MAX_TOKENS, MAX_MAX_TOKENS } = GENERATION_DEFAULTS;
+    if (Number.isInteger(input.maxTokens) && (input.maxTokens as number) >= MIN_MAX_TOKENS && (input.maxTokens as number) <= MAX_MAX_TOKENS) {
+      settings.maxTokens = input.maxTokens as number;
+    } else {
+      problems.push(`${path}.maxTokens must be a whole number between ${MIN_MAX_TOKENS} and ${MAX_MAX_TOKENS}`);
+    }
+  }
+  if (input.responseLength !== undefined) {
+    if (input.responseLength === "concise" || input.responseLength === "normal" || input.responseLength === "detailed") {
+      settings.responseLength = input.responseLength;
+    } else {
+      problems.push(`${path}.responseLength must be "concise", "normal" or "detailed"`);
+    }
+  }
+  if (input.enableCaching !== undefined) {
+    if (typeof input.enableCaching === "boolean") settings.enableCaching = input.enableCaching;
+    else problems.push(`${path}.enableCaching must be true or false`);
+  }
+
+  if (problems.length > count) return null;
+  return Object.keys(settings).length > 0 ? settings : null;
+}
+
+function validateSkill(input: unknown, path: string, problems: string[]): BundledSkill | null {
+  if (!isRecord(input)) {
+    problems.push(`${path} must be an object`);
+    return null;
+  }
+
+  const before = problems.length;
+  for (const field of ["name", "skillContent"]) {
+    if (typeof input[field] !== "string" || !(input[field] as string).trim()) {
+      problems.push(`${path}.${field} must be a non-empty string`);
+    }
+  }
+
+  const resources = input.resources ?? [];
+  if (
+    !Array.isArray(resources) ||
+    !resources.every(
+      (resource) =>
+        isRecord(resource) &&
+        typeof resource.filename === "string" &&
+        typeof resource.content === "string" &&
+        RESOURCE_TYPES.includes(resource.type as SkillResource["type"])
+    )
+  ) {
+    problems.push(`${path}.resources must be a list of { filename, content, type } files`);
+  }
+  if (problems.length > before) return null;
+
+  const metadata = isRecord(input.metadata) ? input.metadata : {};
+  return {
+    sourceId: typeof input.sourceId === "string" ? input.sourceId : "",
+    name: (input.name as string).trim(),
+    description: typeof input.description === "string" ? input.description : "",
+    version: typeof input.version === "string" ? input.version : "1.0.0",
+    skillContent: input.skillContent as string,
+    resources: resources as SkillResource[],
+    metadata: {
+      dependencies: isStringArray(metadata.dependencies) ? metadata.dependencies : [],
+      tags: isStringArray(metadata.tags) ? metadata.tags : [],
+      author: typeof metadata.author === "string" ? metadata.author : "",
+      category: typeof metadata.category === "string" ? metadata.category : "",
+    },
+  };
+}
+
+/**
+ * Pick a name that none of the existing agents use: "Name", "Name (2)", ...
+ */
+export function resolveAgentName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map((existing) => existing.trim().toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+
+  let suffix = 2;
+  while (taken.has(`${name} (${suffix})`.toLowerCase())) suffix++;
+  return `${name} (${suffix})`;
+}
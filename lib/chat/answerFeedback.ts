@@ -0,0 +1,74 @@
+/**
+ * Answer Feedback
+ * Thumbs up/down (and an optional comment) on assistant replies. Each rating
+ * is saved on the message and in answer_feedback, and the agent's and used
+ * skills' success rates are recalculated as their share of positive ratings.
+ */
+
+import { updateAgentMetrics } from "@/lib/db/agentDb";
+import { getConversation, setMessageFeedback } from "@/lib/db/conversationDb";
+import { getFeedbackStats, saveAnswerFeedback } from "@/lib/db/feedbackDb";
+import { updateSkillSuccessRate } from "@/lib/db/skillDb";
+import { FEEDBACK_DEFAULTS } from "@/lib/constants";
+import type { FeedbackRating, MessageFeedback } from "@/types/conversation";
+import type { FeedbackStats } from "@/types/feedback";
+
+function successRate({ positive, total }: FeedbackStats): number {
+  return total > 0 ? positive / total : 0;
+}
+
+/**
+ * Rate a reply; rating it again replaces the earlier rating
+ * Returns null when the reply is not in the user's conversation.
+ */
+export async function recordAnswerFeedback(
+  userId: string,
+  sessionId: string,
+  messageId: string,
+  rating: FeedbackRating,
+  comment?: string
+): Promise<MessageFeedback | null> {
+  const conversation = await getConversation(sessionId, userId);
+  const index = conversation?.messages.findIndex((message) => message.messageId === messageId) ?? -1;
+  if (!conversation || index === -1) return null;
+
+  const message = conversation.messages[index];
+  const question = conversation.messages
+    .slice(0, index)
+    .reverse()
+    .find((candidate) => candidate.role === "user");
+
+  const feedback: MessageFeedback = {
+    rating,
+    comment: comment?.trim().slice(0, FEEDBACK_DEFAULTS.MAX_COMMENT_LENGTH) || undefined,
+    ratedAt: new Date(),
+  };
+
+  await setMessageFeedback(sessionId, userId, messageId, feedback);
+  await saveAnswerFeedback({
+    userId,
+    sessionId,
+    messageId,
+    agentId: message.agentUsed,
+    agentName: message.agentName,
+    skillIds: message.skillsUsed || [],
+    rating,
+    comment: feedback.comment,
+    question: question?.content || "",
+    answer: message.content.slice(0, FEEDBACK_DEFAULTS.MAX_ANSWER_LENGTH),
+    responseTimeMs: message.responseTimeMs,
+  });
+
+  if (message.agentUsed) {
+    const stats = await getFeedbackStats({ agentId: message.agentUsed });
+    await updateAgentMetrics(message.agentUsed, { successRate: successRate(stats) });
+  }
+
+  for (const skillId of message.skillsUsed || []) {
+    const stats = await getFeedbackStats({ skillId });
+    await updateSkillSuccessRate(skillId, successRate(stats));
+  }
+
+  console.log(`${rating === "up" ? "👍" : "👎"} Feedback on reply ${messageId}${message.agentName ? ` from ${message.agentName}` : ""}`);
+  return feedback;
+}
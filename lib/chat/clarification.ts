@@ -0,0 +1,67 @@
+/**
+ * Clarification dialog
+ * idle -> awaiting reply (matcher needed clarification) -> reply merged into
+ * the original question -> idle. A reply that is neither a quick reply nor
+ * short is treated as a new question and the pending one is dropped.
+ */
+
+import { CLARIFICATION_DEFAULTS } from "@/lib/constants";
+import type { PendingClarification } from "@/types/conversation";
+
+/**
+ * Whether a pending clarification is too old to answer
+ */
+export function isClarificationExpired(pending: PendingClarification, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(pending.askedAt).getTime() > CLARIFICATION_DEFAULTS.EXPIRY_MS;
+}
+
+/**
+ * Whether the message answers the clarifying question rather than asking
+ * something new: one of the offered interpretations, or a short reply
+ */
+export function isClarificationReply(pending: PendingClarification, message: string): boolean {
+  const reply = message.trim().toLowerCase();
+  if (!reply) return false;
+
+  if (pending.interpretations.some((interpretation) => interpretation.trim().toLowerCase() === reply)) {
+    return true;
+  }
+
+  return reply.split(/\s+/).length <= CLARIFICATION_DEFAULTS.MAX_REPLY_WORDS;
+}
+
+/**
+ * The original question with the user's clarification appended
+ */
+export function mergeClarificationReply(pending: PendingClarification, reply: string): string {
+  return `${pending.originalQuestion}\n\nClarification: ${reply.trim()}`;
+}
+
+/**
+ * Pending state for a new clarifying question
+ * Follow-up questions keep counting the rounds of the one being answered.
+ */
+export function createPendingClarification(
+  question: string,
+  clarifyingQuestion: string,
+  interpretations: string[] = [],
+  previous: PendingClarification | null = null
+): PendingClarification {
+  return {
+    originalQuestion: question,
+    question: clarifyingQuestion,
+    interpretations: interpretations
+      .map((interpretation) => interpretation.trim())
+      .filter(Boolean)
+      .slice(0, CLARIFICATION_DEFAULTS.MAX_INTERPRETATIONS),
+    rounds: (previous?.rounds ?? 0) + 1,
+    askedAt: new Date(),
+  };
+}
+
+/**
+ * Whether another clarifying question may be asked
+ */
+export function canAskForClarification(previous: PendingClarification | null): boolean {
+  return (previous?.rounds ?? 0) < CLARIFICATION_DEFAULTS.MAX_ROUNDS;
+}
@@ -0,0 +1,177 @@
+/**
+ * Agent-to-agent delegation
+ * Runs another of the user's agents when the answering agent calls the
+ * consult_agent tool. Each hop is recorded on the turn, billed to the
+ * delegate's agentId, and bounded by DELEGATION_DEFAULTS.MAX_DEPTH. An agent
+ * already in the chain can't be asked again, which prevents loops.
+ */
+
+import { runToolLoopHaiku } from "@/lib/ai/claude";
+import { createChatToolRegistry, createDelegationTool } from "@/lib/ai/tools";
+import type { ChatTool, DelegationRequest } from "@/lib/ai/tools";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { incrementQuestionsHandled } from "@/lib/db/agentDb";
+import { logUsage } from "@/lib/db/usageDb";
+import { recordUsage } from "@/lib/db/usageLimitsDb";
+import { calculateTurnCost } from "@/lib/usage/costCalculator";
+import { DELEGATION_DEFAULTS } from "@/lib/constants";
+import type { UserSettings } from "@/lib/db/settingsDb";
+import type { Agent } from "@/types/agent";
+import type { DelegationHop } from "@/types/conversation";
+import type { UsageLog } from "@/types/usage";
+import { getMentionHandles } from "./mentions";
+import type { ChatContext } from "./pipeline";
+
+export interface DelegationScope {
+  userId: string;
+  userSettings: UserSettings | null;
+  userApiKey?: string;
+  hasCustomKey: boolean;
+  agents: Agent[];
+  chain: Agent[]; // Answering agent first, then each delegate below it
+  hops: DelegationHop[]; // Every hop made during the turn, in call order
+}
+
+/**
+ * Delegation scope for the agent answering a chat turn
+ */
+export function createDelegationScope(ctx: ChatContext, hops: DelegationHop[]): DelegationScope | null {
+  if (!ctx.agentUsed) {
+    return null;
+  }
+
+  return {
+    userId: ctx.userId,
+    userSettings: ctx.userSettings,
+    userApiKey: ctx.userApiKey,
+    hasCustomKey: ctx.hasCustomKey,
+    agents: ctx.agents,
+    chain: [ctx.agentUsed],
+    hops,
+  };
+}
+
+/**
+ * The consult_agent tool for the last agent in the chain, or null when the
+ * depth limit is reached or there is nobody left to ask
+ */
+export function createScopedDelegationTool(scope: DelegationScope): ChatTool | null {
+  if (scope.chain.length > DELEGATION_DEFAULTS.MAX_DEPTH) {
+    return null;
+  }
+
+  const chainIds = new Set(scope.chain.map((agent) => agent._id?.toString()));
+  const candidates = scope.agents.filter((agent) => !chainIds.has(agent._id?.toString()));
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  return createDelegationTool({
+    agents: candidates,
+    delegate: (request) => delegateToAgent(scope, request),
+  });
+}
+
+function findAgentByName(agents: Agent[], name: string): Agent | undefined {
+  const nameLower = name.replace(/^@/, "").toLowerCase();
+  return agents.find((agent) =>
+    getMentionHandles(agent.name).some((handle) => handle.toLowerCase() === nameLower)
+  );
+}
+
+async function delegateToAgent(scope: DelegationScope, request: DelegationRequest): Promise<string> {
+  const caller = scope.chain[scope.chain.length - 1];
+  const target = findAgentByName(scope.agents, request.agentName);
+
+  if (!target) {
+    throw new Error(`No agent named "${request.agentName}". Available: ${scope.agents.map((agent) => agent.name).join(", ")}`);
+  }
+  if (scope.chain.some((agent) => agent._id?.toString() === target._id?.toString())) {
+    throw new Error(`${target.name} is already working on this question - answer it yourself`);
+  }
+
+  const chain = [...scope.chain, target];
+  const depth = chain.length - 1;
+  console.log(`🔀 Delegation (${request.mode}, depth ${depth}): ${caller.name} → ${target.name}`);
+
+  // The delegate gets the same built-in tools and may delegate further within the depth limit
+  const registry = createChatToolRegistry({ braveApiKey: scope.userSettings?.apiKeys?.braveSearch });
+  const nestedTool = createScopedDelegationTool({ ...scope, chain });
+  if (nestedTool) {
+    registry.register(nestedTool);
+  }
+
+  const model = resolveModelSelection(scope.userSettings, target);
+  const hop: DelegationHop = {
+    fromAgentId: caller._id!.toString(),
+    fromAgentName: caller.name,
+    toAgentId: target._id!.toString(),
+    toAgentName: target.name,
+    mode: request.mode,
+    question: request.question,
+    depth,
+    cost: 0,
+    success: false,
+  };
+  scope.hops.push(hop);
+
+  const result = await runToolLoopHaiku(request.question, {
+    systemPrompt: `${target.systemPrompt}
+
+=== DELEGATION ===
+${caller.name} is asking for your help with part of a user's question. Answer only what was asked, in plain conversational text with no markdown, in a few sentences. Your answer goes back to ${caller.name}, not directly to the user.`,
+    temperature: target.generationSettings?.temperature ?? 0.3,
+    maxTokens: DELEGATION_DEFAULTS.MAX_TOKENS,
+    tier: target.generationSettings?.modelTier,
+    apiKey: scope.userApiKey,
+    model,
+    registry,
+    maxIterations: DELEGATION_DEFAULTS.MAX_ITERATIONS,
+  });
+
+  // Bill the delegate's tokens to the delegate
+  const provider = result.provider || model.provider;
+  const searchCalls = result.toolNames.filter((name) => name === "web_search").length;
+  const { cost, service, pricingVersion } = calculateTurnCost(provider, result.model, result.usage, searchCalls);
+
+  await logUsage({
+    userId: scope.userId,
+    timestamp: new Date(),
+    service: service as UsageLog["service"],
+    endpoint: "/api/chat",
+    requestType: "chat",
+    tokens: {
+      input: result.usage.inputTokens,
+      output: result.usage.outputTokens,
+      cached: result.usage.cachedTokens,
+      cacheWrite: result.usage.cacheWriteTokens || 0,
+    },
+    characters: 0,
+    searchCalls,
+    cost,
+    pricingVersion,
+    success: true,
+    metadata: {
+      model: result.model,
+      provider,
+      agentId: hop.toAgentId,
+      cachingEnabled: false,
+      maxTokens: DELEGATION_DEFAULTS.MAX_TOKENS,
+      delegatedBy: hop.fromAgentId,
+      delegationChain: chain.map((agent) => agent._id!.toString()),
+    },
+  });
+
+  if (!scope.hasCustomKey) {
+    await recordUsage(scope.userId, result.usage.inputTokens + result.usage.outputTokens, cost);
+  }
+  await incrementQuestionsHandled(hop.toAgentId);
+
+  hop.model = result.model;
+  hop.cost = cost;
+  hop.success = true;
+
+  return request.mode === "handoff"
+    ? `${target.name} answered this part for the user. Present it as ${target.name}'s answer:\n${result.content}`
+    : `${target.name} says:\n${result.content}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Default chat pipeline used by /api/chat
+ * Register extra stages here with insertBefore/insertAfter rather than
+ * editing the route handler.
+ */
+
+import { ChatPipeline, ChatStage } from "./pipeline";
+import { authStage } from "./stages/auth";
+import { parseRequestStage } from "./stages/parseRequest";
+import { typoCorrectionStage } from "./stages/typoCorrection";
+import { userSettingsStage } from "./stages/userSettings";
+import { trialLimitsStage } from "./stages/trialLimits";
+import { budgetStage } from "./stages/budget";
+import { rateLimitStage } from "./stages/rateLimit";
+import { loadAgentsStage } from "./stages/loadAgents";
+import { clarificationStage } from "./stages/clarification";
+import { agentAddressingStage } from "./stages/agentAddressing";
+import { intentStage } from "./stages/intent";
+import { skillRequestStage } from "./stages/skillRequest";
+import { agentMatchingStage } from "./stages/agentMatching";
+import { recommendationsStage } from "./stages/recommendations";
+import { skillMatchingStage } from "./stages/skillMatching";
+import { modelSelectionStage } from "./stages/modelSelection";
+import { generationSettingsStage } from "./stages/generationSettings";
+import { modelRoutingStage } from "./stages/modelRouting";
+import { toolsStage } from "./stages/tools";
+import { webSearchStage } from "./stages/webSearch";
+import { systemPromptStage } from "./stages/systemPrompt";
+import { historyStage } from "./stages/history";
+import { panelStage } from "./stages/panel";
+import { respondStage } from "./stages/respond";
+
+export { ChatPipeline, createChatContext } from "./pipeline";
+export type { ChatContext, ChatGenerationSettings, ChatRoutingInfo, ChatStage, StageResult } from "./pipeline";
+
+export const DEFAULT_CHAT_STAGES: ChatStage[] = [
+  authStage,
+  parseRequestStage,
+  typoCorrectionStage,
+  userSettingsStage,
+  trialLimitsStage,
+  budgetStage,
+  rateLimitStage,
+  loadAgentsStage,
+  clarificationStage,
+  agentAddressingStage,
+  intentStage,
+  skillRequestStage,
+  agentMatchingStage,
+  recommendationsStage,
+  skillMatchingStage,
+  modelSelectionStage,
+  generationSettingsStage,
+  toolsStage,
+  webSearchStage,
+  systemPromptStage,
+  historyStage,
+  modelRoutingStage,
+  panelStage,
+  respondStage,
+];
+
+/**
+ * Build a fresh pipeline with the default stages
+ */
+export function createDefaultChatPipeline(): ChatPipeline {
+  return new ChatPipeline(DEFAULT_CHAT_STAGES);
+}
+
+export const chatPipeline = createDefaultChatPipeline();
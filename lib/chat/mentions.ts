@@ -0,0 +1,107 @@
+/**
+ * Agent @mentions
+ * Parses "@Agent Name" in chat messages and drives the mention autocomplete.
+ * Safe to import from both route handlers and client components.
+ */
+
+export interface MentionableAgent {
+  name: string;
+}
+
+export interface AgentMention<T extends MentionableAgent> {
+  agent: T;
+  start: number; // Index of the "@"
+  end: number; // Index after the mentioned name
+}
+
+export interface MentionQuery {
+  query: string; // Text typed after the "@"
+  start: number; // Index of the "@"
+}
+
+/**
+ * Names an agent can be addressed by: its full name and, for names like
+ * "Dr. Storm - Meteorologist", the part before the dash
+ */
+export function getMentionHandles(name: string): string[] {
+  const handles = [name.trim()];
+  const shortName = name.split(" - ")[0].trim();
+  if (shortName && shortName !== handles[0]) {
+    handles.push(shortName);
+  }
+  return handles;
+}
+
+function isMentionStart(text: string, index: number): boolean {
+  return text[index] === "@" && (index === 0 || /\s/.test(text[index - 1]));
+}
+
+/**
+ * Find the first @mention of a known agent (longest matching name wins)
+ */
+export function findAgentMention<T extends MentionableAgent>(
+  message: string,
+  agents: T[]
+): AgentMention<T> | null {
+  const lower = message.toLowerCase();
+
+  for (let i = 0; i < message.length; i++) {
+    if (!isMentionStart(message, i)) continue;
+
+    let best: AgentMention<T> | null = null;
+    for (const agent of agents) {
+      for (const handle of getMentionHandles(agent.name)) {
+        const end = i + 1 + handle.length;
+        const boundary = lower[end];
+        const matches =
+          lower.startsWith(handle.toLowerCase(), i + 1) &&
+          (boundary === undefined || !/[a-z0-9]/.test(boundary));
+
+        if (matches && (!best || end > best.end)) {
+          best = { agent, start: i, end };
+        }
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return null;
+}
+
+/**
+ * Remove a mention from the message, leaving the question itself
+ */
+export function stripAgentMention<T extends MentionableAgent>(message: string, mention: AgentMention<T>): string {
+  return `${message.slice(0, mention.start)} ${message.slice(mention.end).replace(/^[,:]/, "")}`
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Get the mention being typed at the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const beforeCaret = text.slice(0, caret);
+  const start = beforeCaret.lastIndexOf("@");
+
+  if (start === -1 || !isMentionStart(text, start)) return null;
+
+  const query = beforeCaret.slice(start + 1);
+  // Names can contain spaces, but a line break or a long run of text ends the mention
+  if (query.includes("\n") || query.length > 40) return null;
+
+  return { query, start };
+}
+
+/**
+ * Agents matching a partial mention, prefix matches first
+ */
+export function filterMentionableAgents<T extends MentionableAgent>(agents: T[], query: string): T[] {
+  const queryLower = query.toLowerCase();
+  const prefix = agents.filter((agent) => agent.name.toLowerCase().startsWith(queryLower));
+  const contains = agents.filter(
+    (agent) => !prefix.includes(agent) && agent.name.toLowerCase().includes(queryLower)
+  );
+  return [...prefix, ...contains];
+}
@@ -0,0 +1,93 @@
+/**
+ * Panel Mode
+ * Several agents answer a multi-domain question side by side, then an
+ * optional moderator pass merges their answers into one consensus.
+ */
+
+import type { Agent } from "@/types/agent";
+import { modelSelectionStage } from "./stages/modelSelection";
+import { generationSettingsStage } from "./stages/generationSettings";
+import { toolsStage } from "./stages/tools";
+import { skillMatchingStage } from "./stages/skillMatching";
+import { webSearchStage } from "./stages/webSearch";
+import { systemPromptStage } from "./stages/systemPrompt";
+import { modelRoutingStage } from "./stages/modelRouting";
+import type { ChatContext, ChatStage } from "./pipeline";
+
+/**
+ * Agent-specific stages re-run for every panelist after the first
+ */
+export const PANELIST_STAGES: ChatStage[] = [
+  modelSelectionStage,
+  generationSettingsStage,
+  toolsStage,
+  skillMatchingStage,
+  webSearchStage,
+  systemPromptStage,
+  modelRoutingStage,
+];
+
+export interface PanelAnswer {
+  agent: Agent;
+  content: string;
+}
+
+/**
+ * Build the context one panelist answers with (own model, skills, prompt)
+ */
+export async function preparePanelist(ctx: ChatContext, agent: Agent): Promise<ChatContext> {
+  let panelist: ChatContext = {
+    ...ctx,
+    agentUsed: agent,
+    matchedSkills: [],
+    webContext: "",
+    searchCalls: 0,
+    responseLength: ctx.userSettings?.ai?.responseLength ?? "concise",
+  };
+
+  for (const stage of PANELIST_STAGES) {
+    const result = await stage.run(panelist);
+    if (result instanceof Response) {
+      throw new Error(`Panel stage ended the request early: ${stage.name}`);
+    }
+    panelist = result;
+  }
+
+  return panelist;
+}
+
+/**
+ * Prepare every panelist - the lead agent reuses the context already built
+ */
+export async function preparePanel(ctx: ChatContext): Promise<ChatContext[]> {
+  const [lead, ...others] = ctx.panelAgents;
+  const prepared = await Promise.all(others.map((agent) => preparePanelist(ctx, agent)));
+  return [{ ...ctx, agentUsed: lead }, ...prepared];
+}
+
+export function buildModeratorSystemPrompt(): string {
+  return `You are the moderator of a panel of expert agents. Several experts answered the same question from their own field.
+
+Your job:
+- Combine their answers into one consensus answer to the user's question
+- Keep the points the experts agree on and the important details only one of them raised
+- Where they disagree, say so briefly and explain which view is better supported
+- Do not invent facts the experts did not give
+- Refer to experts by name only when it helps
+
+Your response will be READ ALOUD by voice synthesis: use plain conversational text with NO markdown, bullet points, headers or tables. Keep it to one short paragraph unless the question needs more.`;
+}
+
+export function buildModeratorMessage(question: string, answers: PanelAnswer[]): string {
+  const answerBlocks = answers
+    .map((answer) => `--- ${answer.agent.name} (${answer.agent.description}) ---\n${answer.content}`)
+    .join("\n\n");
+
+  return `Question: "${question}"
+
+Panel answers:
+
+${answerBlocks}
+
+Write the consensus answer.`;
+}
@@ -0,0 +1,222 @@
+/**
+ * Usage logging and conversation persistence for completed chat turns
+ */
+
+import { ObjectId } from "mongodb";
+import { incrementQuestionsHandled, updateAgentMetrics } from "@/lib/db/agentDb";
+import { createConversation, addMessage } from "@/lib/db/conversationDb";
+import { incrementSkillUsage } from "@/lib/db/skillDb";
+import { logUsage } from "@/lib/db/usageDb";
+import { recordUsage } from "@/lib/db/usageLimitsDb";
+import { calculateTurnCost } from "@/lib/usage/costCalculator";
+import type { Agent } from "@/types/agent";
+import type { DelegationHop, PanelRole } from "@/types/conversation";
+import type { UsageLog } from "@/types/usage";
+import type { ChatContext } from "./pipeline";
+
+export interface TurnUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  cacheWriteTokens?: number;
+}
+
+export interface TurnModel {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Milliseconds from the request arriving until now
+ */
+export function getResponseTime(ctx: ChatContext): number {
+  return Date.now() - ctx.startedAt;
+}
+
+/**
+ * Count the answer and fold its latency into the agent's and matched skills'
+ * average response times
+ */
+async function recordAgentResponse(ctx: ChatContext, responseTimeMs: number): Promise<void> {
+  const { agentUsed } = ctx;
+  if (!agentUsed) return;
+
+  const agentId = agentUsed._id!.toString();
+  const { questionsHandled = 0, avgResponseTime = 0 } = agentUsed.performanceMetrics || {};
+
+  await incrementQuestionsHandled(agentId);
+  await updateAgentMetrics(agentId, {
+    avgResponseTime: (avgResponseTime * questionsHandled + responseTimeMs) / (questionsHandled + 1),
+  });
+
+  for (const { skill } of ctx.matchedSkills) {
+    if (skill._id) {
+      await incrementSkillUsage(skill._id.toString(), responseTimeMs);
+    }
+  }
+}
+
+/**
+ * Update agent and skill metrics, log usage and record trial consumption
+ * Returns the cost of the turn
+ */
+export async function recordChatUsage(
+  ctx: ChatContext,
+  usage: TurnUsage,
+  turnModel: TurnModel,
+  toolNames: string[] = [],
+  responseTimeMs: number = getResponseTime(ctx)
+): Promise<number> {
+  const { agentUsed, userId } = ctx;
+
+  await recordAgentResponse(ctx, responseTimeMs);
+
+  // Searches made before the model call plus any the model made itself
+  const searchCalls = ctx.searchCalls + toolNames.filter((name) => name === "web_search").length;
+
+  // Price by provider + model (see lib/usage/pricing.ts)
+  const { cost, service, pricingVersion } = calculateTurnCost(
+    turnModel.provider,
+    turnModel.model,
+    usage,
+    searchCalls
+  );
+
+  await logUsage({
+    userId,
+    timestamp: new Date(),
+    service: service as UsageLog["service"],
+    endpoint: "/api/chat",
+    requestType: "chat",
+    tokens: {
+      input: usage.inputTokens,
+      output: usage.outputTokens,
+      cached: usage.cachedTokens,
+      cacheWrite: usage.cacheWriteTokens || 0,
+    },
+    characters: 0,
+    searchCalls,
+    cost,
+    pricingVersion,
+    success: true,
+    metadata: {
+      model: turnModel.model,
+      provider: turnModel.provider,
+      agentId: agentUsed?._id?.toString(),
+      cachingEnabled: ctx.generation.enableCaching,
+      modelTier: ctx.generation.modelTier,
+      temperature: ctx.generation.temperature ?? ctx.temperature,
+      maxTokens: ctx.generation.maxTokens,
+      responseLength: ctx.responseLength,
+      escalated: ctx.routing?.escalated,
+      routingReasons: ctx.routing?.reasons,
+      responseTimeMs,
+    },
+  });
+
+  // Record usage for trial users (those without custom API keys)
+  if (!ctx.hasCustomKey) {
+    await recordUsage(userId, usage.inputTokens + usage.outputTokens, cost);
+  }
+
+  return cost;
+}
+
+export interface AssistantReply {
+  agent: Agent | null;
+  content: string;
+  model?: string;
+  panelRole?: PanelRole;
+  delegations?: DelegationHop[];
+  quickReplies?: string[];
+  skillsUsed?: string[];
+  responseTimeMs?: number;
+}
+
+export interface SavedExchange {
+  sessionId: string; // A new one is created when none was sent
+  messageIds: string[]; // One per reply, in order
+}
+
+/**
+ * Skill IDs matched into the prompt for this turn
+ */
+export function getSkillsUsed(ctx: ChatContext): string[] {
+  return ctx.matchedSkills.flatMap(({ skill }) => (skill._id ? [skill._id.toString()] : []));
+}
+
+/**
+ * Save the user message and assistant reply to conversation history
+ */
+export async function saveExchange(
+  ctx: ChatContext,
+  reply: string,
+  model?: string,
+  responseTimeMs?: number
+): Promise<SavedExchange> {
+  return saveReplies(ctx, [{
+    agent: ctx.agentUsed,
+    content: reply,
+    model,
+    delegations: ctx.delegations,
+    skillsUsed: getSkillsUsed(ctx),
+    responseTimeMs,
+  }]);
+}
+
+/**
+ * Save the user message and the clarifying question asked back
+ */
+export async function saveClarificationExchange(ctx: ChatContext, question: string, quickReplies: string[]): Promise<SavedExchange> {
+  return saveReplies(ctx, [{ agent: null, content: question, quickReplies }]);
+}
+
+/**
+ * Save a panel turn - one assistant message per panelist, then the moderator's
+ */
+export async function savePanelExchange(ctx: ChatContext, replies: AssistantReply[]): Promise<SavedExchange> {
+  return saveReplies(ctx, replies);
+}
+
+async function saveReplies(ctx: ChatContext, replies: AssistantReply[]): Promise<SavedExchange> {
+  const { agentUsed, userId, conversationId } = ctx;
+  const sessionId = conversationId || `session_${Date.now()}_${userId}`;
+
+  if (!conversationId) {
+    await createConversation(sessionId, userId, userId);
+  }
+
+  await addMessage(sessionId, userId, {
+    role: "user",
+    content: ctx.message,
+    agentUsed: agentUsed?._id?.toString() || null,
+    agentName: agentUsed?.name || undefined,
+    timestamp: new Date(),
+    voiceEnabled: ctx.voiceEnabled || false,
+  });
+
+  const messageIds: string[] = [];
+  for (const reply of replies) {
+    const messageId = new ObjectId().toString();
+    messageIds.push(messageId);
+
+    await addMessage(sessionId, userId, {
+      messageId,
+      role: "assistant",
+      content: reply.content,
+      agentUsed: reply.agent?._id?.toString() || null,
+      agentName: reply.agent?.name || undefined,
+      model: reply.model,
+      panelRole: reply.panelRole,
+      delegations: reply.delegations?.length ? reply.delegations : undefined,
+      routingDecisionId: ctx.routingDecisionId,
+      quickReplies: reply.quickReplies?.length ? reply.quickReplies : undefined,
+      skillsUsed: reply.skillsUsed?.length ? reply.skillsUsed : undefined,
+      responseTimeMs: reply.responseTimeMs,
+      timestamp: new Date(),
+      voiceEnabled: ctx.voiceEnabled || false,
+    });
+  }
+
+  return { sessionId, messageIds };
+}
@@ -0,0 +1,248 @@
+/**
+ * Chat Pipeline
+ * Runs a chat request through an ordered list of stages. Each stage receives
+ * the current context and returns either an updated context or a Response
+ * that ends the request early.
+ */
+
+import { NextRequest } from "next/server";
+import type { Agent } from "@/types/agent";
+import type { DelegationHop, PendingClarification } from "@/types/conversation";
+import type { ChatIntent } from "@/types/intent";
+import type { SkillMatchResult } from "@/types/skill";
+import type { UserSettings } from "@/lib/db/settingsDb";
+import type { AgentMatchOutcome } from "@/lib/ai/agentMatcher";
+import type { ToolRegistry } from "@/lib/ai/tools/registry";
+import type { ModelRoutingDecision } from "@/lib/ai/modelRouter";
+import type { ModelProviderId, ModelSelection, ModelTier } from "@/types/model";
+import type { BudgetStatus } from "@/lib/usage/budget";
+import { GENERATION_DEFAULTS } from "@/lib/constants";
+
+export type ChatMatchResult = AgentMatchOutcome;
+
+export interface ImageAttachment {
+  name: string;
+  base64: string;
+  mediaType: string;
+}
+
+export interface HistoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatGenerationSettings {
+  modelTier: ModelTier;
+  temperature?: number; // Agent override; unset uses the user's temperature
+  maxTokens: number;
+  enableCaching: boolean;
+}
+
+export interface ChatRoutingInfo extends ModelRoutingDecision {
+  model: string;
+  provider: ModelProviderId;
+}
+
+export interface ChatContext {
+  request: NextRequest;
+  startedAt: number; // Request arrival (ms) - reply latency is measured from here
+  userId: string;
+  isDevelopment: boolean;
+  responseHeaders: Record<string, string>; // Added to whichever response ends the pipeline
+
+  // Request payload
+  message: string;
+  correctedMessage: string;
+  conversationId?: string;
+  voiceEnabled: boolean;
+  stream: boolean;
+  skipAgentMatching: boolean;
+  panelRequested: boolean; // Ask several agents to answer
+  uploadedFiles: File[];
+  imageFiles: ImageAttachment[];
+  fileContext: string;
+
+  // User configuration
+  userApiKey?: string;
+  hasCustomKey: boolean;
+  userSettings: UserSettings | null;
+  temperature: number;
+  responseLength: "concise" | "normal" | "detailed";
+  budget: BudgetStatus | null;
+
+  // Routing
+  agents: Agent[];
+  addressedAgent: Agent | null; // Chosen by the user with @mention or a pin
+  addressedBy: "mention" | "pinned" | null;
+  clarification: PendingClarification | null; // Answered this turn; correctedMessage includes the reply
+  intent: ChatIntent | null; // Intents and slots of the corrected message
+  matchResult: ChatMatchResult | null;
+  routingDecisionId?: string; // routing_decisions record for this turn
+  agentUsed: Agent | null;
+  panelAgents: Agent[]; // Panel mode: every answering agent, best match first
+  matchedSkills: SkillMatchResult[];
+  tools: ToolRegistry | null;
+  delegations: DelegationHop[]; // Filled in by the consult_agent tool while answering
+  model: ModelSelection;
+  generation: ChatGenerationSettings;
+  routing: ChatRoutingInfo | null;
+
+  // Prompt assembly
+  webContext: string;
+  searchCalls: number; // Billable web searches made while building the prompt
+  systemPrompt: string;
+  conversationHistory: HistoryMessage[];
+}
+
+export type StageResult = ChatContext | Response;
+
+export interface ChatStage {
+  name: string;
+  run(ctx: ChatContext): Promise<StageResult>;
+}
+
+/**
+ * Create an empty context for an incoming request
+ */
+export function createChatContext(request: NextRequest): ChatContext {
+  return {
+    request,
+    startedAt: Date.now(),
+    userId: "",
+    isDevelopment: false,
+    responseHeaders: {},
+    message: "",
+    correctedMessage: "",
+    conversationId: undefined,
+    voiceEnabled: false,
+    stream: false,
+    skipAgentMatching: false,
+    panelRequested: false,
+    uploadedFiles: [],
+    imageFiles: [],
+    fileContext: "",
+    userApiKey: undefined,
+    hasCustomKey: false,
+    userSettings: null,
+    temperature: 0.3,
+    responseLength: "concise",
+    budget: null,
+    agents: [],
+    addressedAgent: null,
+    addressedBy: null,
+    clarification: null,
+    intent: null,
+    matchResult: null,
+    routingDecisionId: undefined,
+    agentUsed: null,
+    panelAgents: [],
+    matchedSkills: [],
+    tools: null,
+    delegations: [],
+    model: { provider: "anthropic" },
+    generation: {
+      modelTier: "fast",
+      maxTokens: GENERATION_DEFAULTS.MAX_TOKENS,
+      enableCaching: false,
+    },
+    routing: null,
+    webContext: "",
+    searchCalls: 0,
+    systemPrompt: "",
+    conversationHistory: [],
+  };
+}
+
+export class ChatPipeline {
+  private stages: ChatStage[] = [];
+
+  constructor(stages: ChatStage[] = []) {
+    stages.forEach((stage) => this.use(stage));
+  }
+
+  /**
+   * Append a stage to the end of the pipeline
+   */
+  use(stage: ChatStage): this {
+    this.assertUnique(stage.name);
+    this.stages.push(stage);
+    return this;
+  }
+
+  /**
+   * Insert a stage directly before an existing one
+   */
+  insertBefore(existing: string, stage: ChatStage): this {
+    this.assertUnique(stage.name);
+    this.stages.splice(this.indexOf(existing), 0, stage);
+    return this;
+  }
+
+  /**
+   * Insert a stage directly after an existing one
+   */
+  insertAfter(existing: string, stage: ChatStage): this {
+    this.assertUnique(stage.name);
+    this.stages.splice(this.indexOf(existing) + 1, 0, stage);
+    return this;
+  }
+
+  /**
+   * Swap an existing stage for a new implementation
+   */
+  replace(existing: string, stage: ChatStage): this {
+    const index = this.indexOf(existing);
+    if (stage.name !== existing) {
+      this.assertUnique(stage.name);
+    }
+    this.stages[index] = stage;
+    return this;
+  }
+
+  /**
+   * Remove a stage by name
+   */
+  remove(name: string): this {
+    this.stages.splice(this.indexOf(name), 1);
+    return this;
+  }
+
+  /**
+   * Get stage names in execution order
+   */
+  getStageNames(): string[] {
+    return this.stages.map((stage) => stage.name);
+  }
+
+  /**
+   * Run every stage in order until one returns a Response
+   */
+  async run(initial: ChatContext): Promise<Response> {
+    let ctx = initial;
+
+    for (const stage of this.stages) {
+      const result = await stage.run(ctx);
+      if (result instanceof Response) {
+        Object.entries(ctx.responseHeaders).forEach(([name, value]) => result.headers.set(name, value));
+        return result;
+      }
+      ctx = result;
+    }
+
+    throw new Error("Chat pipeline finished without producing a response");
+  }
+
+  private indexOf(name: string): number {
+    const index = this.stages.findIndex((stage) => stage.name === name);
+    if (index === -1) {
+      throw new Error(`Chat stage not found: ${name}`);
+    }
+    return index;
+  }
+
+  private assertUnique(name: string): void {
+    if (this.stages.some((stage) => stage.name === name)) {
+      throw new Error(`Chat stage already registered: ${name}`);
+    }
+  }
+}
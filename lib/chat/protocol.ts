@@ -0,0 +1,124 @@
+/**
+ * Chat Stream Protocol
+ * Shared encoder/decoder for /api/chat server-sent events.
+ * Safe to import from both route handlers and client components.
+ */
+
+import {
+  CHAT_STREAM_PROTOCOL_VERSION,
+  ChatStreamEvent,
+  ChatStreamEventType,
+  ChatStreamPayload,
+} from "@/types/chatStream";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
+
+// Keyed by every ChatStreamPayload type, so a new event type fails to compile until it is listed
+const KNOWN_EVENT_TYPES: Record<ChatStreamEventType, true> = {
+  content: true,
+  agent_used: true,
+  agent_created: true,
+  model_selected: true,
+  agent_suggestion: true,
+  skill_suggestion: true,
+  clarification: true,
+  waiting_for_decision: true,
+  tool_call: true,
+  tool_result: true,
+  section_start: true,
+  section_end: true,
+  budget_alert: true,
+  usage: true,
+  done: true,
+  error: true,
+};
+
+const EVENT_TYPES = Object.keys(KNOWN_EVENT_TYPES) as ChatStreamEventType[];
+
+/**
+ * Check whether an event ends the stream
+ */
+export function isTerminalEvent(event: ChatStreamPayload): boolean {
+  return event.type === "done" || event.type === "error";
+}
+
+/**
+ * Create an encoder that numbers events sequentially for one stream
+ */
+export function createChatStreamEncoder() {
+  const textEncoder = new TextEncoder();
+  let nextId = 1;
+
+  return {
+    encode(payload: ChatStreamPayload): Uint8Array {
+      const id = nextId++;
+      const event = { ...payload, v: CHAT_STREAM_PROTOCOL_VERSION, id } as ChatStreamEvent;
+      return textEncoder.encode(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`);
+    },
+  };
+}
+
+/**
+ * Parse one SSE block into an event, or null if it is not a valid event
+ */
+export function parseChatStreamBlock(block: string): ChatStreamEvent | null {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+
+  if (!data) {
+    return null;
+  }
+
+  try {
+    const event = JSON.parse(data);
+
+    if (!event || !EVENT_TYPES.includes(event.type)) {
+      console.warn("Ignoring unknown chat stream event:", event?.type);
+      return null;
+    }
+
+    if (event.v !== CHAT_STREAM_PROTOCOL_VERSION) {
+      console.warn(`Chat stream protocol mismatch: expected v${CHAT_STREAM_PROTOCOL_VERSION}, got v${event.v}`);
+    }
+
+    return event as ChatStreamEvent;
+  } catch (error) {
+    console.error("Error parsing SSE data:", error);
+    return null;
+  }
+}
+
+/**
+ * Create a decoder that buffers partial chunks and yields complete events
+ */
+export function createChatStreamDecoder() {
+  const textDecoder = new TextDecoder();
+  let buffer = "";
+
+  return {
+    push(chunk: Uint8Array): ChatStreamEvent[] {
+      buffer += textDecoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop() || "";
+
+      return blocks
+        .map(parseChatStreamBlock)
+        .filter((event): event is ChatStreamEvent => event !== null);
+    },
+
+    flush(): ChatStreamEvent[] {
+      const rest = buffer + textDecoder.decode();
+      buffer = "";
+      const event = parseChatStreamBlock(rest);
+      return event ? [event] : [];
+    },
+  };
+}
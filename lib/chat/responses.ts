@@ -0,0 +1,105 @@
+/**
+ * Shared response helpers for chat pipeline stages
+ */
+
+import { NextResponse } from "next/server";
+import { createChatStreamEncoder, SSE_HEADERS } from "./protocol";
+import type { ChatStreamPayload, ClarificationRequest, DoneEvent, SuggestedAgent, SuggestedSkill } from "@/types/chatStream";
+
+/**
+ * Build a stream that emits a fixed list of events followed by `done`
+ */
+export function eventStreamResponse(events: ChatStreamPayload[], done: Omit<DoneEvent, "type"> = {}): Response {
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        const encoder = createChatStreamEncoder();
+        events.forEach((event) => controller.enqueue(encoder.encode(event)));
+        controller.enqueue(encoder.encode({ type: "done", ...done }));
+        controller.close();
+      },
+    }),
+    { headers: SSE_HEADERS }
+  );
+}
+
+/**
+ * Stop the request and ask the user to decide on a suggested agent
+ */
+export function agentSuggestionResponse(stream: boolean, suggestion: SuggestedAgent): Response {
+  if (stream) {
+    return eventStreamResponse([
+      { type: "agent_suggestion", suggestion },
+      { type: "waiting_for_decision", message: "Please decide whether to create the suggested agent." },
+    ]);
+  }
+
+  return NextResponse.json({
+    response: "",
+    agentSuggestion: suggestion,
+    waitingForDecision: true,
+  });
+}
+
+/**
+ * Stop the request and ask the user to decide on a suggested skill
+ */
+export function skillSuggestionResponse(stream: boolean, suggestion: SuggestedSkill): Response {
+  if (stream) {
+    return eventStreamResponse([
+      { type: "skill_suggestion", suggestion },
+      { type: "waiting_for_decision", message: "Please decide whether to add the suggested skill." },
+    ]);
+  }
+
+  return NextResponse.json({
+    response: "",
+    skillSuggestion: suggestion,
+    waitingForDecision: true,
+  });
+}
+
+/**
+ * Ask the user a clarifying question (with quick replies) instead of answering
+ */
+export function clarificationResponse(
+  stream: boolean,
+  clarification: ClarificationRequest,
+  sessionId: string
+): Response {
+  if (stream) {
+    return eventStreamResponse(
+      [
+        { type: "content", text: clarification.question },
+        { type: "clarification", clarification },
+      ],
+      { sessionId }
+    );
+  }
+
+  return NextResponse.json({
+    response: clarification.question,
+    agentUsed: null,
+    agentCreated: false,
+    suggestedAgent: null,
+    suggestedSkill: null,
+    clarification,
+    sessionId,
+  });
+}
+
+/**
+ * Strip any markdown that slipped through (safety net for voice output)
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/\*\*/g, '')  // Remove bold
+    .replace(/\*/g, '')    // Remove italic
+    .replace(/#{1,6}\s?/g, '') // Remove headers
+    .replace(/^-{3,}$/gm, '')  // Remove horizontal rules (---)
+    .replace(/^={3,}$/gm, '')  // Remove horizontal rules (===)
+    .replace(/^\|\s*.+\s*\|$/gm, '') // Remove table rows
+    .replace(/^-\s/gm, '')    // Remove bullet points at start of line
+    .replace(/`{1,3}/g, '')   // Remove code blocks
+    .replace(/\[([^\]]+)\]\([^\)]+\)/g, '$1'); // Convert links to text
+}
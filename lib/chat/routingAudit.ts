@@ -0,0 +1,75 @@
+/**
+ * Routing audit
+ * Persists each agent-matching decision to routing_decisions so users can see
+ * why an agent answered. Failures are logged and never block the chat.
+ */
+
+import { createRoutingDecision, setRoutingSkills, setRoutingSuggestion } from "@/lib/db/routingDb";
+import type { SkillMatchResult } from "@/types/skill";
+import type { RoutingMethod, RoutingSuggestion } from "@/types/routing";
+import type { ChatContext, ChatMatchResult } from "./pipeline";
+
+function routingMethod(ctx: ChatContext, matchResult: ChatMatchResult): RoutingMethod {
+  if (ctx.skipAgentMatching) return "skipped";
+  if (ctx.addressedBy) return ctx.addressedBy;
+  return matchResult.method ?? "none";
+}
+
+/**
+ * Record the decision made by the agent-matching stage
+ */
+export async function recordRoutingDecision(
+  ctx: ChatContext,
+  matchResult: ChatMatchResult,
+  panelAgentIds: string[]
+): Promise<string | undefined> {
+  try {
+    return await createRoutingDecision({
+      userId: ctx.userId,
+      conversationId: ctx.conversationId,
+      message: ctx.correctedMessage,
+      method: routingMethod(ctx, matchResult),
+      candidates: (matchResult.candidates || []).map((candidate) => ({
+        agentId: candidate.agent._id!.toString(),
+        agentName: candidate.agent.name,
+        score: candidate.score,
+      })),
+      chosenAgentId: matchResult.matchedAgent?._id?.toString() || null,
+      chosenAgentName: matchResult.matchedAgent?.name,
+      confidence: matchResult.confidence,
+      reasoning: matchResult.reasoning,
+      panelAgentIds: panelAgentIds.length > 0 ? panelAgentIds : undefined,
+      matchedSkills: [],
+    });
+  } catch (error) {
+    console.error("Error recording routing decision:", error);
+    return undefined;
+  }
+}
+
+export async function recordRoutingSkills(ctx: ChatContext, matchedSkills: SkillMatchResult[]): Promise<void> {
+  if (!ctx.routingDecisionId || matchedSkills.length === 0) return;
+
+  try {
+    await setRoutingSkills(
+      ctx.routingDecisionId,
+      matchedSkills.map((match) => ({
+        skillId: match.skill._id!.toString(),
+        name: match.skill.name,
+        relevanceScore: match.relevanceScore,
+      }))
+    );
+  } catch (error) {
+    console.error("Error recording routing skills:", error);
+  }
+}
+
+export async function recordRoutingSuggestion(ctx: ChatContext, suggestion: RoutingSuggestion): Promise<void> {
+  if (!ctx.routingDecisionId) return;
+
+  try {
+    await setRoutingSuggestion(ctx.routingDecisionId, suggestion);
+  } catch (error) {
+    console.error("Error recording routing suggestion:", error);
+  }
+}
@@ -0,0 +1,47 @@
+import { getConversation } from "@/lib/db/conversationDb";
+import { findAgentMention, stripAgentMention } from "../mentions";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Honour an agent the user chose themselves: an @mention in the message wins,
+ * otherwise the agent pinned to the conversation answers
+ */
+export const agentAddressingStage: ChatStage = {
+  name: "agent-addressing",
+  async run(ctx) {
+    if (ctx.agents.length === 0) {
+      return ctx;
+    }
+
+    const mention = findAgentMention(ctx.correctedMessage, ctx.agents);
+    if (mention) {
+      console.log(`📣 Agent addressed with @mention: ${mention.agent.name}`);
+      return {
+        ...ctx,
+        addressedAgent: mention.agent,
+        addressedBy: "mention",
+        correctedMessage: stripAgentMention(ctx.correctedMessage, mention) || ctx.correctedMessage,
+      };
+    }
+
+    if (!ctx.conversationId) {
+      return ctx;
+    }
+
+    try {
+      const conversation = await getConversation(ctx.conversationId, ctx.userId);
+      const pinnedAgent = conversation?.pinnedAgentId
+        ? ctx.agents.find((agent) => agent._id?.toString() === conversation.pinnedAgentId)
+        : undefined;
+
+      if (pinnedAgent) {
+        console.log(`📌 Using pinned agent: ${pinnedAgent.name}`);
+        return { ...ctx, addressedAgent: pinnedAgent, addressedBy: "pinned" };
+      }
+    } catch (error) {
+      console.error("Error loading pinned agent:", error);
+    }
+
+    return ctx;
+  },
+};
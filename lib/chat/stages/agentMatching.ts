@@ -0,0 +1,101 @@
+import { matchAgent } from "@/lib/ai/agentMatcher";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { getAgentSkills } from "@/lib/db/skillDb";
+import { getRoutingPreferences } from "@/lib/db/routingPreferencesDb";
+import { PANEL_DEFAULTS } from "@/lib/constants";
+import type { Agent } from "@/types/agent";
+import { recordRoutingDecision } from "../routingAudit";
+import { applySuggestionFeedback } from "../suggestionFeedback";
+import type { ChatContext, ChatMatchResult, ChatStage } from "../pipeline";
+
+/**
+ * Pick the agent best suited to answer the message
+ */
+export const agentMatchingStage: ChatStage = {
+  name: "agent-matching",
+  async run(ctx) {
+    let matchResult: ChatMatchResult;
+
+    // Skip agent matching if flag is set (user declined suggestion)
+    if (ctx.skipAgentMatching) {
+      console.log("⏭️ Skipping agent matching - using generic assistant");
+      matchResult = {
+        matchedAgent: null,
+        confidence: 0,
+        reasoning: "User declined agent/skill suggestion",
+        suggestNewAgent: false,
+        suggestNewSkill: false,
+      };
+    } else if (ctx.addressedAgent) {
+      // The user picked the agent themselves - no matching or suggestions
+      matchResult = {
+        matchedAgent: ctx.addressedAgent,
+        confidence: 1,
+        reasoning: ctx.addressedBy === "pinned" ? "Pinned for this conversation" : "Addressed with @mention",
+        suggestNewAgent: false,
+        suggestNewSkill: false,
+      };
+    } else {
+      // Get all skills across all agents
+      const allSkillsArrays = await Promise.all(
+        ctx.agents.map(agent => getAgentSkills(agent._id!.toString()))
+      );
+      const allSkills = allSkillsArrays.flat();
+
+      const [analysis, preferences] = await Promise.all([
+        matchAgent(ctx.correctedMessage, ctx.agents, allSkills, {
+          apiKey: ctx.userApiKey,
+          model: resolveModelSelection(ctx.userSettings),
+        }),
+        getRoutingPreferences(ctx.userId).catch((error) => {
+          console.error("Error loading routing preferences:", error);
+          return null;
+        }),
+      ]);
+
+      // Apply what was learned from earlier accept/decline answers
+      matchResult = applySuggestionFeedback(analysis, preferences, ctx.userSettings);
+    }
+
+    console.log("📊 Match result summary:", {
+      hasAgent: !!matchResult.matchedAgent,
+      agentName: matchResult.matchedAgent?.name,
+      confidence: matchResult.confidence,
+      suggestNewAgent: matchResult.suggestNewAgent,
+      suggestNewSkill: matchResult.suggestNewSkill,
+      suggestion: matchResult.suggestion,
+      needsClarification: matchResult.needsClarification,
+    });
+
+    const panelAgents = selectPanelAgents(ctx, matchResult);
+    if (panelAgents.length > 0) {
+      console.log("👥 Panel:", panelAgents.map(a => a.name).join(", "));
+    }
+
+    const routingDecisionId = await recordRoutingDecision(
+      ctx,
+      matchResult,
+      panelAgents.map(a => a._id!.toString())
+    );
+
+    return { ...ctx, matchResult, agentUsed: matchResult.matchedAgent, panelAgents, routingDecisionId };
+  },
+};
+
+/**
+ * Pick the panel for panel mode - the best match plus related agents,
+ * or nobody when fewer than two agents fit
+ */
+function selectPanelAgents(ctx: ChatContext, matchResult: ChatMatchResult): Agent[] {
+  if (!ctx.panelRequested || ctx.addressedAgent || !matchResult.matchedAgent) {
+    return [];
+  }
+
+  const size = Math.min(
+    PANEL_DEFAULTS.MAX_SIZE,
+    Math.max(PANEL_DEFAULTS.MIN_SIZE, ctx.userSettings?.ai?.panelSize ?? PANEL_DEFAULTS.SIZE)
+  );
+  const panel = [matchResult.matchedAgent, ...(matchResult.panelAgents || [])].slice(0, size);
+
+  return panel.length >= PANEL_DEFAULTS.MIN_SIZE ? panel : [];
+}
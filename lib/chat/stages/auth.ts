@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Resolve the requesting user
+ * In production, require authentication. In development, allow fallback.
+ */
+export const authStage: ChatStage = {
+  name: "auth",
+  async run(ctx) {
+    const session = await auth();
+    const isDevelopment = process.env.NODE_ENV === 'development' || !!process.env.NEXT_PUBLIC_APP_URL?.includes('localhost');
+
+    if (!session?.user?.email && !isDevelopment) {
+      console.error("❌ No session found in production");
+      return NextResponse.json(
+        { error: "Authentication required. Please log in again." },
+        { status: 401 }
+      );
+    }
+
+    // For local testing without auth, use a default user
+    const userId = session?.user?.email || "demo@localhost.dev";
+
+    console.log("🔐 Auth check:", {
+      hasSession: !!session,
+      userId,
+      isDevelopment,
+      environment: process.env.NODE_ENV,
+    });
+
+    return { ...ctx, userId, isDevelopment };
+  },
+};
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import {
+  budgetExceededResponse,
+  getBudgetExceededMessage,
+  getBudgetStatus,
+  toStreamBudgetStatus,
+} from "@/lib/usage/budget";
+import { createChatStreamEncoder, SSE_HEADERS } from "../protocol";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Load the user's monthly budget and stop the request at a hard limit
+ */
+export const budgetStage: ChatStage = {
+  name: "budget",
+  async run(ctx) {
+    let budget;
+    try {
+      budget = await getBudgetStatus(ctx.userId);
+    } catch (error) {
+      console.error("Error loading budget status:", error);
+      return ctx;
+    }
+
+    if (budget.alertTriggered) {
+      console.log(`💰 Budget alert for ${ctx.userId}: ${budget.percentageUsed.toFixed(0)}% used`);
+    }
+
+    if (!budget.allowed) {
+      console.log("🚫 Budget hard limit reached for user:", ctx.userId);
+
+      if (!ctx.stream) {
+        return budgetExceededResponse(budget, "chat");
+      }
+
+      // Streaming clients read the reason from a terminal error event
+      const encoder = createChatStreamEncoder();
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(
+            encoder.encode({
+              type: "error",
+              error: getBudgetExceededMessage(budget),
+              code: "BUDGET_EXCEEDED",
+              budget: toStreamBudgetStatus(budget),
+            })
+          );
+          controller.close();
+        },
+      });
+      return new NextResponse(stream, { status: 402, headers: SSE_HEADERS });
+    }
+
+    return { ...ctx, budget };
+  },
+};
@@ -0,0 +1,40 @@
+import { getConversation, setPendingClarification } from "@/lib/db/conversationDb";
+import { isClarificationExpired, isClarificationReply, mergeClarificationReply } from "../clarification";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Answer a pending clarifying question: merge the user's reply into the
+ * question that needed it, so matching sees both instead of the reply alone
+ */
+export const clarificationStage: ChatStage = {
+  name: "clarification",
+  async run(ctx) {
+    if (!ctx.conversationId) {
+      return ctx;
+    }
+
+    try {
+      const conversation = await getConversation(ctx.conversationId, ctx.userId);
+      const pending = conversation?.pendingClarification;
+      if (!pending) {
+        return ctx;
+      }
+
+      // Answered or abandoned - either way it is no longer pending
+      await setPendingClarification(ctx.conversationId, ctx.userId, null);
+
+      if (isClarificationExpired(pending) || !isClarificationReply(pending, ctx.correctedMessage)) {
+        console.log("💬 Pending clarification dropped - treating the message as a new question");
+        return ctx;
+      }
+
+      const correctedMessage = mergeClarificationReply(pending, ctx.correctedMessage);
+      console.log(`💬 Clarification received (round ${pending.rounds}):`, correctedMessage);
+
+      return { ...ctx, correctedMessage, clarification: pending };
+    } catch (error) {
+      console.error("Error loading pending clarification:", error);
+      return ctx;
+    }
+  },
+};
@@ -0,0 +1,41 @@
+import { GENERATION_DEFAULTS } from "@/lib/constants";
+import type { ChatStage } from "../pipeline";
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Apply the answering agent's generation settings over the user's defaults
+ */
+export const generationSettingsStage: ChatStage = {
+  name: "generation-settings",
+  async run(ctx) {
+    const settings = ctx.agentUsed?.generationSettings;
+
+    const generation = {
+      modelTier: settings?.modelTier ?? "fast",
+      temperature: settings?.temperature !== undefined
+        ? clamp(settings.temperature, GENERATION_DEFAULTS.MIN_TEMPERATURE, GENERATION_DEFAULTS.MAX_TEMPERATURE)
+        : undefined,
+      maxTokens: settings?.maxTokens !== undefined
+        ? clamp(settings.maxTokens, GENERATION_DEFAULTS.MIN_MAX_TOKENS, GENERATION_DEFAULTS.MAX_MAX_TOKENS)
+        : GENERATION_DEFAULTS.MAX_TOKENS,
+      // Cache the (long) agent system prompt unless the agent opts out
+      enableCaching: settings?.enableCaching ?? !!ctx.agentUsed,
+    };
+
+    if (settings) {
+      console.log(`🎛️ Agent generation settings for ${ctx.agentUsed?.name}:`, {
+        ...generation,
+        responseLength: settings.responseLength ?? ctx.responseLength,
+      });
+    }
+
+    return {
+      ...ctx,
+      generation,
+      responseLength: settings?.responseLength ?? ctx.responseLength,
+    };
+  },
+};
@@ -0,0 +1,38 @@
+import { getConversation } from "@/lib/db/conversationDb";
+import type { ChatStage, HistoryMessage } from "../pipeline";
+
+/**
+ * Load conversation history if a conversationId was sent
+ * Limited to the last 20 messages (10 exchanges) to prevent token overflow
+ */
+export const historyStage: ChatStage = {
+  name: "history",
+  async run(ctx) {
+    if (!ctx.conversationId) {
+      return ctx;
+    }
+
+    const conversation = await getConversation(ctx.conversationId, ctx.userId);
+    if (!conversation?.messages) {
+      return ctx;
+    }
+
+    // Convert messages to Claude format, filtering out system messages
+    const conversationHistory: HistoryMessage[] = conversation.messages
+      .filter((msg) => msg.role === "user" || msg.role === "assistant")
+      .slice(-20)
+      .map((msg) => ({
+        role: msg.role as "user" | "assistant",
+        // Label panel replies so the model can tell the speakers apart
+        content: msg.panelRole === "moderator"
+          ? `[Panel consensus] ${msg.content}`
+          : msg.panelRole === "panelist"
+          ? `[${msg.agentName || "Panelist"}] ${msg.content}`
+          : msg.content,
+      }));
+
+    console.log(`📚 Loaded ${conversationHistory.length} messages from conversation history`);
+
+    return { ...ctx, conversationHistory };
+  },
+};
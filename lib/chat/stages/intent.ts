@@ -0,0 +1,22 @@
+import { classifyIntent } from "@/lib/ai/intentClassifier";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Classify what the message asks for (skill requests, pricing, publications,
+ * recency) so later stages don't each guess from keywords
+ */
+export const intentStage: ChatStage = {
+  name: "intent",
+  async run(ctx) {
+    const intent = await classifyIntent(ctx.correctedMessage, {
+      agents: ctx.agents,
+      apiKey: ctx.userApiKey,
+      model: resolveModelSelection(ctx.userSettings),
+    });
+
+    console.log("🧭 Intent:", { kinds: intent.kinds, ...intent.slots, source: intent.source });
+
+    return { ...ctx, intent };
+  },
+};
@@ -0,0 +1,21 @@
+import { getAccessibleAgents } from "@/lib/db/agentDb";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Load the user's agents, plus the agents shared with them
+ */
+export const loadAgentsStage: ChatStage = {
+  name: "load-agents",
+  async run(ctx) {
+    const agents = await getAccessibleAgents(ctx.userId);
+
+    console.log("🔍 Agent retrieval:", {
+      userId: ctx.userId,
+      agentCount: agents.length,
+      agentNames: agents.map(a => a.name),
+      isProduction: !ctx.isDevelopment,
+    });
+
+    return { ...ctx, agents };
+  },
+};
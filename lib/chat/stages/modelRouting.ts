@@ -0,0 +1,43 @@
+import { chooseModelTier, estimateQueryComplexity } from "@/lib/ai/modelRouter";
+import { getChatModelProvider } from "@/lib/ai/providers";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Escalate complex questions from the fast tier to the quality tier
+ * (unless a fixed model is selected - it answers either tier)
+ */
+export const modelRoutingStage: ChatStage = {
+  name: "model-routing",
+  async run(ctx) {
+    const estimate = estimateQueryComplexity({
+      message: ctx.correctedMessage,
+      fileCount: ctx.uploadedFiles.length,
+      imageCount: ctx.imageFiles.length,
+      fileContextLength: ctx.fileContext.length,
+      historyLength: ctx.conversationHistory.length,
+    });
+    const agentTier = ctx.agentUsed?.generationSettings?.modelTier;
+
+    const decision = chooseModelTier(estimate, {
+      agentTier,
+      fixedModel: ctx.model.model,
+      budgetPercentUsed: ctx.budget?.percentageUsed,
+    });
+
+    const provider = getChatModelProvider(ctx.model, ctx.userApiKey);
+    const model = provider.resolveModel(decision.tier, ctx.model.model);
+
+    console.log(`🧭 Model routing: ${decision.tier} (${model})`, {
+      score: estimate.score,
+      escalated: decision.escalated,
+      blockedByBudget: decision.blockedByBudget,
+      reasons: decision.reasons,
+    });
+
+    return {
+      ...ctx,
+      generation: { ...ctx.generation, modelTier: decision.tier },
+      routing: { ...decision, model, provider: provider.id },
+    };
+  },
+};
@@ -0,0 +1,18 @@
+import { resolveModelSelection } from "@/lib/ai/providers";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Pick the provider/model for the reply (agent override > user setting > Anthropic)
+ */
+export const modelSelectionStage: ChatStage = {
+  name: "model-selection",
+  async run(ctx) {
+    const model = resolveModelSelection(ctx.userSettings, ctx.agentUsed);
+
+    if (model.provider !== "anthropic" || model.model) {
+      console.log(`🧠 Using ${model.provider} model: ${model.model || "provider default"}`);
+    }
+
+    return { ...ctx, model };
+  },
+};
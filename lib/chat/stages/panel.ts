@@ -0,0 +1,357 @@
+import { NextResponse } from "next/server";
+import { runToolLoopHaiku, streamToolLoopHaiku } from "@/lib/ai/claude";
+import { ToolRegistry } from "@/lib/ai/tools/registry";
+import { PANEL_DEFAULTS, TOOL_DEFAULTS } from "@/lib/constants";
+import { detectArtifacts } from "@/lib/artifacts/artifactDetector";
+import { toStreamBudgetStatus } from "@/lib/usage/budget";
+import { stripMarkdown } from "../responses";
+import { createChatStreamEncoder, SSE_HEADERS } from "../protocol";
+import { getResponseTime, getSkillsUsed, recordChatUsage, savePanelExchange } from "../persistence";
+import { buildModeratorMessage, buildModeratorSystemPrompt, preparePanel } from "../panel";
+import { toModelInfo } from "./respond";
+import type { AssistantReply, TurnModel, TurnUsage } from "../persistence";
+import type { PanelAnswer } from "../panel";
+import type { ChatContext, ChatStage } from "../pipeline";
+import type { Agent } from "@/types/agent";
+import type { ChatStreamPayload, StreamAgentInfo } from "@/types/chatStream";
+
+interface PanelTurn {
+  content: string;
+  usage: TurnUsage;
+  turnModel: TurnModel;
+  toolNames: string[];
+  responseTimeMs: number;
+}
+
+/**
+ * Panel mode: every panel agent answers in parallel (streamed as labelled
+ * sections), then a moderator synthesizes the consensus. Passes through when
+ * no panel was selected.
+ */
+export const panelStage: ChatStage = {
+  name: "panel",
+  async run(ctx) {
+    if (ctx.panelAgents.length < 2) {
+      return ctx;
+    }
+
+    const panelists = await preparePanel(ctx);
+    const moderator = ctx.userSettings?.ai?.panelModerator ?? PANEL_DEFAULTS.MODERATOR;
+
+    console.log(`👥 Panel answering with ${panelists.length} agents${moderator ? " + moderator" : ""}`);
+
+    return ctx.stream ? streamPanel(ctx, panelists, moderator) : jsonPanel(ctx, panelists, moderator);
+  },
+};
+
+function toAgentInfo(agent: Agent): StreamAgentInfo {
+  return {
+    id: agent._id?.toString(),
+    name: agent.name,
+    description: agent.description,
+  };
+}
+
+function turnModelOf(ctx: ChatContext): TurnModel {
+  return { provider: ctx.model.provider, model: ctx.routing?.model || ctx.model.model || "" };
+}
+
+/**
+ * Context the moderator is billed under (no agent, no searches)
+ */
+function moderatorContext(ctx: ChatContext): ChatContext {
+  return { ...ctx, agentUsed: null, searchCalls: 0, generation: { ...ctx.generation, enableCaching: false } };
+}
+
+function moderatorOptions(ctx: ChatContext) {
+  return {
+    systemPrompt: buildModeratorSystemPrompt(),
+    temperature: ctx.temperature,
+    maxTokens: ctx.generation.maxTokens,
+    tier: ctx.generation.modelTier,
+    apiKey: ctx.userApiKey,
+    model: ctx.model,
+    registry: new ToolRegistry(),
+  };
+}
+
+async function jsonPanel(ctx: ChatContext, panelists: ChatContext[], moderator: boolean): Promise<Response> {
+  const turns = await Promise.all(
+    panelists.map(async (panelist) => {
+      try {
+        const result = await runToolLoopHaiku(panelist.correctedMessage, {
+          systemPrompt: panelist.systemPrompt,
+          enableCaching: panelist.generation.enableCaching,
+          temperature: panelist.generation.temperature ?? panelist.temperature,
+          maxTokens: panelist.generation.maxTokens,
+          tier: panelist.generation.modelTier,
+          apiKey: panelist.userApiKey,
+          model: panelist.model,
+          conversationHistory: panelist.conversationHistory,
+          registry: panelist.tools ?? new ToolRegistry(),
+        });
+        const turn: PanelTurn = {
+          content: stripMarkdown(result.content),
+          usage: result.usage,
+          turnModel: { provider: result.provider || panelist.model.provider, model: result.model },
+          toolNames: result.toolNames,
+          responseTimeMs: getResponseTime(panelist),
+        };
+        return turn;
+      } catch (error) {
+        console.error(`Panelist ${panelist.agentUsed?.name} failed:`, error);
+        return null;
+      }
+    })
+  );
+
+  let cost = 0;
+  const replies: AssistantReply[] = [];
+  const answers: PanelAnswer[] = [];
+  for (const [i, turn] of turns.entries()) {
+    if (!turn) continue;
+    const agent = panelists[i].agentUsed!;
+    cost += await recordChatUsage(panelists[i], turn.usage, turn.turnModel, turn.toolNames, turn.responseTimeMs);
+    replies.push({
+      agent,
+      content: turn.content,
+      model: turn.turnModel.model,
+      panelRole: "panelist",
+      delegations: panelists[i].delegations,
+      skillsUsed: getSkillsUsed(panelists[i]),
+      responseTimeMs: turn.responseTimeMs,
+    });
+    answers.push({ agent, content: turn.content });
+  }
+
+  if (answers.length === 0) {
+    return NextResponse.json(
+      { error: "Panel failed to answer", details: "Every panelist returned an error" },
+      { status: 500 }
+    );
+  }
+
+  let consensus: string | null = null;
+  if (moderator && answers.length >= 2) {
+    try {
+      const result = await runToolLoopHaiku(buildModeratorMessage(ctx.correctedMessage, answers), moderatorOptions(ctx));
+      consensus = stripMarkdown(result.content);
+      const responseTimeMs = getResponseTime(ctx);
+      cost += await recordChatUsage(moderatorContext(ctx), result.usage, {
+        provider: result.provider || ctx.model.provider,
+        model: result.model,
+      }, [], responseTimeMs);
+      replies.push({ agent: null, content: consensus, model: result.model, panelRole: "moderator", responseTimeMs });
+    } catch (error) {
+      console.error("Panel moderator failed:", error);
+    }
+  }
+
+  const { sessionId, messageIds } = await savePanelExchange(ctx, replies);
+
+  return NextResponse.json({
+    response: consensus ?? answers.map((answer) => `${answer.agent.name}: ${answer.content}`).join("\n\n"),
+    agentUsed: toAgentInfo(panelists[0].agentUsed!),
+    panel: replies.map((reply, i) => ({
+      messageId: messageIds[i],
+      agent: reply.agent ? toAgentInfo(reply.agent) : null,
+      role: reply.panelRole,
+      response: reply.content,
+      model: reply.model,
+    })),
+    agentCreated: false,
+    newAgent: null,
+    suggestedAgent: null,
+    sessionId,
+    routingDecisionId: ctx.routingDecisionId,
+    budgetAlert: ctx.budget?.alertTriggered ? toStreamBudgetStatus(ctx.budget) : null,
+    usage: { cost },
+  });
+}
+
+function streamPanel(ctx: ChatContext, panelists: ChatContext[], moderator: boolean): Response {
+  const encoder = createChatStreamEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (payload: ChatStreamPayload) => controller.enqueue(encoder.encode(payload));
+
+      /**
+       * Stream one section; returns the finished turn or null if it failed
+       */
+      const streamSection = async (
+        section: string,
+        sectionCtx: ChatContext,
+        message: string,
+        options: Parameters<typeof streamToolLoopHaiku>[1]
+      ): Promise<PanelTurn | null> => {
+        const turn: PanelTurn = {
+          content: "",
+          usage: { inputTokens: 0, outputTokens: 0, cachedTokens: 0 },
+          turnModel: turnModelOf(sectionCtx),
+          toolNames: [],
+          responseTimeMs: 0,
+        };
+
+        try {
+          if (sectionCtx.routing) {
+            send({ type: "model_selected", selection: toModelInfo(sectionCtx), section });
+          }
+
+          for await (const event of streamToolLoopHaiku(message, options)) {
+            if (event.type === "text") {
+              const text = stripMarkdown(event.text);
+              turn.content += text;
+              send({ type: "content", text, section });
+            } else if (event.type === "tool_call") {
+              send({ type: "tool_call", toolCallId: event.id, name: event.name, input: event.input, section });
+            } else if (event.type === "tool_result") {
+              send({
+                type: "tool_result",
+                toolCallId: event.id,
+                name: event.name,
+                isError: event.isError,
+                durationMs: event.durationMs,
+                preview: event.output.substring(0, TOOL_DEFAULTS.RESULT_PREVIEW_LENGTH),
+                section,
+              });
+            } else if (event.type === "complete") {
+              turn.usage = event.response.usage;
+              turn.toolNames = event.response.toolNames;
+              turn.turnModel = {
+                provider: event.response.provider || sectionCtx.model.provider,
+                model: event.response.model,
+              };
+            }
+          }
+
+          turn.responseTimeMs = getResponseTime(sectionCtx);
+          send({ type: "section_end", section });
+          return turn;
+        } catch (error) {
+          console.error(`Panel section ${section} failed:`, error);
+          send({ type: "section_end", section, error: error instanceof Error ? error.message : "Unknown error" });
+          return null;
+        }
+      };
+
+      try {
+        // Open every section up front so the client can lay them out in panel order
+        panelists.forEach((panelist, i) => {
+          send({ type: "section_start", section: `agent-${i + 1}`, role: "panelist", agent: toAgentInfo(panelist.agentUsed!) });
+        });
+
+        const turns = await Promise.all(
+          panelists.map((panelist, i) =>
+            streamSection(`agent-${i + 1}`, panelist, panelist.message, {
+              systemPrompt: panelist.systemPrompt,
+              enableCaching: panelist.generation.enableCaching,
+              temperature: panelist.generation.temperature ?? panelist.temperature,
+              maxTokens: panelist.generation.maxTokens,
+              tier: panelist.generation.modelTier,
+              apiKey: panelist.userApiKey,
+              model: panelist.model,
+              images: panelist.imageFiles,
+              conversationHistory: panelist.conversationHistory,
+              registry: panelist.tools ?? new ToolRegistry(),
+            })
+          )
+        );
+
+        let cost = 0;
+        const totals: TurnUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+        const replies: AssistantReply[] = [];
+        const replySections: string[] = []; // Section of each reply, for the saved message IDs
+        const answers: PanelAnswer[] = [];
+        const addTurn = async (turnCtx: ChatContext, turn: PanelTurn) => {
+          cost += await recordChatUsage(turnCtx, turn.usage, turn.turnModel, turn.toolNames, turn.responseTimeMs);
+          totals.inputTokens += turn.usage.inputTokens;
+          totals.outputTokens += turn.usage.outputTokens;
+          totals.cachedTokens += turn.usage.cachedTokens;
+        };
+
+        for (const [i, turn] of turns.entries()) {
+          if (!turn) continue;
+          const agent = panelists[i].agentUsed!;
+          await addTurn(panelists[i], turn);
+          replies.push({
+            agent,
+            content: turn.content,
+            model: turn.turnModel.model,
+            panelRole: "panelist",
+            delegations: panelists[i].delegations,
+            skillsUsed: getSkillsUsed(panelists[i]),
+            responseTimeMs: turn.responseTimeMs,
+          });
+          replySections.push(`agent-${i + 1}`);
+          answers.push({ agent, content: turn.content });
+        }
+
+        if (answers.length === 0) {
+          throw new Error("Every panelist failed to answer");
+        }
+
+        let consensus: string | null = null;
+        if (moderator && answers.length >= 2) {
+          const moderatorCtx = moderatorContext(ctx);
+          send({ type: "section_start", section: "moderator", role: "moderator", agent: null });
+          const turn = await streamSection(
+            "moderator",
+            moderatorCtx,
+            buildModeratorMessage(ctx.message, answers),
+            moderatorOptions(ctx)
+          );
+          if (turn) {
+            await addTurn(moderatorCtx, { ...turn, toolNames: [] });
+            replies.push({
+              agent: null,
+              content: turn.content,
+              model: turn.turnModel.model,
+              panelRole: "moderator",
+              responseTimeMs: turn.responseTimeMs,
+            });
+            replySections.push("moderator");
+            consensus = turn.content;
+          }
+        }
+
+        const { sessionId, messageIds } = await savePanelExchange(ctx, replies);
+
+        if (ctx.budget?.alertTriggered) {
+          send({ type: "budget_alert", budget: toStreamBudgetStatus(ctx.budget) });
+        }
+
+        const artifacts = detectArtifacts(consensus ?? answers.map((answer) => answer.content).join("\n\n"));
+
+        send({
+          type: "usage",
+          usage: {
+            tokens: {
+              input: totals.inputTokens,
+              output: totals.outputTokens,
+              cached: totals.cachedTokens,
+            },
+            cost,
+          },
+        });
+        send({
+          type: "done",
+          sessionId,
+          sectionMessageIds: Object.fromEntries(replySections.map((section, i) => [section, messageIds[i]])),
+          artifacts: artifacts.length > 0 ? artifacts : undefined,
+          routingDecisionId: ctx.routingDecisionId,
+        });
+        controller.close();
+      } catch (error) {
+        console.error("Panel streaming error:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(stream, { headers: SSE_HEADERS });
+}
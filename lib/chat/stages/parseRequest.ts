@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { validateFileSize } from "@/lib/files/fileProcessor";
+import { processFileOnServer } from "@/lib/files/serverFileProcessor";
+import type { ChatStage, ImageAttachment } from "../pipeline";
+
+/**
+ * Read the request body - JSON, or FormData when files are uploaded
+ */
+export const parseRequestStage: ChatStage = {
+  name: "parse-request",
+  async run(ctx) {
+    const contentType = ctx.request.headers.get('content-type') || '';
+
+    if (!contentType.includes('multipart/form-data')) {
+      const body = await ctx.request.json();
+      const message = body.message;
+
+      if (!message || typeof message !== "string") {
+        return NextResponse.json({ error: "Message is required" }, { status: 400 });
+      }
+
+      return {
+        ...ctx,
+        message,
+        conversationId: body.conversationId,
+        voiceEnabled: body.voiceEnabled || false,
+        stream: body.stream || false,
+        skipAgentMatching: body.skipAgentMatching || false,
+        panelRequested: body.panel || false,
+      };
+    }
+
+    const formData = await ctx.request.formData();
+    const message = formData.get('message') as string;
+    const uploadedFiles: File[] = [];
+    const imageFiles: ImageAttachment[] = [];
+    let fileContext = '';
+
+    // Process uploaded files
+    const files = formData.getAll('files') as File[];
+    for (const file of files) {
+      try {
+        const validation = validateFileSize(file);
+        if (!validation.valid) {
+          return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        uploadedFiles.push(file);
+
+        if (file.type.startsWith('image/')) {
+          // Process images for vision API
+          const arrayBuffer = await file.arrayBuffer();
+          imageFiles.push({
+            name: file.name,
+            base64: Buffer.from(arrayBuffer).toString('base64'),
+            mediaType: file.type,
+          });
+          fileContext += `[Image: ${file.name}]\n\n`;
+        } else {
+          const fileContent = await processFileOnServer(file);
+          fileContext += `--- BEGIN FILE: ${file.name} ---\n${fileContent}\n--- END FILE: ${file.name} ---\n\n`;
+        }
+      } catch (fileError) {
+        console.error(`Error processing file ${file.name}:`, fileError);
+        return NextResponse.json(
+          { error: `Failed to process file: ${file.name}` },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (uploadedFiles.length > 0) {
+      console.log(`📎 Processed ${uploadedFiles.length} file(s):`, uploadedFiles.map(f => f.name));
+    }
+
+    if (!message || typeof message !== "string") {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+
+    return {
+      ...ctx,
+      message,
+      conversationId: (formData.get('conversationId') as string | null) || undefined,
+      voiceEnabled: formData.get('voiceEnabled') === 'true',
+      stream: formData.get('stream') === 'true',
+      skipAgentMatching: formData.get('skipAgentMatching') === 'true',
+      panelRequested: formData.get('panel') === 'true',
+      uploadedFiles,
+      imageFiles,
+      fileContext,
+    };
+  },
+};
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { checkUserRateLimit, getRateLimitHeaders } from "@/lib/ai/rateLimiter";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Enforce the per-user request rate limit
+ */
+export const rateLimitStage: ChatStage = {
+  name: "rate-limit",
+  async run(ctx) {
+    const rateLimit = await checkUserRateLimit(ctx.userId);
+    const responseHeaders = { ...ctx.responseHeaders, ...getRateLimitHeaders(rateLimit) };
+
+    if (!rateLimit.allowed) {
+      console.log("🚫 Rate limit exceeded for user:", ctx.userId);
+      console.log("🚫 Reset time:", rateLimit.resetTime);
+      return NextResponse.json(
+        {
+          error: "Rate limit exceeded. Please wait before sending more messages.",
+          limitType: "rate",
+          resetTime: rateLimit.resetTime,
+        },
+        { status: 429, headers: responseHeaders }
+      );
+    }
+
+    return { ...ctx, responseHeaders };
+  },
+};
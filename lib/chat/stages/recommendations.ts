@@ -0,0 +1,85 @@
+import { AGENT_DEFAULTS, CLARIFICATION_DEFAULTS } from "@/lib/constants";
+import { setPendingClarification } from "@/lib/db/conversationDb";
+import { agentSuggestionResponse, clarificationResponse, skillSuggestionResponse } from "../responses";
+import { recordRoutingSuggestion } from "../routingAudit";
+import { canAskForClarification, createPendingClarification } from "../clarification";
+import { saveClarificationExchange } from "../persistence";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Act on the matcher's recommendations: ask a clarifying question and wait
+ * for the reply, or stop and wait for the user to decide on a suggested agent/skill
+ */
+export const recommendationsStage: ChatStage = {
+  name: "recommendations",
+  async run(ctx) {
+    const { matchResult, agentUsed } = ctx;
+    if (!matchResult) {
+      return ctx;
+    }
+
+    // Ask back and remember the question - the reply is merged into it next turn
+    if (matchResult.needsClarification && matchResult.suggestion) {
+      if (!canAskForClarification(ctx.clarification)) {
+        console.log(`💬 Still unclear after ${CLARIFICATION_DEFAULTS.MAX_ROUNDS} clarifications - answering anyway`);
+        return ctx;
+      }
+
+      console.log("💬 Claude needs clarification - asking the user");
+      const pending = createPendingClarification(
+        ctx.correctedMessage,
+        matchResult.suggestion,
+        matchResult.interpretations,
+        ctx.clarification
+      );
+      const { sessionId } = await saveClarificationExchange(ctx, pending.question, pending.interpretations);
+      await setPendingClarification(sessionId, ctx.userId, pending);
+
+      return clarificationResponse(
+        ctx.stream,
+        { question: pending.question, interpretations: pending.interpretations },
+        sessionId
+      );
+    }
+
+    if (
+      matchResult.suggestNewAgent &&
+      matchResult.suggestion &&
+      ctx.agents.filter((agent) => !agent.sharedBy).length < AGENT_DEFAULTS.MAX_AGENTS_PER_USER
+    ) {
+      console.log("✨ Suggesting new agent - waiting for user decision");
+      await recordRoutingSuggestion(ctx, { type: "agent", name: matchResult.suggestion });
+      return agentSuggestionResponse(ctx.stream, {
+        topic: matchResult.suggestion,
+        reasoning: matchResult.reasoning,
+        routingDecisionId: ctx.routingDecisionId,
+      });
+    }
+
+    // Panels answer with the agents they have rather than stopping for a skill;
+    // shared agents are read-only, so only their owner can add skills
+    if (
+      matchResult.suggestNewSkill &&
+      matchResult.suggestion &&
+      agentUsed &&
+      !agentUsed.sharedBy &&
+      ctx.panelAgents.length === 0
+    ) {
+      console.log("✨ Suggesting new skill - waiting for user decision");
+      await recordRoutingSuggestion(ctx, {
+        type: "skill",
+        name: matchResult.suggestion,
+        agentId: agentUsed._id!.toString(),
+      });
+      return skillSuggestionResponse(ctx.stream, {
+        agentId: agentUsed._id!.toString(),
+        agentName: agentUsed.name,
+        skillName: matchResult.suggestion,
+        reasoning: matchResult.reasoning,
+        routingDecisionId: ctx.routingDecisionId,
+      });
+    }
+
+    return ctx;
+  },
+};
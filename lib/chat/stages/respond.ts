@@ -0,0 +1,217 @@
+import { NextResponse } from "next/server";
+import { runToolLoopHaiku, streamToolLoopHaiku } from "@/lib/ai/claude";
+import { ToolRegistry } from "@/lib/ai/tools/registry";
+import { TOOL_DEFAULTS } from "@/lib/constants";
+import { detectArtifacts } from "@/lib/artifacts/artifactDetector";
+import { stripMarkdown } from "../responses";
+import { createChatStreamEncoder, SSE_HEADERS } from "../protocol";
+import { getResponseTime, recordChatUsage, saveExchange } from "../persistence";
+import { toStreamBudgetStatus } from "@/lib/usage/budget";
+import type { TurnUsage } from "../persistence";
+import type { ChatContext, ChatStage } from "../pipeline";
+import type { StreamModelInfo } from "@/types/chatStream";
+
+/**
+ * Generate the reply - streamed over SSE or returned as JSON
+ */
+export const respondStage: ChatStage = {
+  name: "respond",
+  async run(ctx) {
+    return ctx.stream ? streamResponse(ctx) : jsonResponse(ctx);
+  },
+};
+
+export function toModelInfo(ctx: ChatContext): StreamModelInfo {
+  const routing = ctx.routing!;
+  return {
+    model: routing.model,
+    provider: routing.provider,
+    tier: routing.tier,
+    escalated: routing.escalated,
+    reasons: routing.reasons,
+  };
+}
+
+async function jsonResponse(ctx: ChatContext): Promise<Response> {
+  const { agentUsed } = ctx;
+
+  // Non-streaming fallback (use corrected message)
+  const claudeResponse = await runToolLoopHaiku(ctx.correctedMessage, {
+    systemPrompt: ctx.systemPrompt,
+    enableCaching: ctx.generation.enableCaching,
+    temperature: ctx.generation.temperature ?? ctx.temperature,
+    maxTokens: ctx.generation.maxTokens,
+    tier: ctx.generation.modelTier,
+    apiKey: ctx.userApiKey,
+    model: ctx.model,
+    conversationHistory: ctx.conversationHistory,
+    registry: ctx.tools ?? new ToolRegistry(),
+  });
+
+  const response = stripMarkdown(claudeResponse.content);
+  const responseTimeMs = getResponseTime(ctx);
+  const cost = await recordChatUsage(ctx, claudeResponse.usage, {
+    provider: claudeResponse.provider || ctx.model.provider,
+    model: claudeResponse.model,
+  }, claudeResponse.toolNames, responseTimeMs);
+  const { sessionId, messageIds } = await saveExchange(ctx, response, claudeResponse.model, responseTimeMs);
+
+  return NextResponse.json({
+    response,
+    agentUsed: agentUsed ? {
+      id: agentUsed._id?.toString(),
+      name: agentUsed.name,
+      description: agentUsed.description,
+    } : null,
+    agentCreated: false,
+    newAgent: null,
+    suggestedAgent: null,
+    sessionId,
+    messageId: messageIds[0],
+    responseTimeMs,
+    model: ctx.routing ? { ...toModelInfo(ctx), model: claudeResponse.model } : null,
+    budgetAlert: ctx.budget?.alertTriggered ? toStreamBudgetStatus(ctx.budget) : null,
+    toolCalls: claudeResponse.toolCalls,
+    delegations: ctx.delegations,
+    routingDecisionId: ctx.routingDecisionId,
+    usage: {
+      tokens: claudeResponse.usage,
+      cost,
+    },
+  });
+}
+
+function streamResponse(ctx: ChatContext): Response {
+  const { agentUsed } = ctx;
+  const encoder = createChatStreamEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let fullResponse = "";
+      let usage: TurnUsage = { inputTokens: 0, outputTokens: 0, cachedTokens: 0 };
+      let toolNames: string[] = [];
+      let turnModel = { provider: ctx.model.provider as string, model: ctx.routing?.model || ctx.model.model || "" };
+
+      try {
+        // Send agent info if one is being used
+        if (agentUsed) {
+          controller.enqueue(
+            encoder.encode({
+              type: "agent_used",
+              agent: {
+                id: agentUsed._id?.toString(),
+                name: agentUsed.name,
+                description: agentUsed.description,
+              },
+            })
+          );
+        }
+
+        if (ctx.routing) {
+          controller.enqueue(
+            encoder.encode({ type: "model_selected", selection: toModelInfo(ctx) })
+          );
+        }
+
+        const toolLoop = streamToolLoopHaiku(ctx.message, {
+          systemPrompt: ctx.systemPrompt,
+          enableCaching: ctx.generation.enableCaching,
+          temperature: ctx.generation.temperature ?? ctx.temperature,
+          maxTokens: ctx.generation.maxTokens,
+          tier: ctx.generation.modelTier,
+          apiKey: ctx.userApiKey,
+          model: ctx.model,
+          images: ctx.imageFiles, // Pass images for vision
+          conversationHistory: ctx.conversationHistory,
+          registry: ctx.tools ?? new ToolRegistry(),
+        });
+
+        for await (const event of toolLoop) {
+          if (event.type === "text") {
+            // Strip markdown formatting in real-time (safety net)
+            const text = stripMarkdown(event.text);
+            fullResponse += text;
+            controller.enqueue(encoder.encode({ type: "content", text }));
+          } else if (event.type === "tool_call") {
+            controller.enqueue(
+              encoder.encode({
+                type: "tool_call",
+                toolCallId: event.id,
+                name: event.name,
+                input: event.input,
+              })
+            );
+          } else if (event.type === "tool_result") {
+            controller.enqueue(
+              encoder.encode({
+                type: "tool_result",
+                toolCallId: event.id,
+                name: event.name,
+                isError: event.isError,
+                durationMs: event.durationMs,
+                preview: event.output.substring(0, TOOL_DEFAULTS.RESULT_PREVIEW_LENGTH),
+              })
+            );
+          } else if (event.type === "complete") {
+            usage = event.response.usage;
+            toolNames = event.response.toolNames;
+            turnModel = {
+              provider: event.response.provider || ctx.model.provider,
+              model: event.response.model,
+            };
+          }
+        }
+
+        const responseTimeMs = getResponseTime(ctx);
+        const cost = await recordChatUsage(ctx, usage, turnModel, toolNames, responseTimeMs);
+        const { sessionId, messageIds } = await saveExchange(ctx, fullResponse, turnModel.model, responseTimeMs);
+
+        if (ctx.budget?.alertTriggered) {
+          controller.enqueue(
+            encoder.encode({ type: "budget_alert", budget: toStreamBudgetStatus(ctx.budget) })
+          );
+        }
+
+        // Detect artifacts in the response
+        const artifacts = detectArtifacts(fullResponse);
+
+        controller.enqueue(
+          encoder.encode({
+            type: "usage",
+            usage: {
+              model: turnModel.model,
+              tokens: {
+                input: usage.inputTokens,
+                output: usage.outputTokens,
+                cached: usage.cachedTokens,
+              },
+              cost,
+            },
+          })
+        );
+        controller.enqueue(
+          encoder.encode({
+            type: "done",
+            sessionId,
+            messageId: messageIds[0],
+            artifacts: artifacts.length > 0 ? artifacts : undefined,
+            delegations: ctx.delegations.length > 0 ? ctx.delegations : undefined,
+            routingDecisionId: ctx.routingDecisionId,
+          })
+        );
+        controller.close();
+      } catch (error) {
+        console.error("Streaming error:", error);
+        controller.enqueue(
+          encoder.encode({
+            type: "error",
+            error: error instanceof Error ? error.message : "Unknown error",
+          })
+        );
+        controller.close();
+      }
+    },
+  });
+
+  return new NextResponse(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,31 @@
+import { getAgentSkills } from "@/lib/db/skillDb";
+import { matchSkillsToMessage } from "@/lib/ai/skillMatcher";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { recordRoutingSkills } from "../routingAudit";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Load and match the selected agent's skills
+ */
+export const skillMatchingStage: ChatStage = {
+  name: "skill-matching",
+  async run(ctx) {
+    if (!ctx.agentUsed) {
+      return ctx;
+    }
+
+    const agentSkills = await getAgentSkills(ctx.agentUsed._id!.toString());
+    if (agentSkills.length === 0) {
+      return ctx;
+    }
+
+    const matchedSkills = await matchSkillsToMessage(
+      ctx.correctedMessage,
+      agentSkills,
+      ctx.userApiKey,
+      resolveModelSelection(ctx.userSettings, ctx.agentUsed)
+    );
+    await recordRoutingSkills(ctx, matchedSkills);
+    return { ...ctx, matchedSkills };
+  },
+};
@@ -0,0 +1,43 @@
+import { hasIntent } from "@/lib/ai/intentRules";
+import { skillSuggestionResponse } from "../responses";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Detect an explicit "add/create a skill" request and hand it straight to the
+ * skill suggestion flow. Skipped when the user declined a suggestion, which
+ * prevents loops.
+ */
+export const skillRequestStage: ChatStage = {
+  name: "skill-request",
+  async run(ctx) {
+    if (ctx.skipAgentMatching || !hasIntent(ctx.intent, "add_skill")) {
+      return ctx;
+    }
+
+    const { agentName, skillTopic = "New Skill" } = ctx.intent!.slots;
+    console.log("🎯 Detected explicit skill creation request:", ctx.correctedMessage);
+    console.log("📝 Extracted skill topic:", skillTopic);
+
+    // Find which agent to add skill to (an addressed agent takes precedence)
+    const agentMatch = ctx.addressedAgent || ctx.agents.find(a => a.name === agentName);
+
+    if (!agentMatch) {
+      console.log("⚠️ Could not find agent in explicit skill request, continuing with normal flow");
+      return ctx;
+    }
+
+    if (agentMatch.sharedBy) {
+      console.log(`⚠️ ${agentMatch.name} is shared by ${agentMatch.sharedBy} and read-only, continuing with normal flow`);
+      return ctx;
+    }
+
+    console.log(`✅ Triggering skill suggestion: "${skillTopic}" for agent "${agentMatch.name}"`);
+
+    return skillSuggestionResponse(ctx.stream, {
+      agentId: agentMatch._id!.toString(),
+      agentName: agentMatch.name,
+      skillName: skillTopic,
+      reasoning: `User explicitly requested to add this skill`,
+    });
+  },
+};
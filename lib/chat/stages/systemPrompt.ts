@@ -0,0 +1,91 @@
+import { buildSystemPromptWithSkills } from "@/lib/ai/skillMatcher";
+import type { ChatStage } from "../pipeline";
+
+// Adjust base prompt based on user's response length preference
+const RESPONSE_LENGTH_INSTRUCTIONS = {
+  concise: "Maximum 3 sentences. Be extremely brief and direct.",
+  normal: "Keep responses clear and focused, typically 3-5 sentences.",
+  detailed: "Provide thorough explanations with examples when helpful."
+};
+
+/**
+ * Assemble the system prompt from formatting rules, the agent prompt,
+ * web/file context and matched skills
+ */
+export const systemPromptStage: ChatStage = {
+  name: "system-prompt",
+  async run(ctx) {
+    const { agentUsed, webContext, fileContext, matchedSkills } = ctx;
+
+    // Prepend strict formatting rules to any system prompt (including agent prompts)
+    const formattingRules = `CRITICAL FORMATTING RULES (MUST FOLLOW):
+- Your response will be READ ALOUD by voice synthesis
+- Use ONLY plain conversational text - NO markdown formatting
+- NO asterisks (*, **), hashtags (#, ##), backticks (\`, \`\`\`), brackets ([], ())
+- NO horizontal rules (---, ===), tables (|), or code blocks
+- NO bullet points or numbered lists
+- Write as if speaking naturally to someone
+- ${RESPONSE_LENGTH_INSTRUCTIONS[ctx.responseLength]}
+- EXCEPTION: You MAY include plain URLs (https://...) for places, attractions, articles, or resources you mention - these will be automatically made clickable
+
+CONVERSATION CONTEXT AWARENESS:
+- You have access to the full conversation history
+- If the user changes topics (e.g., from data analytics to weather), recognize the shift and adapt your expertise accordingly
+- Don't assume the new question relates to previous topics unless explicitly connected
+- Each question should be answered on its own merits while being aware of conversation flow
+- Example: If discussing data mining, then user asks "What's the weather?", treat it as a new topic about weather, not data
+
+`;
+
+    // Add file context if files were uploaded
+    const fileContextSection = fileContext ? `\n\n=== UPLOADED FILES ===\n${fileContext}\nThe user has uploaded the above file(s). Reference them in your response as needed.\n` : '';
+    
+    let systemPrompt = agentUsed?.systemPrompt 
+      ? formattingRules + agentUsed.systemPrompt + webContext + fileContextSection
+      : formattingRules + `You are a helpful voice assistant. Answer questions clearly and conversationally.
+
+ABSOLUTELY FORBIDDEN (will break voice synthesis):
+❌ Any asterisks: * ** ***
+❌ Any hashtags: # ##
+❌ Any brackets: [ ] ( )
+❌ Any backticks: \` \`\`\`
+❌ Any dashes for lists: - --
+❌ Bold, italic, or any formatting
+❌ Section headers
+❌ Multiple options or alternatives
+
+CORRECT EXAMPLES:
+Q: "What bait for bass?"
+A: "Use live shiners or crawfish. They work year-round and bass love them."
+
+Q: "Year to date calculation"  
+A: "Use SUM IF YEAR of Date equals YEAR of TODAY and Date is less than or equal to TODAY THEN Measure END. This sums your measure for the current year up to today."
+
+Q: "Best places to visit in France?"
+A: "The south of France is magical. Start with Provence https://en.wikipedia.org/wiki/Provence with its lavender fields and Roman ruins. Visit Avignon https://en.wikipedia.org/wiki/Avignon and Arles https://en.wikipedia.org/wiki/Arles for history. On the coast, Nice https://en.wikipedia.org/wiki/Nice is stunning with Mediterranean beaches."
+
+WRONG EXAMPLES (DO NOT DO THIS):
+❌ "**Live bait** (most effective)" - has asterisks
+❌ "# Bass Bait Selection" - has hashtag
+❌ "- Shiners" - has bullet point
+❌ "Quick Answer:" - has section header
+
+Speak naturally. No formatting. Ever.` + webContext;
+
+    // Tell the model which tools it can call mid-answer
+    if (ctx.tools && ctx.tools.size > 0) {
+      systemPrompt += `\n\n=== TOOLS ===
+You can call tools while answering: ${ctx.tools.toAnthropicTools().map((tool) => tool.name).join(", ")}.
+- Use web_search for anything current (news, prices, publications, events) and cite the URLs you find
+- Use calculator for any arithmetic instead of computing in your head${ctx.tools.has("consult_agent") ? "\n- Use consult_agent when part of the question belongs to another agent's expertise, then answer using what they said" : ""}
+- Do not mention the tools by name in your answer`;
+    }
+
+    // Enhance system prompt with matched skills
+    if (matchedSkills.length > 0) {
+      systemPrompt = buildSystemPromptWithSkills(systemPrompt, matchedSkills);
+    }
+
+    return { ...ctx, systemPrompt };
+  },
+};
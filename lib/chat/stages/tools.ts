@@ -0,0 +1,29 @@
+import { createChatToolRegistry } from "@/lib/ai/tools";
+import type { DelegationHop } from "@/types/conversation";
+import { createDelegationScope, createScopedDelegationTool } from "../delegation";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Give the model tools it can call mid-answer (web search, calculator,
+ * uploaded file lookup, consulting another agent). Remove this stage to fall
+ * back to pre-running web searches before the model speaks.
+ */
+export const toolsStage: ChatStage = {
+  name: "tools",
+  async run(ctx) {
+    const tools = createChatToolRegistry({
+      braveApiKey: ctx.userSettings?.apiKeys?.braveSearch,
+      fileContext: ctx.fileContext,
+    });
+
+    // Each answering agent gets its own hop log
+    const delegations: DelegationHop[] = [];
+    const scope = createDelegationScope(ctx, delegations);
+    const delegationTool = scope ? createScopedDelegationTool(scope) : null;
+    if (delegationTool) {
+      tools.register(delegationTool);
+    }
+
+    return { ...ctx, tools, delegations };
+  },
+};
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { checkUsageLimits } from "@/lib/db/usageLimitsDb";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Enforce trial limits for users without their own API key
+ */
+export const trialLimitsStage: ChatStage = {
+  name: "trial-limits",
+  async run(ctx) {
+    if (ctx.hasCustomKey) {
+      console.log("✅ Custom key detected - bypassing trial limits");
+      return ctx;
+    }
+
+    console.log("⚠️ No custom key - checking trial limits");
+
+    const limits = ctx.userSettings?.limits?.enabled ? ctx.userSettings.limits : {
+      enabled: true,
+      maxTokensPerUser: 10000,
+      maxRequestsPerHour: 20,
+      maxCostPerUser: 1.0,
+      requireAuth: true,
+    };
+
+    const { allowed, reason } = await checkUsageLimits(ctx.userId, {
+      maxTokensPerDay: limits.maxTokensPerUser,
+      maxRequestsPerHour: limits.maxRequestsPerHour,
+      maxCostPerDay: limits.maxCostPerUser,
+      requireAuth: limits.requireAuth,
+    });
+
+    if (!allowed) {
+      console.log("🚫 Trial limit reached for user:", ctx.userId);
+      console.log("🚫 Reason:", reason);
+      return NextResponse.json(
+        {
+          error: reason,
+          trialLimitReached: true,
+          limitType: "trial",
+          message: "Add your own API key in Settings to continue using the app without limits."
+        },
+        { status: 429 } // Too Many Requests
+      );
+    }
+
+    return ctx;
+  },
+};
@@ -0,0 +1,21 @@
+import { correctTyposAndVoiceErrors } from "@/lib/ai/typoCorrection";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Apply typo and voice recognition error correction
+ */
+export const typoCorrectionStage: ChatStage = {
+  name: "typo-correction",
+  async run(ctx) {
+    const correctionResult = correctTyposAndVoiceErrors(ctx.message);
+
+    if (correctionResult.corrections.length > 0) {
+      console.log("🔧 Voice corrections applied:");
+      correctionResult.corrections.forEach(c => {
+        console.log(`  "${c.original}" → "${c.corrected}" (confidence: ${c.confidence})`);
+      });
+    }
+
+    return { ...ctx, correctedMessage: correctionResult.correctedText };
+  },
+};
@@ -0,0 +1,28 @@
+import { getApiKeys, getUserSettings } from "@/lib/db/settingsDb";
+import type { ChatStage } from "../pipeline";
+
+/**
+ * Load the user's API keys and AI preferences
+ */
+export const userSettingsStage: ChatStage = {
+  name: "user-settings",
+  async run(ctx) {
+    const { anthropic: userApiKey, warnings } = await getApiKeys(ctx.userId);
+    const hasCustomKey = !!userApiKey && userApiKey !== process.env.ANTHROPIC_API_KEY;
+
+    console.log("🔑 User:", ctx.userId);
+    console.log("🔑 Has custom API key:", hasCustomKey);
+    console.log("🔑 API key warnings:", warnings);
+
+    const userSettings = await getUserSettings(ctx.userId);
+    let temperature = userSettings?.ai?.temperature ?? 0.3;
+    const responseLength = userSettings?.ai?.responseLength ?? "concise";
+
+    // Force very low temperature for concise mode to ensure strict rule following
+    if (responseLength === "concise" && temperature > 0.2) {
+      temperature = 0.2;
+    }
+
+    return { ...ctx, userApiKey, hasCustomKey, userSettings, temperature, responseLength };
+  },
+};
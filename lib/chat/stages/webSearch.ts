@@ -0,0 +1,265 @@
+import { searchWeb, formatSearchResults, SearchResponse, SearchResult } from "@/lib/search/webSearch";
+import { classifyIntentWithRules, hasIntent } from "@/lib/ai/intentRules";
+import type { Agent } from "@/types/agent";
+import type { SearchFreshness } from "@/types/intent";
+import type { ChatStage } from "../pipeline";
+
+const EMPTY_RESULTS: SearchResponse = { results: [], query: '', totalResults: 0 };
+
+type SearchFn = (query: string, count: number, freshness?: SearchFreshness) => Promise<SearchResponse>;
+
+/**
+ * Search the web for current information and build the prompt context block
+ */
+export const webSearchStage: ChatStage = {
+  name: "web-search",
+  async run(ctx) {
+    const { correctedMessage, agentUsed } = ctx;
+
+    // The model searches on demand when it has the web_search tool
+    if (ctx.tools?.has("web_search")) {
+      return ctx;
+    }
+
+    console.log("🔍 Performing web search for current information...");
+    const braveApiKey = ctx.userSettings?.apiKeys?.braveSearch;
+
+    // Count API calls so the turn is billed for them (no key means no call)
+    let searchCalls = 0;
+    const search: SearchFn = (query, count, freshness) => {
+      if (braveApiKey || process.env.BRAVE_SEARCH_API_KEY) {
+        searchCalls++;
+      }
+      return searchWeb(query, count, braveApiKey, freshness);
+    };
+
+    const intent = ctx.intent ?? classifyIntentWithRules(correctedMessage, ctx.agents);
+    const isAskingAboutPricing = hasIntent(intent, "pricing");
+    const isAskingAboutPublications = hasIntent(intent, "publications");
+    const isAskingForLatest = intent.slots.recency === "latest";
+
+    // Primary search - general information (more results for pricing queries,
+    // limited to the time window the user asked for)
+    const primarySearchCount = isAskingAboutPricing ? 8 : 3;
+    const searchResults = await search(correctedMessage, primarySearchCount, intent.slots.freshness);
+    
+    console.log("🔍 Publication search check:", { 
+      hasAgent: !!agentUsed, 
+      agentName: agentUsed?.name,
+      isAskingAboutPublications,
+      isAskingForLatest,
+      freshness: intent.slots.freshness,
+      message: correctedMessage 
+    });
+
+    let publishedResults = EMPTY_RESULTS;
+    if (agentUsed && isAskingAboutPublications) {
+      publishedResults = await searchPublications(agentUsed, isAskingForLatest, search);
+    } else {
+      const generalQuery = `${correctedMessage} site:medium.com OR site:towardsdatascience.com OR article OR blog`;
+      console.log("📰 Searching for general published content");
+      publishedResults = await search(generalQuery, 5);
+    }
+    
+    // Search for academic/research content
+    const academicQuery = `${correctedMessage} research OR paper OR study OR publication`;
+    console.log("📚 Searching for academic and research content...");
+    const academicResults = await search(academicQuery, 2);
+    
+    // Additional search for pricing information if detected (booking sites for travel)
+    let pricingResults = EMPTY_RESULTS;
+    if (isAskingAboutPricing) {
+      const year = new Date().getFullYear();
+      const pricingQuery = intent.slots.domain === "travel"
+        ? `${correctedMessage} booking.com OR hotels.com OR tripadvisor OR expedia ${year}`
+        : `${correctedMessage} price OR cost ${year}`;
+      console.log("💰 Searching for pricing information:", pricingQuery);
+      pricingResults = await search(pricingQuery, 5);
+    }
+    
+    // Combine all results, removing duplicates by URL
+    const seenUrls = new Set<string>();
+    let uniqueResults = [
+      ...publishedResults.results, // Prioritize publication results first
+      ...searchResults.results,
+      ...academicResults.results,
+      ...pricingResults.results
+    ].filter(result => {
+      if (seenUrls.has(result.url)) {
+        return false;
+      }
+      seenUrls.add(result.url);
+      return true;
+    });
+    
+    // If user asked for latest, sort by date (most recent first)
+    if (isAskingForLatest && uniqueResults.length > 0) {
+      console.log("📅 Sorting results by date (most recent first)");
+      uniqueResults = sortByRecency(uniqueResults);
+      
+      console.log("📊 Top 3 results after sorting:", uniqueResults.slice(0, 3).map(r => ({
+        title: r.title.substring(0, 50),
+        date: r.publishedDate
+      })));
+    }
+    
+    const allResults = {
+      results: uniqueResults,
+      query: correctedMessage,
+      totalResults: uniqueResults.length
+    };
+    
+    const webContext = allResults.results.length > 0 
+      ? `\n\n=== CURRENT WEB SEARCH RESULTS ===
+${formatSearchResults(allResults)}
+
+MANDATORY INSTRUCTIONS - YOU MUST FOLLOW THESE:
+1. The search results above contain REAL, CURRENT information from the web
+2. When the user asks about publications or articles, YOU MUST list the specific articles from the search results above
+3. DO NOT give generic responses - USE THE ACTUAL TITLES AND URLS from the search results
+4. ${isAskingForLatest ? 'THE USER ASKED FOR THE LATEST/LAST/MOST RECENT ARTICLE - Look at the search results and identify which article appears to be the MOST RECENT (look for dates, "ago" indicators, or position in results). START with that article.' : 'Format: "Here are the articles I found: [Article Title 1] at [URL1], [Article Title 2] at [URL2]"'}
+5. If Medium articles appear in search results, LIST EACH ONE with its title and URL
+6. NEVER say "I don't have access" or "check my profile" when search results are provided - CITE THE RESULTS DIRECTLY
+7. The URLs in the search results are REAL and CURRENT - include them in your response
+8. Example response: "I found these Medium articles: Understanding AI Ethics https://medium.com/@author/ai-ethics-123 and Machine Learning Basics https://medium.com/@author/ml-basics-456"
+${isAskingForLatest ? '\n⚠️ CRITICAL: User specifically asked for LATEST/LAST/RECENT - prioritize the most recent article from the search results!' : ''}
+${isAskingAboutPricing ? '\n\n💰 PRICING INFORMATION INSTRUCTIONS:\n- The user is asking about PRICES, COSTS, or HOTEL RATES\n- The search results above contain REAL pricing information from booking sites\n- YOU MUST extract and provide the specific prices, room types, and rates mentioned in the search results\n- Include the booking site URLs where users can verify and book\n- DO NOT say you cannot provide prices - the search results contain this information\n- Example: "Based on current rates, the Monte Carlo Hotel offers rooms starting at 500 euros per night for a standard room. You can check availability at https://booking.com/monte-carlo or https://hotels.com/monte-carlo"' : ''}
+
+CRITICAL: If search results are provided above, you MUST reference them specifically in your answer.`
+      : "";
+    
+    console.log(`📊 Web search: ${allResults.results.length} unique results (${searchResults.results.length} general, ${publishedResults.results.length} published, ${academicResults.results.length} academic${isAskingAboutPricing ? `, ${pricingResults.results.length} pricing` : ''})`);
+
+    return { ...ctx, webContext, searchCalls: ctx.searchCalls + searchCalls };
+  },
+};
+
+/**
+ * Try multiple search strategies to find an agent's published articles
+ */
+async function searchPublications(
+  agent: Agent,
+  isAskingForLatest: boolean,
+  search: SearchFn
+): Promise<SearchResponse> {
+  // Extract person name from agent name (e.g., "Dr. Ernesto Lee - Title" -> "Ernesto Lee")
+  const fullName = agent.name.split('-')[0].trim().replace(/^(Dr\.|Professor|Mr\.|Ms\.|Mrs\.)\s*/i, '');
+  const nameParts = fullName.split(' ');
+  const firstName = nameParts[0];
+  const lastName = nameParts[nameParts.length - 1];
+  let publishedResults = EMPTY_RESULTS;
+
+  // Try multiple search strategies to find Medium articles
+  console.log("📰 Trying multiple search strategies for Medium articles...", isAskingForLatest ? "(LATEST - trying past day first)" : "");
+  
+  // Strategy 1: For LATEST, try Medium site search first (better for very recent articles)
+  if (isAskingForLatest) {
+    // Direct Medium search catches articles that haven't been indexed by general search yet
+    const queryMediumLatest = `"${fullName}" site:medium.com`;
+    console.log("  Strategy 1 (Medium site, PAST DAY):", queryMediumLatest);
+    publishedResults = await search(queryMediumLatest, 10, "pd"); // Past day
+    
+    if (publishedResults.results.length === 0) {
+      console.log("  Strategy 1b (Medium site, PAST WEEK):", queryMediumLatest);
+      publishedResults = await search(queryMediumLatest, 10, "pw"); // Past week
+    }
+    
+    if (publishedResults.results.length === 0) {
+      console.log("  Strategy 1c (Medium site, PAST MONTH):", queryMediumLatest);
+      publishedResults = await search(queryMediumLatest, 10, "pm"); // Past month
+    }
+  }
+  
+  // Strategy 2: UNRESTRICTED search - catches custom domains and all Medium articles
+  if (publishedResults.results.length === 0) {
+    const query1Unrestricted = `"${fullName}" article published`;
+    if (isAskingForLatest) {
+      console.log("  Strategy 2 (unrestricted, PAST MONTH):", query1Unrestricted);
+      publishedResults = await search(query1Unrestricted, 10, "pm");
+    } else {
+      // For general publication search: past month
+      console.log("  Strategy 1 (unrestricted, recent):", query1Unrestricted);
+      publishedResults = await search(query1Unrestricted, 10, "pm");
+    }
+  }
+  
+  // Strategy 2: If no academic results, try Medium/blog articles (past year for better coverage)
+  if (publishedResults.results.length === 0) {
+    const query2Medium = `"${fullName}" (site:medium.com OR site:*.medium.com OR article OR blog)`;
+    console.log("  Strategy 2 (Medium, past year):", query2Medium);
+    publishedResults = await search(query2Medium, 10, "py");
+  }
+  
+  // Strategy 3: UNRESTRICTED search for very recent articles (catches custom domains)
+  if (publishedResults.results.length === 0) {
+    const query3Unrestricted = `"${fullName}" article published`;
+    console.log("  Strategy 3 (unrestricted, recent):", query3Unrestricted);
+    publishedResults = await search(query3Unrestricted, 10, "pm"); // Past month - most recent
+  }
+  
+  // Strategy 4: First and last name separately
+  if (publishedResults.results.length === 0) {
+    const query4 = `${firstName} ${lastName} (publication OR research OR article)`;
+    console.log("  Strategy 4 (name parts):", query4);
+    publishedResults = await search(query4, 10);
+  }
+  
+  // Strategy 5: Just last name + research keywords (if still no results)
+  if (publishedResults.results.length === 0) {
+    const query5 = `${lastName} research author publication`;
+    console.log("  Strategy 5 (last name + keywords):", query5);
+    publishedResults = await search(query5, 10);
+  }
+  
+  console.log(`📊 Found ${publishedResults.results.length} publications after trying multiple strategies`);
+
+  return publishedResults;
+}
+
+/**
+ * Sort results by published date, most recent first
+ */
+function sortByRecency(results: SearchResult[]): SearchResult[] {
+  return results.sort((a, b) => {
+    // Results with dates come before those without
+    if (a.publishedDate && !b.publishedDate) return -1;
+    if (!a.publishedDate && b.publishedDate) return 1;
+    if (!a.publishedDate && !b.publishedDate) return 0;
+    
+    // Parse date strings (e.g., "2 days ago", "1 week ago", "Oct 13, 2023")
+    const getDateValue = (dateStr: string): number => {
+      const lower = dateStr.toLowerCase();
+      
+      // Handle relative dates (e.g., "5 hours ago", "2 days ago")
+      if (lower.includes('hour')) {
+        const hours = parseInt(lower) || 0;
+        return Date.now() - (hours * 60 * 60 * 1000);
+      }
+      if (lower.includes('day')) {
+        const days = parseInt(lower) || 0;
+        return Date.now() - (days * 24 * 60 * 60 * 1000);
+      }
+      if (lower.includes('week')) {
+        const weeks = parseInt(lower) || 0;
+        return Date.now() - (weeks * 7 * 24 * 60 * 60 * 1000);
+      }
+      if (lower.includes('month')) {
+        const months = parseInt(lower) || 0;
+        return Date.now() - (months * 30 * 24 * 60 * 60 * 1000);
+      }
+      if (lower.includes('year')) {
+        const years = parseInt(lower) || 0;
+        return Date.now() - (years * 365 * 24 * 60 * 60 * 1000);
+      }
+      
+      // Try parsing as actual date
+      const parsed = new Date(dateStr);
+      return isNaN(parsed.getTime()) ? 0 : parsed.getTime();
+    };
+    
+    const dateA = getDateValue(a.publishedDate!);
+    const dateB = getDateValue(b.publishedDate!);
+    
+    return dateB - dateA; // Most recent first
+  });
+}
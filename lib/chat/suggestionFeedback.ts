@@ -0,0 +1,134 @@
+/**
+ * Suggestion Feedback
+ * Learns from how users answer agent/skill suggestions: topics declined too
+ * often stop being suggested, and accepted suggestions raise the matching
+ * confidence of the agent involved.
+ */
+
+import { increaseAgentAffinity, recordSuggestionFeedback } from "@/lib/db/routingPreferencesDb";
+import { AGENT_DEFAULTS, SUGGESTION_FEEDBACK_DEFAULTS } from "@/lib/constants";
+import type { UserSettings } from "@/lib/db/settingsDb";
+import type { RoutingDecision, RoutingPreferences, RoutingSuggestion } from "@/types/routing";
+import type { ChatMatchResult } from "./pipeline";
+
+function topicWords(name: string): string[] {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/**
+ * Stable key for a suggested topic (safe to use as a MongoDB field name)
+ */
+export function suggestionKey(type: RoutingSuggestion["type"], name: string): string {
+  return `${type}-${topicWords(name).join("-")}`;
+}
+
+/**
+ * Whether two suggested topics are about the same thing
+ * (same significant words, tolerant of the matcher rewording the name)
+ */
+function isSameTopic(a: string, b: string): boolean {
+  const aWords = topicWords(a).filter((w) => w.length > 3);
+  const bWords = topicWords(b).filter((w) => w.length > 3);
+  if (aWords.length === 0 || bWords.length === 0) {
+    return topicWords(a).join(" ") === topicWords(b).join(" ");
+  }
+
+  const overlap = aWords.filter((w) => bWords.some((bw) => bw.includes(w) || w.includes(bw)));
+  return overlap.length >= Math.min(2, aWords.length, bWords.length);
+}
+
+/**
+ * The user's match confidence threshold, clamped to the allowed range
+ */
+export function getMatchConfidenceThreshold(settings: UserSettings | null): number {
+  const threshold = settings?.ai?.matchConfidenceThreshold ?? AGENT_DEFAULTS.MATCH_CONFIDENCE_THRESHOLD;
+  return Math.min(
+    SUGGESTION_FEEDBACK_DEFAULTS.MAX_CONFIDENCE_THRESHOLD,
+    Math.max(SUGGESTION_FEEDBACK_DEFAULTS.MIN_CONFIDENCE_THRESHOLD, threshold)
+  );
+}
+
+/**
+ * How many declines silence a topic for this user
+ */
+export function getSuggestionDeclineLimit(settings: UserSettings | null): number {
+  const limit = settings?.ai?.suggestionDeclineLimit ?? SUGGESTION_FEEDBACK_DEFAULTS.DECLINE_LIMIT;
+  return Math.min(
+    SUGGESTION_FEEDBACK_DEFAULTS.MAX_DECLINE_LIMIT,
+    Math.max(SUGGESTION_FEEDBACK_DEFAULTS.MIN_DECLINE_LIMIT, Math.round(limit))
+  );
+}
+
+/**
+ * Whether the user has declined this topic often enough to stop suggesting it
+ */
+export function isDeclinedTopic(
+  preferences: RoutingPreferences | null,
+  type: RoutingSuggestion["type"],
+  name: string,
+  declineLimit: number
+): boolean {
+  if (!preferences) return false;
+
+  return Object.values(preferences.suggestions || {}).some(
+    (feedback) => feedback.type === type && feedback.declines >= declineLimit && isSameTopic(feedback.name, name)
+  );
+}
+
+/**
+ * Adjust a match result with what was learned for the user:
+ * affinity boosts the matched agent's confidence, confident matches don't
+ * suggest new agents, and repeatedly declined topics aren't suggested again
+ */
+export function applySuggestionFeedback(
+  matchResult: ChatMatchResult,
+  preferences: RoutingPreferences | null,
+  settings: UserSettings | null
+): ChatMatchResult {
+  const threshold = getMatchConfidenceThreshold(settings);
+  const declineLimit = getSuggestionDeclineLimit(settings);
+  const result = { ...matchResult };
+
+  const agentId = result.matchedAgent?._id?.toString();
+  const affinity = agentId ? preferences?.agentAffinity?.[agentId] ?? 0 : 0;
+  if (affinity > 0) {
+    result.confidence = Math.min(1, result.confidence + affinity);
+    console.log(`💞 Affinity boost for ${result.matchedAgent?.name}: +${affinity.toFixed(2)}`);
+  }
+
+  if (result.suggestNewAgent && result.matchedAgent && result.confidence >= threshold) {
+    console.log(`🎚️ Match confidence ${result.confidence.toFixed(2)} >= ${threshold} - not suggesting a new agent`);
+    result.suggestNewAgent = false;
+  }
+
+  if (result.suggestion) {
+    const declinedAgent = result.suggestNewAgent && isDeclinedTopic(preferences, "agent", result.suggestion, declineLimit);
+    const declinedSkill = result.suggestNewSkill && isDeclinedTopic(preferences, "skill", result.suggestion, declineLimit);
+    if (declinedAgent || declinedSkill) {
+      console.log(`🙅 "${result.suggestion}" was declined ${declineLimit}+ times - not suggesting it`);
+      result.suggestNewAgent = result.suggestNewAgent && !declinedAgent;
+      result.suggestNewSkill = result.suggestNewSkill && !declinedSkill;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Learn from the user's answer to a routing decision's suggestion
+ */
+export async function learnFromSuggestionOutcome(userId: string, decision: RoutingDecision): Promise<void> {
+  const { suggestion } = decision;
+  if (!suggestion?.outcome) return;
+
+  await recordSuggestionFeedback(userId, suggestionKey(suggestion.type, suggestion.name), suggestion, suggestion.outcome);
+
+  if (suggestion.outcome === "accepted" && suggestion.agentId) {
+    await increaseAgentAffinity(
+      userId,
+      suggestion.agentId,
+      SUGGESTION_FEEDBACK_DEFAULTS.AFFINITY_STEP,
+      SUGGESTION_FEEDBACK_DEFAULTS.MAX_AFFINITY
+    );
+  }
+}
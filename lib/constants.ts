@@ -1,20 +1,7 @@
-// API Cost Constants (per 1M tokens)
-export const CLAUDE_COSTS = {
-  HAIKU: {
-    INPUT: 1.0,
-    OUTPUT: 5.0,
-    CACHED_INPUT: 0.1,
-  },
-  SONNET: {
-    INPUT: 3.0,
-    OUTPUT: 15.0,
-    CACHED_INPUT: 0.3,
-  },
-} as const;
+// Prices live in lib/usage/pricing.ts (versioned price tables)
 
 // ElevenLabs Constants
 export const ELEVENLABS_COSTS = {
-  CHARACTERS_PER_DOLLAR: 6000, // Approximate for $5/month plan
   MONTHLY_LIMIT: parseInt(process.env.ELEVENLABS_MONTHLY_LIMIT || "30000"),
 } as const;
 
@@ -26,19 +13,173 @@ export const BUDGET_DEFAULTS = {
 
 // Agent Constants
 export const AGENT_DEFAULTS = {
-  MATCH_CONFIDENCE_THRESHOLD: 0.7,
+  MATCH_CONFIDENCE_THRESHOLD: 0.7, // Default; users can tune it (settings.ai.matchConfidenceThreshold)
   MAX_AGENTS_PER_USER: 50,
   MAX_EVOLUTION_HISTORY: 20,
 } as const;
 
+// Portable agent bundles (export/import between accounts or environments)
+export const BUNDLE_DEFAULTS = {
+  FORMAT: "companion-x.agent-bundle",
+  VERSION: 1, // Bump when the bundle schema changes; older versions stay importable
+  MAX_BUNDLE_BYTES: 5 * 1024 * 1024,
+  MAX_SKILLS: 100,
+  MAX_FACTS: 1000,
+} as const;
+
+// Thumbs up/down on assistant replies (feeds agent and skill success rates)
+export const FEEDBACK_DEFAULTS = {
+  MAX_COMMENT_LENGTH: 1000,
+  MAX_ANSWER_LENGTH: 2000, // Answer excerpt stored with the feedback
+  EVOLUTION_FEEDBACK_LIMIT: 20, // Recent ratings given to the evolution analysis
+} as const;
+
+// Agent evolution job (proposals the owner reviews before they apply)
+export const EVOLUTION_DEFAULTS = {
+  MIN_QUESTIONS: 5, // Agents with fewer answers are not analyzed by the job
+  MAX_AGENTS_PER_RUN: 5,
+  CONVERSATIONS_PER_AGENT: 10,
+  MAX_NEW_ITEMS_PER_FIELD: 5, // Expertise/capabilities/facts added per proposal
+} as const;
+
+// Duplicate agent detection (deterministic - no model call)
+export const DUPLICATE_AGENT_DEFAULTS = {
+  SIMILARITY_THRESHOLD: 0.5, // Name or profile overlap at/above this is a near-duplicate
+  SHORT_NAME_SCORE: 0.9, // "Dr. Lee" vs "Dr. Ernesto Lee - AI Educator"
+  EXPERTISE_WEIGHT: 0.6, // Profile overlap = expertise * weight + description * (1 - weight)
+  MAX_RESULTS: 3,
+} as const;
+
+// Generation Constants (per-agent overrides are clamped to these)
+export const GENERATION_DEFAULTS = {
+  MAX_TOKENS: 4096,
+  MIN_MAX_TOKENS: 256,
+  MAX_MAX_TOKENS: 8192,
+  MIN_TEMPERATURE: 0,
+  MAX_TEMPERATURE: 1,
+} as const;
+
+// Model Routing (automatic Haiku -> Sonnet escalation)
+export const MODEL_ROUTING = {
+  ENABLED: process.env.MODEL_AUTO_ESCALATION !== "false",
+  ESCALATION_SCORE: 3, // Complexity score at which chat escalates to the quality tier
+  LONG_MESSAGE_CHARS: 600,
+  VERY_LONG_MESSAGE_CHARS: 1500,
+  LARGE_FILE_CONTEXT_CHARS: 20000,
+  LONG_HISTORY_MESSAGES: 12,
+  // Stop escalating once this % of the monthly budget is used
+  BUDGET_CUTOFF_PERCENT: parseFloat(process.env.BUDGET_ALERT_THRESHOLD || "80"),
+} as const;
+
+// Rate Limiting
+// "mongodb" shares limits across serverless instances; "memory" is per process
+export const RATE_LIMIT_DEFAULTS = {
+  STORE: process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === "production" ? "mongodb" : "memory"),
+} as const;
+
+// Embedding retrieval (shortlists agents and skills before the LLM matcher)
+// EMBEDDING_PROVIDER: "local" (pure TypeScript, offline) or "openai-compatible"
+export const EMBEDDING_DEFAULTS = {
+  PROVIDER: process.env.EMBEDDING_PROVIDER || "local",
+  MODEL: process.env.EMBEDDING_MODEL || "text-embedding-3-small",
+  LOCAL_DIMENSIONS: 512,
+  AGENT_TOP_K: 8, // Agents sent to the LLM matcher
+  SKILL_TOP_K: 5, // Skills sent to the LLM skill ranker
+  MIN_SKILL_SCORE: 0.08, // Cosine similarity below this is treated as unrelated
+} as const;
+
+// Agent matching strategy chain (lib/ai/agentMatcher.ts)
+// MATCHER_STRATEGIES picks and orders the strategies; later ones run when an
+// earlier one fails, times out or finds nothing
+export const MATCHER_DEFAULTS = {
+  STRATEGIES: process.env.MATCHER_STRATEGIES || "llm,embedding,keyword",
+  LLM_TIMEOUT_MS: 20000,
+  EMBEDDING_TIMEOUT_MS: 5000,
+  KEYWORD_TIMEOUT_MS: 1000,
+  MIN_EMBEDDING_SCORE: 0.1, // Best agent similarity below this is treated as no match
+  FALLBACK_MAX_CONFIDENCE: 0.7, // Confidence cap for the embedding and keyword strategies
+} as const;
+
 // Conversation Constants
 export const CONVERSATION_DEFAULTS = {
   MAX_MESSAGES_PER_SESSION: 100,
   SESSION_TIMEOUT_HOURS: 24,
 } as const;
 
+// Panel mode (several agents answer one multi-domain question)
+export const PANEL_DEFAULTS = {
+  SIZE: 3, // Agents on the panel, including the best match
+  MIN_SIZE: 2,
+  MAX_SIZE: 4,
+  MODERATOR: true, // Synthesize a consensus answer after the panelists
+} as const;
+
+// Suggestion Feedback (learned from accepted/declined agent and skill suggestions)
+export const SUGGESTION_FEEDBACK_DEFAULTS = {
+  DECLINE_LIMIT: 2, // Declines after which a topic is no longer suggested
+  MIN_DECLINE_LIMIT: 1,
+  MAX_DECLINE_LIMIT: 10,
+  MIN_CONFIDENCE_THRESHOLD: 0.3, // Bounds for the per-user match confidence threshold
+  MAX_CONFIDENCE_THRESHOLD: 0.95,
+  AFFINITY_STEP: 0.05, // Confidence boost gained per accepted suggestion
+  MAX_AFFINITY: 0.2,
+} as const;
+
 // Model Names - Claude 4 Family
 export const CLAUDE_MODELS = {
   HAIKU: "claude-haiku-4-5-20251001",
   SONNET: "claude-sonnet-4-5-20250929",
 } as const;
+
+// Tool Use Constants
+export const TOOL_DEFAULTS = {
+  MAX_ITERATIONS: 5,
+  TIMEOUT_MS: 15000,
+  RESULT_PREVIEW_LENGTH: 500,
+} as const;
+
+// Agent-to-agent delegation (consult_agent tool)
+export const DELEGATION_DEFAULTS = {
+  MAX_DEPTH: 2, // Delegation hops below the answering agent
+  MAX_TOKENS: 1024, // Per delegate answer
+  MAX_ITERATIONS: 3, // Tool-loop iterations for a delegate
+  TIMEOUT_MS: 60000, // Includes any nested delegation
+} as const;
+
+// Clarifying questions (needsClarification from the matcher)
+// A short reply or a quick reply is merged into the pending question;
+// anything else starts over
+export const CLARIFICATION_DEFAULTS = {
+  MAX_ROUNDS: 2, // Then answer with the general assistant instead of asking again
+  MAX_INTERPRETATIONS: 4,
+  MAX_REPLY_WORDS: 12,
+  EXPIRY_MS: 30 * 60 * 1000,
+} as const;
+
+// Intent classification (rules, optionally refined by an LLM tool call)
+export const INTENT_DEFAULTS = {
+  LLM_ENABLED: process.env.INTENT_LLM_CLASSIFICATION === "true",
+  LLM_MAX_TOKENS: 512,
+} as const;
+
+// OpenAI-compatible provider defaults (e.g. a local Ollama or vLLM server)
+export const OPENAI_COMPATIBLE_DEFAULTS = {
+  BASE_URL: process.env.OPENAI_COMPATIBLE_BASE_URL || "http://localhost:11434/v1",
+  API_KEY: process.env.OPENAI_COMPATIBLE_API_KEY || "",
+  FAST_MODEL: process.env.OPENAI_COMPATIBLE_FAST_MODEL || "llama3.1:8b",
+  QUALITY_MODEL: process.env.OPENAI_COMPATIBLE_QUALITY_MODEL || "llama3.1:70b",
+  // Users' own base URLs must be public https servers, except in development
+  // (BASE_URL above is set by the operator and always trusted)
+  ALLOW_PRIVATE_BASE_URLS: process.env.NODE_ENV === "development",
+} as const;
+
+// Offline mock provider (no network, no API key)
+// AI_MOCK=true routes every model call through scripted fixtures;
+// AI_MOCK_FIXTURES points at extra fixtures (JSON array) checked first;
+// AI_MOCK_RECORD records real responses into a fixture file for replay
+export const MOCK_PROVIDER_DEFAULTS = {
+  ENABLED: process.env.AI_MOCK === "true",
+  FIXTURES_PATH: process.env.AI_MOCK_FIXTURES || "",
+  RECORD_PATH: process.env.AI_MOCK_RECORD || "",
+  AGENT_SELECTABLE: process.env.NODE_ENV === "development", // Agents may pick provider "mock"
+} as const;
@@ -1,15 +1,29 @@
 import { getDatabase } from "../mongodb";
-import { Agent, Evolution } from "@/types/agent";
+import { Agent, AgentSnapshot, Evolution } from "@/types/agent";
 import { ObjectId } from "mongodb";
+import { AGENT_DEFAULTS } from "../constants";
+import { deleteAgentVersions, getAgentVersion, saveAgentVersion } from "./agentVersionDb";
+import { deleteEmbeddings } from "./embeddingDb";
+import { deleteEvolutionProposals } from "./evolutionDb";
+import { reassignAgentFeedback } from "./feedbackDb";
+import { copyAgentSkills, moveAgentSkills } from "./skillDb";
+import { deleteAgentShares, getAgentSubscriptions, isSubscribedToAgent } from "./shareDb";
+import { reassignAgentReferences } from "./conversationDb";
+import { mergeAgentProfiles } from "../ai/agentDuplicates";
+import { diffAgentSnapshots, toAgentSnapshot } from "../evolution/versions";
 
 const COLLECTION_NAME = "agents";
 
 /**
  * Create a new agent
+ * Imported agents may bring their evolution history along.
  */
 export async function createAgent(
-  agent: Omit<Agent, "_id" | "userId" | "createdAt" | "updatedAt" | "version" | "performanceMetrics" | "evolutionHistory">,
-  userId: string
+  agent: Omit<Agent, "_id" | "userId" | "createdAt" | "updatedAt" | "version" | "performanceMetrics" | "evolutionHistory"> & {
+    evolutionHistory?: Evolution[];
+  },
+  userId: string,
+  reason: string = "Created"
 ): Promise<Agent> {
   const db = await getDatabase();
   const collection = db.collection<Agent>(COLLECTION_NAME);
@@ -23,14 +37,17 @@ export async function createAgent(
       avgResponseTime: 0,
       lastUsed: new Date(),
     },
-    evolutionHistory: [],
+    evolutionHistory: agent.evolutionHistory ?? [],
     createdAt: new Date(),
     updatedAt: new Date(),
     version: 1,
   };
 
   const result = await collection.insertOne(newAgent);
-  return { ...newAgent, _id: result.insertedId.toString() };
+  const created = { ...newAgent, _id: result.insertedId.toString() };
+
+  await saveAgentVersion(created, [], reason);
+  return created;
 }
 
 /**
@@ -84,15 +101,22 @@ export async function getUserAgents(userId: string): Promise<Agent[]> {
 
 /**
  * Update agent
+ * Every update is a new version; the new state is saved to agent_versions
+ * (together with the previous one if the agent predates version history).
  */
 export async function updateAgent(
   id: string,
   userId: string,
-  updates: Partial<Agent>
+  updates: Partial<Agent>,
+  reason: string = "Edited"
 ): Promise<Agent | null> {
   const db = await getDatabase();
   const collection = db.collection<Agent>(COLLECTION_NAME);
 
+  const current = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!current) return null;
+  await saveAgentVersion({ ...current, _id: id }, [], "Before version history");
+
   const result = await collection.findOneAndUpdate(
     { _id: new ObjectId(id), userId },
     {
@@ -107,10 +131,49 @@ export async function updateAgent(
 
   if (!result) return null;
 
-  return {
-    ...result,
-    _id: result._id?.toString(),
-  };
+  const updated = { ...result, _id: result._id?.toString() };
+  await saveAgentVersion(updated, Object.keys(updates), reason);
+  return updated;
+}
+
+/**
+ * Roll an agent back to one of its saved versions
+ * The rollback is itself a new version, so it can be undone the same way.
+ */
+export async function rollbackAgent(
+  id: string,
+  userId: string,
+  version: number
+): Promise<Agent | null> {
+  const [current, target] = await Promise.all([
+    getAgent(id, userId),
+    getAgentVersion(id, version, userId),
+  ]);
+  if (!current || !target) return null;
+
+  // Only restore the fields that differ (facts/sources live in knowledgeBase)
+  const changedFields = [
+    ...new Set(
+      diffAgentSnapshots(toAgentSnapshot(current), target.snapshot).map(({ field }) =>
+        field === "facts" || field === "sources" ? "knowledgeBase" : field
+      )
+    ),
+  ] as (keyof AgentSnapshot)[];
+  if (changedFields.length === 0) return current;
+
+  const updates: Partial<Agent> = Object.fromEntries(
+    changedFields.map((field) => [field, target.snapshot[field]])
+  );
+  const agent = await updateAgent(id, userId, updates, `Rolled back to version ${version}`);
+  if (!agent) return null;
+
+  await logAgentEvolution(id, {
+    improvement: `Rolled back to version ${version}`,
+    reason: target.reason,
+    changedFields,
+  });
+
+  return getAgent(id, userId);
 }
 
 /**
@@ -128,9 +191,67 @@ export async function deleteAgent(
     userId,
   });
 
+  if (result.deletedCount > 0) {
+    await deleteEmbeddings("agent", id);
+    await deleteEvolutionProposals(id);
+    await deleteAgentVersions(id);
+    await deleteAgentShares(id);
+  }
+
   return result.deletedCount > 0;
 }
 
+/**
+ * Merge a duplicate agent into another
+ * The target absorbs the source's expertise, capabilities, knowledge base,
+ * skills and metrics, conversations are pointed at the target, and the
+ * source is deleted.
+ */
+export async function mergeAgents(
+  targetId: string,
+  sourceId: string,
+  userId: string
+): Promise<{ agent: Agent; movedSkills: number; mergedSkills: number; updatedConversations: number } | null> {
+  if (targetId === sourceId) {
+    throw new Error("Cannot merge an agent into itself");
+  }
+
+  const [target, source] = await Promise.all([
+    getAgent(targetId, userId),
+    getAgent(sourceId, userId),
+  ]);
+  if (!target || !source) return null;
+
+  const updated = await updateAgent(targetId, userId, mergeAgentProfiles(target, source), `Merged "${source.name}"`);
+  if (!updated) return null;
+
+  const skills = await moveAgentSkills(sourceId, targetId);
+  const updatedConversations = await reassignAgentReferences(userId, sourceId, targetId, target.name);
+  await reassignAgentFeedback(sourceId, targetId, target.name);
+
+  await logAgentEvolution(targetId, {
+    improvement: `Merged "${source.name}" into this agent`,
+    reason: "Duplicate agent merge",
+    changedFields: ["expertise", "capabilities", "knowledgeBase", "performanceMetrics"],
+  });
+  await deleteAgent(sourceId, userId);
+
+  console.log(`🔀 Merged agent "${source.name}" into "${target.name}":`, {
+    movedSkills: skills.moved,
+    mergedSkills: skills.merged,
+    updatedConversations,
+  });
+
+  const agent = await getAgent(targetId, userId);
+
+  return {
+    agent: agent ?? updated,
+    movedSkills: skills.moved,
+    mergedSkills: skills.merged,
+    updatedConversations,
+  };
+}
+
 /**
  * Search agents by expertise keywords
  */
@@ -160,6 +281,9 @@ export async function searchAgentsByExpertise(
 
 /**
  * Log agent evolution
+ * Describes a change already made through updateAgent (which bumped the
+ * version and saved the snapshot); only the newest
+ * AGENT_DEFAULTS.MAX_EVOLUTION_HISTORY entries are kept.
  */
 export async function logAgentEvolution(
   agentId: string,
@@ -176,15 +300,20 @@ export async function logAgentEvolution(
   await collection.updateOne(
     { _id: new ObjectId(agentId) },
     {
-      $push: { evolutionHistory: evolutionEntry },
+      $push: {
+        evolutionHistory: {
+          $each: [evolutionEntry],
+          $slice: -AGENT_DEFAULTS.MAX_EVOLUTION_HISTORY,
+        },
+      },
       $set: { updatedAt: new Date() },
-      $inc: { version: 1 },
     }
   );
 }
 
 /**
  * Update agent performance metrics
+ * (lastUsed is only moved by incrementQuestionsHandled, when the agent answers)
  */
 export async function updateAgentMetrics(
   agentId: string,
@@ -197,9 +326,7 @@ export async function updateAgentMetrics(
   const db = await getDatabase();
   const collection = db.collection<Agent>(COLLECTION_NAME);
 
-  const updateFields: any = {
-    "performanceMetrics.lastUsed": new Date(),
-  };
+  const updateFields: Record<string, number> = {};
 
   if (metrics.questionsHandled !== undefined) {
     updateFields["performanceMetrics.questionsHandled"] = metrics.questionsHandled;
@@ -211,6 +338,8 @@ export async function updateAgentMetrics(
     updateFields["performanceMetrics.avgResponseTime"] = metrics.avgResponseTime;
   }
 
+  if (Object.keys(updateFields).length === 0) return;
+
   await collection.updateOne(
     { _id: new ObjectId(agentId) },
     { $set: updateFields }
@@ -234,21 +363,76 @@ export async function incrementQuestionsHandled(agentId: string): Promise<void>
 }
 
 /**
- * Share agent with other users
+ * Get the agents other users shared with this user as live subscriptions
+ * Each is marked with sharedBy (the owner) so it is treated as read-only.
  */
-export async function shareAgent(
-  agentId: string,
-  withUserIds: string[]
-): Promise<void> {
-  // This would update the sharedAgents array in the User collection
-  // Implementation depends on sharing model (copy vs reference)
+export async function getSharedAgents(userId: string): Promise<Agent[]> {
+  const subscriptions = await getAgentSubscriptions(userId);
+  if (subscriptions.length === 0) return [];
+
+  const db = await getDatabase();
+  const collection = db.collection<Agent>(COLLECTION_NAME);
+
+  const agents = await collection
+    .find({
+      $or: subscriptions.map((subscription) => ({
+        _id: new ObjectId(subscription.agentId),
+        userId: subscription.ownerId,
+      })),
+    })
+    .toArray();
+
+  return agents.map((agent) => ({
+    ...agent,
+    _id: agent._id?.toString(),
+    sharedBy: agent.userId,
+  }));
+}
+
+/**
+ * Get every agent a user can chat with: their own plus those shared with them
+ */
+export async function getAccessibleAgents(userId: string): Promise<Agent[]> {
+  const [owned, shared] = await Promise.all([getUserAgents(userId), getSharedAgents(userId)]);
+  return [...owned, ...shared];
+}
+
+/**
+ * Get an agent the user owns or subscribes to
+ */
+export async function getAccessibleAgent(
+  id: string,
+  userId: string
+): Promise<Agent | null> {
+  const owned = await getAgent(id, userId);
+  if (owned) return owned;
+
+  if (!(await isSubscribedToAgent(id, userId))) return null;
+
   const db = await getDatabase();
-  const usersCollection = db.collection("users");
+  const collection = db.collection<Agent>(COLLECTION_NAME);
+  const agent = await collection.findOne({ _id: new ObjectId(id) });
+
+  return agent ? { ...agent, _id: agent._id?.toString(), sharedBy: agent.userId } : null;
+}
 
-  await usersCollection.updateMany(
-    { googleId: { $in: withUserIds } },
-    { $addToSet: { sharedAgents: agentId } }
+/**
+ * Fork a shared agent: the user gets their own copy of it and its skills,
+ * with fresh metrics and history
+ */
+export async function forkAgent(source: Agent, userId: string): Promise<Agent> {
+  const sourceId = source._id!.toString();
+
+  const fork = await createAgent(
+    {
+      ...toAgentSnapshot(source),
+      forkedFrom: { agentId: sourceId, ownerId: source.userId, version: source.version },
+    },
+    userId
   );
+  await copyAgentSkills(sourceId, fork._id!.toString());
+
+  return fork;
 }
 
 /**
@@ -261,6 +445,31 @@ export async function getAgentCount(userId: string): Promise<number> {
   return await collection.countDocuments({ userId });
 }
 
+/**
+ * Get agents with enough answers to be analyzed by the evolution job
+ * (all users unless one is given)
+ */
+export async function getEvolutionCandidates(
+  minQuestions: number,
+  userId?: string
+): Promise<Agent[]> {
+  const db = await getDatabase();
+  const collection = db.collection<Agent>(COLLECTION_NAME);
+
+  const agents = await collection
+    .find({
+      ...(userId ? { userId } : {}),
+      "performanceMetrics.questionsHandled": { $gte: minQuestions },
+    })
+    .sort({ "performanceMetrics.questionsHandled": -1 })
+    .toArray();
+
+  return agents.map((agent) => ({
+    ...agent,
+    _id: agent._id?.toString(),
+  }));
+}
+
 /**
  * Get most used agents
  */
@@ -0,0 +1,102 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import { AGENT_DEFAULTS } from "../constants";
+import { toAgentSnapshot } from "../evolution/versions";
+import type { Agent, AgentVersion } from "@/types/agent";
+
+const COLLECTION_NAME = "agent_versions";
+
+type AgentVersionDocument = Omit<AgentVersion, "_id"> & { _id?: ObjectId };
+
+function toVersion(version: AgentVersionDocument): AgentVersion {
+  return {
+    ...version,
+    _id: version._id?.toString(),
+  };
+}
+
+/**
+ * Save a snapshot of the agent at its current version
+ * Snapshots are immutable: saving a version that already exists is a no-op.
+ * Only the newest AGENT_DEFAULTS.MAX_EVOLUTION_HISTORY versions are kept.
+ */
+export async function saveAgentVersion(
+  agent: Agent,
+  changedFields: string[],
+  reason: string
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentVersionDocument>(COLLECTION_NAME);
+  const agentId = agent._id!.toString();
+
+  const result = await collection.updateOne(
+    { agentId, version: agent.version },
+    {
+      $setOnInsert: {
+        agentId,
+        userId: agent.userId,
+        version: agent.version,
+        snapshot: toAgentSnapshot(agent),
+        changedFields,
+        reason,
+        createdAt: new Date(),
+      },
+    },
+    { upsert: true }
+  );
+  if (result.upsertedCount === 0) return;
+
+  const oldest = await collection
+    .find({ agentId }, { projection: { version: 1 } })
+    .sort({ version: -1 })
+    .skip(AGENT_DEFAULTS.MAX_EVOLUTION_HISTORY)
+    .limit(1)
+    .next();
+
+  if (oldest) {
+    await collection.deleteMany({ agentId, version: { $lte: oldest.version } });
+  }
+}
+
+/**
+ * Get an agent's versions, newest first (without snapshots)
+ */
+export async function getAgentVersions(
+  agentId: string,
+  userId: string
+): Promise<Omit<AgentVersion, "snapshot">[]> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentVersionDocument>(COLLECTION_NAME);
+
+  const versions = await collection
+    .find({ agentId, userId }, { projection: { snapshot: 0 } })
+    .sort({ version: -1 })
+    .toArray();
+
+  return versions.map(toVersion);
+}
+
+/**
+ * Get one version of an agent (with user ownership check)
+ */
+export async function getAgentVersion(
+  agentId: string,
+  version: number,
+  userId: string
+): Promise<AgentVersion | null> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentVersionDocument>(COLLECTION_NAME);
+
+  const result = await collection.findOne({ agentId, version, userId });
+  return result ? toVersion(result) : null;
+}
+
+/**
+ * Delete every version of an agent (used when the agent is deleted)
+ */
+export async function deleteAgentVersions(agentId: string): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentVersionDocument>(COLLECTION_NAME);
+
+  await collection.deleteMany({ agentId });
+}
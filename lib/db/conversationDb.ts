@@ -1,5 +1,5 @@
 import { getDatabase } from "../mongodb";
-import { Conversation, Message } from "@/types/conversation";
+import { Conversation, Message, MessageFeedback, PendingClarification } from "@/types/conversation";
 import { ObjectId } from "mongodb";
 
 const COLLECTION_NAME = "conversations";
@@ -135,6 +135,90 @@ export async function addSuggestedAgent(
   );
 }
 
+/**
+ * Pin an agent to a conversation (null unpins)
+ * Creates the conversation if no message has been saved yet
+ */
+export async function setPinnedAgent(
+  sessionId: string,
+  userId: string,
+  agentId: string | null,
+  agentName?: string
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<Conversation>(COLLECTION_NAME);
+
+  await collection.updateOne(
+    { sessionId, userId },
+    {
+      $set: {
+        pinnedAgentId: agentId,
+        pinnedAgentName: agentId ? agentName : undefined,
+        updatedAt: new Date(),
+      },
+      $setOnInsert: {
+        userEmail: userId,
+        messages: [],
+        agentsSuggested: [],
+        createdAt: new Date(),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Set or clear the clarifying question waiting for the user's reply
+ * Creates the conversation if no message has been saved yet
+ */
+export async function setPendingClarification(
+  sessionId: string,
+  userId: string,
+  clarification: PendingClarification | null
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<Conversation>(COLLECTION_NAME);
+
+  await collection.updateOne(
+    { sessionId, userId },
+    {
+      $set: {
+        pendingClarification: clarification,
+        updatedAt: new Date(),
+      },
+      $setOnInsert: {
+        userEmail: userId,
+        messages: [],
+        agentsSuggested: [],
+        createdAt: new Date(),
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Attach the user's rating to an assistant reply
+ * Returns false when the reply is not in the conversation
+ */
+export async function setMessageFeedback(
+  sessionId: string,
+  userId: string,
+  messageId: string,
+  feedback: MessageFeedback
+): Promise<boolean> {
+  const db = await getDatabase();
+  const collection = db.collection<Conversation>(COLLECTION_NAME);
+
+  const result = await collection.updateOne(
+    { sessionId, userId, "messages.messageId": messageId },
+    { $set: { "messages.$[message].feedback": feedback } },
+    { arrayFilters: [{ "message.messageId": messageId }] }
+  );
+
+  return result.matchedCount > 0;
+}
+
 /**
  * Get recent conversations with specific agent
  */
@@ -209,3 +293,41 @@ export async function cleanupOldConversations(
 
   return result.deletedCount;
 }
+
+/**
+ * Point messages and pins of one agent at another (used when merging agents)
+ * Returns how many conversations had messages or a pin rewritten
+ */
+export async function reassignAgentReferences(
+  userId: string,
+  fromAgentId: string,
+  toAgentId: string,
+  toAgentName: string
+): Promise<number> {
+  const db = await getDatabase();
+  const collection = db.collection<Conversation>(COLLECTION_NAME);
+
+  // Counted up front so a conversation with both messages and a pin counts once
+  const affected = await collection.countDocuments({
+    userId,
+    $or: [{ "messages.agentUsed": fromAgentId }, { pinnedAgentId: fromAgentId }],
+  });
+
+  await collection.updateMany(
+    { userId, "messages.agentUsed": fromAgentId },
+    {
+      $set: {
+        "messages.$[message].agentUsed": toAgentId,
+        "messages.$[message].agentName": toAgentName,
+      },
+    },
+    { arrayFilters: [{ "message.agentUsed": fromAgentId }] }
+  );
+
+  await collection.updateMany(
+    { userId, pinnedAgentId: fromAgentId },
+    { $set: { pinnedAgentId: toAgentId, pinnedAgentName: toAgentName } }
+  );
+
+  return affected;
+}
@@ -0,0 +1,58 @@
+import { getDatabase } from "../mongodb";
+
+const COLLECTION_NAME = "embeddings";
+
+export type EmbeddingKind = "agent" | "skill";
+
+/**
+ * A cached embedding of one agent or skill. contentHash detects edits, so
+ * a stale vector is recomputed instead of being served.
+ */
+export interface EmbeddingRecord {
+  _id: string; // `${embedderId}:${kind}:${sourceId}`
+  embedderId: string;
+  kind: EmbeddingKind;
+  sourceId: string;
+  contentHash: string;
+  vector: number[];
+  updatedAt: Date;
+}
+
+export function embeddingId(embedderId: string, kind: EmbeddingKind, sourceId: string): string {
+  return `${embedderId}:${kind}:${sourceId}`;
+}
+
+/**
+ * Get cached embeddings by id
+ */
+export async function getEmbeddings(ids: string[]): Promise<EmbeddingRecord[]> {
+  if (ids.length === 0) return [];
+
+  const db = await getDatabase();
+  return db
+    .collection<EmbeddingRecord>(COLLECTION_NAME)
+    .find({ _id: { $in: ids } })
+    .toArray();
+}
+
+/**
+ * Insert or replace embeddings
+ */
+export async function saveEmbeddings(records: EmbeddingRecord[]): Promise<void> {
+  if (records.length === 0) return;
+
+  const db = await getDatabase();
+  await db.collection<EmbeddingRecord>(COLLECTION_NAME).bulkWrite(
+    records.map((record) => ({
+      replaceOne: { filter: { _id: record._id }, replacement: record, upsert: true },
+    }))
+  );
+}
+
+/**
+ * Delete every cached embedding of an agent or skill
+ */
+export async function deleteEmbeddings(kind: EmbeddingKind, sourceId: string): Promise<void> {
+  const db = await getDatabase();
+  await db.collection<EmbeddingRecord>(COLLECTION_NAME).deleteMany({ kind, sourceId });
+}
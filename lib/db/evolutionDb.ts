@@ -0,0 +1,112 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import type { EvolutionChangeStatus, EvolutionField, EvolutionProposal } from "@/types/evolution";
+
+const COLLECTION_NAME = "evolution_proposals";
+
+type EvolutionProposalDocument = Omit<EvolutionProposal, "_id"> & { _id?: ObjectId };
+
+function toProposal(proposal: EvolutionProposalDocument): EvolutionProposal {
+  return {
+    ...proposal,
+    _id: proposal._id?.toString(),
+  };
+}
+
+/**
+ * Save a new evolution proposal, returning its id
+ */
+export async function createEvolutionProposal(
+  proposal: Omit<EvolutionProposal, "_id" | "status" | "createdAt" | "updatedAt">
+): Promise<string> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  const result = await collection.insertOne({
+    ...proposal,
+    status: "pending",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return result.insertedId.toString();
+}
+
+/**
+ * Get an evolution proposal by ID (with user ownership check)
+ */
+export async function getEvolutionProposal(id: string, userId: string): Promise<EvolutionProposal | null> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  const proposal = await collection.findOne({ _id: new ObjectId(id), userId });
+  return proposal ? toProposal(proposal) : null;
+}
+
+/**
+ * Get an agent's proposals that still have changes to review, newest first
+ */
+export async function getPendingEvolutionProposals(agentId: string, userId: string): Promise<EvolutionProposal[]> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  const proposals = await collection
+    .find({ agentId, userId, status: "pending" })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return proposals.map(toProposal);
+}
+
+/**
+ * Whether an agent already has a proposal waiting for review
+ */
+export async function hasPendingEvolutionProposal(agentId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  return (await collection.countDocuments({ agentId, status: "pending" }, { limit: 1 })) > 0;
+}
+
+/**
+ * Record the review of one field change
+ * The proposal is marked reviewed once no change is pending.
+ */
+export async function reviewEvolutionChange(
+  id: string,
+  userId: string,
+  field: EvolutionField,
+  status: Exclude<EvolutionChangeStatus, "pending">
+): Promise<EvolutionProposal | null> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  const updated = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id), userId, changes: { $elemMatch: { field, status: "pending" } } },
+    {
+      $set: {
+        "changes.$.status": status,
+        "changes.$.reviewedAt": new Date(),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+  if (!updated) return null;
+
+  if (!updated.changes.some((change) => change.status === "pending")) {
+    await collection.updateOne({ _id: updated._id }, { $set: { status: "reviewed" } });
+    updated.status = "reviewed";
+  }
+
+  return toProposal(updated);
+}
+
+/**
+ * Delete every proposal for an agent (used when the agent is deleted)
+ */
+export async function deleteEvolutionProposals(agentId: string): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<EvolutionProposalDocument>(COLLECTION_NAME);
+
+  await collection.deleteMany({ agentId });
+}
@@ -0,0 +1,71 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import type { AnswerFeedback, FeedbackStats } from "@/types/feedback";
+
+const COLLECTION_NAME = "answer_feedback";
+
+type AnswerFeedbackDocument = Omit<AnswerFeedback, "_id"> & { _id?: ObjectId };
+
+/**
+ * Save the user's rating of a reply (replaces an earlier rating of the same reply)
+ */
+export async function saveAnswerFeedback(
+  feedback: Omit<AnswerFeedback, "_id" | "createdAt" | "updatedAt">
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AnswerFeedbackDocument>(COLLECTION_NAME);
+
+  await collection.updateOne(
+    { userId: feedback.userId, messageId: feedback.messageId },
+    {
+      $set: { ...feedback, updatedAt: new Date() },
+      $setOnInsert: { createdAt: new Date() },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Positive and total ratings for an agent or a skill
+ */
+export async function getFeedbackStats(filter: { agentId: string } | { skillId: string }): Promise<FeedbackStats> {
+  const db = await getDatabase();
+  const collection = db.collection<AnswerFeedbackDocument>(COLLECTION_NAME);
+
+  const query = "agentId" in filter ? { agentId: filter.agentId } : { skillIds: filter.skillId };
+  const [positive, total] = await Promise.all([
+    collection.countDocuments({ ...query, rating: "up" }),
+    collection.countDocuments(query),
+  ]);
+
+  return { positive, total };
+}
+
+/**
+ * Get an agent's most recent ratings, newest first
+ */
+export async function getRecentAgentFeedback(agentId: string, limit: number = 20): Promise<AnswerFeedback[]> {
+  const db = await getDatabase();
+  const collection = db.collection<AnswerFeedbackDocument>(COLLECTION_NAME);
+
+  const feedback = await collection
+    .find({ agentId })
+    .sort({ updatedAt: -1 })
+    .limit(limit)
+    .toArray();
+
+  return feedback.map((item) => ({ ...item, _id: item._id?.toString() }));
+}
+
+/**
+ * Move an agent's ratings to another agent (used when agents are merged)
+ */
+export async function reassignAgentFeedback(fromAgentId: string, toAgentId: string, toAgentName: string): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AnswerFeedbackDocument>(COLLECTION_NAME);
+
+  await collection.updateMany(
+    { agentId: fromAgentId },
+    { $set: { agentId: toAgentId, agentName: toAgentName } }
+  );
+}
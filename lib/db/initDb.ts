@@ -54,7 +54,81 @@ export async function initializeDatabase(): Promise<void> {
       { key: { success: 1 } },
     ]);
 
-    // NextAuth Collections (created by adapter, but we can add indexes)
+    // Rate Limit Buckets (expired buckets removed by TTL)
+    console.log("Creating indexes for 'rate_limits' collection...");
+    const rateLimitsCollection = db.collection("rate_limits");
+    await rateLimitsCollection.createIndexes([
+      { key: { expiresAt: 1 }, expireAfterSeconds: 0 },
+      { key: { key: 1, windowStart: -1 } },
+    ]);
+
+    // Embedding cache for the agent/skill vector index
+    console.log("Creating indexes for 'embeddings' collection...");
+    const embeddingsCollection = db.collection("embeddings");
+    await embeddingsCollection.createIndexes([
+      { key: { kind: 1, sourceId: 1 } },
+      { key: { embedderId: 1 } },
+    ]);
+
+    // Agent routing audit log
+    console.log("Creating indexes for 'routing_decisions' collection...");
+    const routingDecisionsCollection = db.collection("routing_decisions");
+    await routingDecisionsCollection.createIndexes([
+      { key: { userId: 1, createdAt: -1 } },
+      { key: { conversationId: 1 } },
+      { key: { chosenAgentId: 1 } },
+    ]);
+
+    // Routing preferences learned from suggestion outcomes
+    console.log("Creating indexes for 'routing_preferences' collection...");
+    const routingPreferencesCollection = db.collection("routing_preferences");
+    await routingPreferencesCollection.createIndexes([
+      { key: { userId: 1 }, unique: true },
+    ]);
+
+    // Evolution proposals waiting for the agent owner's review
+    console.log("Creating indexes for 'evolution_proposals' collection...");
+    const evolutionProposalsCollection = db.collection("evolution_proposals");
+    await evolutionProposalsCollection.createIndexes([
+      { key: { agentId: 1, status: 1 } },
+      { key: { userId: 1, createdAt: -1 } },
+    ]);
+
+    // Agent version snapshots (rollback targets)
+    console.log("Creating indexes for 'agent_versions' collection...");
+    const agentVersionsCollection = db.collection("agent_versions");
+    await agentVersionsCollection.createIndexes([
+      { key: { agentId: 1, version: -1 }, unique: true },
+      { key: { userId: 1 } },
+    ]);
+
+    // Ratings of assistant replies (agent/skill success rates)
+    console.log("Creating indexes for 'answer_feedback' collection...");
+    const answerFeedbackCollection = db.collection("answer_feedback");
+    await answerFeedbackCollection.createIndexes([
+      { key: { userId: 1, messageId: 1 }, unique: true },
+      { key: { agentId: 1, updatedAt: -1 } },
+      { key: { skillIds: 1 } },
+    ]);
+
+    // Agent share links and live subscriptions to shared agents
+    console.log("Creating indexes for 'agent_shares' collection...");
+    const agentSharesCollection = db.collection("agent_shares");
+    await agentSharesCollection.createIndexes([
+      { key: { token: 1 }, unique: true },
+      { key: { agentId: 1, ownerId: 1 } },
+      { key: { email: 1, revokedAt: 1 } },
+    ]);
+
+    console.log("Creating indexes for 'agent_subscriptions' collection...");
+    const agentSubscriptionsCollection = db.collection("agent_subscriptions");
+    await agentSubscriptionsCollection.createIndexes([
+      { key: { userId: 1, agentId: 1 }, unique: true },
+      { key: { agentId: 1 } },
+      { key: { shareId: 1 } },
+    ]);
+
+        // NextAuth Collections (created by adapter, but we can add indexes)
     console.log("Creating indexes for NextAuth collections...");
     
     const accountsCollection = db.collection("accounts");
@@ -0,0 +1,84 @@
+import { getDatabase } from "../mongodb";
+
+const COLLECTION_NAME = "rate_limits";
+
+/**
+ * One fixed-window counter; the sliding window is computed from the
+ * current and previous bucket. Expired buckets are removed by a TTL index.
+ */
+export interface RateLimitBucket {
+  _id: string; // `${key}:${windowStart}`
+  key: string;
+  windowStart: number;
+  count: number;
+  expiresAt: Date;
+}
+
+let indexesEnsured = false;
+
+/**
+ * Create the TTL index once per process (init-db also creates it)
+ */
+export async function ensureRateLimitIndexes(): Promise<void> {
+  if (indexesEnsured) return;
+
+  const db = await getDatabase();
+  await db.collection<RateLimitBucket>(COLLECTION_NAME).createIndexes([
+    { key: { expiresAt: 1 }, expireAfterSeconds: 0 },
+    { key: { key: 1, windowStart: -1 } },
+  ]);
+  indexesEnsured = true;
+}
+
+function bucketId(key: string, windowStart: number): string {
+  return `${key}:${windowStart}`;
+}
+
+/**
+ * Atomically increment a bucket (creating it if needed) and return its new count
+ */
+export async function incrementRateLimitBucket(
+  key: string,
+  windowStart: number,
+  windowMs: number,
+  amount: number = 1
+): Promise<number> {
+  await ensureRateLimitIndexes();
+
+  const db = await getDatabase();
+  const result = await db.collection<RateLimitBucket>(COLLECTION_NAME).findOneAndUpdate(
+    { _id: bucketId(key, windowStart) },
+    {
+      $inc: { count: amount },
+      $setOnInsert: {
+        key,
+        windowStart,
+        // Keep the bucket while it can still weigh on the next window
+        expiresAt: new Date(windowStart + windowMs * 2),
+      },
+    },
+    { upsert: true, returnDocument: "after" }
+  );
+
+  return result?.count ?? amount;
+}
+
+/**
+ * Get a bucket's count (0 if it doesn't exist)
+ */
+export async function getRateLimitBucketCount(key: string, windowStart: number): Promise<number> {
+  const db = await getDatabase();
+  const bucket = await db
+    .collection<RateLimitBucket>(COLLECTION_NAME)
+    .findOne({ _id: bucketId(key, windowStart) });
+
+  return bucket?.count ?? 0;
+}
+
+/**
+ * Delete every bucket for a key
+ */
+export async function deleteRateLimitBuckets(key: string): Promise<void> {
+  const db = await getDatabase();
+  await db.collection<RateLimitBucket>(COLLECTION_NAME).deleteMany({ key });
+}
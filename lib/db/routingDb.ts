@@ -0,0 +1,120 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import type { RoutingDecision, RoutingSkillMatch, RoutingSuggestion, SuggestionOutcome } from "@/types/routing";
+
+const COLLECTION_NAME = "routing_decisions";
+
+type RoutingDecisionDocument = Omit<RoutingDecision, "_id"> & { _id?: ObjectId };
+
+/**
+ * Record a routing decision, returning its id
+ */
+export async function createRoutingDecision(
+  decision: Omit<RoutingDecision, "_id" | "createdAt" | "updatedAt">
+): Promise<string> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  const result = await collection.insertOne({
+    ...decision,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  return result.insertedId.toString();
+}
+
+/**
+ * Get a routing decision by ID
+ */
+export async function getRoutingDecision(id: string, userId: string): Promise<RoutingDecision | null> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  const decision = await collection.findOne({ _id: new ObjectId(id), userId });
+  if (!decision) return null;
+
+  return {
+    ...decision,
+    _id: decision._id?.toString(),
+  };
+}
+
+/**
+ * Record the skills matched after the agent was chosen
+ */
+export async function setRoutingSkills(id: string, matchedSkills: RoutingSkillMatch[]): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $set: { matchedSkills, updatedAt: new Date() } }
+  );
+}
+
+/**
+ * Record the agent/skill suggestion shown to the user
+ */
+export async function setRoutingSuggestion(id: string, suggestion: RoutingSuggestion): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  await collection.updateOne(
+    { _id: new ObjectId(id) },
+    { $set: { suggestion, updatedAt: new Date() } }
+  );
+}
+
+/**
+ * Record whether the user accepted or declined the suggestion
+ * (agentId: the agent created from an accepted agent suggestion)
+ * Only the first answer is recorded; returns the updated decision, or null
+ * if it has no suggestion or the suggestion was already answered
+ */
+export async function recordSuggestionOutcome(
+  id: string,
+  userId: string,
+  outcome: SuggestionOutcome,
+  agentId?: string
+): Promise<RoutingDecision | null> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  const decision = await collection.findOneAndUpdate(
+    { _id: new ObjectId(id), userId, suggestion: { $exists: true }, "suggestion.outcome": { $exists: false } },
+    {
+      $set: {
+        "suggestion.outcome": outcome,
+        "suggestion.respondedAt": new Date(),
+        ...(agentId ? { "suggestion.agentId": agentId } : {}),
+        updatedAt: new Date(),
+      },
+    },
+    { returnDocument: "after" }
+  );
+  if (!decision) return null;
+
+  return {
+    ...decision,
+    _id: decision._id?.toString(),
+  };
+}
+
+/**
+ * Get recent routing decisions for a user
+ */
+export async function getUserRoutingDecisions(userId: string, limit: number = 50): Promise<RoutingDecision[]> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingDecisionDocument>(COLLECTION_NAME);
+
+  const decisions = await collection
+    .find({ userId })
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray();
+
+  return decisions.map((decision) => ({
+    ...decision,
+    _id: decision._id?.toString(),
+  }));
+}
@@ -0,0 +1,84 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import type { RoutingPreferences, RoutingSuggestion, SuggestionOutcome } from "@/types/routing";
+
+const COLLECTION_NAME = "routing_preferences";
+
+type RoutingPreferencesDocument = Omit<RoutingPreferences, "_id"> & { _id?: ObjectId };
+
+/**
+ * Get the routing preferences learned for a user
+ */
+export async function getRoutingPreferences(userId: string): Promise<RoutingPreferences | null> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingPreferencesDocument>(COLLECTION_NAME);
+
+  const preferences = await collection.findOne({ userId });
+  if (!preferences) return null;
+
+  return {
+    ...preferences,
+    _id: preferences._id?.toString(),
+  };
+}
+
+/**
+ * Count an accept/decline for a suggested topic
+ * Accepting resets the decline count so the topic can be suggested again
+ */
+export async function recordSuggestionFeedback(
+  userId: string,
+  key: string,
+  suggestion: RoutingSuggestion,
+  outcome: SuggestionOutcome
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingPreferencesDocument>(COLLECTION_NAME);
+
+  const field = `suggestions.${key}`;
+  await collection.updateOne(
+    { userId },
+    {
+      $set: {
+        [`${field}.type`]: suggestion.type,
+        [`${field}.name`]: suggestion.name,
+        [`${field}.lastOutcomeAt`]: new Date(),
+        ...(outcome === "accepted" ? { [`${field}.declines`]: 0 } : {}),
+        updatedAt: new Date(),
+      },
+      $inc: outcome === "accepted" ? { [`${field}.accepts`]: 1 } : { [`${field}.declines`]: 1 },
+      $setOnInsert: { userId, agentAffinity: {}, createdAt: new Date() },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Raise the confidence boost for an agent, capped at maxAffinity
+ */
+export async function increaseAgentAffinity(
+  userId: string,
+  agentId: string,
+  step: number,
+  maxAffinity: number
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<RoutingPreferencesDocument>(COLLECTION_NAME);
+
+  const field = `agentAffinity.${agentId}`;
+  await collection.updateOne(
+    { userId },
+    [
+      {
+        $set: {
+          userId,
+          suggestions: { $ifNull: ["$suggestions", {}] },
+          [field]: { $min: [maxAffinity, { $add: [{ $ifNull: [`$${field}`, 0] }, step] }] },
+          createdAt: { $ifNull: ["$createdAt", "$$NOW"] },
+          updatedAt: "$$NOW",
+        },
+      },
+    ],
+    { upsert: true }
+  );
+}
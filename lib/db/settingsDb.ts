@@ -1,5 +1,6 @@
 import { getDatabase } from "../mongodb";
 import { ObjectId } from "mongodb";
+import type { ModelProviderId } from "@/types/model";
 
 export interface UserSettings {
   _id?: ObjectId;
@@ -9,6 +10,7 @@ export interface UserSettings {
     elevenLabs?: string;
     elevenLabsVoiceId?: string;
     braveSearch?: string;
+    openaiCompatible?: string;
   };
   voice?: {
     speed: number;
@@ -24,6 +26,13 @@ export interface UserSettings {
   ai?: {
     responseLength: "concise" | "normal" | "detailed";
     temperature: number;
+    provider?: ModelProviderId; // Defaults to "anthropic"
+    model?: string; // Model id override for the provider
+    baseUrl?: string; // OpenAI-compatible server URL
+    panelSize?: number; // Agents answering in panel mode
+    panelModerator?: boolean; // Synthesize a consensus after the panel answers
+    matchConfidenceThreshold?: number; // Matches at or above this don't trigger new-agent suggestions
+    suggestionDeclineLimit?: number; // Declines before a topic stops being suggested
   };
   limits?: {
     enabled: boolean;
@@ -33,6 +42,8 @@ export interface UserSettings {
     requireAuth: boolean;
   };
   monthlyBudget?: number; // User-defined monthly budget
+  budgetAlertThreshold?: number; // Percentage of budget that triggers an alert
+  budgetHardLimit?: boolean; // Block paid requests once the budget is used up
   createdAt: Date;
   updatedAt: Date;
 }
@@ -84,6 +95,13 @@ export async function saveUserSettings(userId: string, settings: Partial<UserSet
       } else if (apiKeys.elevenLabsVoiceId === "__REMOVE__") {
         delete apiKeys.elevenLabsVoiceId;
       }
+
+      // Handle OpenAI-compatible key
+      if (apiKeys.openaiCompatible === "__KEEP_EXISTING__") {
+        apiKeys.openaiCompatible = existingSettings?.apiKeys?.openaiCompatible;
+      } else if (apiKeys.openaiCompatible === "__REMOVE__") {
+        delete apiKeys.openaiCompatible;
+      }
       
       settings.apiKeys = apiKeys;
     }
@@ -0,0 +1,174 @@
+import { getDatabase } from "../mongodb";
+import { ObjectId } from "mongodb";
+import { randomBytes } from "crypto";
+import type { AgentShare, AgentSubscription } from "@/types/sharing";
+
+const SHARES_COLLECTION = "agent_shares";
+const SUBSCRIPTIONS_COLLECTION = "agent_subscriptions";
+
+type AgentShareDocument = Omit<AgentShare, "_id"> & { _id?: ObjectId };
+type AgentSubscriptionDocument = Omit<AgentSubscription, "_id"> & { _id?: ObjectId };
+
+function toShare(share: AgentShareDocument): AgentShare {
+  return {
+    ...share,
+    _id: share._id?.toString(),
+  };
+}
+
+/**
+ * Create a share link for an agent (restricted to one email if given)
+ */
+export async function createAgentShare(
+  share: Pick<AgentShare, "agentId" | "agentName" | "ownerId" | "email">
+): Promise<AgentShare> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  const newShare: AgentShareDocument = {
+    ...share,
+    email: share.email?.trim().toLowerCase() || null,
+    token: randomBytes(24).toString("base64url"),
+    acceptedBy: [],
+    createdAt: new Date(),
+    revokedAt: null,
+  };
+
+  const result = await collection.insertOne(newShare);
+  return toShare({ ...newShare, _id: result.insertedId });
+}
+
+/**
+ * Get an agent's active share links, newest first
+ */
+export async function getAgentShares(agentId: string, ownerId: string): Promise<AgentShare[]> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  const shares = await collection
+    .find({ agentId, ownerId, revokedAt: null })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return shares.map(toShare);
+}
+
+/**
+ * Get an active share link by its token
+ */
+export async function getShareByToken(token: string): Promise<AgentShare | null> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  const share = await collection.findOne({ token, revokedAt: null });
+  return share ? toShare(share) : null;
+}
+
+/**
+ * Get invites sent to an email that have not been accepted yet
+ */
+export async function getPendingInvitations(email: string): Promise<AgentShare[]> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  const normalizedEmail = email.toLowerCase();
+  const shares = await collection
+    .find({ email: normalizedEmail, revokedAt: null, acceptedBy: { $ne: normalizedEmail } })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return shares.map(toShare);
+}
+
+/**
+ * Record that a user accepted a share (stored lowercased, like invite emails)
+ */
+export async function markShareAccepted(shareId: string, userId: string): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  await collection.updateOne(
+    { _id: new ObjectId(shareId) },
+    { $addToSet: { acceptedBy: userId.toLowerCase() } }
+  );
+}
+
+/**
+ * Revoke a share link and end the subscriptions made through it
+ * Returns false when the link is not the owner's or already revoked
+ */
+export async function revokeAgentShare(shareId: string, ownerId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentShareDocument>(SHARES_COLLECTION);
+
+  const result = await collection.updateOne(
+    { _id: new ObjectId(shareId), ownerId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  if (result.modifiedCount === 0) return false;
+
+  await db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION).deleteMany({ shareId });
+  return true;
+}
+
+/**
+ * Subscribe a user to live updates of a shared agent
+ */
+export async function subscribeToAgent(share: AgentShare, userId: string): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION);
+
+  await collection.updateOne(
+    { agentId: share.agentId, userId },
+    {
+      $set: { ownerId: share.ownerId, shareId: share._id! },
+      $setOnInsert: { createdAt: new Date() },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Get the agents a user subscribes to
+ */
+export async function getAgentSubscriptions(userId: string): Promise<AgentSubscription[]> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION);
+
+  const subscriptions = await collection.find({ userId }).toArray();
+  return subscriptions.map((subscription) => ({
+    ...subscription,
+    _id: subscription._id?.toString(),
+  }));
+}
+
+/**
+ * Whether a user subscribes to an agent
+ */
+export async function isSubscribedToAgent(agentId: string, userId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION);
+
+  return (await collection.countDocuments({ agentId, userId }, { limit: 1 })) > 0;
+}
+
+/**
+ * Stop receiving a shared agent
+ */
+export async function unsubscribeFromAgent(agentId: string, userId: string): Promise<boolean> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION);
+
+  const result = await collection.deleteOne({ agentId, userId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Delete every share link and subscription for an agent (used when the agent is deleted)
+ */
+export async function deleteAgentShares(agentId: string): Promise<void> {
+  const db = await getDatabase();
+
+  await db.collection<AgentShareDocument>(SHARES_COLLECTION).deleteMany({ agentId });
+  await db.collection<AgentSubscriptionDocument>(SUBSCRIPTIONS_COLLECTION).deleteMany({ agentId });
+}
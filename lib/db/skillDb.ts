@@ -1,6 +1,7 @@
 import { getDatabase } from "../mongodb";
 import { AgentSkill } from "@/types/skill";
 import { ObjectId } from "mongodb";
+import { deleteEmbeddings } from "./embeddingDb";
 
 const COLLECTION_NAME = "agent_skills";
 
@@ -103,6 +104,11 @@ export async function deleteSkill(skillId: string): Promise<boolean> {
   const collection = db.collection<AgentSkill>(COLLECTION_NAME);
 
   const result = await collection.deleteOne({ _id: new ObjectId(skillId) });
+
+  if (result.deletedCount > 0) {
+    await deleteEmbeddings("skill", skillId);
+  }
+
   return result.deletedCount > 0;
 }
 
@@ -137,29 +143,20 @@ export async function incrementSkillUsage(
 }
 
 /**
- * Update skill success rate
+ * Update skill success rate (share of positive feedback on replies that used it)
  */
 export async function updateSkillSuccessRate(
   skillId: string,
-  wasSuccessful: boolean
+  successRate: number
 ): Promise<void> {
   const db = await getDatabase();
   const collection = db.collection<AgentSkill>(COLLECTION_NAME);
 
-  const skill = await collection.findOne({ _id: new ObjectId(skillId) });
-  if (!skill) return;
-
-  const currentRate = skill.usage.successRate;
-  const currentCount = skill.usage.timesInvoked;
-  const successCount = Math.round(currentRate * currentCount);
-  const newSuccessCount = successCount + (wasSuccessful ? 1 : 0);
-  const newRate = newSuccessCount / Math.max(currentCount, 1);
-
   await collection.updateOne(
     { _id: new ObjectId(skillId) },
     {
       $set: {
-        "usage.successRate": newRate,
+        "usage.successRate": successRate,
       },
     }
   );
@@ -194,3 +191,61 @@ export async function searchSkills(
     _id: skill._id?.toString(),
   }));
 }
+
+/**
+ * Move every skill of one agent to another (used when merging agents)
+ * Skills the target already has by name are dropped and their usage count
+ * is added to the target's skill.
+ */
+export async function moveAgentSkills(
+  fromAgentId: string,
+  toAgentId: string
+): Promise<{ moved: number; merged: number }> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSkill>(COLLECTION_NAME);
+
+  const [sourceSkills, targetSkills] = await Promise.all([
+    collection.find({ agentId: fromAgentId }).toArray(),
+    collection.find({ agentId: toAgentId }).toArray(),
+  ]);
+  const targetByName = new Map(targetSkills.map((skill) => [skill.name.toLowerCase().trim(), skill]));
+
+  let merged = 0;
+  for (const skill of sourceSkills) {
+    const existing = targetByName.get(skill.name.toLowerCase().trim());
+    if (!existing) continue;
+
+    await collection.updateOne(
+      { _id: existing._id },
+      { $inc: { "usage.timesInvoked": skill.usage.timesInvoked }, $set: { updatedAt: new Date() } }
+    );
+    await deleteSkill(skill._id!.toString());
+    merged++;
+  }
+
+  const result = await collection.updateMany(
+    { agentId: fromAgentId },
+    { $set: { agentId: toAgentId, updatedAt: new Date() } }
+  );
+
+  return { moved: result.modifiedCount, merged };
+}
+
+/**
+ * Copy every skill of one agent to another with fresh usage stats (used when forking agents)
+ */
+export async function copyAgentSkills(fromAgentId: string, toAgentId: string): Promise<number> {
+  const db = await getDatabase();
+  const collection = db.collection<AgentSkill>(COLLECTION_NAME);
+
+  const skills = await collection.find({ agentId: fromAgentId }).toArray();
+  for (const skill of skills) {
+    const { name, description, version, skillContent, resources, metadata } = skill;
+    await createSkill(
+      { agentId: toAgentId, name, description, version, skillContent, resources, metadata },
+      toAgentId
+    );
+  }
+
+  return skills.length;
+}
@@ -1,6 +1,7 @@
 import { getDatabase } from "../mongodb";
 import { UsageLog, UsageStats, MonthlyUsage } from "@/types/usage";
 import { ObjectId } from "mongodb";
+import { calculateSavingsFromCaching, priceUsageLog } from "../usage/costCalculator";
 
 const COLLECTION_NAME = "usage_logs";
 
@@ -254,11 +255,11 @@ export async function getCachingSavings(
   for (const log of logs) {
     totalCachedTokens += log.tokens.cached;
 
-    // Calculate savings (90% discount on cached tokens)
+    // Savings = full input price minus cache read price, at the log's prices
     if (log.service === "claude-haiku") {
-      estimatedSavings += (log.tokens.cached / 1_000_000) * 1.0 * 0.9;
+      estimatedSavings += calculateSavingsFromCaching(log.tokens.cached, "haiku", log.timestamp);
     } else if (log.service === "claude-sonnet") {
-      estimatedSavings += (log.tokens.cached / 1_000_000) * 3.0 * 0.9;
+      estimatedSavings += calculateSavingsFromCaching(log.tokens.cached, "sonnet", log.timestamp);
     }
   }
 
@@ -268,6 +269,44 @@ export async function getCachingSavings(
   };
 }
 
+/**
+ * Re-price usage logs against the price table effective at each log's timestamp
+ * Pass a userId to limit the run to one user's logs.
+ */
+export async function recalculateUsageCosts(userId?: string): Promise<{
+  logsProcessed: number;
+  logsUpdated: number;
+  oldTotal: number;
+  newTotal: number;
+}> {
+  const db = await getDatabase();
+  const collection = db.collection<UsageLog>(COLLECTION_NAME);
+
+  const logs = await collection.find(userId ? { userId } : {}).toArray();
+
+  let logsUpdated = 0;
+  let oldTotal = 0;
+  let newTotal = 0;
+
+  for (const log of logs) {
+    const oldCost = log.cost || 0;
+    const { cost, pricingVersion } = priceUsageLog(log);
+
+    oldTotal += oldCost;
+    newTotal += cost;
+
+    if (cost !== oldCost || pricingVersion !== log.pricingVersion) {
+      await collection.updateOne(
+        { _id: log._id },
+        { $set: { cost, pricingVersion } }
+      );
+      logsUpdated++;
+    }
+  }
+
+  return { logsProcessed: logs.length, logsUpdated, oldTotal, newTotal };
+}
+
 /**
  * Clean up old usage logs (older than specified days)
  */
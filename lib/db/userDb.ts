@@ -159,6 +159,36 @@ export async function updateUsage(
   await collection.updateOne({ googleId }, { $inc: updateFields });
 }
 
+/**
+ * Update a user's budget limits (looked up by email)
+ */
+export async function updateBudgetLimits(
+  email: string,
+  limits: {
+    monthlyBudget?: number;
+    alertThreshold?: number;
+    hardLimit?: boolean;
+  }
+): Promise<void> {
+  const db = await getDatabase();
+  const collection = db.collection<User>(COLLECTION_NAME);
+
+  const updateFields: Record<string, number | boolean> = {};
+  if (limits.monthlyBudget !== undefined) {
+    updateFields["usage.limits.monthlyBudget"] = limits.monthlyBudget;
+  }
+  if (limits.alertThreshold !== undefined) {
+    updateFields["usage.limits.alertThreshold"] = limits.alertThreshold;
+  }
+  if (limits.hardLimit !== undefined) {
+    updateFields["usage.limits.hardLimit"] = limits.hardLimit;
+  }
+
+  if (Object.keys(updateFields).length === 0) return;
+
+  await collection.updateOne({ email }, { $set: updateFields });
+}
+
 /**
  * Reset monthly usage (called at start of new month)
  */
@@ -0,0 +1,165 @@
+/**
+ * Agent evolution job
+ * Picks agents by evolution priority, analyzes the conversations they
+ * answered and saves the resulting field changes as pending proposals.
+ * Nothing is applied until the owner accepts a change in AgentDetailModal.
+ */
+
+import {
+  analyzeAgentPerformance,
+  calculateEvolutionPriority,
+  identifyKnowledgeGaps,
+  suggestNewCapabilities,
+} from "@/lib/ai/agentEvolution";
+import { getEvolutionCandidates } from "@/lib/db/agentDb";
+import { getConversationsWithAgent } from "@/lib/db/conversationDb";
+import { getRecentAgentFeedback } from "@/lib/db/feedbackDb";
+import { createEvolutionProposal, getEvolutionProposal, hasPendingEvolutionProposal } from "@/lib/db/evolutionDb";
+import { getApiKeys, getUserSettings } from "@/lib/db/settingsDb";
+import { resolveModelSelection } from "@/lib/ai/providers";
+import { getBudgetStatus } from "@/lib/usage/budget";
+import { EVOLUTION_DEFAULTS, FEEDBACK_DEFAULTS } from "@/lib/constants";
+import { buildEvolutionChanges, compareEvolutionPriority, maxEvolutionPriority } from "./proposals";
+import type { Agent } from "@/types/agent";
+import type { Conversation, Message } from "@/types/conversation";
+import type { EvolutionProposal } from "@/types/evolution";
+
+// Replies where the agent admitted it could not help
+const STRUGGLE_PATTERN = /\b(i'?m not sure|i am not sure|i don'?t (know|have)|i do not (know|have)|i can'?t (help|answer|find)|i cannot (help|answer|find)|unable to)\b/i;
+
+export interface EvolutionJobResult {
+  analyzed: number;
+  proposals: { agentId: string; agentName: string; proposalId: string; changes: number }[];
+  skipped: { agentId: string; agentName: string; reason: string }[];
+}
+
+/**
+ * The agent's replies in recent conversations, each preceded by the user
+ * message it answered
+ */
+function collectAgentExchanges(conversations: Conversation[], agentId: string): Message[] {
+  const exchanges: Message[] = [];
+  for (const conversation of conversations) {
+    conversation.messages.forEach((message, index) => {
+      const question = conversation.messages[index - 1];
+      if (message.role === "assistant" && message.agentUsed === agentId && question?.role === "user") {
+        exchanges.push(question, message);
+      }
+    });
+  }
+  return exchanges;
+}
+
+/**
+ * Analyze one agent and save a pending proposal
+ * Returns null when there is nothing to analyze or nothing to change.
+ */
+export async function proposeAgentEvolution(
+  agent: Agent,
+  options: { apiKey?: string } = {}
+): Promise<EvolutionProposal | null> {
+  const agentId = agent._id!.toString();
+
+  const conversations = await getConversationsWithAgent(agent.userId, agentId, EVOLUTION_DEFAULTS.CONVERSATIONS_PER_AGENT);
+  const exchanges = collectAgentExchanges(conversations, agentId);
+  if (exchanges.length === 0) {
+    console.log(`🧬 No conversations to analyze for ${agent.name}`);
+    return null;
+  }
+
+  const feedback = await getRecentAgentFeedback(agentId, FEEDBACK_DEFAULTS.EVOLUTION_FEEDBACK_LIMIT);
+
+  // Questions the agent admitted it could not answer, plus answers rated down
+  const questions = exchanges.filter((message) => message.role === "user").map((message) => message.content);
+  const struggled = [
+    ...exchanges
+      .filter((message, index) => message.role === "user" && STRUGGLE_PATTERN.test(exchanges[index + 1]?.content || ""))
+      .map((message) => message.content),
+    ...feedback
+      .filter((item) => item.rating === "down" && item.question)
+      .map((item) => (item.comment ? `${item.question} (user comment: ${item.comment})` : item.question)),
+  ];
+
+  console.log(`🧬 Analyzing ${agent.name}: ${questions.length} questions, ${struggled.length} struggled, ${feedback.length} rated`);
+
+  // Analyzed with the provider/model the agent answers with
+  const model = resolveModelSelection(await getUserSettings(agent.userId), agent);
+  const [analysis, gaps, newCapabilities] = await Promise.all([
+    analyzeAgentPerformance(agent, exchanges, options.apiKey, feedback, model),
+    identifyKnowledgeGaps(agent, struggled, options.apiKey, model),
+    suggestNewCapabilities(agent, questions, options.apiKey, model),
+  ]);
+
+  const changes = buildEvolutionChanges(agent, {
+    updatedFields: analysis.updatedFields,
+    suggestedFacts: gaps.suggestedFacts,
+    suggestedSources: gaps.suggestedSources,
+    newCapabilities,
+  });
+  if (changes.length === 0) {
+    console.log(`🧬 No changes proposed for ${agent.name}`);
+    return null;
+  }
+
+  const proposalId = await createEvolutionProposal({
+    agentId,
+    agentName: agent.name,
+    userId: agent.userId,
+    agentVersion: agent.version,
+    priority: maxEvolutionPriority(analysis.priority, calculateEvolutionPriority(agent)),
+    reasoning: analysis.reasoning,
+    suggestions: analysis.suggestions,
+    knowledgeGaps: gaps.gaps,
+    changes,
+  });
+
+  console.log(`🧬 Proposed ${changes.length} change(s) for ${agent.name}:`, changes.map((change) => change.field));
+  return getEvolutionProposal(proposalId, agent.userId);
+}
+
+/**
+ * Run the evolution job over the agents that need it most
+ * Agents with a proposal still under review, or whose owner is over a hard
+ * budget limit, are skipped.
+ */
+export async function runEvolutionJob(
+  options: { userId?: string; limit?: number } = {}
+): Promise<EvolutionJobResult> {
+  const limit = options.limit ?? EVOLUTION_DEFAULTS.MAX_AGENTS_PER_RUN;
+  const candidates = (await getEvolutionCandidates(EVOLUTION_DEFAULTS.MIN_QUESTIONS, options.userId))
+    .sort((a, b) => compareEvolutionPriority(calculateEvolutionPriority(a), calculateEvolutionPriority(b)));
+
+  const result: EvolutionJobResult = { analyzed: 0, proposals: [], skipped: [] };
+
+  for (const agent of candidates) {
+    if (result.analyzed >= limit) break;
+
+    const agentId = agent._id!.toString();
+    const skip = (reason: string) => result.skipped.push({ agentId, agentName: agent.name, reason });
+
+    if (await hasPendingEvolutionProposal(agentId)) {
+      skip("Proposal awaiting review");
+      continue;
+    }
+
+    const budget = await getBudgetStatus(agent.userId);
+    if (!budget.allowed) {
+      skip("Budget limit reached");
+      continue;
+    }
+
+    try {
+      const { anthropic: apiKey } = await getApiKeys(agent.userId);
+      result.analyzed++;
+      const proposal = await proposeAgentEvolution(agent, { apiKey });
+      if (proposal) {
+        result.proposals.push({ agentId, agentName: agent.name, proposalId: proposal._id!, changes: proposal.changes.length });
+      }
+    } catch (error) {
+      console.error(`❌ Evolution analysis failed for ${agent.name}:`, error);
+      skip(error instanceof Error ? error.message : "Analysis failed");
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,147 @@
+/**
+ * Evolution proposals
+ * Turns the analysis from lib/ai/agentEvolution.ts into reviewable field
+ * changes, and reviewed changes back into agent updates.
+ * No database access - safe to import from client components.
+ */
+
+import { EVOLUTION_DEFAULTS } from "@/lib/constants";
+import type { Agent } from "@/types/agent";
+import type { EvolutionField, EvolutionFieldChange, EvolutionPriority, EvolutionProposal } from "@/types/evolution";
+
+export const EVOLUTION_FIELD_LABELS: Record<EvolutionField, string> = {
+  description: "Description",
+  systemPrompt: "System Prompt",
+  expertise: "Expertise",
+  capabilities: "Capabilities",
+  facts: "Knowledge Base Facts",
+  sources: "Knowledge Base Sources",
+};
+
+const PRIORITY_RANK: Record<EvolutionPriority, number> = { low: 0, medium: 1, high: 2 };
+
+export interface EvolutionFindings {
+  updatedFields: Partial<Agent>; // From analyzeAgentPerformance
+  suggestedFacts: string[]; // From identifyKnowledgeGaps
+  suggestedSources: string[];
+  newCapabilities: string[]; // From suggestNewCapabilities
+}
+
+/**
+ * The higher of two priorities
+ */
+export function maxEvolutionPriority(a: EvolutionPriority, b: EvolutionPriority): EvolutionPriority {
+  return PRIORITY_RANK[a] >= PRIORITY_RANK[b] ? a : b;
+}
+
+/**
+ * Sort order for the evolution job: highest priority first
+ */
+export function compareEvolutionPriority(a: EvolutionPriority, b: EvolutionPriority): number {
+  return PRIORITY_RANK[b] - PRIORITY_RANK[a];
+}
+
+function asStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim().length > 0)
+    : [];
+}
+
+/**
+ * Current list plus new items (case-insensitive), capped per proposal
+ */
+function appendNew(current: string[], additions: string[]): string[] {
+  const seen = new Set(current.map((item) => item.toLowerCase().trim()));
+  const added: string[] = [];
+  for (const item of additions) {
+    const key = item.toLowerCase().trim();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    added.push(item.trim());
+  }
+  return [...current, ...added.slice(0, EVOLUTION_DEFAULTS.MAX_NEW_ITEMS_PER_FIELD)];
+}
+
+/**
+ * Field changes proposed by the analysis - only fields that would change
+ * List fields only ever gain items; removals are left to manual edits.
+ */
+export function buildEvolutionChanges(agent: Agent, findings: EvolutionFindings): EvolutionFieldChange[] {
+  const { updatedFields } = findings;
+  const changes: EvolutionFieldChange[] = [];
+
+  const addText = (field: "description" | "systemPrompt", proposed: unknown) => {
+    if (typeof proposed === "string" && proposed.trim() && proposed.trim() !== agent[field].trim()) {
+      changes.push({ field, current: agent[field], proposed: proposed.trim(), status: "pending" });
+    }
+  };
+  const addList = (field: EvolutionField, current: string[], additions: string[]) => {
+    const proposed = appendNew(current, additions);
+    if (proposed.length > current.length) {
+      changes.push({ field, current, proposed, status: "pending" });
+    }
+  };
+
+  addText("description", updatedFields.description);
+  addText("systemPrompt", updatedFields.systemPrompt);
+  addList("expertise", agent.expertise, asStringList(updatedFields.expertise));
+  addList("capabilities", agent.capabilities, [
+    ...asStringList(updatedFields.capabilities),
+    ...findings.newCapabilities,
+  ]);
+  addList("facts", agent.knowledgeBase.facts, [
+    ...asStringList(updatedFields.knowledgeBase?.facts),
+    ...findings.suggestedFacts,
+  ]);
+  addList("sources", agent.knowledgeBase.sources, findings.suggestedSources);
+
+  return changes;
+}
+
+/**
+ * Whether a text change was made against a description/system prompt that
+ * has been edited since - accepting it would silently drop those edits
+ * (list changes are merged, so they never go stale).
+ */
+export function isStaleEvolutionChange(
+  agent: Agent,
+  proposal: Pick<EvolutionProposal, "agentVersion">,
+  change: EvolutionFieldChange
+): boolean {
+  if (change.field !== "description" && change.field !== "systemPrompt") return false;
+  return proposal.agentVersion < agent.version && agent[change.field].trim() !== String(change.current).trim();
+}
+
+/**
+ * Agent update that applies an accepted change
+ * List changes are re-applied on top of the agent's current list so edits
+ * made since the proposal are kept.
+ */
+export function getEvolutionUpdate(agent: Agent, change: EvolutionFieldChange): Partial<Agent> {
+  if (change.field === "description" || change.field === "systemPrompt") {
+    return { [change.field]: String(change.proposed) };
+  }
+
+  const previous = new Set(asStringList(change.current).map((item) => item.toLowerCase().trim()));
+  const additions = asStringList(change.proposed).filter((item) => !previous.has(item.toLowerCase().trim()));
+
+  if (change.field === "expertise" || change.field === "capabilities") {
+    return { [change.field]: appendNew(agent[change.field], additions) };
+  }
+
+  return {
+    knowledgeBase: {
+      ...agent.knowledgeBase,
+      [change.field]: appendNew(agent.knowledgeBase[change.field], additions),
+      lastUpdated: new Date(),
+    },
+  };
+}
+
+/**
+ * Items a list change adds (for the review UI)
+ */
+export function getAddedItems(change: EvolutionFieldChange): string[] {
+  const previous = new Set(asStringList(change.current).map((item) => item.toLowerCase().trim()));
+  return asStringList(change.proposed).filter((item) => !previous.has(item.toLowerCase().trim()));
+}
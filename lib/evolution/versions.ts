@@ -0,0 +1,82 @@
+/**
+ * Agent versions
+ * Snapshots of an agent's editable fields and field-level diffs between them.
+ * No database access - safe to import from client components.
+ */
+
+import type { Agent, AgentFieldDiff, AgentSnapshot } from "@/types/agent";
+
+type DiffField = {
+  field: string;
+  label: string;
+  kind: AgentFieldDiff["kind"];
+  read: (snapshot: AgentSnapshot) => unknown;
+};
+
+// In display order
+const DIFF_FIELDS: DiffField[] = [
+  { field: "name", label: "Name", kind: "text", read: (snapshot) => snapshot.name },
+  { field: "description", label: "Description", kind: "text", read: (snapshot) => snapshot.description },
+  { field: "systemPrompt", label: "System Prompt", kind: "text", read: (snapshot) => snapshot.systemPrompt },
+  { field: "expertise", label: "Expertise", kind: "list", read: (snapshot) => snapshot.expertise },
+  { field: "capabilities", label: "Capabilities", kind: "list", read: (snapshot) => snapshot.capabilities },
+  { field: "facts", label: "Knowledge Base Facts", kind: "list", read: (snapshot) => snapshot.knowledgeBase?.facts },
+  { field: "sources", label: "Knowledge Base Sources", kind: "list", read: (snapshot) => snapshot.knowledgeBase?.sources },
+  { field: "conversationStyle", label: "Conversation Style", kind: "value", read: (snapshot) => snapshot.conversationStyle },
+  { field: "modelConfig", label: "Model", kind: "value", read: (snapshot) => snapshot.modelConfig },
+  { field: "generationSettings", label: "Generation Settings", kind: "value", read: (snapshot) => snapshot.generationSettings },
+];
+
+/**
+ * The versioned fields of an agent
+ */
+export function toAgentSnapshot(agent: Agent | AgentSnapshot): AgentSnapshot {
+  return {
+    name: agent.name,
+    description: agent.description,
+    expertise: agent.expertise,
+    systemPrompt: agent.systemPrompt,
+    knowledgeBase: agent.knowledgeBase,
+    capabilities: agent.capabilities,
+    conversationStyle: agent.conversationStyle,
+    modelConfig: agent.modelConfig ?? null,
+    generationSettings: agent.generationSettings ?? null,
+  };
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function asText(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * Fields that differ between two snapshots, with added/removed items for lists
+ */
+export function diffAgentSnapshots(from: AgentSnapshot, to: AgentSnapshot): AgentFieldDiff[] {
+  const diffs: AgentFieldDiff[] = [];
+
+  for (const { field, label, kind, read } of DIFF_FIELDS) {
+    if (kind === "list") {
+      const before = asList(read(from));
+      const after = asList(read(to));
+      const added = after.filter((item) => !before.includes(item));
+      const removed = before.filter((item) => !after.includes(item));
+      if (added.length === 0 && removed.length === 0) continue;
+
+      diffs.push({ field, label, kind, from: before.join("\n"), to: after.join("\n"), added, removed });
+      continue;
+    }
+
+    const before = asText(read(from));
+    const after = asText(read(to));
+    if (before !== after) {
+      diffs.push({ field, label, kind, from: before, to: after, added: [], removed: [] });
+    }
+  }
+
+  return diffs;
+}
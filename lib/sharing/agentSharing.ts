@@ -0,0 +1,91 @@
+/**
+ * Agent Sharing
+ * Owners share agents through revocable links, optionally restricted to one
+ * email. A recipient either forks the agent (an independent copy with its
+ * skills) or subscribes to it (a read-only reference that follows the
+ * owner's updates and takes part in matching).
+ */
+
+import { forkAgent, getAgentCount, getAgent } from "@/lib/db/agentDb";
+import { getShareByToken, markShareAccepted, subscribeToAgent } from "@/lib/db/shareDb";
+import { AGENT_DEFAULTS } from "@/lib/constants";
+import type { Agent } from "@/types/agent";
+import type { AgentShare, AgentShareMode, ShareInvitation } from "@/types/sharing";
+
+export class AgentShareError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = "AgentShareError";
+  }
+}
+
+/**
+ * Find the active share for a token and the agent behind it
+ */
+async function resolveShare(token: string): Promise<{ share: AgentShare; agent: Agent }> {
+  const share = await getShareByToken(token);
+  const agent = share ? await getAgent(share.agentId, share.ownerId) : null;
+
+  if (!share || !agent) {
+    throw new AgentShareError("This share link is invalid or has been revoked", 404);
+  }
+
+  return { share, agent };
+}
+
+/**
+ * Preview a share before accepting it
+ */
+export async function getShareInvitation(token: string): Promise<ShareInvitation> {
+  const { share, agent } = await resolveShare(token);
+
+  return {
+    token: share.token,
+    agentId: share.agentId,
+    agentName: agent.name,
+    agentDescription: agent.description,
+    expertise: agent.expertise,
+    ownerId: share.ownerId,
+    createdAt: share.createdAt,
+  };
+}
+
+/**
+ * Accept a share as a fork (own copy) or a subscription (live reference)
+ * Returns the agent as it now appears in the user's list.
+ */
+export async function acceptAgentShare(
+  token: string,
+  userId: string,
+  mode: AgentShareMode
+): Promise<Agent> {
+  const { share, agent } = await resolveShare(token);
+
+  if (share.email && share.email !== userId.toLowerCase()) {
+    throw new AgentShareError("This invite was sent to a different email address", 403);
+  }
+  if (share.ownerId === userId) {
+    throw new AgentShareError("You already own this agent");
+  }
+
+  let accepted: Agent;
+  if (mode === "fork") {
+    const agentCount = await getAgentCount(userId);
+    if (agentCount >= AGENT_DEFAULTS.MAX_AGENTS_PER_USER) {
+      throw new AgentShareError(`Maximum agent limit reached (${AGENT_DEFAULTS.MAX_AGENTS_PER_USER})`);
+    }
+
+    accepted = await forkAgent(agent, userId);
+    console.log(`🍴 ${userId} forked "${agent.name}" from ${share.ownerId}`);
+  } else {
+    await subscribeToAgent(share, userId);
+    accepted = { ...agent, sharedBy: share.ownerId };
+    console.log(`🔗 ${userId} subscribed to "${agent.name}" from ${share.ownerId}`);
+  }
+
+  await markShareAccepted(share._id!, userId);
+  return accepted;
+}
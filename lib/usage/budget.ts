@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { BUDGET_DEFAULTS } from "../constants";
+import { getCurrentMonthCost } from "../db/usageDb";
+import { getUserByEmail } from "../db/userDb";
+import { getUserSettings } from "../db/settingsDb";
+import type { StreamBudgetStatus } from "@/types/chatStream";
+
+export interface BudgetStatus {
+  spent: number;
+  monthlyBudget: number;
+  alertThreshold: number; // Percentage
+  percentageUsed: number;
+  alertTriggered: boolean;
+  exceeded: boolean;
+  hardLimit: boolean;
+  allowed: boolean; // False only when over budget with a hard limit
+}
+
+export type BudgetedService = "chat" | "agent-creation" | "agent-evolution" | "skill-generation" | "voice";
+
+/**
+ * Get a user's budget status for the current month
+ * Limits come from User.usage.limits, then user settings, then defaults;
+ * spend comes from usage_logs.
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+  const [user, settings, spent] = await Promise.all([
+    getUserByEmail(userId),
+    getUserSettings(userId),
+    getCurrentMonthCost(userId),
+  ]);
+
+  const limits = user?.usage?.limits;
+  const monthlyBudget = limits?.monthlyBudget || settings?.monthlyBudget || BUDGET_DEFAULTS.MONTHLY_BUDGET;
+  const alertThreshold = limits?.alertThreshold || settings?.budgetAlertThreshold || BUDGET_DEFAULTS.ALERT_THRESHOLD;
+  const hardLimit = limits?.hardLimit ?? settings?.budgetHardLimit ?? false;
+
+  const percentageUsed = monthlyBudget > 0 ? (spent / monthlyBudget) * 100 : 100;
+  const exceeded = percentageUsed >= 100;
+
+  return {
+    spent,
+    monthlyBudget,
+    alertThreshold,
+    percentageUsed,
+    alertTriggered: percentageUsed >= alertThreshold,
+    exceeded,
+    hardLimit,
+    allowed: !(exceeded && hardLimit),
+  };
+}
+
+/**
+ * Message shown to the user when a hard limit blocks a request
+ */
+export function getBudgetExceededMessage(status: BudgetStatus): string {
+  return `Monthly budget reached ($${status.spent.toFixed(2)} of $${status.monthlyBudget.toFixed(2)}). Raise your budget or turn off the hard limit in Settings to continue.`;
+}
+
+/**
+ * Client-facing summary of a budget status
+ */
+export function toStreamBudgetStatus(status: BudgetStatus): StreamBudgetStatus {
+  return {
+    spent: status.spent,
+    monthlyBudget: status.monthlyBudget,
+    percentageUsed: status.percentageUsed,
+    alertThreshold: status.alertThreshold,
+    exceeded: status.exceeded,
+    hardLimit: status.hardLimit,
+  };
+}
+
+/**
+ * 402 Payment Required response for a blocked request
+ */
+export function budgetExceededResponse(status: BudgetStatus, service: BudgetedService): NextResponse {
+  return NextResponse.json(
+    {
+      error: getBudgetExceededMessage(status),
+      code: "BUDGET_EXCEEDED",
+      limitType: "budget",
+      service,
+      budget: toStreamBudgetStatus(status),
+    },
+    { status: 402 }
+  );
+}
+
+/**
+ * Check the budget before a paid operation
+ * Returns a 402 response when a hard limit blocks it, otherwise null.
+ * Lookup failures never block the request.
+ */
+export async function checkBudgetLimit(userId: string, service: BudgetedService): Promise<NextResponse | null> {
+  try {
+    const status = await getBudgetStatus(userId);
+
+    if (status.alertTriggered) {
+      console.log(`💰 Budget alert for ${userId}: ${status.percentageUsed.toFixed(0)}% used (${service})`);
+    }
+
+    if (!status.allowed) {
+      console.log(`🚫 Budget hard limit reached for ${userId} (${service})`);
+      return budgetExceededResponse(status, service);
+    }
+
+    return null;
+  } catch (error) {
+    console.error("Error checking budget:", error);
+    return null;
+  }
+}
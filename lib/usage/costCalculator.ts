@@ -1,25 +1,27 @@
-import { CLAUDE_COSTS, ELEVENLABS_COSTS } from "../constants";
-import { CostCalculation } from "@/types/usage";
+/**
+ * Cost Calculator
+ * The single pricing engine - every usage log and re-pricing run goes
+ * through these functions, which read prices from the versioned tables
+ * in ./pricing.
+ */
+
+import { CLAUDE_MODELS } from "../constants";
+import { CostCalculation, UsageLog } from "@/types/usage";
+import { getPriceTable, getTokenRates } from "./pricing";
+
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens?: number; // Prompt cache reads
+  cacheWriteTokens?: number; // Prompt cache writes
+}
 
 export function calculateClaudeHaikuCost(
   inputTokens: number,
   outputTokens: number,
   cachedTokens: number = 0
 ): CostCalculation {
-  const inputCost = (inputTokens / 1_000_000) * CLAUDE_COSTS.HAIKU.INPUT;
-  const outputCost = (outputTokens / 1_000_000) * CLAUDE_COSTS.HAIKU.OUTPUT;
-  const cachedCost = (cachedTokens / 1_000_000) * CLAUDE_COSTS.HAIKU.CACHED_INPUT;
-  
-  return {
-    service: "claude-haiku",
-    tokens: { input: inputTokens, output: outputTokens, cached: cachedTokens },
-    cost: inputCost + outputCost + cachedCost,
-    breakdown: {
-      inputCost,
-      outputCost,
-      cachedCost,
-    },
-  };
+  return calculateModelCost("anthropic", CLAUDE_MODELS.HAIKU, { inputTokens, outputTokens, cachedTokens });
 }
 
 export function calculateClaudeSonnetCost(
@@ -27,35 +29,170 @@ export function calculateClaudeSonnetCost(
   outputTokens: number,
   cachedTokens: number = 0
 ): CostCalculation {
-  const inputCost = (inputTokens / 1_000_000) * CLAUDE_COSTS.SONNET.INPUT;
-  const outputCost = (outputTokens / 1_000_000) * CLAUDE_COSTS.SONNET.OUTPUT;
-  const cachedCost = (cachedTokens / 1_000_000) * CLAUDE_COSTS.SONNET.CACHED_INPUT;
-  
+  return calculateModelCost("anthropic", CLAUDE_MODELS.SONNET, { inputTokens, outputTokens, cachedTokens });
+}
+
+/**
+ * Calculate cost for any provider/model pair
+ * Unknown models fall back to the provider's default rates
+ */
+export function calculateModelCost(
+  provider: string,
+  model: string,
+  tokens: TokenCounts,
+  at: Date = new Date()
+): CostCalculation {
+  const table = getPriceTable(at);
+  const rates = getTokenRates(table, provider, model);
+  const cachedTokens = tokens.cachedTokens || 0;
+  const cacheWriteTokens = tokens.cacheWriteTokens || 0;
+
+  const inputCost = (tokens.inputTokens / 1_000_000) * rates.input;
+  const outputCost = (tokens.outputTokens / 1_000_000) * rates.output;
+  const cachedCost = (cachedTokens / 1_000_000) * rates.cacheRead;
+  const cacheWriteCost = (cacheWriteTokens / 1_000_000) * rates.cacheWrite;
+
   return {
-    service: "claude-sonnet",
-    tokens: { input: inputTokens, output: outputTokens, cached: cachedTokens },
-    cost: inputCost + outputCost + cachedCost,
+    service: getModelService(provider, model, at),
+    tokens: { input: tokens.inputTokens, output: tokens.outputTokens, cached: cachedTokens, cacheWrite: cacheWriteTokens },
+    cost: inputCost + outputCost + cachedCost + cacheWriteCost,
+    pricingVersion: table.version,
     breakdown: {
       inputCost,
       outputCost,
       cachedCost,
+      cacheWriteCost,
     },
   };
 }
 
-export function calculateElevenLabsCost(characters: number): CostCalculation {
-  const characterCost = characters / ELEVENLABS_COSTS.CHARACTERS_PER_DOLLAR;
-  
+/**
+ * Map a provider/model pair to the usage log service name
+ * Claude models are named after the tier they are priced at, so models
+ * without their own price entry (e.g. Opus) log as the tier they are billed as.
+ */
+export function getModelService(provider: string, model: string, at: Date = new Date()): UsageLog["service"] {
+  if (provider === "openai-compatible") {
+    return "openai-compatible";
+  }
+
+  const table = getPriceTable(at);
+  const rates = getTokenRates(table, provider, model);
+  const haikuRates = getTokenRates(table, provider, CLAUDE_MODELS.HAIKU);
+  return rates.input === haikuRates.input && rates.output === haikuRates.output
+    ? "claude-haiku"
+    : "claude-sonnet";
+}
+
+export function calculateElevenLabsCost(characters: number, at: Date = new Date()): CostCalculation {
+  const table = getPriceTable(at);
+  const characterCost = characters * table.elevenlabs.perCharacter;
+
   return {
     service: "elevenlabs",
     characters,
     cost: characterCost,
+    pricingVersion: table.version,
     breakdown: {
       characterCost,
     },
   };
 }
 
+export function calculateSearchCost(searchCalls: number, at: Date = new Date()): CostCalculation {
+  const table = getPriceTable(at);
+  const searchCost = searchCalls * table.search.perCall;
+
+  return {
+    service: "brave-search",
+    searchCalls,
+    cost: searchCost,
+    pricingVersion: table.version,
+    breakdown: {
+      searchCost,
+    },
+  };
+}
+
+/**
+ * Price a chat turn: model tokens plus any web searches it made
+ */
+export function calculateTurnCost(
+  provider: string,
+  model: string,
+  tokens: TokenCounts,
+  searchCalls: number = 0,
+  at: Date = new Date()
+): CostCalculation {
+  const modelCost = calculateModelCost(provider, model, tokens, at);
+  if (searchCalls === 0) {
+    return modelCost;
+  }
+
+  const { breakdown } = calculateSearchCost(searchCalls, at);
+  return {
+    ...modelCost,
+    searchCalls,
+    cost: modelCost.cost + (breakdown.searchCost || 0),
+    breakdown: { ...modelCost.breakdown, searchCost: breakdown.searchCost },
+  };
+}
+
+// Older chat logs stored the tier name instead of the model id
+const LEGACY_MODEL_ALIASES: Record<string, string> = {
+  haiku: CLAUDE_MODELS.HAIKU,
+  sonnet: CLAUDE_MODELS.SONNET,
+};
+
+/**
+ * Model id to price a stored log at
+ * Logs without a priced Claude model id fall back to the model their service names.
+ */
+function resolveLoggedModel(log: UsageLog, provider: string, at: Date): string {
+  const serviceModel = log.service === "claude-sonnet" ? CLAUDE_MODELS.SONNET : CLAUDE_MODELS.HAIKU;
+  const stored = log.metadata?.model;
+  if (!stored) {
+    return serviceModel;
+  }
+
+  const model = LEGACY_MODEL_ALIASES[stored] || stored;
+  const isClaudeService = log.service === "claude-haiku" || log.service === "claude-sonnet";
+  const providerRates = getPriceTable(at).models[provider];
+  return isClaudeService && providerRates && !providerRates[model] ? serviceModel : model;
+}
+
+/**
+ * Re-price a stored usage log with the table in effect at its timestamp
+ */
+export function priceUsageLog(log: UsageLog): CostCalculation {
+  const at = new Date(log.timestamp);
+
+  if (log.service === "elevenlabs") {
+    return calculateElevenLabsCost(log.characters || 0, at);
+  }
+
+  if (log.service === "web-speech") {
+    const table = getPriceTable(at);
+    return { service: log.service, cost: 0, pricingVersion: table.version, breakdown: {} };
+  }
+
+  const provider = log.metadata?.provider || (log.service === "openai-compatible" ? "openai-compatible" : "anthropic");
+  const model = resolveLoggedModel(log, provider, at);
+
+  return calculateTurnCost(
+    provider,
+    model,
+    {
+      inputTokens: log.tokens?.input || 0,
+      outputTokens: log.tokens?.output || 0,
+      cachedTokens: log.tokens?.cached || 0,
+      cacheWriteTokens: log.tokens?.cacheWrite || 0,
+    },
+    log.searchCalls || 0,
+    at
+  );
+}
+
 export function formatCost(cost: number): string {
   if (cost < 0.01) {
     return `$${(cost * 1000).toFixed(4)}k`;
@@ -63,12 +200,17 @@ export function formatCost(cost: number): string {
   return `$${cost.toFixed(4)}`;
 }
 
+/**
+ * Amount saved by reading tokens from the prompt cache instead of paying full input price
+ */
 export function calculateSavingsFromCaching(
   cachedTokens: number,
-  model: "haiku" | "sonnet"
+  model: "haiku" | "sonnet",
+  at: Date = new Date()
 ): number {
-  const costs = model === "haiku" ? CLAUDE_COSTS.HAIKU : CLAUDE_COSTS.SONNET;
-  const fullCost = (cachedTokens / 1_000_000) * costs.INPUT;
-  const cachedCost = (cachedTokens / 1_000_000) * costs.CACHED_INPUT;
+  const modelId = model === "haiku" ? CLAUDE_MODELS.HAIKU : CLAUDE_MODELS.SONNET;
+  const rates = getTokenRates(getPriceTable(at), "anthropic", modelId);
+  const fullCost = (cachedTokens / 1_000_000) * rates.input;
+  const cachedCost = (cachedTokens / 1_000_000) * rates.cacheRead;
   return fullCost - cachedCost;
 }
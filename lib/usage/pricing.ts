@@ -0,0 +1,99 @@
+/**
+ * Price Tables
+ * Versioned prices for every billable service. Add a new table (with a later
+ * effectiveFrom) when a price changes instead of editing an old one, so
+ * historical usage logs can be re-priced against the prices of their day.
+ */
+
+import { CLAUDE_MODELS } from "../constants";
+
+export interface TokenRates {
+  input: number; // $ per 1M uncached input tokens
+  output: number; // $ per 1M output tokens
+  cacheRead: number; // $ per 1M tokens read from the prompt cache
+  cacheWrite: number; // $ per 1M tokens written to the prompt cache
+}
+
+export interface PriceTable {
+  version: string;
+  effectiveFrom: string; // ISO date (UTC) the prices apply from
+  // Keyed by provider, then model id; "default" applies to unlisted models
+  models: Record<string, Record<string, TokenRates>>;
+  elevenlabs: {
+    perCharacter: number; // $5/month plan for 30,000 characters
+  };
+  search: {
+    perCall: number; // Brave Search API, per query
+  };
+}
+
+const CLAUDE_HAIKU_RATES: TokenRates = { input: 1.0, output: 5.0, cacheRead: 0.1, cacheWrite: 1.25 };
+const CLAUDE_SONNET_RATES: TokenRates = { input: 3.0, output: 15.0, cacheRead: 0.3, cacheWrite: 3.75 };
+
+/**
+ * All price tables, oldest first
+ */
+export const PRICE_TABLES: PriceTable[] = [
+  {
+    version: "2025-10-01",
+    effectiveFrom: "2025-10-01",
+    models: {
+      anthropic: {
+        [CLAUDE_MODELS.HAIKU]: CLAUDE_HAIKU_RATES,
+        [CLAUDE_MODELS.SONNET]: CLAUDE_SONNET_RATES,
+        default: CLAUDE_SONNET_RATES,
+      },
+      "openai-compatible": {
+        "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075, cacheWrite: 0.15 },
+        "gpt-4o": { input: 2.5, output: 10.0, cacheRead: 1.25, cacheWrite: 2.5 },
+        default: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 }, // Self-hosted models
+      },
+      // Offline mock reports Claude model ids and is priced like Claude so
+      // usage/cost paths behave the same as in production
+      mock: {
+        [CLAUDE_MODELS.HAIKU]: CLAUDE_HAIKU_RATES,
+        [CLAUDE_MODELS.SONNET]: CLAUDE_SONNET_RATES,
+        default: CLAUDE_HAIKU_RATES,
+      },
+    },
+    elevenlabs: {
+      perCharacter: 5.0 / 30000,
+    },
+    search: {
+      perCall: 0.005,
+    },
+  },
+];
+
+/**
+ * Get the price table in effect at a point in time
+ * Times before the first table use the first table.
+ */
+export function getPriceTable(at: Date = new Date()): PriceTable {
+  let table = PRICE_TABLES[0];
+
+  for (const candidate of PRICE_TABLES) {
+    if (new Date(candidate.effectiveFrom).getTime() <= at.getTime()) {
+      table = candidate;
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Get the token rates for a provider/model pair from a price table
+ * Unknown providers fall back to Anthropic, unknown models to the provider default
+ */
+export function getTokenRates(table: PriceTable, provider: string, model: string): TokenRates {
+  const providerRates = table.models[provider] || table.models.anthropic;
+  return providerRates[model] || providerRates.default;
+}
+
+/**
+ * Check whether a model has its own entry in the current price table
+ * (rather than being charged at the provider default)
+ */
+export function hasModelPrice(provider: string, model: string, at: Date = new Date()): boolean {
+  return !!getPriceTable(at).models[provider]?.[model];
+}
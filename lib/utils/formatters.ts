@@ -67,6 +67,17 @@ export function truncate(text: string, maxLength: number): string {
   return text.slice(0, maxLength - 3) + "...";
 }
 
+/**
+ * Short display name for a model id (e.g. "claude-sonnet-4-5-20250929" -> "Sonnet")
+ */
+export function formatModelName(model: string): string {
+  const family = model.match(/claude-(haiku|sonnet|opus)/i);
+  if (family) {
+    return family[1].charAt(0).toUpperCase() + family[1].slice(1);
+  }
+  return model;
+}
+
 /**
  * Generate a random session ID
  */
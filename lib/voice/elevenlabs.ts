@@ -210,19 +210,6 @@ export async function* streamSpeechElevenLabs(
   }
 }
 
-/**
- * Calculate cost for ElevenLabs synthesis
- */
-export function calculateElevenLabsCost(characterCount: number): number {
-  const monthlyLimit = parseInt(process.env.ELEVENLABS_MONTHLY_LIMIT || "30000");
-  const monthlyCost = 5.0; // $5/month plan
-  
-  // Cost per character
-  const costPerCharacter = monthlyCost / monthlyLimit;
-  
-  return characterCount * costPerCharacter;
-}
-
 /**
  * Test ElevenLabs connection
  */
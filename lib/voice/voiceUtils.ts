@@ -4,7 +4,8 @@
  * Fallback: Web Speech API (free)
  */
 
-import { synthesizeSpeechElevenLabs, checkCharacterLimit, calculateElevenLabsCost } from "./elevenlabs";
+import { synthesizeSpeechElevenLabs, checkCharacterLimit } from "./elevenlabs";
+import { calculateElevenLabsCost } from "../usage/costCalculator";
 import { synthesizeSpeechWebSpeech, getBestVoice, isWebSpeechSupported } from "./webSpeech";
 
 export interface VoiceSynthesisResult {
@@ -86,7 +87,7 @@ async function tryElevenLabs(
     voiceId,
   });
 
-  const cost = calculateElevenLabsCost(characterCount);
+  const { cost } = calculateElevenLabsCost(characterCount);
 
   return {
     audio,
@@ -0,0 +1,36 @@
+/**
+ * Script to run the agent evolution job
+ * Analyzes the agents that need it most and saves pending proposals for
+ * their owners to review in the agent detail view
+ * Run with: npx tsx scripts/evolve-agents.ts [userId]
+ */
+
+import { runEvolutionJob } from "../lib/evolution/evolutionJob";
+
+async function evolveAgents() {
+  const userId = process.argv[2];
+  console.log("🧬 Starting agent evolution...", userId ? `(user: ${userId})` : "(all users)");
+
+  const { analyzed, proposals, skipped } = await runEvolutionJob({ userId });
+
+  console.log(`\n✅ Evolution complete!`);
+  console.log(`🔍 Analyzed ${analyzed} agent(s), ${proposals.length} proposal(s) saved`);
+
+  for (const proposal of proposals) {
+    console.log(`   ${proposal.agentName}: ${proposal.changes} change(s) to review`);
+  }
+
+  if (skipped.length > 0) {
+    console.log(`\n⏭️  Skipped:`);
+    for (const agent of skipped) {
+      console.log(`   ${agent.agentName}: ${agent.reason}`);
+    }
+  }
+
+  process.exit(0);
+}
+
+evolveAgents().catch((error) => {
+  console.error("❌ Error running agent evolution:", error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { findDuplicateAgents, mergeAgentProfiles } from "@/lib/ai/agentDuplicates";
+import { makeAgent } from "../helpers/factories";
+
+const agents = [
+  makeAgent("a1", "Dr. Ernesto Lee - AI Educator", "AI educator teaching machine learning and deep learning", ["artificial intelligence", "machine learning", "education"], 10),
+  makeAgent("a2", "Dr. Storm - Meteorologist", "Weather forecasting and climate expert", ["weather", "forecasting", "climate"]),
+  makeAgent("a3", "Chef Marco", "Italian cooking and recipes", ["cooking", "recipes", "pasta"]),
+];
+
+describe("findDuplicateAgents", () => {
+  it("matches a short name against the full agent name", () => {
+    expect(findDuplicateAgents({ name: "Dr. Lee" }, agents)[0]?.agentId).toBe("a1");
+  });
+
+  it("matches a topic without the role", () => {
+    expect(findDuplicateAgents({ name: "Dr. Ernesto Lee" }, agents)[0]?.agentId).toBe("a1");
+  });
+
+  it("matches an overlapping profile despite a new name", () => {
+    const duplicates = findDuplicateAgents({
+      name: "Weather Wizard",
+      description: "Expert in weather forecasting and climate patterns",
+      expertise: ["weather", "forecasting", "meteorology"],
+    }, agents);
+    expect(duplicates[0]?.agentId).toBe("a2");
+  });
+
+  it("finds no duplicates for an unrelated agent", () => {
+    expect(findDuplicateAgents({ name: "Penny - Financial Advisor", expertise: ["investing"] }, agents)).toHaveLength(0);
+  });
+
+  it("does not report an agent as its own duplicate", () => {
+    expect(findDuplicateAgents(agents[2], agents)).toHaveLength(0);
+  });
+});
+
+describe("mergeAgentProfiles", () => {
+  const source = makeAgent("a4", "Dr. Lee", "AI educator", ["Machine Learning", "neural networks"], 30);
+  source.performanceMetrics.successRate = 1;
+  source.knowledgeBase.facts = ["Writes on Medium"];
+  const merged = mergeAgentProfiles(agents[0], source);
+
+  it("unions expertise ignoring case", () => {
+    expect(merged.expertise).toHaveLength(4);
+    expect(merged.expertise).toContain("neural networks");
+  });
+
+  it("combines facts", () => {
+    expect(merged.knowledgeBase.facts).toContain("Writes on Medium");
+  });
+
+  it("sums questions and weights the success rate", () => {
+    expect(merged.performanceMetrics.questionsHandled).toBe(40);
+    expect(merged.performanceMetrics.successRate).toBe(0.75);
+  });
+});
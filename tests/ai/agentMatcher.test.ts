@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  embeddingMatchStrategy,
+  keywordMatchStrategy,
+  matchAgent,
+  type MatchStrategy,
+} from "@/lib/ai/agentMatcher";
+import { makeAgent } from "../helpers/factories";
+
+const agents = [
+  makeAgent("a1", "Dr. Storm - Meteorologist", "Weather forecasting and climate expert", ["weather", "forecasting", "climate"]),
+  makeAgent("a2", "Chef Marco", "Italian cooking and recipes", ["cooking", "recipes", "pasta"]),
+  makeAgent("a3", "Penny - Financial Advisor", "Personal finance, investing and retirement planning", ["investing", "stocks", "retirement"]),
+];
+
+const failing: MatchStrategy = {
+  name: "llm",
+  timeoutMs: 1000,
+  async match() {
+    throw new Error("Simulated API failure");
+  },
+};
+
+const hanging: MatchStrategy = {
+  name: "llm",
+  timeoutMs: 50,
+  match: () => new Promise(() => {}),
+};
+
+describe("matchAgent", () => {
+  it("answers with the LLM strategy first (mock fixture)", async () => {
+    const result = await matchAgent("Will it rain tomorrow?", agents, []);
+    expect(result.method).toBe("llm");
+    expect(result.matchedAgent?._id).toBe("a1");
+  });
+
+  it("asks for clarification with quick replies on an ambiguous question", async () => {
+    const result = await matchAgent("Which one is best?", agents, []);
+    expect(result.needsClarification).toBe(true);
+    expect(result.suggestion).toBeTruthy();
+    expect(result.interpretations?.length).toBeGreaterThan(0);
+  });
+
+  it("falls back to embeddings when the LLM fails", async () => {
+    const result = await matchAgent("What's the weather forecast for Madrid tomorrow?", agents, [], {
+      strategies: [failing, embeddingMatchStrategy, keywordMatchStrategy],
+    });
+    expect(result.method).toBe("embedding");
+    expect(result.matchedAgent?._id).toBe("a1");
+  });
+
+  it("falls back to keywords when a strategy times out", async () => {
+    const result = await matchAgent("Should I invest in stocks for retirement?", agents, [], {
+      strategies: [hanging, keywordMatchStrategy],
+    });
+    expect(result.method).toBe("keyword");
+    expect(result.matchedAgent?._id).toBe("a3");
+  });
+
+  it("skips the embedding match for an unrelated question", async () => {
+    const result = await matchAgent("Who won the football match yesterday?", agents, [], {
+      strategies: [failing, embeddingMatchStrategy, keywordMatchStrategy],
+    });
+    expect(result.method).toBe("keyword");
+    expect(result.matchedAgent).toBeFalsy();
+  });
+
+  it("returns no match when every strategy fails", async () => {
+    const result = await matchAgent("Anything", agents, [], { strategies: [failing] });
+    expect(result.matchedAgent).toBeNull();
+    expect(result.method).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { assertPublicBaseUrl, BaseUrlError, getBaseUrlProblem } from "@/lib/ai/providers/baseUrl";
+
+describe("getBaseUrlProblem", () => {
+  it("allows public https servers", () => {
+    expect(getBaseUrlProblem("https://api.openai.com/v1")).toBeNull();
+    expect(getBaseUrlProblem("https://8.8.8.8/v1")).toBeNull();
+  });
+
+  it("requires https", () => {
+    expect(getBaseUrlProblem("http://api.openai.com/v1")).toMatch(/https/);
+    expect(getBaseUrlProblem("file:///etc/passwd")).toMatch(/https/);
+  });
+
+  it("rejects invalid URLs", () => {
+    expect(getBaseUrlProblem("not a url")).toMatch(/valid/);
+  });
+
+  it.each([
+    "https://localhost:11434/v1",
+    "https://ollama.localhost/v1",
+    "https://metadata.google.internal/v1",
+    "https://127.0.0.1/v1",
+    "https://10.1.2.3/v1",
+    "https://172.20.0.1/v1",
+    "https://192.168.1.10/v1",
+    "https://169.254.169.254/latest",
+    "https://0.0.0.0/v1",
+    "https://[::1]/v1",
+    "https://[fd00::1]/v1",
+    "https://[fe80::1]/v1",
+    "https://[::ffff:127.0.0.1]/v1",
+  ])("rejects %s", (url) => {
+    expect(getBaseUrlProblem(url)).not.toBeNull();
+  });
+});
+
+describe("assertPublicBaseUrl", () => {
+  it("throws a BaseUrlError for a private address", async () => {
+    await expect(assertPublicBaseUrl("https://10.0.0.1/v1")).rejects.toBeInstanceOf(BaseUrlError);
+  });
+
+  it("accepts a public address without a lookup", async () => {
+    await expect(assertPublicBaseUrl("https://1.1.1.1/v1")).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Labelled messages for the rule-based intent classifier
+ * Checked by tests/ai/intentRules.test.ts; add a fixture whenever a
+ * misclassified message is fixed.
+ */
+
+import type { IntentDomain, IntentKind, IntentRecency, SearchFreshness } from "@/types/intent";
+
+export interface IntentFixture {
+  message: string;
+  expect: {
+    kinds: IntentKind[]; // Exact list, in order
+    agentName?: string;
+    skillTopic?: string;
+    recency?: IntentRecency;
+    freshness?: SearchFreshness;
+    domain?: IntentDomain;
+  };
+}
+
+export const INTENT_FIXTURE_AGENTS = [
+  { name: "Dr. Ernesto Lee - AI Educator" },
+  { name: "Dr. Storm - Meteorologist" },
+  { name: "Penny - Financial Advisor" },
+];
+
+export const INTENT_FIXTURES: IntentFixture[] = [
+  // Skill requests
+  {
+    message: "Add a skill about neural networks to Dr. Ernesto Lee",
+    expect: { kinds: ["add_skill"], agentName: "Dr. Ernesto Lee - AI Educator", skillTopic: "neural networks" },
+  },
+  {
+    message: "Can you create a European Weather skill for Dr. Storm?",
+    expect: { kinds: ["add_skill"], agentName: "Dr. Storm - Meteorologist", skillTopic: "European Weather" },
+  },
+  {
+    message: "Teach Penny a skill called crypto taxes",
+    expect: { kinds: ["add_skill"], agentName: "Penny - Financial Advisor", skillTopic: "crypto taxes" },
+  },
+  {
+    message: "What skills does Dr. Storm have?",
+    expect: { kinds: ["general"], agentName: "Dr. Storm - Meteorologist" },
+  },
+
+  // Pricing
+  {
+    message: "How much is a room at the Monte Carlo hotel?",
+    expect: { kinds: ["pricing"], domain: "travel", recency: "any" },
+  },
+  {
+    message: "What is the cheapest price for an iPhone 16?",
+    expect: { kinds: ["pricing"], domain: "shopping" },
+  },
+  {
+    message: "What's the current price of Bitcoin?",
+    expect: { kinds: ["pricing"], domain: "finance" },
+  },
+  {
+    message: "Can you generate an accurate summary of this?",
+    expect: { kinds: ["general"], domain: "general" },
+  },
+
+  // Publications
+  {
+    message: "What is the latest article Dr. Ernesto Lee wrote on Medium?",
+    expect: { kinds: ["publications"], agentName: "Dr. Ernesto Lee - AI Educator", recency: "latest" },
+  },
+  {
+    message: "List the papers published on transformers this year",
+    expect: { kinds: ["publications"], domain: "research", freshness: "py" },
+  },
+  {
+    message: "Show me your blog posts",
+    expect: { kinds: ["publications"], recency: "any" },
+  },
+
+  // Recency and freshness
+  {
+    message: "What's the weather forecast for today?",
+    expect: { kinds: ["general"], freshness: "pd", recency: "any" },
+  },
+  {
+    message: "Any recent news about hotel prices this week?",
+    expect: { kinds: ["pricing"], recency: "latest", freshness: "pw", domain: "travel" },
+  },
+  {
+    message: "I knew the answer already",
+    expect: { kinds: ["general"], recency: "any" },
+  },
+
+  // General
+  {
+    message: "Explain how photosynthesis works",
+    expect: { kinds: ["general"], domain: "general" },
+  },
+];
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { classifyIntentWithRules } from "@/lib/ai/intentRules";
+import { INTENT_FIXTURE_AGENTS, INTENT_FIXTURES } from "./fixtures/intentFixtures";
+
+describe("classifyIntentWithRules", () => {
+  it.each(INTENT_FIXTURES)("$message", ({ message, expect: expected }) => {
+    const intent = classifyIntentWithRules(message, INTENT_FIXTURE_AGENTS);
+    const { kinds, ...slots } = expected;
+
+    expect(intent.kinds).toEqual(kinds);
+    expect(intent.slots).toMatchObject(slots);
+  });
+});
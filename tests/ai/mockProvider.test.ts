@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { testClaudeConnection, runToolLoopHaiku, streamToolLoopHaiku } from "@/lib/ai/claude";
+import { generateAgentProfile } from "@/lib/ai/agentCreator";
+import { createChatToolRegistry } from "@/lib/ai/tools";
+
+// AI_MOCK=true is set for every test in vitest.config.ts
+describe("offline mock provider", () => {
+  it("passes the connection test", async () => {
+    expect(await testClaudeConnection()).toBe(true);
+  });
+
+  it("generates an agent profile from a fixture", async () => {
+    const profile = await generateAgentProfile("Mock Topic", "Offline test");
+    expect(profile.name).toBe("Mock Specialist");
+  });
+
+  it("runs the calculator in the tool loop", async () => {
+    const reply = await runToolLoopHaiku("Please calculate the total", { registry: createChatToolRegistry({}) });
+    expect(reply.toolCalls).toBe(1);
+    expect(reply.content).toContain("84");
+  });
+
+  it("streams word deltas and then completes", async () => {
+    const events: string[] = [];
+    for await (const event of streamToolLoopHaiku("Hello there", { registry: createChatToolRegistry({}) })) {
+      events.push(event.type);
+    }
+
+    expect(events.filter((type) => type === "text").length).toBeGreaterThan(1);
+    expect(events[events.length - 1]).toBe("complete");
+  });
+});
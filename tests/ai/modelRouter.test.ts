@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { chooseModelTier } from "@/lib/ai/modelRouter";
+import { MODEL_ROUTING } from "@/lib/constants";
+
+const complex = { score: MODEL_ROUTING.ESCALATION_SCORE, reasons: ["contains code"] };
+const simple = { score: 0, reasons: [] };
+
+describe("chooseModelTier", () => {
+  it("answers simple questions with the fast tier", () => {
+    expect(chooseModelTier(simple)).toMatchObject({ tier: "fast", escalated: false });
+  });
+
+  it("escalates complex questions to the quality tier", () => {
+    expect(chooseModelTier(complex)).toMatchObject({ tier: "quality", escalated: true });
+  });
+
+  it("does not escalate when a fixed model answers every tier", () => {
+    const decision = chooseModelTier(complex, { fixedModel: "gpt-4o-mini" });
+
+    expect(decision).toMatchObject({ tier: "fast", escalated: false, blockedByBudget: false });
+    expect(decision.reasons).toContain("fixed model (gpt-4o-mini)");
+  });
+
+  it("keeps the agent's tier without reporting an escalation", () => {
+    expect(chooseModelTier(simple, { agentTier: "quality", fixedModel: "gpt-4o" }))
+      .toMatchObject({ tier: "quality", escalated: false });
+  });
+
+  it("stops escalating past the budget cutoff", () => {
+    expect(chooseModelTier(complex, { budgetPercentUsed: MODEL_ROUTING.BUDGET_CUTOFF_PERCENT }))
+      .toMatchObject({ tier: "fast", escalated: false, blockedByBudget: true });
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+// Read by the constants at import time
+vi.hoisted(() => {
+  process.env.OPENAI_COMPATIBLE_API_KEY = "operator-key";
+});
+
+import { createOpenAICompatibleProvider } from "@/lib/ai/providers/openaiCompatible";
+import type { ChatModelRequest } from "@/lib/ai/providers/types";
+
+const completion = {
+  model: "gpt-4o-mini",
+  choices: [{ message: { content: "OK" }, finish_reason: "stop" }],
+  usage: { prompt_tokens: 1, completion_tokens: 1 },
+};
+
+function stubFetch() {
+  const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify(completion), { status: 200 }));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+function sentHeaders(fetchMock: ReturnType<typeof stubFetch>): Record<string, string> {
+  return fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+}
+
+const request: ChatModelRequest = {
+  tier: "fast",
+  messages: [{ role: "user", content: "Hi" }],
+  maxTokens: 16,
+  temperature: 0,
+};
+
+describe("createOpenAICompatibleProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends the operator's key to the operator's server", async () => {
+    const fetchMock = stubFetch();
+    await createOpenAICompatibleProvider().createMessage(request);
+
+    expect(sentHeaders(fetchMock).Authorization).toBe("Bearer operator-key");
+  });
+
+  it("sends no Authorization header to a user's base URL without a user key", async () => {
+    const fetchMock = stubFetch();
+    await createOpenAICompatibleProvider({ baseUrl: "https://1.1.1.1/v1" }).createMessage(request);
+
+    expect(fetchMock.mock.calls[0][0]).toBe("https://1.1.1.1/v1/chat/completions");
+    expect(sentHeaders(fetchMock)).not.toHaveProperty("Authorization");
+  });
+
+  it("sends the user's own key to the user's base URL", async () => {
+    const fetchMock = stubFetch();
+    await createOpenAICompatibleProvider({ baseUrl: "https://1.1.1.1/v1", apiKey: "user-key" }).createMessage(request);
+
+    expect(sentHeaders(fetchMock).Authorization).toBe("Bearer user-key");
+  });
+});
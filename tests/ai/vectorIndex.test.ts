@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createLocalEmbedder } from "@/lib/ai/embeddings";
+import { shortlistAgents, shortlistSkills } from "@/lib/ai/vectorIndex";
+import { makeAgent, makeSkill } from "../helpers/factories";
+
+const embedder = createLocalEmbedder();
+
+const agents = [
+  makeAgent("a1", "Dr. Storm - Meteorologist", "Weather forecasting and climate expert", ["weather", "forecasting", "climate"]),
+  makeAgent("a2", "Chef Marco", "Italian cooking and recipes", ["cooking", "recipes", "pasta"]),
+  makeAgent("a3", "Penny - Financial Advisor", "Personal finance, investing and retirement planning", ["investing", "stocks", "retirement"]),
+  makeAgent("a4", "Coach Jay", "Strength training and fitness programs", ["fitness", "workouts", "nutrition"]),
+];
+const skills = [
+  makeSkill("s1", "a1", "European Weather", "Forecasts for Spain, France, Germany and the rest of Europe", ["europe", "forecast"]),
+  makeSkill("s2", "a3", "Cryptocurrency", "Bitcoin, Ethereum and crypto market analysis", ["crypto", "bitcoin"]),
+  makeSkill("s3", "a2", "Baking", "Bread, pastry and dessert baking techniques", ["bread", "dessert"]),
+];
+
+describe("shortlistAgents", () => {
+  it("ranks the meteorologist first for a weather question", async () => {
+    const weather = await shortlistAgents("What's the weather forecast for Madrid tomorrow?", agents, skills, { embedder, topK: 2 });
+
+    expect(weather.agents[0]?.item._id).toBe("a1");
+    // Only skills of shortlisted agents are kept
+    for (const skill of weather.skills) {
+      expect(weather.agents.some((scored) => scored.item._id === skill.agentId)).toBe(true);
+    }
+  });
+
+  it("pulls in an agent through a matching skill", async () => {
+    const crypto = await shortlistAgents("Should I buy bitcoin now?", agents, skills, { embedder, topK: 1 });
+    expect(crypto.agents[0]?.item._id).toBe("a3");
+  });
+});
+
+describe("shortlistSkills", () => {
+  it("finds the baking skill", async () => {
+    const baking = await shortlistSkills("How do I bake sourdough bread?", skills, { embedder });
+    expect(baking[0]?.item._id).toBe("s3");
+  });
+
+  it("shortlists no skills for an unrelated message", async () => {
+    const unrelated = await shortlistSkills("Translate this sentence into Japanese", skills, { embedder });
+    expect(unrelated).toHaveLength(0);
+  });
+});
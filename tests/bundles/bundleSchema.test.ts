@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  AgentBundleError,
+  resolveAgentName,
+  validateAgentBundle,
+  validateGenerationSettings,
+  validateModelConfig,
+} from "@/lib/bundles/bundleSchema";
+import { BUNDLE_DEFAULTS, CLAUDE_MODELS, GENERATION_DEFAULTS } from "@/lib/constants";
+
+function makeBundle(): Record<string, unknown> {
+  return {
+    format: BUNDLE_DEFAULTS.FORMAT,
+    version: BUNDLE_DEFAULTS.VERSION,
+    exportedAt: "2026-01-01T00:00:00.000Z",
+    agent: {
+      sourceId: "agent-1",
+      name: "Chef Marco",
+      description: "Italian cooking and recipes",
+      expertise: ["cooking", "pasta"],
+      systemPrompt: "You are Chef Marco.",
+      knowledgeBase: { facts: ["Fresh pasta needs 00 flour"], sources: [], lastUpdated: "2026-01-01T00:00:00.000Z" },
+      capabilities: ["recipes"],
+      conversationStyle: { tone: "warm", vocabulary: "mixed", responseLength: "adaptive" },
+      modelConfig: { provider: "anthropic", model: CLAUDE_MODELS.HAIKU },
+    },
+    skills: [
+      {
+        sourceId: "skill-1",
+        name: "Pasta Shapes",
+        description: "Matching sauces to pasta shapes",
+        version: "1.0.0",
+        skillContent: "# Pasta Shapes",
+        resources: [{ filename: "shapes.md", content: "- penne", type: "markdown" }],
+        metadata: { dependencies: [], tags: ["pasta"], author: "marco", category: "cooking" },
+      },
+    ],
+    evolutionHistory: [
+      { date: "2026-01-02T00:00:00.000Z", improvement: "Added regional dishes", reason: "Users asked", changedFields: ["expertise"] },
+    ],
+  };
+}
+
+function problemsOf(input: unknown): string[] | null {
+  try {
+    validateAgentBundle(input);
+    return null;
+  } catch (error) {
+    if (!(error instanceof AgentBundleError)) throw error;
+    return [error.message, ...error.problems];
+  }
+}
+
+describe("validateAgentBundle", () => {
+  it("accepts a valid bundle", () => {
+    const bundle = validateAgentBundle(makeBundle());
+    expect(bundle.agent.name).toBe("Chef Marco");
+    expect(bundle.skills).toHaveLength(1);
+    expect(bundle.skills[0].resources[0]?.filename).toBe("shapes.md");
+  });
+
+  it("revives dates", () => {
+    const bundle = validateAgentBundle(makeBundle());
+    expect(bundle.agent.knowledgeBase.lastUpdated).toBeInstanceOf(Date);
+    expect(bundle.evolutionHistory?.[0].date).toBeInstanceOf(Date);
+  });
+
+  it("accepts a validated bundle after a JSON round trip", () => {
+    const bundle = validateAgentBundle(makeBundle());
+    expect(validateAgentBundle(JSON.parse(JSON.stringify(bundle))).agent.sourceId).toBe("agent-1");
+  });
+
+  it("rejects other JSON", () => {
+    expect(problemsOf({ messages: [] })?.[0]).toMatch(/^Not an agent bundle/);
+  });
+
+  it("rejects newer bundle versions", () => {
+    expect(problemsOf({ ...makeBundle(), version: BUNDLE_DEFAULTS.VERSION + 1 })?.[0]).toContain("newer");
+  });
+
+  it("reports every problem", () => {
+    const broken = makeBundle();
+    broken.agent = { ...(broken.agent as object), name: "", expertise: "cooking" };
+    broken.skills = [{ name: "No content" }];
+    expect(problemsOf(broken)).toHaveLength(4);
+  });
+
+  it("keeps a supported model override", () => {
+    expect(validateAgentBundle(makeBundle()).agent.modelConfig).toEqual({ provider: "anthropic", model: CLAUDE_MODELS.HAIKU });
+  });
+
+  it("rejects model overrides the app cannot run or price", () => {
+    const bundle = makeBundle();
+    bundle.agent = { ...(bundle.agent as object), modelConfig: { provider: "anthropic", model: "claude-opus-4-1" } };
+    expect(problemsOf(bundle)?.[1]).toContain("agent.modelConfig.model");
+  });
+});
+
+describe("resolveAgentName", () => {
+  it("keeps a free name", () => {
+    expect(resolveAgentName("Chef Marco", ["Dr. Storm"])).toBe("Chef Marco");
+  });
+
+  it("suffixes a taken name", () => {
+    expect(resolveAgentName("Chef Marco", ["chef marco"])).toBe("Chef Marco (2)");
+  });
+
+  it("skips taken suffixes", () => {
+    expect(resolveAgentName("Chef Marco", ["Chef Marco", "Chef Marco (2)"])).toBe("Chef Marco (3)");
+  });
+});
+
+describe("validateModelConfig", () => {
+  const check = (input: unknown) => {
+    const problems: string[] = [];
+    return { config: validateModelConfig(input, problems), problems };
+  };
+
+  it("accepts no override", () => {
+    expect(check(null)).toEqual({ config: null, problems: [] });
+  });
+
+  it("accepts priced Anthropic models and free-text OpenAI-compatible models", () => {
+    expect(check({ provider: "anthropic", model: CLAUDE_MODELS.SONNET }).problems).toEqual([]);
+    expect(check({ provider: "anthropic" }).config).toEqual({ provider: "anthropic" });
+    expect(check({ provider: "openai-compatible", model: "llama3.1:8b" }).problems).toEqual([]);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(check({ provider: "somewhere-else" }).problems).toHaveLength(1);
+  });
+
+  it("rejects Anthropic models without their own price", () => {
+    expect(check({ provider: "anthropic", model: "claude-opus-4-1" }).problems).toHaveLength(1);
+  });
+
+  it("rejects the mock provider outside development", () => {
+    expect(check({ provider: "mock" }).problems).toHaveLength(1);
+  });
+});
+
+describe("validateGenerationSettings", () => {
+  const check = (input: unknown) => {
+    const problems: string[] = [];
+    return { settings: validateGenerationSettings(input, problems), problems };
+  };
+
+  it("accepts settings within bounds", () => {
+    expect(check({ modelTier: "quality", temperature: 0.5, maxTokens: 1024 })).toEqual({
+      settings: { modelTier: "quality", temperature: 0.5, maxTokens: 1024 },
+      problems: [],
+    });
+  });
+
+  it("rejects out-of-range temperature and max tokens", () => {
+    const { settings, problems } = check({
+      temperature: GENERATION_DEFAULTS.MAX_TEMPERATURE + 1,
+      maxTokens: GENERATION_DEFAULTS.MAX_MAX_TOKENS * 10,
+    });
+    expect(settings).toBeNull();
+    expect(problems).toHaveLength(2);
+  });
+});
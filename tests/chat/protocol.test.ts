@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { createChatStreamDecoder, createChatStreamEncoder, parseChatStreamBlock } from "@/lib/chat/protocol";
+
+describe("chat stream protocol", () => {
+  it("round-trips a clarification event", () => {
+    const encoder = createChatStreamEncoder();
+    const decoder = createChatStreamDecoder();
+    const clarification = { question: "Which agent did you mean?", interpretations: ["Weather", "Cooking"] };
+
+    const events = [
+      ...decoder.push(encoder.encode({ type: "clarification", clarification })),
+      ...decoder.push(encoder.encode({ type: "done" })),
+      ...decoder.flush(),
+    ];
+
+    expect(events.map((event) => event.type)).toEqual(["clarification", "done"]);
+    expect(events[0]).toMatchObject({ id: 1, clarification });
+  });
+
+  it("ignores unknown event types", () => {
+    expect(parseChatStreamBlock('data: {"type":"unknown","v":1}')).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { getEvolutionUpdate, isStaleEvolutionChange } from "@/lib/evolution/proposals";
+import type { EvolutionFieldChange } from "@/types/evolution";
+import { makeAgent } from "../helpers/factories";
+
+const descriptionChange: EvolutionFieldChange = {
+  field: "description",
+  current: "Weather forecasting expert",
+  proposed: "Weather forecasting and climate expert",
+  status: "pending",
+};
+
+function agentAt(version: number, description: string) {
+  return { ...makeAgent("a1", "Dr. Storm", description, ["weather"]), version };
+}
+
+describe("isStaleEvolutionChange", () => {
+  it("accepts a text change when the agent has not changed", () => {
+    expect(isStaleEvolutionChange(agentAt(3, "Weather forecasting expert"), { agentVersion: 3 }, descriptionChange)).toBe(false);
+  });
+
+  it("accepts a text change when only other fields changed since", () => {
+    expect(isStaleEvolutionChange(agentAt(5, "Weather forecasting expert"), { agentVersion: 3 }, descriptionChange)).toBe(false);
+  });
+
+  it("flags a text change whose field was edited since the proposal", () => {
+    expect(isStaleEvolutionChange(agentAt(4, "Meteorologist and storm chaser"), { agentVersion: 3 }, descriptionChange)).toBe(true);
+  });
+
+  it("never flags list changes, which merge into the current list", () => {
+    const change: EvolutionFieldChange = { field: "expertise", current: ["weather"], proposed: ["weather", "climate"], status: "pending" };
+    const agent = { ...agentAt(4, "Weather forecasting expert"), expertise: ["weather", "storms"] };
+
+    expect(isStaleEvolutionChange(agent, { agentVersion: 3 }, change)).toBe(false);
+    expect(getEvolutionUpdate(agent, change)).toEqual({ expertise: ["weather", "storms", "climate"] });
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Minimal agents and skills for tests - only the fields a test cares about
+ * are arguments, the rest are empty defaults
+ */
+
+import type { Agent } from "@/types/agent";
+import type { AgentSkill } from "@/types/skill";
+
+export function makeAgent(
+  id: string,
+  name: string,
+  description: string,
+  expertise: string[],
+  questionsHandled = 0
+): Agent {
+  return {
+    _id: id,
+    name,
+    description,
+    expertise,
+    capabilities: [],
+    systemPrompt: "",
+    knowledgeBase: { facts: [], sources: [], lastUpdated: new Date() },
+    conversationStyle: { tone: "", vocabulary: "", responseLength: "" },
+    performanceMetrics: { questionsHandled, successRate: 0, avgResponseTime: 0, lastUsed: new Date() },
+    evolutionHistory: [],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    version: 1,
+    userId: "test@localhost.dev",
+  };
+}
+
+export function makeSkill(
+  id: string,
+  agentId: string,
+  name: string,
+  description: string,
+  tags: string[]
+): AgentSkill {
+  return {
+    _id: id,
+    agentId,
+    name,
+    description,
+    version: "1.0.0",
+    skillContent: "",
+    resources: [],
+    metadata: { dependencies: [], tags, author: "test", category: "general" },
+    usage: { timesInvoked: 0, lastUsed: new Date(), successRate: 0, averageResponseTime: 0 },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
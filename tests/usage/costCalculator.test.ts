@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { calculateModelCost, getModelService, priceUsageLog } from "@/lib/usage/costCalculator";
+import { CLAUDE_MODELS } from "@/lib/constants";
+import type { UsageLog } from "@/types/usage";
+
+const tokens = { inputTokens: 1_000_000, outputTokens: 0 };
+
+describe("getModelService", () => {
+  it("logs Haiku and Sonnet under their own service", () => {
+    expect(getModelService("anthropic", CLAUDE_MODELS.HAIKU)).toBe("claude-haiku");
+    expect(getModelService("anthropic", CLAUDE_MODELS.SONNET)).toBe("claude-sonnet");
+  });
+
+  it("logs unlisted Claude models as the tier they are charged at", () => {
+    const opus = calculateModelCost("anthropic", "claude-opus-4-1", tokens);
+    const sonnet = calculateModelCost("anthropic", CLAUDE_MODELS.SONNET, tokens);
+
+    expect(opus.service).toBe("claude-sonnet");
+    expect(opus.cost).toBe(sonnet.cost);
+  });
+
+  it("logs unlisted mock models as Haiku, like their price", () => {
+    expect(getModelService("mock", "mock-model")).toBe("claude-haiku");
+  });
+
+  it("keeps OpenAI-compatible models separate", () => {
+    expect(getModelService("openai-compatible", "gpt-4o")).toBe("openai-compatible");
+  });
+});
+
+describe("priceUsageLog", () => {
+  const log = (service: UsageLog["service"], model: string): UsageLog => ({
+    userId: "test@localhost.dev",
+    timestamp: new Date("2026-01-01T00:00:00.000Z"),
+    service,
+    endpoint: "/api/chat",
+    requestType: "chat",
+    tokens: { input: 1_000_000, output: 0, cached: 0 },
+    characters: 0,
+    cost: 1,
+    success: true,
+    metadata: { model, cachingEnabled: false },
+  });
+
+  it("prices legacy tier names as their Claude model", () => {
+    const haiku = priceUsageLog(log("claude-haiku", "haiku"));
+    const sonnet = priceUsageLog(log("claude-sonnet", "sonnet"));
+
+    expect(haiku).toMatchObject({ service: "claude-haiku", cost: 1 });
+    expect(sonnet).toMatchObject({ service: "claude-sonnet", cost: 3 });
+  });
+
+  it("prices unknown stored models as the model their service names", () => {
+    expect(priceUsageLog(log("claude-haiku", "claude-3-haiku"))).toMatchObject({ service: "claude-haiku", cost: 1 });
+  });
+
+  it("keeps the stored model id when it has a price", () => {
+    expect(priceUsageLog(log("claude-haiku", CLAUDE_MODELS.SONNET))).toMatchObject({ service: "claude-sonnet", cost: 3 });
+  });
+});
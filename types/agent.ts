@@ -1,4 +1,5 @@
 import { ObjectId } from "mongodb";
+import type { AgentModelConfig, ModelTier } from "./model";
 
 export interface Agent {
   _id?: ObjectId | string;
@@ -24,12 +25,28 @@ export interface Agent {
     lastUsed: Date;
   };
   evolutionHistory: Evolution[];
+  modelConfig?: AgentModelConfig | null; // Overrides the user's provider/model
+  generationSettings?: AgentGenerationSettings | null; // Overrides the user's AI settings
+  forkedFrom?: { agentId: string; ownerId: string; version: number } | null; // Copy of a shared agent
+  sharedBy?: string; // Owner's email - set (not stored) on agents the user subscribes to
   createdAt: Date;
   updatedAt: Date;
   version: number;
   userId: string;
 }
 
+/**
+ * Per-agent generation settings - unset fields fall back to the user's
+ * AI settings (or the chat defaults)
+ */
+export interface AgentGenerationSettings {
+  modelTier?: ModelTier;
+  temperature?: number;
+  maxTokens?: number;
+  responseLength?: "concise" | "normal" | "detailed";
+  enableCaching?: boolean;
+}
+
 export interface Evolution {
   date: Date;
   improvement: string;
@@ -37,12 +54,65 @@ export interface Evolution {
   changedFields: string[];
 }
 
+/**
+ * The editable part of an agent, as stored for each version
+ */
+export type AgentSnapshot = Pick<
+  Agent,
+  | "name"
+  | "description"
+  | "expertise"
+  | "systemPrompt"
+  | "knowledgeBase"
+  | "capabilities"
+  | "conversationStyle"
+  | "modelConfig"
+  | "generationSettings"
+>;
+
+/**
+ * Immutable snapshot of an agent at one version (agent_versions collection)
+ */
+export interface AgentVersion {
+  _id?: string;
+  agentId: string;
+  userId: string;
+  version: number;
+  snapshot: AgentSnapshot;
+  changedFields: string[];
+  reason: string;
+  createdAt: Date;
+}
+
+/**
+ * One field that differs between two agent versions
+ */
+export interface AgentFieldDiff {
+  field: string;
+  label: string;
+  kind: "text" | "list" | "value";
+  from: string;
+  to: string;
+  added: string[]; // List fields only
+  removed: string[];
+}
+
 export interface AgentMatchResult {
   matchedAgent: Agent | null;
   confidence: number;
   reasoning: string;
 }
 
+/**
+ * An existing agent that looks like the same agent as a new one
+ */
+export interface DuplicateAgentMatch {
+  agentId: string;
+  agentName: string;
+  score: number; // 0-1
+  reasons: string[];
+}
+
 export interface AgentCreationRequest {
   topic: string;
   initialPrompt: string;
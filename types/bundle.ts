@@ -0,0 +1,34 @@
+import type { Agent, AgentSnapshot, Evolution } from "./agent";
+import type { AgentSkill } from "./skill";
+
+/**
+ * A skill as stored in a bundle (sourceId is its id in the exporting account)
+ */
+export type BundledSkill = Pick<
+  AgentSkill,
+  "name" | "description" | "version" | "skillContent" | "resources" | "metadata"
+> & {
+  sourceId: string;
+};
+
+/**
+ * Portable agent bundle: the agent profile (including knowledge base facts),
+ * its skills and optionally its evolution history. Ids are the exporting
+ * account's and are remapped on import.
+ */
+export interface AgentBundle {
+  format: string; // BUNDLE_DEFAULTS.FORMAT
+  version: number; // Bundle schema version (BUNDLE_DEFAULTS.VERSION)
+  exportedAt: string;
+  agent: AgentSnapshot & { sourceId: string };
+  skills: BundledSkill[];
+  evolutionHistory?: Evolution[];
+}
+
+export interface AgentBundleImportResult {
+  agent: Agent;
+  skillCount: number;
+  renamedFrom: string | null; // Original name when it collided with an existing agent
+  idMap: Record<string, string>; // Bundle id -> new id, for the agent and each skill
+  warnings: string[];
+}
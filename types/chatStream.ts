@@ -0,0 +1,216 @@
+import type { Artifact } from "@/lib/artifacts/artifactDetector";
+import type { ModelProviderId, ModelTier } from "./model";
+import type { DelegationHop, PanelRole } from "./conversation";
+
+/**
+ * /api/chat streaming protocol
+ *
+ * Every event is sent as a standard server-sent event:
+ *
+ *   id: <event id>
+ *   data: <JSON ChatStreamEvent>
+ *
+ * The JSON body always carries `v` (protocol version) and `id` (per-stream
+ * sequence number starting at 1). Each stream ends with exactly one terminal
+ * event: `done` on success or `error` on failure. A `usage` event precedes
+ * `done` whenever the model was called.
+ *
+ * In panel mode several agents answer at once. Each answer is a labelled
+ * section opened by `section_start` and closed by `section_end`; content,
+ * model and tool events carrying a `section` id belong to that section and
+ * may interleave with other sections.
+ */
+export const CHAT_STREAM_PROTOCOL_VERSION = 1;
+
+export interface StreamAgentInfo {
+  id?: string;
+  name: string;
+  description: string;
+}
+
+export interface SuggestedAgent {
+  topic: string;
+  reasoning: string;
+  routingDecisionId?: string; // Report accept/decline against this decision
+}
+
+export interface SuggestedSkill {
+  agentId: string;
+  agentName: string;
+  skillName: string;
+  reasoning: string;
+  routingDecisionId?: string;
+}
+
+export interface ClarificationRequest {
+  question: string;
+  interpretations: string[]; // Shown as quick-reply buttons
+}
+
+export interface StreamModelInfo {
+  model: string;
+  provider: ModelProviderId;
+  tier: ModelTier;
+  escalated: boolean; // Automatically moved up to the quality tier
+  reasons: string[];
+}
+
+export interface StreamBudgetStatus {
+  spent: number;
+  monthlyBudget: number;
+  percentageUsed: number;
+  alertThreshold: number; // Percentage
+  exceeded: boolean;
+  hardLimit: boolean;
+}
+
+export interface StreamUsage {
+  model?: string;
+  tokens: {
+    input: number;
+    output: number;
+    cached: number;
+  };
+  cost: number;
+}
+
+/** Incremental assistant text */
+export interface ContentEvent {
+  type: "content";
+  text: string;
+  section?: string;
+}
+
+/** An existing agent is answering */
+export interface AgentUsedEvent {
+  type: "agent_used";
+  agent: StreamAgentInfo;
+}
+
+/** A new agent was created and is answering */
+export interface AgentCreatedEvent {
+  type: "agent_created";
+  agent: StreamAgentInfo;
+}
+
+/** The model answering this turn (sent before any content) */
+export interface ModelSelectedEvent {
+  type: "model_selected";
+  selection: StreamModelInfo;
+  section?: string;
+}
+
+/** The user is asked whether to create a new agent */
+export interface AgentSuggestionEvent {
+  type: "agent_suggestion";
+  suggestion: SuggestedAgent;
+}
+
+/** The user is asked whether to add a skill to an agent */
+export interface SkillSuggestionEvent {
+  type: "skill_suggestion";
+  suggestion: SuggestedSkill;
+}
+
+/** The question was too ambiguous - the next user message answers this */
+export interface ClarificationEvent {
+  type: "clarification";
+  clarification: ClarificationRequest;
+}
+
+/** No answer will follow until the user decides on a suggestion */
+export interface WaitingForDecisionEvent {
+  type: "waiting_for_decision";
+  message: string;
+}
+
+/** The model is calling a tool mid-answer */
+export interface ToolCallEvent {
+  type: "tool_call";
+  toolCallId: string;
+  name: string;
+  input: unknown;
+  section?: string;
+}
+
+/** A tool call finished; preview is a truncated copy of the output */
+export interface ToolResultEvent {
+  type: "tool_result";
+  toolCallId: string;
+  name: string;
+  isError: boolean;
+  durationMs: number;
+  preview: string;
+  section?: string;
+}
+
+/** Panel mode: a labelled answer section begins (agent is null for the moderator) */
+export interface SectionStartEvent {
+  type: "section_start";
+  section: string;
+  role: PanelRole;
+  agent: StreamAgentInfo | null;
+}
+
+/** Panel mode: a section finished; error is set if that panelist failed */
+export interface SectionEndEvent {
+  type: "section_end";
+  section: string;
+  error?: string;
+}
+
+/** The user has passed their budget alert threshold (soft limit) */
+export interface BudgetAlertEvent {
+  type: "budget_alert";
+  budget: StreamBudgetStatus;
+}
+
+/** Token usage and cost for the turn */
+export interface UsageEvent {
+  type: "usage";
+  usage: StreamUsage;
+}
+
+/** Terminal: the stream completed successfully */
+export interface DoneEvent {
+  type: "done";
+  sessionId?: string;
+  messageId?: string; // Saved reply - target for feedback
+  sectionMessageIds?: Record<string, string>; // Panel mode: saved reply per section
+  artifacts?: Artifact[];
+  delegations?: DelegationHop[]; // Agents the answering agent consulted
+  routingDecisionId?: string; // Explains why this agent answered
+}
+
+/** Terminal: the stream failed */
+export interface ErrorEvent {
+  type: "error";
+  error: string;
+  code?: string; // e.g. "BUDGET_EXCEEDED"
+  budget?: StreamBudgetStatus;
+}
+
+export type ChatStreamPayload =
+  | ContentEvent
+  | AgentUsedEvent
+  | AgentCreatedEvent
+  | ModelSelectedEvent
+  | AgentSuggestionEvent
+  | SkillSuggestionEvent
+  | ClarificationEvent
+  | WaitingForDecisionEvent
+  | ToolCallEvent
+  | ToolResultEvent
+  | SectionStartEvent
+  | SectionEndEvent
+  | BudgetAlertEvent
+  | UsageEvent
+  | DoneEvent
+  | ErrorEvent;
+
+export type ChatStreamEventType = ChatStreamPayload["type"];
+
+export type ChatStreamEvent = ChatStreamPayload & {
+  v: typeof CHAT_STREAM_PROTOCOL_VERSION;
+  id: number;
+};
@@ -1,12 +1,59 @@
+export type PanelRole = "panelist" | "moderator";
+
+export interface DelegationHop {
+  fromAgentId: string;
+  fromAgentName: string;
+  toAgentId: string;
+  toAgentName: string;
+  mode: "consult" | "handoff";
+  question: string;
+  depth: number; // 1 = delegated by the answering agent
+  model?: string;
+  cost: number;
+  success: boolean;
+}
+
+export type FeedbackRating = "up" | "down";
+
+/**
+ * The user's rating of an assistant reply
+ */
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  comment?: string;
+  ratedAt: Date;
+}
+
 export interface Message {
+  messageId?: string; // Assistant replies - identifies the reply for feedback
   role: "user" | "assistant" | "system";
   content: string;
   agentUsed: string | null; // Agent ID
   agentName?: string; // Agent display name
+  model?: string; // Model id that produced an assistant reply
+  panelRole?: PanelRole; // Set on panel-mode replies
+  delegations?: DelegationHop[]; // Agents consulted while answering, in call order
+  routingDecisionId?: string; // routing_decisions record explaining the agent choice
+  quickReplies?: string[]; // Clarifying question: interpretations offered as reply buttons
+  skillsUsed?: string[]; // Skill IDs matched into the system prompt
+  responseTimeMs?: number; // From the request arriving to the reply being complete
+  feedback?: MessageFeedback;
   timestamp: Date;
   voiceEnabled: boolean;
 }
 
+/**
+ * A question too ambiguous to route, waiting for the user's clarification
+ * The reply is merged into originalQuestion instead of being matched alone.
+ */
+export interface PendingClarification {
+  originalQuestion: string; // Includes any earlier clarifications
+  question: string; // What the assistant asked back
+  interpretations: string[]; // Offered as quick replies
+  rounds: number; // Clarifying questions asked for this question so far
+  askedAt: Date;
+}
+
 export interface Conversation {
   _id?: string;
   sessionId: string;
@@ -14,6 +61,9 @@ export interface Conversation {
   userEmail: string;
   messages: Message[];
   agentsSuggested: string[];
+  pinnedAgentId?: string | null; // Agent that answers every turn until unpinned
+  pinnedAgentName?: string;
+  pendingClarification?: PendingClarification | null; // Set while a clarifying question awaits a reply
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,38 @@
+export type EvolutionPriority = "low" | "medium" | "high";
+
+// Agent fields an evolution proposal may change ("facts"/"sources" live in knowledgeBase)
+export type EvolutionField = "description" | "systemPrompt" | "expertise" | "capabilities" | "facts" | "sources";
+
+export type EvolutionChangeStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * One proposed field change, reviewed on its own
+ * List fields hold the full list after the change.
+ */
+export interface EvolutionFieldChange {
+  field: EvolutionField;
+  current: string | string[];
+  proposed: string | string[];
+  status: EvolutionChangeStatus;
+  reviewedAt?: Date;
+}
+
+/**
+ * Improvements proposed for an agent by the evolution job, waiting for the
+ * owner's review (evolution_proposals collection)
+ */
+export interface EvolutionProposal {
+  _id?: string;
+  agentId: string;
+  agentName: string;
+  userId: string;
+  agentVersion: number; // Version the proposal was made against
+  priority: EvolutionPriority;
+  reasoning: string;
+  suggestions: string[]; // Free-text advice that maps to no field
+  knowledgeGaps: string[];
+  changes: EvolutionFieldChange[];
+  status: "pending" | "reviewed"; // Reviewed once no change is pending
+  createdAt: Date;
+  updatedAt: Date;
+}
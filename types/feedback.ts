@@ -0,0 +1,28 @@
+import type { FeedbackRating } from "./conversation";
+
+/**
+ * A user's rating of one assistant reply (answer_feedback collection)
+ * Keeps the question and answer so the evolution analysis can see what was
+ * rated without loading the conversation.
+ */
+export interface AnswerFeedback {
+  _id?: string;
+  userId: string;
+  sessionId: string;
+  messageId: string;
+  agentId: string | null;
+  agentName?: string;
+  skillIds: string[];
+  rating: FeedbackRating;
+  comment?: string;
+  question: string;
+  answer: string; // Truncated to FEEDBACK_DEFAULTS.MAX_ANSWER_LENGTH
+  responseTimeMs?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FeedbackStats {
+  positive: number;
+  total: number;
+}
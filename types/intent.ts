@@ -0,0 +1,28 @@
+export type IntentKind =
+  | "add_skill" // "Add a skill about X to <agent>"
+  | "pricing" // Prices, costs, rates, bookings
+  | "publications" // Articles, blog posts, papers someone wrote
+  | "general"; // No specific intent
+
+export type IntentDomain = "travel" | "shopping" | "finance" | "research" | "general";
+
+export type IntentRecency = "latest" | "any";
+
+export type SearchFreshness = "pd" | "pw" | "pm" | "py"; // Past day/week/month/year
+
+export interface IntentSlots {
+  agentName?: string; // Agent the message names (exact agent name)
+  skillTopic?: string; // add_skill: the skill to add
+  recency: IntentRecency;
+  freshness?: SearchFreshness; // Explicit time window ("this week")
+  domain: IntentDomain;
+}
+
+/**
+ * Structured intent of a chat message
+ */
+export interface ChatIntent {
+  kinds: IntentKind[]; // Every intent found, strongest first; ["general"] when none
+  slots: IntentSlots;
+  source: "rules" | "llm";
+}
@@ -0,0 +1,19 @@
+export type ModelProviderId = "anthropic" | "openai-compatible" | "mock";
+
+/**
+ * fast: cheap, low-latency model (Claude Haiku by default)
+ * quality: stronger, more expensive model (Claude Sonnet by default)
+ */
+export type ModelTier = "fast" | "quality";
+
+export interface ModelSelection {
+  provider: ModelProviderId;
+  model?: string; // Overrides the provider's default model for the tier
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string;
+}
+
+export interface AgentModelConfig {
+  provider: ModelProviderId;
+  model?: string;
+}
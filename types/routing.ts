@@ -0,0 +1,67 @@
+export type RoutingMethod = "llm" | "embedding" | "keyword" | "mention" | "pinned" | "skipped" | "none";
+
+export type SuggestionOutcome = "accepted" | "declined";
+
+export interface RoutingCandidate {
+  agentId: string;
+  agentName: string;
+  score?: number; // Embedding similarity or keyword score, when the method produces one
+}
+
+export interface RoutingSkillMatch {
+  skillId: string;
+  name: string;
+  relevanceScore: number;
+}
+
+export interface RoutingSuggestion {
+  type: "agent" | "skill";
+  name: string;
+  agentId?: string; // Agent the skill would be added to, or the agent created on accept
+  outcome?: SuggestionOutcome;
+  respondedAt?: Date;
+}
+
+/**
+ * One agent-matching decision for a chat message (routing_decisions collection)
+ */
+export interface RoutingDecision {
+  _id?: string;
+  userId: string;
+  conversationId?: string;
+  message: string;
+  method: RoutingMethod;
+  candidates: RoutingCandidate[]; // Agents the matcher considered
+  chosenAgentId: string | null;
+  chosenAgentName?: string;
+  confidence: number; // 0-1
+  reasoning: string;
+  panelAgentIds?: string[];
+  matchedSkills: RoutingSkillMatch[];
+  suggestion?: RoutingSuggestion; // Suggestion shown to the user, if any
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * How a user has answered suggestions for one topic
+ */
+export interface SuggestionFeedback {
+  type: "agent" | "skill";
+  name: string;
+  accepts: number;
+  declines: number; // Reset when the user accepts the topic
+  lastOutcomeAt: Date;
+}
+
+/**
+ * Per-user routing preferences learned from suggestion outcomes (routing_preferences collection)
+ */
+export interface RoutingPreferences {
+  _id?: string;
+  userId: string;
+  suggestions: Record<string, SuggestionFeedback>; // Keyed by suggestionKey(type, name)
+  agentAffinity: Record<string, number>; // Agent ID -> confidence boost
+  createdAt: Date;
+  updatedAt: Date;
+}
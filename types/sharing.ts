@@ -0,0 +1,43 @@
+export type AgentShareMode = "fork" | "subscribe";
+
+/**
+ * A share link for an agent (agent_shares collection)
+ * Anyone signed in can accept an open link; an invite only works for the
+ * email it was sent to. Revoking it also ends the subscriptions it created.
+ */
+export interface AgentShare {
+  _id?: string;
+  agentId: string;
+  agentName: string;
+  ownerId: string; // Owner's email
+  token: string;
+  email: string | null; // Invite-by-email; null for an open link
+  acceptedBy: string[]; // Lowercased user emails
+  createdAt: Date;
+  revokedAt: Date | null;
+}
+
+/**
+ * A live, read-only reference to another user's agent (agent_subscriptions collection)
+ */
+export interface AgentSubscription {
+  _id?: string;
+  agentId: string;
+  ownerId: string;
+  userId: string; // Subscriber's email
+  shareId: string;
+  createdAt: Date;
+}
+
+/**
+ * What a recipient sees before accepting a share
+ */
+export interface ShareInvitation {
+  token: string;
+  agentId: string;
+  agentName: string;
+  agentDescription: string;
+  expertise: string[];
+  ownerId: string;
+  createdAt: Date;
+}
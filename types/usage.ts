@@ -1,24 +1,39 @@
+import type { ModelTier } from "./model";
+
 export interface UsageLog {
   _id?: string;
   userId: string;
   timestamp: Date;
-  service: "claude-haiku" | "claude-sonnet" | "elevenlabs" | "web-speech";
+  service: "claude-haiku" | "claude-sonnet" | "openai-compatible" | "elevenlabs" | "web-speech";
   endpoint: string;
   requestType: "chat" | "agent-creation" | "agent-evolution" | "voice";
   tokens: {
     input: number;
     output: number;
-    cached: number;
+    cached: number; // Prompt cache reads
+    cacheWrite?: number; // Prompt cache writes
   };
   characters: number;
+  searchCalls?: number; // Web search API calls billed with this request
   cost: number;
+  pricingVersion?: string; // Price table the cost was calculated with
   success: boolean;
   errorMessage?: string;
   metadata: {
     agentId?: string;
     conversationId?: string;
     model: string;
+    provider?: string;
     cachingEnabled: boolean;
+    modelTier?: ModelTier;
+    temperature?: number;
+    maxTokens?: number;
+    responseLength?: string;
+    escalated?: boolean; // Automatically routed to the quality tier
+    routingReasons?: string[];
+    delegatedBy?: string; // Agent that consulted this agent
+    delegationChain?: string[]; // Agent IDs from the answering agent down to this one
+    responseTimeMs?: number; // Chat replies: request arrival to reply complete
   };
 }
 
@@ -55,13 +70,18 @@ export interface CostCalculation {
     input: number;
     output: number;
     cached: number;
+    cacheWrite?: number;
   };
   characters?: number;
+  searchCalls?: number;
   cost: number;
+  pricingVersion?: string;
   breakdown: {
     inputCost?: number;
     outputCost?: number;
     cachedCost?: number;
+    cacheWriteCost?: number;
     characterCost?: number;
+    searchCost?: number;
   };
 }
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    // Model calls go through the offline mock provider - tests never need an API key
+    env: { AI_MOCK: "true" },
+  },
+});